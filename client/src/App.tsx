@@ -1,10 +1,12 @@
 import React, { useState, useEffect } from 'react';
-import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { QueryClientProvider } from '@tanstack/react-query';
 import { Toaster } from '@/components/ui/toaster';
 import { ThemeProvider } from '@/components/ui/theme-provider';
 import { TooltipProvider } from '@/components/ui/tooltip';
 import { toast } from '@/hooks/use-toast';
+import { queryClient } from '@/lib/queryClient';
 import { useAuth } from '@/hooks/useAuth';
+import { useFocusGuard } from '@/hooks/useFocusGuard';
 import TrialLockModal from '@/components/TrialLockModal';
 
 // Components
@@ -40,16 +42,6 @@ import FocusMode from '@/pages/FocusMode';
 import EmailVerification from '@/pages/EmailVerification';
 import PaystackCheckout from '@/pages/PaystackCheckout';
 
-// Create query client
-const queryClient = new QueryClient({
-  defaultOptions: {
-    queries: {
-      staleTime: 1000 * 60 * 5, // 5 minutes
-      retry: 2,
-    },
-  },
-});
-
 function AppContent() {
   const { user, isLoading, login, register, logout, updateUser } = useAuth();
   const [authView, setAuthView] = useState<'landing' | 'login' | 'signup' | 'activate' | 'admin'>('landing');
@@ -67,6 +59,9 @@ function AppContent() {
   const [cbtSessionId, setCbtSessionId] = useState<string | null>(null);
   const [cbtResults, setCbtResults] = useState<any>(null);
 
+  // Count distractions while a focus session runs, in whichever section the student is
+  useFocusGuard(user?.id, currentSection, isCalculatorOpen);
+
   // Fetch subjects when user is authenticated
   React.useEffect(() => {
     if (user) {
@@ -77,6 +72,21 @@ function AppContent() {
     }
   }, [user]);
 
+  // Resume an unfinished CBT exam, e.g. after a refresh or dropped connection
+  React.useEffect(() => {
+    if (!user?.id) return;
+    fetch(`/api/cbt/sessions/active/${user.id}`, { credentials: 'include' })
+      .then(res => (res.ok ? res.json() : null))
+      .then(session => {
+        if (session?.startedAt && session.questions?.length > 0) {
+          setCbtSessionId(session.id);
+          setCbtMode('exam');
+          setCurrentSection('cbt');
+        }
+      })
+      .catch(err => console.error('Error checking for an active CBT session:', err));
+  }, [user?.id]);
+
   // Handle login
   const handleLogin = async (userData: { email: string; password: string }) => {
     try {
@@ -299,6 +309,7 @@ function AppContent() {
           {currentSection === 'leaderboard' && (
             <Leaderboard
               user={user}
+              onUserUpdate={updateUser}
               onBack={() => setCurrentSection('dashboard')}
             />
           )}
@@ -330,7 +341,7 @@ function AppContent() {
           )}
 
           {currentSection === 'progress' && (
-            <StudyProgressDashboard />
+            <StudyProgressDashboard user={user} />
           )}
 
           {currentSection === 'settings' && (
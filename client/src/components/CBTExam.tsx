@@ -14,6 +14,8 @@ import {
   Play,
   Home
 } from 'lucide-react';
+import { UTME_DURATION_SECONDS, UTME_MAX_AGGREGATE, type CbtSection, type CbtSubjectScore } from '@shared/utme';
+import { celebrateBadges } from '@/components/UserBadges';
 
 interface CBTExamProps {
   sessionId: string;
@@ -24,14 +26,33 @@ interface CBTExamProps {
 export default function CBTExam({ sessionId, onComplete, onExit }: CBTExamProps) {
   const [session, setSession] = useState<any>(null);
   const [questions, setQuestions] = useState<any[]>([]);
+  const [sections, setSections] = useState<CbtSection[]>([]);
+  const [currentSubjectIndex, setCurrentSubjectIndex] = useState(0);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [selectedAnswers, setSelectedAnswers] = useState<Record<number, string>>({});
-  const [timeRemaining, setTimeRemaining] = useState(7200); // 2 hours in seconds
+  const [timeRemaining, setTimeRemaining] = useState(UTME_DURATION_SECONDS);
   const [isPaused, setIsPaused] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const { toast } = useToast();
 
+  // Results come from the server-scored session, whether submitted here or auto-submitted at the time limit
+  const buildResults = (data: any) => {
+    const subjectScores: CbtSubjectScore[] = data.subjectScores || [];
+    return {
+      sessionId,
+      score: subjectScores.reduce((sum, s) => sum + s.correct, 0),
+      totalQuestions: data.questions?.length || 0,
+      timeSpent: (data.timeAllowed || UTME_DURATION_SECONDS) - (data.timeRemaining || 0),
+      selectedAnswers: data.userAnswers || {},
+      questions: data.questions || [],
+      subjectScores,
+      aggregateScore: data.aggregateScore,
+      report: data.report,
+      subjectBreakdown: Object.fromEntries(subjectScores.map(s => [s.subjectId, { correct: s.correct, total: s.total, subject: s.subject }]))
+    };
+  };
+
   // Load session data and questions
   useEffect(() => {
     const loadSession = async () => {
@@ -47,13 +68,27 @@ export default function CBTExam({ sessionId, onComplete, onExit }: CBTExamProps)
         const sessionData = await response.json();
         console.log('✅ Session loaded:', sessionData);
         
+        if (sessionData.isCompleted) {
+          // Time ran out while the candidate was away; the server has already submitted the exam
+          toast({ title: "Time Up", description: "Your exam was submitted automatically when time ran out." });
+          onComplete(buildResults(sessionData));
+          return;
+        }
+
         setSession(sessionData);
-        setTimeRemaining(sessionData.timeRemaining || 7200);
+        setTimeRemaining(sessionData.timeRemaining ?? UTME_DURATION_SECONDS);
+        setIsPaused(!!sessionData.isPaused);
+        setSelectedAnswers(Object.fromEntries(
+          Object.entries(sessionData.userAnswers || {}).map(([index, answer]) => [Number(index), answer as string])
+        ));
         
         // Check if session has questions already loaded
-        if (sessionData.questions && sessionData.questions.length > 0) {
-          console.log(`📝 Using ${sessionData.questions.length} pre-loaded questions from session`);
+        if (sessionData.questions && sessionData.questions.length > 0 && sessionData.sections?.length > 0) {
+          console.log(`📝 Using ${sessionData.questions.length} pre-loaded questions in ${sessionData.sections.length} sections`);
           setQuestions(sessionData.questions);
+          setSections(sessionData.sections);
+          setCurrentSubjectIndex(sessionData.currentSubjectIndex || 0);
+          setCurrentQuestionIndex(sessionData.currentQuestionIndex || 0);
           setIsLoading(false);
         } else {
           console.log('⚠️ No questions in session, session might not be properly started');
@@ -96,27 +131,101 @@ export default function CBTExam({ sessionId, onComplete, onExit }: CBTExamProps)
     return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   };
 
-  const handleAnswerSelect = (answerId: string) => {
+  const handleAnswerSelect = async (answerId: string) => {
+    const questionIndex = currentQuestionIndex;
     setSelectedAnswers(prev => ({
       ...prev,
-      [currentQuestionIndex]: answerId
+      [questionIndex]: answerId
     }));
+
+    try {
+      const response = await fetch(`/api/cbt/sessions/${sessionId}/answers`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ questionIndex, answer: answerId, subjectIndex: currentSubjectIndex })
+      });
+      const data = await response.json();
+      if (response.status === 409 && data.session?.isCompleted) {
+        onComplete(buildResults(data.session));
+        return;
+      }
+      if (!response.ok) throw new Error(data.message || 'Failed to save answer');
+      setTimeRemaining(data.timeRemaining);
+    } catch (error) {
+      console.error('Failed to save answer:', error);
+      toast({
+        title: "Answer Not Saved",
+        description: "Check your connection. Your answer will be lost if you leave the exam now.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const currentSection = sections[currentSubjectIndex];
+  const sectionEnd = currentSection ? currentSection.startIndex + currentSection.questionCount - 1 : questions.length - 1;
+  const isLastSection = currentSubjectIndex === sections.length - 1;
+
+  // Persist the candidate's place so the exam reopens on the same subject and question
+  const saveNavigation = (subjectIndex: number, questionIndex: number) => {
+    fetch(`/api/cbt/sessions/${sessionId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ currentSubjectIndex: subjectIndex, currentQuestionIndex: questionIndex })
+    }).catch(error => console.error('Failed to save exam position:', error));
+  };
+
+  const goToQuestion = (subjectIndex: number, questionIndex: number) => {
+    setCurrentSubjectIndex(subjectIndex);
+    setCurrentQuestionIndex(questionIndex);
+    saveNavigation(subjectIndex, questionIndex);
+  };
+
+  const handleSelectSubject = (subjectIndex: number) => {
+    if (subjectIndex === currentSubjectIndex) return;
+    goToQuestion(subjectIndex, sections[subjectIndex].startIndex);
   };
 
   const handlePreviousQuestion = () => {
-    if (currentQuestionIndex > 0) {
-      setCurrentQuestionIndex(currentQuestionIndex - 1);
+    if (currentSection && currentQuestionIndex > currentSection.startIndex) {
+      goToQuestion(currentSubjectIndex, currentQuestionIndex - 1);
     }
   };
 
   const handleNextQuestion = () => {
-    if (currentQuestionIndex < questions.length - 1) {
-      setCurrentQuestionIndex(currentQuestionIndex + 1);
+    if (currentQuestionIndex < sectionEnd) {
+      goToQuestion(currentSubjectIndex, currentQuestionIndex + 1);
+    } else if (!isLastSection) {
+      handleSelectSubject(currentSubjectIndex + 1);
+    }
+  };
+
+  const countAnswered = (section: CbtSection) => {
+    let answered = 0;
+    for (let i = section.startIndex; i < section.startIndex + section.questionCount; i++) {
+      if (selectedAnswers[i]) answered++;
     }
+    return answered;
   };
 
-  const handleTogglePause = () => {
-    setIsPaused(!isPaused);
+  const handleTogglePause = async () => {
+    try {
+      const response = await fetch(`/api/cbt/sessions/${sessionId}/${isPaused ? 'resume' : 'pause'}`, { method: 'POST' });
+      const data = await response.json();
+      if (response.status === 409 && data.session?.isCompleted) {
+        onComplete(buildResults(data.session));
+        return;
+      }
+      if (!response.ok) throw new Error(data.message);
+      setIsPaused(!!data.isPaused);
+      setTimeRemaining(data.timeRemaining);
+    } catch (error) {
+      console.error('Failed to toggle pause:', error);
+      toast({
+        title: "Connection Error",
+        description: "Could not reach the exam server. Please try again.",
+        variant: "destructive"
+      });
+    }
   };
 
   const calculateProgress = () => {
@@ -124,16 +233,6 @@ export default function CBTExam({ sessionId, onComplete, onExit }: CBTExamProps)
     return questions.length > 0 ? (answered / questions.length) * 100 : 0;
   };
 
-  const calculateScore = () => {
-    let correct = 0;
-    questions.forEach((question, index) => {
-      if (selectedAnswers[index] === question.correctAnswer) {
-        correct++;
-      }
-    });
-    return correct;
-  };
-
   const handleSubmitExam = async () => {
     if (isSubmitting) return;
     
@@ -146,28 +245,13 @@ export default function CBTExam({ sessionId, onComplete, onExit }: CBTExamProps)
     try {
       setIsSubmitting(true);
       
-      const score = calculateScore();
-      const results = {
-        sessionId,
-        score,
-        totalQuestions: questions.length,
-        timeSpent: 7200 - timeRemaining,
-        selectedAnswers,
-        questions,
-        subjectBreakdown: calculateSubjectBreakdown()
-      };
-
-      // Update session as completed
-      await fetch(`/api/cbt/sessions/${sessionId}`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          isCompleted: true,
-          timeRemaining: 0,
-          completedAt: new Date().toISOString()
-        })
-      });
+      // The server scores the answers it has saved and closes the exam clock
+      const response = await fetch(`/api/cbt/sessions/${sessionId}/submit`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || 'Failed to submit exam');
 
+      const results = buildResults(data);
+      celebrateBadges(data.unlockedBadges);
       onComplete(results);
     } catch (error) {
       console.error('Error submitting exam:', error);
@@ -181,32 +265,6 @@ export default function CBTExam({ sessionId, onComplete, onExit }: CBTExamProps)
     }
   };
 
-  const calculateSubjectBreakdown = () => {
-    if (!session?.selectedSubjects) return {};
-    
-    const breakdown: Record<string, { correct: number; total: number; subject: string }> = {};
-    
-    session.selectedSubjects.forEach((subject: any, subjectIndex: number) => {
-      const startIndex = subjectIndex * 40;
-      const endIndex = startIndex + 40;
-      let correct = 0;
-      
-      for (let i = startIndex; i < endIndex && i < questions.length; i++) {
-        if (selectedAnswers[i] === questions[i]?.correctAnswer) {
-          correct++;
-        }
-      }
-      
-      breakdown[subject.id] = {
-        correct,
-        total: Math.min(40, questions.length - startIndex),
-        subject: subject.name
-      };
-    });
-    
-    return breakdown;
-  };
-
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-900 via-indigo-900 to-purple-900 flex items-center justify-center">
@@ -236,6 +294,8 @@ export default function CBTExam({ sessionId, onComplete, onExit }: CBTExamProps)
 
   const currentQuestion = questions[currentQuestionIndex];
   const progress = calculateProgress();
+  const sectionQuestionNumber = currentSection ? currentQuestionIndex - currentSection.startIndex + 1 : currentQuestionIndex + 1;
+  const sectionQuestionTotal = currentSection?.questionCount || questions.length;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-gray-900 to-zinc-900">
@@ -256,7 +316,7 @@ export default function CBTExam({ sessionId, onComplete, onExit }: CBTExamProps)
               
               <div className="flex items-center gap-2">
                 <Badge variant="outline" className="text-white border-white">
-                  Question {currentQuestionIndex + 1} of {questions.length}
+                  Question {sectionQuestionNumber} of {sectionQuestionTotal}
                 </Badge>
                 <Badge variant="secondary" className="bg-blue-600 text-white">
                   {currentQuestion?.subject || 'General'}
@@ -288,9 +348,27 @@ export default function CBTExam({ sessionId, onComplete, onExit }: CBTExamProps)
           <div className="mt-4">
             <Progress value={progress} className="h-2" />
             <p className="text-white text-sm mt-1">
-              {Object.keys(selectedAnswers).length} of {questions.length} questions answered
+              {Object.keys(selectedAnswers).length} of {questions.length} questions answered · scored out of {UTME_MAX_AGGREGATE}
             </p>
           </div>
+
+          {/* Subject sections */}
+          <div className="flex flex-wrap gap-2 mt-4">
+            {sections.map((section, index) => (
+              <Button
+                key={section.subjectId}
+                size="sm"
+                variant={index === currentSubjectIndex ? "default" : "outline"}
+                onClick={() => handleSelectSubject(index)}
+                className={index === currentSubjectIndex
+                  ? 'bg-blue-600 text-white border-blue-600'
+                  : 'bg-white bg-opacity-10 text-white border-white border-opacity-30 hover:bg-white hover:bg-opacity-20'}
+              >
+                {section.subjectName}
+                <span className="ml-2 text-xs opacity-80">{countAnswered(section)}/{section.questionCount}</span>
+              </Button>
+            ))}
+          </div>
         </div>
       </div>
 
@@ -316,7 +394,7 @@ export default function CBTExam({ sessionId, onComplete, onExit }: CBTExamProps)
                   {currentQuestion?.subject || 'General'}
                 </Badge>
                 <span className="text-white text-sm opacity-70">
-                  Question {currentQuestionIndex + 1} of {questions.length}
+                  Question {sectionQuestionNumber} of {sectionQuestionTotal}
                 </span>
               </div>
               <CardTitle className="text-white text-xl">
@@ -368,7 +446,7 @@ export default function CBTExam({ sessionId, onComplete, onExit }: CBTExamProps)
             <Button
               variant="outline"
               onClick={handlePreviousQuestion}
-              disabled={currentQuestionIndex === 0}
+              disabled={!currentSection || currentQuestionIndex === currentSection.startIndex}
               className="bg-white bg-opacity-10 text-white border-white border-opacity-30 hover:bg-white hover:bg-opacity-20"
             >
               <ArrowLeft className="w-4 h-4 mr-2" />
@@ -376,7 +454,7 @@ export default function CBTExam({ sessionId, onComplete, onExit }: CBTExamProps)
             </Button>
 
             <div className="flex items-center gap-4">
-              {currentQuestionIndex === questions.length - 1 ? (
+              {currentQuestionIndex === sectionEnd && isLastSection ? (
                 <Button
                   onClick={handleSubmitExam}
                   disabled={isSubmitting}
@@ -389,7 +467,7 @@ export default function CBTExam({ sessionId, onComplete, onExit }: CBTExamProps)
                   onClick={handleNextQuestion}
                   className="bg-blue-600 hover:bg-blue-700 text-white"
                 >
-                  Next
+                  {currentQuestionIndex === sectionEnd ? 'Next Subject' : 'Next'}
                   <ArrowRight className="w-4 h-4 ml-2" />
                 </Button>
               )}
@@ -13,6 +13,14 @@ import {
   Target,
   TrendingUp
 } from 'lucide-react';
+import {
+  UTME_MAX_AGGREGATE,
+  UTME_MAX_SUBJECT_SCORE,
+  type CbtAccuracyBreakdown,
+  type CbtGradingReport,
+  type CbtSubjectScore
+} from '@shared/utme';
+import ReportQuestionButton from '@/components/ReportQuestionButton';
 
 interface CBTResultsProps {
   results: {
@@ -23,6 +31,9 @@ interface CBTResultsProps {
     selectedAnswers: Record<number, string>;
     questions: any[];
     subjectBreakdown: Record<string, { correct: number; total: number; subject: string }>;
+    subjectScores?: CbtSubjectScore[];
+    aggregateScore?: number;
+    report?: CbtGradingReport;
   };
   onReturnHome: () => void;
 }
@@ -40,8 +51,12 @@ export default function CBTResults({ results, onReturnHome }: CBTResultsProps) {
     );
   }
 
-  const { score = 0, totalQuestions = 1, timeSpent = 0, subjectBreakdown = {} } = results;
-  const percentage = Math.round((score / totalQuestions) * 100);
+  const { score = 0, totalQuestions = 1, timeSpent = 0, subjectBreakdown = {}, subjectScores = [], report } = results;
+  // UTME aggregate: each subject scaled to 100, summed out of 400
+  const aggregateScore = results.aggregateScore ?? subjectScores.reduce((sum, s) => sum + s.score, 0);
+  const percentage = subjectScores.length > 0
+    ? Math.round((aggregateScore / UTME_MAX_AGGREGATE) * 100)
+    : Math.round((score / totalQuestions) * 100);
   
   const formatTime = (seconds: number) => {
     const hours = Math.floor(seconds / 3600);
@@ -58,6 +73,32 @@ export default function CBTResults({ results, onReturnHome }: CBTResultsProps) {
   };
 
   const gradeInfo = getGrade(percentage);
+  // Pair the graded results with the question text shown during the exam
+  const missedQuestions = (report?.questions || [])
+    .filter(result => !result.isCorrect)
+    .map(result => ({ result, question: results.questions?.[result.index] }))
+    .filter(({ question }) => question?.question && Array.isArray(question.options));
+
+  const renderAccuracyList = (title: string, rows: CbtAccuracyBreakdown[]) => (
+    <div className="bg-white bg-opacity-10 rounded-lg p-4">
+      <h4 className="text-white font-semibold mb-3">{title}</h4>
+      {rows.length > 0 ? (
+        <div className="space-y-2">
+          {rows.map(row => (
+            <div key={row.label}>
+              <div className="flex items-center justify-between text-white text-sm mb-1">
+                <span>{row.label}</span>
+                <span>{row.correct}/{row.total} ({row.accuracy}%)</span>
+              </div>
+              <Progress value={row.accuracy} className="h-1.5" />
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-white text-opacity-70 text-sm">Not available for these questions</p>
+      )}
+    </div>
+  );
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-green-900 via-emerald-900 to-teal-900 p-4">
@@ -83,6 +124,9 @@ export default function CBTResults({ results, onReturnHome }: CBTResultsProps) {
                 <span className="text-white text-6xl font-bold">{gradeInfo.grade}</span>
               </div>
               <p className="text-white text-xl font-semibold">{gradeInfo.text}</p>
+              {subjectScores.length > 0 && (
+                <p className="text-white text-3xl font-bold mt-2">{aggregateScore}/{UTME_MAX_AGGREGATE}</p>
+              )}
               <p className="text-white text-opacity-80">{percentage}% ({score}/{totalQuestions})</p>
             </div>
 
@@ -95,7 +139,7 @@ export default function CBTResults({ results, onReturnHome }: CBTResultsProps) {
               
               <div className="bg-white bg-opacity-10 rounded-lg p-4">
                 <XCircle className="w-8 h-8 text-red-400 mx-auto mb-2" />
-                <p className="text-white font-semibold text-2xl">{totalQuestions - score}</p>
+                <p className="text-white font-semibold text-2xl">{report ? report.answered - report.correct : totalQuestions - score}</p>
                 <p className="text-white text-opacity-70 text-sm">Incorrect Answers</p>
               </div>
               
@@ -125,7 +169,27 @@ export default function CBTResults({ results, onReturnHome }: CBTResultsProps) {
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
-            {Object.entries(subjectBreakdown || {}).length > 0 ? Object.entries(subjectBreakdown).map(([subjectId, data]) => {
+            {subjectScores.length > 0 ? subjectScores.map((subjectScore) => {
+              const subjectGrade = getGrade(subjectScore.score);
+
+              return (
+                <div key={subjectScore.subjectId} className="bg-white bg-opacity-10 rounded-lg p-4">
+                  <div className="flex items-center justify-between mb-3">
+                    <h3 className="text-white font-semibold">{subjectScore.subject}</h3>
+                    <Badge className={`${subjectGrade.color} text-white border-0`}>
+                      {subjectScore.score}/{UTME_MAX_SUBJECT_SCORE}
+                    </Badge>
+                  </div>
+
+                  <div className="flex items-center justify-between text-white text-sm mb-2">
+                    <span>{subjectScore.correct}/{subjectScore.total} correct</span>
+                    <span>{subjectScore.score}%</span>
+                  </div>
+
+                  <Progress value={subjectScore.score} className="h-2" />
+                </div>
+              );
+            }) : Object.entries(subjectBreakdown || {}).length > 0 ? Object.entries(subjectBreakdown).map(([subjectId, data]) => {
               if (!data || typeof data.correct === 'undefined' || typeof data.total === 'undefined') {
                 return null;
               }
@@ -158,6 +222,71 @@ export default function CBTResults({ results, onReturnHome }: CBTResultsProps) {
           </CardContent>
         </Card>
 
+        {/* Grading Report */}
+        {report && (
+          <Card className="bg-white bg-opacity-10 backdrop-blur-sm border-white border-opacity-20">
+            <CardHeader>
+              <CardTitle className="text-white text-xl flex items-center gap-2">
+                <Clock className="w-6 h-6" />
+                Detailed Report
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid md:grid-cols-3 gap-4 text-center">
+                <div className="bg-white bg-opacity-10 rounded-lg p-4">
+                  <p className="text-white font-semibold text-2xl">{report.answered}</p>
+                  <p className="text-white text-opacity-70 text-sm">Answered</p>
+                </div>
+                <div className="bg-white bg-opacity-10 rounded-lg p-4">
+                  <p className="text-white font-semibold text-2xl">{report.unanswered}</p>
+                  <p className="text-white text-opacity-70 text-sm">Unanswered</p>
+                </div>
+                <div className="bg-white bg-opacity-10 rounded-lg p-4">
+                  <p className="text-white font-semibold text-2xl">{report.averageTimePerQuestion}s</p>
+                  <p className="text-white text-opacity-70 text-sm">Average Time per Question</p>
+                </div>
+              </div>
+
+              <div className="grid md:grid-cols-2 gap-4">
+                {renderAccuracyList('Accuracy by Topic', report.topics)}
+                {renderAccuracyList('Accuracy by Year', report.years)}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Missed Questions */}
+        {missedQuestions.length > 0 && (
+          <Card className="bg-white bg-opacity-10 backdrop-blur-sm border-white border-opacity-20">
+            <CardHeader>
+              <CardTitle className="text-white text-xl flex items-center gap-2">
+                <XCircle className="w-6 h-6" />
+                Questions You Missed
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {missedQuestions.map(({ result, question }) => (
+                <div key={result.index} className="bg-white bg-opacity-10 rounded-lg p-4">
+                  <div className="flex items-start justify-between gap-2">
+                    <p className="text-white text-sm">
+                      <span className="font-semibold">{result.index + 1}.</span> {question.question}
+                    </p>
+                    <ReportQuestionButton
+                      question={{ ...question, id: result.questionId, correctAnswer: result.correctAnswer }}
+                      subject={result.subject}
+                      userAnswer={result.selectedAnswer}
+                      className="text-white text-opacity-70 hover:text-red-300 shrink-0"
+                    />
+                  </div>
+                  <p className="text-white text-opacity-70 text-xs mt-2">
+                    {result.subject} • Your answer: {result.selectedAnswer || 'None'} • Correct answer: {result.correctAnswer}
+                  </p>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Performance Insights */}
         <Card className="bg-white bg-opacity-10 backdrop-blur-sm border-white border-opacity-20">
           <CardHeader>
@@ -8,6 +8,7 @@ import { Separator } from '@/components/ui/separator';
 import { Clock, BookOpen, CreditCard, Key, CheckCircle, AlertCircle, ArrowLeft, Home } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
+import { validateUtmeSubjects, isEnglishSubject, UTME_TOTAL_QUESTIONS } from '@shared/utme';
 
 interface Subject {
   id: string;
@@ -30,7 +31,7 @@ const CBTSetup: React.FC<CBTSetupProps> = ({ user, subjects, onSessionStart, onB
   const [unlockCode, setUnlockCode] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
   const [paymentStatus, setPaymentStatus] = useState<'idle' | 'processing' | 'success' | 'failed'>('idle');
-  const [generatedCode, setGeneratedCode] = useState('');
+  const [paymentVerified, setPaymentVerified] = useState(false);
   const { toast } = useToast();
 
   const handleSubjectToggle = (subject: Subject) => {
@@ -55,7 +56,7 @@ const CBTSetup: React.FC<CBTSetupProps> = ({ user, subjects, onSessionStart, onB
       const paymentData = {
         userId: user.id || (user as any)._id || user.nickname,
         email: user.email || `${user.nickname || 'user'}@example.com`,
-        amount: 300000 // ₦3000
+        planId: 'premium-30d' // ₦3000
       };
 
       console.log('Payment data:', paymentData);
@@ -179,7 +180,7 @@ const CBTSetup: React.FC<CBTSetupProps> = ({ user, subjects, onSessionStart, onB
       if (examData.success) {
         toast({
           title: "CBT Started",
-          description: `Examination started with ${examData.totalQuestions || 160} questions. Good luck!`,
+          description: `Examination started with ${examData.totalQuestions || UTME_TOTAL_QUESTIONS} questions. Good luck!`,
           variant: "default"
         });
         onSessionStart(sessionData.id);
@@ -219,10 +220,10 @@ const CBTSetup: React.FC<CBTSetupProps> = ({ user, subjects, onSessionStart, onB
 
           if (data.success) {
             setPaymentStatus('success');
-            setGeneratedCode(data.unlockCode);
+            setPaymentVerified(true);
             toast({
               title: "Payment Successful",
-              description: `Your unlock code is: ${data.unlockCode}`,
+              description: "Your CBT access is now active.",
               variant: "default"
             });
             
@@ -246,7 +247,8 @@ const CBTSetup: React.FC<CBTSetupProps> = ({ user, subjects, onSessionStart, onB
     }
   }, [toast]);
 
-  const canStartCBT = selectedSubjects.length === 4 && paymentStatus === 'success';
+  const subjectError = selectedSubjects.length === 4 ? validateUtmeSubjects(selectedSubjects) : null;
+  const canStartCBT = selectedSubjects.length === 4 && !subjectError && paymentStatus === 'success';
 
   return (
     <div className="max-w-4xl mx-auto space-y-6">
@@ -272,7 +274,7 @@ const CBTSetup: React.FC<CBTSetupProps> = ({ user, subjects, onSessionStart, onB
       <div className="text-center space-y-2">
         <h1 className="text-3xl font-bold">CBT Examination Setup</h1>
         <p className="text-muted-foreground">
-          Select 4 subjects for your 2-hour UTME practice exam
+          Use of English plus 3 subjects for your 2-hour UTME practice exam
         </p>
       </div>
 
@@ -290,8 +292,8 @@ const CBTSetup: React.FC<CBTSetupProps> = ({ user, subjects, onSessionStart, onB
             <div className="text-sm text-muted-foreground">Subjects</div>
           </div>
           <div className="text-center">
-            <div className="text-2xl font-bold text-primary">160</div>
-            <div className="text-sm text-muted-foreground">Questions (40 each)</div>
+            <div className="text-2xl font-bold text-primary">{UTME_TOTAL_QUESTIONS}</div>
+            <div className="text-sm text-muted-foreground">Questions (English 60, others 40)</div>
           </div>
           <div className="text-center">
             <div className="text-2xl font-bold text-primary">2</div>
@@ -308,7 +310,7 @@ const CBTSetup: React.FC<CBTSetupProps> = ({ user, subjects, onSessionStart, onB
             Select Subjects ({selectedSubjects.length}/4)
           </CardTitle>
           <CardDescription>
-            Choose exactly 4 subjects for your examination
+            Choose exactly 4 subjects for your examination. Use of English is compulsory.
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -353,6 +355,7 @@ const CBTSetup: React.FC<CBTSetupProps> = ({ user, subjects, onSessionStart, onB
                         <span className="text-lg">{subject.emoji}</span>
                         <span className="font-medium">{subject.name}</span>
                       </div>
+                      {isEnglishSubject(subject) && <Badge variant="outline" className="text-xs mr-1">Compulsory</Badge>}
                       {isSelected && <Badge variant="secondary" className="text-xs">Selected</Badge>}
                     </div>
                   </Button>
@@ -360,6 +363,9 @@ const CBTSetup: React.FC<CBTSetupProps> = ({ user, subjects, onSessionStart, onB
               })}
             </div>
           )}
+          {subjectError && (
+            <p className="text-sm text-red-600 mt-3">{subjectError}</p>
+          )}
         </CardContent>
       </Card>
 
@@ -406,21 +412,21 @@ const CBTSetup: React.FC<CBTSetupProps> = ({ user, subjects, onSessionStart, onB
                   <span className="text-lg font-bold">₦3000</span>
                 </div>
                 <div className="text-sm text-muted-foreground">
-                  • 4 subjects of your choice
-                  • 160 questions total
+                  • Use of English plus 3 subjects of your choice
+                  • {UTME_TOTAL_QUESTIONS} questions total, scored out of 400
                   • 2 hours exam time
                   • Immediate results
                 </div>
               </div>
 
-              {paymentStatus === 'success' && generatedCode && (
+              {paymentStatus === 'success' && paymentVerified && (
                 <div className="bg-green-50 border border-green-200 p-4 rounded-lg">
                   <div className="flex items-center gap-2 mb-2">
                     <CheckCircle className="w-5 h-5 text-green-600" />
                     <span className="font-medium text-green-800">Payment Successful!</span>
                   </div>
                   <div className="text-sm text-green-700">
-                    Your unlock code: <code className="bg-green-100 px-2 py-1 rounded font-mono">{generatedCode}</code>
+                    Your CBT access is now active.
                   </div>
                 </div>
               )}
@@ -13,6 +13,7 @@ import QuizReviewSection from './QuizReviewSection';
 import ComprehensiveQuizReview from './ComprehensiveQuizReview';
 import SuccessNotification from './SuccessNotification';
 import TrialLockModal from './TrialLockModal';
+import { celebrateBadges } from './UserBadges';
 
 interface Subject {
   id: string;
@@ -164,6 +165,7 @@ export default function EnhancedCBTMode({ user, selectedSubject, onBack, onHome
       setFinalResults(results);
       setShowResults(true);
       stopTimer();
+      celebrateBadges(results.unlockedBadges);
       
       // Show success notification
       setNotificationMessage(`Quiz submitted successfully! Great work!`);
@@ -0,0 +1,267 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertCircle, GraduationCap, RotateCcw, Star, Trash2 } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import {
+  EXAM_PLAN_EXAMS,
+  EXAM_PLAN_MIN_DAYS,
+  type ExamPlanOverview,
+  type ExamType,
+} from '@shared/examPlan';
+import type { StudyScheduler, Subject } from '@shared/schema';
+
+const DAILY_HOUR_OPTIONS = [0.5, 1, 1.5, 2, 3, 4, 5, 6];
+
+const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message.replace(/^\d+: /, '') : fallback;
+
+const describeSession = (task: StudyScheduler) =>
+  `${new Date(task.scheduledDate).toLocaleDateString()} ${task.scheduledTime} · ${task.subjectName}${task.topic ? ` — ${task.topic}` : ''}`;
+
+// Exam countdown plan on the scheduler page: set one up, or follow the active plan's progress
+export default function ExamPlanner() {
+  const queryClient = useQueryClient();
+  const [examType, setExamType] = useState<ExamType>('UTME');
+  const [examDate, setExamDate] = useState('');
+  const [subjectIds, setSubjectIds] = useState<string[]>([]);
+  const [dailyHours, setDailyHours] = useState('2');
+
+  const { data: overview, isLoading } = useQuery<ExamPlanOverview | null>({
+    queryKey: ['/api/exam-plan'],
+    staleTime: 0,
+  });
+
+  const { data: subjects } = useQuery<Subject[]>({
+    queryKey: ['/api/subjects'],
+    enabled: overview === null,
+  });
+
+  const exam = EXAM_PLAN_EXAMS.find(entry => entry.id === examType)!;
+  const earliestDate = new Date(Date.now() + EXAM_PLAN_MIN_DAYS * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+  // The plan's sessions live in the scheduler, so both change together
+  const refresh = (data: ExamPlanOverview | null) => {
+    queryClient.setQueryData(['/api/exam-plan'], data);
+    queryClient.invalidateQueries({ queryKey: ['/api/scheduler'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/exam-plan', {
+        examType,
+        examDate,
+        subjectIds,
+        dailyHours: Number(dailyHours),
+      });
+      return await response.json() as ExamPlanOverview;
+    },
+    onSuccess: (data) => {
+      refresh(data);
+      setSubjectIds([]);
+      toast({ title: "Exam plan ready", description: `${data.topicsTotal} topics planned over ${data.daysLeft} days` });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error, "Failed to create exam plan"), variant: "destructive" });
+    },
+  });
+
+  const rebalanceMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/exam-plan/rebalance');
+      return await response.json() as ExamPlanOverview;
+    },
+    onSuccess: (data) => {
+      refresh(data);
+      toast({ title: "Plan rebalanced", description: "Your remaining sessions were laid out again" });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error, "Failed to rebalance exam plan"), variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: () => apiRequest('DELETE', '/api/exam-plan'),
+    onSuccess: () => refresh(null),
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error, "Failed to delete exam plan"), variant: "destructive" });
+    },
+  });
+
+  const toggleSubject = (subjectId: string, checked: boolean) => {
+    setSubjectIds(current => checked
+      ? [...current, subjectId]
+      : current.filter(id => id !== subjectId));
+  };
+
+  if (isLoading) return null;
+
+  if (overview) {
+    const { plan } = overview;
+    const unscheduled = plan.unscheduledTopics || 0;
+    const coverage = overview.topicsTotal ? Math.round((overview.topicsCovered / overview.topicsTotal) * 100) : 0;
+
+    return (
+      <Card className="border-l-4 border-l-blue-500">
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <GraduationCap className="w-5 h-5 text-blue-600" />
+            {overview.examName}
+          </CardTitle>
+          <CardDescription>
+            {overview.daysLeft === 0 ? "Exam day — good luck!" : `${overview.daysLeft} day${overview.daysLeft === 1 ? '' : 's'} to go`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div>
+            <div className="flex justify-between text-sm mb-1">
+              <span>Topics covered</span>
+              <span>{overview.topicsCovered}/{overview.topicsTotal}</span>
+            </div>
+            <Progress value={coverage} className="h-2" />
+          </div>
+
+          {overview.nextSession && (
+            <div className="text-sm">
+              <p className="font-medium">Next session</p>
+              <p className="text-gray-600 dark:text-gray-400">{describeSession(overview.nextSession)}</p>
+            </div>
+          )}
+
+          {overview.nextMock && (
+            <div className="text-sm">
+              <p className="font-medium flex items-center gap-1">
+                <Star className="w-3 h-3 text-yellow-500" />
+                Next mock exam
+              </p>
+              <p className="text-gray-600 dark:text-gray-400">{describeSession(overview.nextMock)}</p>
+            </div>
+          )}
+
+          {overview.missedSessions > 0 && (
+            <p className="text-sm text-orange-600 flex items-center gap-1">
+              <AlertCircle className="w-4 h-4" />
+              {overview.missedSessions} missed session{overview.missedSessions === 1 ? '' : 's'} — rebalance to catch up
+            </p>
+          )}
+
+          {unscheduled > 0 && (
+            <p className="text-sm text-red-600 flex items-center gap-1">
+              <AlertCircle className="w-4 h-4" />
+              {unscheduled} topic{unscheduled === 1 ? '' : 's'} didn't fit — add more daily hours or study days
+            </p>
+          )}
+
+          <div className="flex flex-wrap gap-1">
+            {plan.subjects.map(subject => (
+              <Badge key={subject.subjectId} variant="outline">{subject.subjectName}</Badge>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => rebalanceMutation.mutate()}
+              disabled={rebalanceMutation.isPending}
+            >
+              <RotateCcw className="w-4 h-4 mr-1" />
+              Rebalance
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => cancelMutation.mutate()}
+              disabled={cancelMutation.isPending}
+            >
+              <Trash2 className="w-4 h-4 mr-1" />
+              Delete Plan
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <GraduationCap className="w-5 h-5 text-blue-600" />
+          Exam Countdown Plan
+        </CardTitle>
+        <CardDescription>Cover every topic before exam day, with mock exams and revision at the end</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label>Exam</Label>
+          <Select value={examType} onValueChange={(value) => setExamType(value as ExamType)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXAM_PLAN_EXAMS.map(entry => (
+                <SelectItem key={entry.id} value={entry.id}>{entry.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="exam-date">Exam date</Label>
+          <Input id="exam-date" type="date" min={earliestDate} value={examDate} onChange={(e) => setExamDate(e.target.value)} />
+        </div>
+
+        <div className="space-y-2">
+          <Label>
+            Subjects ({subjectIds.length}/{exam.maxSubjects}{exam.requiredSubject ? `, ${exam.requiredSubject} required` : ''})
+          </Label>
+          <div className="grid grid-cols-2 gap-2">
+            {subjects?.map(subject => (
+              <label key={subject.id} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={subjectIds.includes(subject.id)}
+                  disabled={!subjectIds.includes(subject.id) && subjectIds.length >= exam.maxSubjects}
+                  onCheckedChange={(checked) => toggleSubject(subject.id, checked === true)}
+                />
+                {subject.name}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Study time per day</Label>
+          <Select value={dailyHours} onValueChange={setDailyHours}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DAILY_HOUR_OPTIONS.map(hours => (
+                <SelectItem key={hours} value={String(hours)}>
+                  {hours < 1 ? `${hours * 60} minutes` : `${hours} hour${hours === 1 ? '' : 's'}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Button
+          className="w-full"
+          onClick={() => createMutation.mutate()}
+          disabled={!examDate || subjectIds.length === 0 || createMutation.isPending}
+        >
+          {createMutation.isPending ? "Planning..." : "Create Exam Plan"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,170 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Bell, Inbox } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import {
+  NOTIFICATION_CHANNELS,
+  type NotificationChannel,
+  type NotificationPreferences,
+  type NotificationPreferencesResponse,
+} from '@shared/notifications';
+import type { Notification } from '@shared/schema';
+
+const INBOX_SIZE = 10;
+
+// Channel preferences, phone number and the in-app inbox, shown on the settings page
+export default function NotificationSettings() {
+  const queryClient = useQueryClient();
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [preferences, setPreferences] = useState<NotificationPreferences>({});
+
+  const { data: settings } = useQuery<NotificationPreferencesResponse>({
+    queryKey: ['/api/notifications/preferences'],
+  });
+
+  const { data: inbox } = useQuery({
+    queryKey: ['/api/notifications', INBOX_SIZE],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/notifications?limit=${INBOX_SIZE}`);
+      return await response.json() as { notifications: Notification[]; unread: number };
+    },
+    staleTime: 0,
+  });
+
+  useEffect(() => {
+    if (!settings) return;
+    setPhoneNumber(settings.phoneNumber || '');
+    setPreferences(settings.preferences);
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('PUT', '/api/notifications/preferences', {
+        phoneNumber: phoneNumber.trim() || null,
+        preferences,
+      });
+      return await response.json() as NotificationPreferencesResponse;
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData(['/api/notifications/preferences'], saved);
+      toast({ title: "Saved", description: "Notification preferences updated" });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: error instanceof Error ? error.message : "Failed to save preferences", variant: "destructive" });
+    },
+  });
+
+  const readMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/notifications/read', {});
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
+    },
+  });
+
+  const channelsFor = (templateId: keyof NotificationPreferences, defaults: NotificationChannel[]) =>
+    preferences[templateId] ?? defaults;
+
+  const toggleChannel = (templateId: keyof NotificationPreferences, defaults: NotificationChannel[], channel: NotificationChannel) => {
+    const current = channelsFor(templateId, defaults);
+    setPreferences({
+      ...preferences,
+      [templateId]: current.includes(channel) ? current.filter(entry => entry !== channel) : [...current, channel],
+    });
+  };
+
+  return (
+    <>
+      <Card className="bg-white/10 backdrop-blur-lg border-white/20 md:col-span-2">
+        <CardHeader>
+          <CardTitle className="text-white flex items-center">
+            <Bell className="h-5 w-5 mr-2" />
+            Notifications
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div>
+            <Label htmlFor="phoneNumber" className="text-white">Phone number for SMS</Label>
+            <Input
+              id="phoneNumber"
+              value={phoneNumber}
+              onChange={(e) => setPhoneNumber(e.target.value)}
+              placeholder="08012345678"
+              className="bg-white/20 border-white/30 text-white placeholder:text-blue-200"
+            />
+          </div>
+
+          <div className="space-y-3">
+            <div className="grid grid-cols-4 gap-2 text-blue-200 text-sm">
+              <span />
+              {NOTIFICATION_CHANNELS.map(channel => <span key={channel.id} className="text-center">{channel.name}</span>)}
+            </div>
+            {settings?.templates.filter(template => template.configurable).map(template => (
+              <div key={template.id} className="grid grid-cols-4 gap-2 items-center">
+                <span className="text-white text-sm">{template.name}</span>
+                {NOTIFICATION_CHANNELS.map(channel => (
+                  <div key={channel.id} className="flex justify-center">
+                    <Checkbox
+                      checked={channelsFor(template.id, template.defaultChannels).includes(channel.id)}
+                      disabled={channel.id === 'sms' && !phoneNumber.trim()}
+                      onCheckedChange={() => toggleChannel(template.id, template.defaultChannels, channel.id)}
+                    />
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending || !settings}
+            className="bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600 text-white"
+          >
+            {saveMutation.isPending ? 'Saving...' : 'Save Notification Preferences'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-white/10 backdrop-blur-lg border-white/20 md:col-span-2">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-white flex items-center">
+              <Inbox className="h-5 w-5 mr-2" />
+              Inbox
+              {!!inbox?.unread && <Badge className="ml-2 bg-red-500">{inbox.unread} new</Badge>}
+            </CardTitle>
+            {!!inbox?.unread && (
+              <Button variant="ghost" className="text-white hover:bg-white/10" onClick={() => readMutation.mutate()}>
+                Mark all read
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {inbox?.notifications.length ? inbox.notifications.map(notification => (
+            <div key={notification.id} className={`p-4 rounded-lg ${notification.readAt ? 'bg-white/5' : 'bg-white/15'}`}>
+              <div className="flex items-center justify-between gap-4">
+                <p className="text-white font-medium">{notification.subject}</p>
+                <span className="text-blue-200 text-xs whitespace-nowrap">
+                  {notification.createdAt ? new Date(notification.createdAt).toLocaleString() : ''}
+                </span>
+              </div>
+              <p className="text-blue-200 text-sm">{notification.body}</p>
+            </div>
+          )) : (
+            <p className="text-blue-200 text-sm">No notifications yet</p>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
@@ -0,0 +1,507 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Plus, Edit, Trash2, Download, Upload, ChevronLeft, ChevronRight } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import {
+  QUESTION_DIFFICULTIES,
+  QUESTION_EXPORT_MAX_ROWS,
+  QUESTION_OPTION_IDS,
+  type QuestionImportResult,
+  type QuestionSearchPage,
+} from '@shared/questionBank';
+import type { Question, QuestionAudit } from '@shared/schema';
+
+interface SubjectOption {
+  id: string;
+  name: string;
+}
+
+interface QuestionBankManagerProps {
+  subjects: SubjectOption[];
+}
+
+interface QuestionForm {
+  subjectId: string;
+  question: string;
+  optionA: string;
+  optionB: string;
+  optionC: string;
+  optionD: string;
+  correctAnswer: string;
+  explanation: string;
+  imageUrl: string;
+  difficulty: string;
+  topic: string;
+  year: string;
+  examType: string;
+}
+
+type AuditEntry = QuestionAudit & { adminNickname: string | null };
+
+const EMPTY_FORM: QuestionForm = {
+  subjectId: '',
+  question: '',
+  optionA: '',
+  optionB: '',
+  optionC: '',
+  optionD: '',
+  correctAnswer: 'A',
+  explanation: '',
+  imageUrl: '',
+  difficulty: 'medium',
+  topic: '',
+  year: '',
+  examType: '',
+};
+
+const EXAM_TYPES = ['utme', 'wassce', 'neco', 'post-utme'];
+const PAGE_SIZE = 25;
+
+const selectClass = 'bg-gray-700 border border-gray-600 text-white rounded-md px-3 py-2 text-sm';
+
+// Server errors arrive as "<status>: <json body>"; show the validation messages when there are any
+function describeError(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  try {
+    const body = JSON.parse(message.slice(message.indexOf(':') + 1));
+    return body.errors?.length ? body.errors.join('; ') : body.message || message;
+  } catch {
+    return message;
+  }
+}
+
+function toForm(question: Question): QuestionForm {
+  const option = (id: string) => question.options.find(o => o.id === id)?.text || '';
+  return {
+    subjectId: question.subjectId,
+    question: question.question,
+    optionA: option('A'),
+    optionB: option('B'),
+    optionC: option('C'),
+    optionD: option('D'),
+    correctAnswer: question.correctAnswer,
+    explanation: question.explanation || '',
+    imageUrl: question.imageUrl || '',
+    difficulty: question.difficulty || 'medium',
+    topic: question.topic || '',
+    year: question.year || '',
+    examType: question.examType || '',
+  };
+}
+
+export default function QuestionBankManager({ subjects }: QuestionBankManagerProps) {
+  const queryClient = useQueryClient();
+  const [filters, setFilters] = useState({ search: '', subjectId: '', year: '', examType: '', topic: '', difficulty: '' });
+  const [page, setPage] = useState(1);
+  const [editing, setEditing] = useState<Question | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [form, setForm] = useState<QuestionForm>(EMPTY_FORM);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importResult, setImportResult] = useState<QuestionImportResult | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const filterParams = new URLSearchParams(Object.entries(filters).filter(([, value]) => value.trim()));
+  const searchParams = new URLSearchParams(filterParams);
+  searchParams.set('page', String(page));
+  searchParams.set('pageSize', String(PAGE_SIZE));
+
+  const { data: results, isLoading } = useQuery({
+    queryKey: ['/api/admin/questions', searchParams.toString()],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/admin/questions?${searchParams}`);
+      return await response.json() as QuestionSearchPage<Question>;
+    },
+  });
+
+  const { data: audits } = useQuery({
+    queryKey: ['/api/admin/questions/audits'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/admin/questions/audits?limit=20');
+      return await response.json() as AuditEntry[];
+    },
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/questions'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/questions/audits'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/stats'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        subjectId: form.subjectId,
+        question: form.question,
+        options: QUESTION_OPTION_IDS.map(id => ({ id, text: form[`option${id}` as keyof QuestionForm] })),
+        correctAnswer: form.correctAnswer,
+        explanation: form.explanation,
+        imageUrl: form.imageUrl,
+        difficulty: form.difficulty,
+        topic: form.topic,
+        year: form.year,
+        examType: form.examType,
+      };
+      const response = editing
+        ? await apiRequest('PATCH', `/api/admin/questions/${editing.id}`, body)
+        : await apiRequest('POST', '/api/admin/questions', body);
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      setIsFormOpen(false);
+      toast({ title: "Success", description: editing ? "Question updated" : "Question added" });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: describeError(error), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (questionId: string) => {
+      const response = await apiRequest('DELETE', `/api/admin/questions/${questionId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Success", description: "Question deleted successfully" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to delete question", variant: "destructive" });
+    },
+  });
+
+  const updateFilter = (key: keyof typeof filters, value: string) => {
+    setFilters(current => ({ ...current, [key]: value }));
+    setPage(1);
+  };
+
+  const openForm = (question: Question | null) => {
+    setEditing(question);
+    setForm(question ? toForm(question) : { ...EMPTY_FORM, subjectId: filters.subjectId });
+    setIsFormOpen(true);
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    if (!importFile) return;
+    setIsImporting(true);
+    try {
+      const body = new FormData();
+      body.append('file', importFile);
+      body.append('dryRun', String(dryRun));
+      const response = await fetch('/api/admin/questions/import', { method: 'POST', body, credentials: 'include' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message);
+
+      setImportResult(data);
+      if (!dryRun) refresh();
+    } catch (error) {
+      toast({ title: "Import failed", description: describeError(error), variant: "destructive" });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const subjectName = (id: string) => subjects.find(s => s.id === id)?.name || 'Unknown';
+  const totalPages = results ? Math.max(1, Math.ceil(results.total / results.pageSize)) : 1;
+  // Exports past QUESTION_EXPORT_MAX_ROWS come as one file per part
+  const exportParts = results ? Math.max(1, Math.ceil(results.total / QUESTION_EXPORT_MAX_ROWS)) : 1;
+  const exportLinks = (['csv', 'json'] as const).flatMap(format => Array.from({ length: exportParts }, (_, index) => ({
+    href: `/api/admin/questions/export?format=${format}&page=${index + 1}&${filterParams}`,
+    label: exportParts > 1 ? `${format.toUpperCase()} ${index + 1}/${exportParts}` : format.toUpperCase(),
+  })));
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-gray-800 border-gray-700">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Question Management</CardTitle>
+            <div className="flex space-x-2">
+              {exportLinks.map(link => (
+                <Button key={link.href} variant="outline" size="sm" asChild>
+                  <a href={link.href}>
+                    <Download className="h-4 w-4 mr-2" />
+                    {link.label}
+                  </a>
+                </Button>
+              ))}
+              <Button className="bg-blue-600 hover:bg-blue-700" onClick={() => openForm(null)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Question
+              </Button>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-2 pt-2">
+            <Input
+              placeholder="Search questions..."
+              value={filters.search}
+              onChange={(e) => updateFilter('search', e.target.value)}
+              className="bg-gray-700 border-gray-600 md:col-span-2"
+            />
+            <select value={filters.subjectId} onChange={(e) => updateFilter('subjectId', e.target.value)} className={selectClass}>
+              <option value="">All subjects</option>
+              {subjects.map(subject => <option key={subject.id} value={subject.id}>{subject.name}</option>)}
+            </select>
+            <select value={filters.examType} onChange={(e) => updateFilter('examType', e.target.value)} className={selectClass}>
+              <option value="">All exams</option>
+              {EXAM_TYPES.map(type => <option key={type} value={type}>{type.toUpperCase()}</option>)}
+            </select>
+            <select value={filters.difficulty} onChange={(e) => updateFilter('difficulty', e.target.value)} className={selectClass}>
+              <option value="">Any difficulty</option>
+              {QUESTION_DIFFICULTIES.map(level => <option key={level} value={level}>{level}</option>)}
+            </select>
+            <div className="flex space-x-2">
+              <Input
+                placeholder="Year"
+                value={filters.year}
+                onChange={(e) => updateFilter('year', e.target.value)}
+                className="bg-gray-700 border-gray-600"
+              />
+              <Input
+                placeholder="Topic"
+                value={filters.topic}
+                onChange={(e) => updateFilter('topic', e.target.value)}
+                className="bg-gray-700 border-gray-600"
+              />
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow className="border-gray-700">
+                <TableHead>Question</TableHead>
+                <TableHead>Subject</TableHead>
+                <TableHead>Exam</TableHead>
+                <TableHead>Difficulty</TableHead>
+                <TableHead>Topic</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {results?.questions.map((question) => (
+                <TableRow key={question.id} className="border-gray-700">
+                  <TableCell className="max-w-md truncate">
+                    {question.imageUrl && <Badge variant="outline" className="mr-2">img</Badge>}
+                    {question.hiddenAt && <Badge variant="destructive" className="mr-2">hidden</Badge>}
+                    {question.question}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{subjectName(question.subjectId)}</Badge>
+                  </TableCell>
+                  <TableCell>{[question.examType?.toUpperCase(), question.year].filter(Boolean).join(' ') || 'Any'}</TableCell>
+                  <TableCell>
+                    <Badge
+                      variant={question.difficulty === 'hard' ? 'destructive' :
+                               question.difficulty === 'medium' ? 'secondary' : 'default'}
+                    >
+                      {question.difficulty}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>{question.topic || 'General'}</TableCell>
+                  <TableCell>{question.source}</TableCell>
+                  <TableCell>
+                    <div className="flex space-x-1">
+                      <Button variant="ghost" size="sm" onClick={() => openForm(question)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => {
+                          if (confirm('Delete this question?')) deleteMutation.mutate(question.id);
+                        }}
+                        className="text-red-400 hover:text-red-300"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {isLoading && <p className="text-center text-gray-400 py-4">Loading questions...</p>}
+          {results && (
+            <div className="flex items-center justify-between pt-4 text-sm text-gray-400">
+              <span>{results.total} questions</span>
+              <div className="flex items-center space-x-2">
+                <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <span>Page {page} of {totalPages}</span>
+                <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card className="bg-gray-800 border-gray-700">
+          <CardHeader>
+            <CardTitle>Bulk Import</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-gray-400">
+              CSV columns: subject, question, optionA, optionB, optionC, optionD, correctAnswer, explanation,
+              imageUrl, difficulty, topic, year, examType. JSON files use the same keys. Exports can be re-imported.
+            </p>
+            <Input
+              type="file"
+              accept=".csv,.json"
+              onChange={(e) => {
+                setImportFile(e.target.files?.[0] || null);
+                setImportResult(null);
+              }}
+              className="bg-gray-700 border-gray-600"
+            />
+            <div className="flex space-x-2">
+              <Button variant="outline" disabled={!importFile || isImporting} onClick={() => runImport(true)}>
+                Validate
+              </Button>
+              <Button className="bg-blue-600 hover:bg-blue-700" disabled={!importFile || isImporting} onClick={() => runImport(false)}>
+                <Upload className="h-4 w-4 mr-2" />
+                Import
+              </Button>
+            </div>
+            {importResult && (
+              <div className="p-4 bg-gray-700 rounded space-y-2 text-sm">
+                <p>
+                  {importResult.dryRun ? 'Checked' : 'Imported'} {importResult.total} rows:{' '}
+                  {importResult.dryRun ? `${importResult.total - importResult.invalid - importResult.duplicates} ready` : `${importResult.inserted} added`},{' '}
+                  {importResult.duplicates} duplicates, {importResult.invalid} invalid
+                </p>
+                {importResult.errors.length > 0 && (
+                  <ul className="max-h-48 overflow-y-auto space-y-1 text-red-300">
+                    {importResult.errors.map(error => (
+                      <li key={error.row}>Row {error.row}: {error.errors.join('; ')}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="bg-gray-800 border-gray-700">
+          <CardHeader>
+            <CardTitle>Recent Changes</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 max-h-80 overflow-y-auto">
+            {audits?.length ? audits.map(audit => (
+              <div key={audit.id} className="flex items-center justify-between p-2 bg-gray-700 rounded text-sm">
+                <div>
+                  <span className="font-medium">{audit.adminNickname || 'Unknown admin'}</span>{' '}
+                  <Badge variant="outline">{audit.action}</Badge>{' '}
+                  <span className="text-gray-400">
+                    {audit.action === 'update' ? Object.keys(audit.changes).join(', ') : audit.questionId.slice(0, 8)}
+                  </span>
+                </div>
+                <span className="text-xs text-gray-500">
+                  {audit.createdAt ? new Date(audit.createdAt).toLocaleString() : ''}
+                </span>
+              </div>
+            )) : (
+              <p className="text-sm text-gray-400">No question changes yet</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="bg-gray-800 border-gray-700 max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Question' : 'Add Question'}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <select
+              value={form.subjectId}
+              onChange={(e) => setForm({ ...form, subjectId: e.target.value })}
+              className={`${selectClass} w-full`}
+            >
+              <option value="">Select subject</option>
+              {subjects.map(subject => <option key={subject.id} value={subject.id}>{subject.name}</option>)}
+            </select>
+            <Textarea
+              placeholder="Question"
+              value={form.question}
+              onChange={(e) => setForm({ ...form, question: e.target.value })}
+              className="bg-gray-700 border-gray-600"
+            />
+            {QUESTION_OPTION_IDS.map(id => (
+              <div key={id} className="flex items-center space-x-2">
+                <input
+                  type="radio"
+                  name="correctAnswer"
+                  checked={form.correctAnswer === id}
+                  onChange={() => setForm({ ...form, correctAnswer: id })}
+                />
+                <Input
+                  placeholder={`Option ${id}`}
+                  value={form[`option${id}` as keyof QuestionForm]}
+                  onChange={(e) => setForm({ ...form, [`option${id}`]: e.target.value })}
+                  className="bg-gray-700 border-gray-600"
+                />
+              </div>
+            ))}
+            <Textarea
+              placeholder="Explanation"
+              value={form.explanation}
+              onChange={(e) => setForm({ ...form, explanation: e.target.value })}
+              className="bg-gray-700 border-gray-600"
+            />
+            <Input
+              placeholder="Image URL (https://...)"
+              value={form.imageUrl}
+              onChange={(e) => setForm({ ...form, imageUrl: e.target.value })}
+              className="bg-gray-700 border-gray-600"
+            />
+            {/^https?:\/\//i.test(form.imageUrl) && (
+              <img src={form.imageUrl} alt="Question diagram" className="max-h-40 rounded border border-gray-600" />
+            )}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              <select value={form.difficulty} onChange={(e) => setForm({ ...form, difficulty: e.target.value })} className={selectClass}>
+                {QUESTION_DIFFICULTIES.map(level => <option key={level} value={level}>{level}</option>)}
+              </select>
+              <select value={form.examType} onChange={(e) => setForm({ ...form, examType: e.target.value })} className={selectClass}>
+                <option value="">Any exam</option>
+                {EXAM_TYPES.map(type => <option key={type} value={type}>{type.toUpperCase()}</option>)}
+              </select>
+              <Input
+                placeholder="Year"
+                value={form.year}
+                onChange={(e) => setForm({ ...form, year: e.target.value })}
+                className="bg-gray-700 border-gray-600"
+              />
+              <Input
+                placeholder="Topic"
+                value={form.topic}
+                onChange={(e) => setForm({ ...form, topic: e.target.value })}
+                className="bg-gray-700 border-gray-600"
+              />
+            </div>
+            <Button
+              className="w-full bg-blue-600 hover:bg-blue-700"
+              disabled={saveMutation.isPending}
+              onClick={() => saveMutation.mutate()}
+            >
+              {editing ? 'Save Changes' : 'Add Question'}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,250 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ChevronLeft, ChevronRight, Flag } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { QUESTION_OPTION_IDS } from '@shared/questionBank';
+import {
+  OPEN_QUESTION_REPORT_STATUSES,
+  QUESTION_REPORT_HIDE_THRESHOLD,
+  QUESTION_REPORT_TYPES,
+  type QuestionReportCorrection,
+  type QuestionReportStatus,
+} from '@shared/questionReports';
+import type { Question, QuestionReport } from '@shared/schema';
+
+type QueuedReport = QuestionReport & { openReporters: number; question: Question | null };
+
+interface ReviewForm {
+  adminNotes: string;
+  question: string;
+  correctAnswer: string;
+  explanation: string;
+}
+
+const STATUS_FILTERS = [
+  { id: 'open', name: 'Open' },
+  { id: 'resolved', name: 'Resolved' },
+  { id: 'dismissed', name: 'Dismissed' },
+];
+const PAGE_SIZE = 20;
+
+const selectClass = 'bg-gray-700 border border-gray-600 text-white rounded-md px-3 py-2 text-sm';
+
+const reportTypeName = (id: string) => QUESTION_REPORT_TYPES.find(type => type.id === id)?.name || id;
+
+export default function QuestionReportQueue() {
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState('open');
+  const [page, setPage] = useState(1);
+  const [selected, setSelected] = useState<QueuedReport | null>(null);
+  const [form, setForm] = useState<ReviewForm>({ adminNotes: '', question: '', correctAnswer: '', explanation: '' });
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['/api/admin/question-reports', status, page],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/admin/question-reports?status=${status}&page=${page}&pageSize=${PAGE_SIZE}`);
+      return await response.json() as { reports: QueuedReport[]; total: number };
+    },
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ report, nextStatus }: { report: QueuedReport; nextStatus: Exclude<QuestionReportStatus, 'pending'> }) => {
+      const correction: QuestionReportCorrection = {};
+      if (nextStatus === 'resolved' && report.question) {
+        if (form.question.trim() && form.question !== report.question.question) correction.question = form.question;
+        if (form.correctAnswer && form.correctAnswer !== report.question.correctAnswer) correction.correctAnswer = form.correctAnswer;
+        if (form.explanation !== (report.question.explanation || '')) correction.explanation = form.explanation;
+      }
+      const response = await apiRequest('PATCH', `/api/admin/question-reports/${report.id}`, {
+        status: nextStatus,
+        adminNotes: form.adminNotes,
+        correction,
+      });
+      return response.json();
+    },
+    onSuccess: (_, { nextStatus }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/question-reports'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/questions'] });
+      setSelected(null);
+      toast({ title: "Success", description: `Report ${nextStatus}` });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: error instanceof Error ? error.message : "Failed to review report", variant: "destructive" });
+    },
+  });
+
+  const openReview = (report: QueuedReport) => {
+    setSelected(report);
+    setForm({
+      adminNotes: report.adminNotes || '',
+      question: report.question?.question || '',
+      correctAnswer: report.question?.correctAnswer || '',
+      explanation: report.question?.explanation || '',
+    });
+  };
+
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / PAGE_SIZE)) : 1;
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Flag className="h-5 w-5 text-red-400" />
+            Question Reports
+          </CardTitle>
+          <select
+            value={status}
+            onChange={(e) => { setStatus(e.target.value); setPage(1); }}
+            className={selectClass}
+          >
+            {STATUS_FILTERS.map(filter => <option key={filter.id} value={filter.id}>{filter.name}</option>)}
+          </select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {data?.reports.map(report => (
+          <div key={report.id} className="p-4 bg-gray-700 rounded-lg">
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-1 min-w-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="destructive">{reportTypeName(report.reportType)}</Badge>
+                  <Badge variant="outline">{report.subject}</Badge>
+                  <Badge variant="secondary">{report.status}</Badge>
+                  {report.openReporters > 1 && (
+                    <Badge variant="outline">{report.openReporters} students reported this</Badge>
+                  )}
+                  {report.question?.hiddenAt && <Badge variant="destructive">hidden</Badge>}
+                  {!report.question && <Badge variant="outline">not in bank</Badge>}
+                </div>
+                <p className="font-medium truncate">{report.questionText}</p>
+                {report.description && <p className="text-sm text-gray-300">"{report.description}"</p>}
+                <p className="text-xs text-gray-400">
+                  Student answered {report.userAnswer || 'nothing'} • Marked correct: {report.correctAnswer}
+                  {report.createdAt && ` • ${new Date(report.createdAt).toLocaleDateString()}`}
+                </p>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => openReview(report)}>
+                Review
+              </Button>
+            </div>
+          </div>
+        ))}
+        {isLoading && <p className="text-center text-gray-400 py-4">Loading reports...</p>}
+        {data && data.reports.length === 0 && (
+          <p className="text-center text-gray-400 py-4">No reports here</p>
+        )}
+        {data && data.total > PAGE_SIZE && (
+          <div className="flex items-center justify-between pt-2 text-sm text-gray-400">
+            <span>{data.total} reports</span>
+            <div className="flex items-center space-x-2">
+              <Button variant="ghost" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span>Page {page} of {totalPages}</span>
+              <Button variant="ghost" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+        <p className="text-xs text-gray-500">
+          Bank questions with {QUESTION_REPORT_HIDE_THRESHOLD} or more open reports are hidden from new quizzes until reviewed.
+        </p>
+      </CardContent>
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="bg-gray-800 border-gray-700 text-white max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Review Report</DialogTitle>
+          </DialogHeader>
+          {selected && (
+            <div className="space-y-4">
+              <div className="space-y-1 text-sm">
+                <p className="font-medium">{selected.questionText}</p>
+                {selected.questionOptions.map(option => (
+                  <p key={option.id} className={option.id === selected.correctAnswer ? 'text-green-400' : 'text-gray-300'}>
+                    {option.id}. {option.text}
+                  </p>
+                ))}
+              </div>
+
+              {selected.question ? (
+                <div className="space-y-2">
+                  <p className="text-sm text-gray-400">Correct the question when resolving (optional)</p>
+                  <Textarea
+                    value={form.question}
+                    onChange={(e) => setForm({ ...form, question: e.target.value })}
+                    className="bg-gray-700 border-gray-600"
+                  />
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm">Correct answer</span>
+                    <select
+                      value={form.correctAnswer}
+                      onChange={(e) => setForm({ ...form, correctAnswer: e.target.value })}
+                      className={selectClass}
+                    >
+                      {QUESTION_OPTION_IDS.map(id => <option key={id} value={id}>{id}</option>)}
+                    </select>
+                  </div>
+                  <Input
+                    placeholder="Explanation"
+                    value={form.explanation}
+                    onChange={(e) => setForm({ ...form, explanation: e.target.value })}
+                    className="bg-gray-700 border-gray-600"
+                  />
+                </div>
+              ) : (
+                <p className="text-sm text-gray-400">This question isn't in the bank, so it can't be corrected here.</p>
+              )}
+
+              <Textarea
+                placeholder="Notes for the student (sent with the outcome)"
+                value={form.adminNotes}
+                onChange={(e) => setForm({ ...form, adminNotes: e.target.value })}
+                className="bg-gray-700 border-gray-600"
+              />
+
+              <div className="flex justify-end space-x-2">
+                {selected.status === 'pending' && (
+                  <Button
+                    variant="outline"
+                    disabled={reviewMutation.isPending}
+                    onClick={() => reviewMutation.mutate({ report: selected, nextStatus: 'reviewed' })}
+                  >
+                    Mark Reviewed
+                  </Button>
+                )}
+                {OPEN_QUESTION_REPORT_STATUSES.includes(selected.status as QuestionReportStatus) && (
+                  <>
+                    <Button
+                      variant="outline"
+                      disabled={reviewMutation.isPending}
+                      onClick={() => reviewMutation.mutate({ report: selected, nextStatus: 'dismissed' })}
+                    >
+                      Dismiss
+                    </Button>
+                    <Button
+                      className="bg-green-600 hover:bg-green-700"
+                      disabled={reviewMutation.isPending}
+                      onClick={() => reviewMutation.mutate({ report: selected, nextStatus: 'resolved' })}
+                    >
+                      Resolve
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Flag } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import {
+  QUESTION_REPORT_DESCRIPTION_MAX_LENGTH,
+  QUESTION_REPORT_TYPES,
+  type QuestionReportType,
+} from '@shared/questionReports';
+
+interface ReportQuestionButtonProps {
+  question: {
+    id: string;
+    question: string;
+    options: Array<{ id?: string; label?: string; text: string }>;
+    correctAnswer: string;
+  };
+  subject?: string;
+  userAnswer?: string | null;
+  className?: string;
+}
+
+export default function ReportQuestionButton({ question, subject, userAnswer, className }: ReportQuestionButtonProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [reportType, setReportType] = useState<QuestionReportType>('incorrect_answer');
+  const [description, setDescription] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isReported, setIsReported] = useState(false);
+
+  const submit = async () => {
+    setIsSubmitting(true);
+    try {
+      await apiRequest('POST', '/api/question-reports', {
+        questionId: question.id,
+        reportType,
+        description,
+        userAnswer: userAnswer || undefined,
+        // Only used when the question isn't in the bank
+        questionText: question.question,
+        questionOptions: question.options,
+        correctAnswer: question.correctAnswer,
+        subject,
+      });
+      setIsReported(true);
+      setIsOpen(false);
+      toast({ title: "Thanks for the report", description: "We'll review this question and let you know what we find." });
+    } catch (error) {
+      const alreadyReported = error instanceof Error && error.message.startsWith('409');
+      if (alreadyReported) setIsReported(true);
+      toast({
+        title: alreadyReported ? "Already reported" : "Error",
+        description: alreadyReported ? "You've already reported this question" : "Failed to send your report",
+        variant: alreadyReported ? undefined : "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="sm"
+        disabled={isReported}
+        onClick={() => setIsOpen(true)}
+        className={className || 'text-gray-400 hover:text-red-400'}
+      >
+        <Flag className="h-4 w-4 mr-1" />
+        {isReported ? 'Reported' : 'Report'}
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="bg-gray-800 border-gray-700 text-white">
+          <DialogHeader>
+            <DialogTitle>Report a problem with this question</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-gray-400 line-clamp-3">{question.question}</p>
+            <div className="grid grid-cols-2 gap-2">
+              {QUESTION_REPORT_TYPES.map(type => (
+                <Button
+                  key={type.id}
+                  onClick={() => setReportType(type.id)}
+                  className={reportType === type.id
+                    ? 'bg-blue-600 hover:bg-blue-700 text-white'
+                    : 'bg-gray-600 hover:bg-gray-700 text-gray-300'}
+                >
+                  {type.name}
+                </Button>
+              ))}
+            </div>
+            <Textarea
+              placeholder="What's wrong? (optional)"
+              value={description}
+              maxLength={QUESTION_REPORT_DESCRIPTION_MAX_LENGTH}
+              onChange={(e) => setDescription(e.target.value)}
+              className="bg-gray-700 border-gray-600"
+            />
+            <Button className="w-full bg-red-600 hover:bg-red-700" disabled={isSubmitting} onClick={submit}>
+              Send Report
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
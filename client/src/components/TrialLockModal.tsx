@@ -128,9 +128,9 @@ export default function TrialLockModal({
               type="text"
               value={activationCode}
               onChange={(e) => setActivationCode(e.target.value.toUpperCase())}
-              placeholder="Enter your code (e.g. 0814880)"
+              placeholder="Enter your 8-character code"
               className="bg-white/10 border-white/30 text-white placeholder:text-gray-400"
-              maxLength={7}
+              maxLength={8}
             />
           </div>
 
@@ -167,7 +167,6 @@ export default function TrialLockModal({
           {/* Contact Info */}
           <div className="text-center text-xs text-gray-400">
             <p>Contact: +234 814 880 9180</p>
-            <p className="mt-1">Valid codes: 0814880, 0901918, 0803989</p>
           </div>
 
           {/* Close Button */}
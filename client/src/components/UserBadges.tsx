@@ -1,18 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { Badge, Trophy, Star, Zap, Brain, Target, Award } from 'lucide-react';
 import { useQuery } from '@tanstack/react-query';
+import { toast } from '@/hooks/use-toast';
+import { queryClient } from '@/lib/queryClient';
+import type { BadgeStatus } from '@shared/badges';
 
-interface UserBadge {
-  id: string;
-  title: string;
-  description: string;
-  icon: string;
-  color: string;
-  rarity: 'common' | 'rare' | 'epic' | 'legendary';
-  progress: number;
-  maxProgress: number;
-  unlockedAt?: Date;
-}
+// Badges unlocked this recently get a "New" marker
+const NEW_BADGE_MS = 24 * 60 * 60 * 1000;
 
 interface UserBadgesProps {
   userId: string;
@@ -44,13 +38,25 @@ const getRarityColor = (rarity: string) => {
   }
 };
 
+/**
+ * Celebrate badges an action just unlocked (returned as unlockedBadges by the API) and refresh badge lists
+ */
+export function celebrateBadges(badges?: BadgeStatus[]) {
+  if (!badges?.length) return;
+
+  for (const badge of badges) {
+    toast({ title: `🏅 Badge unlocked: ${badge.title}`, description: badge.description });
+  }
+  queryClient.invalidateQueries({ queryKey: ['userBadges'] });
+}
+
 export default function UserBadges({ userId, className = '' }: UserBadgesProps) {
   const { data: badges = [], isLoading } = useQuery({
     queryKey: ['userBadges', userId],
     queryFn: async () => {
       const response = await fetch(`/api/users/${userId}/badges`);
       if (!response.ok) throw new Error('Failed to fetch badges');
-      return response.json() as UserBadge[];
+      return await response.json() as BadgeStatus[];
     }
   });
 
@@ -66,8 +72,9 @@ export default function UserBadges({ userId, className = '' }: UserBadgesProps)
     );
   }
 
-  const unlockedBadges = badges.filter(badge => badge.progress >= badge.maxProgress);
-  const inProgressBadges = badges.filter(badge => badge.progress < badge.maxProgress);
+  const unlockedBadges = badges.filter(badge => badge.unlockedAt);
+  const inProgressBadges = badges.filter(badge => !badge.unlockedAt);
+  const isNew = (badge: BadgeStatus) => !!badge.unlockedAt && Date.now() - new Date(badge.unlockedAt).getTime() < NEW_BADGE_MS;
 
   return (
     <div className={`space-y-6 ${className}`}>
@@ -99,7 +106,7 @@ export default function UserBadges({ userId, className = '' }: UserBadgesProps)
                     {badge.description}
                   </p>
                   <div className="text-xs text-green-600 dark:text-green-400 font-medium">
-                    ✓ Unlocked
+                    {isNew(badge) ? '🎉 New!' : '✓ Unlocked'}
                   </div>
                 </div>
               </div>
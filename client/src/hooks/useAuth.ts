@@ -6,17 +6,17 @@ export function useAuth() {
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
-    // Check for stored user data
-    const storedUser = localStorage.getItem('cbt_user');
-    if (storedUser) {
-      try {
-        setUser(JSON.parse(storedUser));
-      } catch (error) {
-        console.error('Error parsing stored user:', error);
-        localStorage.removeItem('cbt_user');
-      }
-    }
-    setIsLoading(false);
+    // Older builds cached the user object on the device; the server session is now the source of truth
+    localStorage.removeItem('cbt_user');
+
+    fetch('/api/auth/user', { credentials: 'include' })
+      .then(res => (res.ok ? res.json() : null))
+      .then(sessionUser => setUser(sessionUser))
+      .catch(error => {
+        console.error('Error restoring session:', error);
+        setUser(null);
+      })
+      .finally(() => setIsLoading(false));
   }, []);
 
   const login = async (email: string, password: string): Promise<User> => {
@@ -25,6 +25,7 @@ export function useAuth() {
       headers: {
         'Content-Type': 'application/json',
       },
+      credentials: 'include',
       body: JSON.stringify({ email, password }),
     });
 
@@ -38,7 +39,6 @@ export function useAuth() {
 
     const userData = await response.json();
     setUser(userData);
-    localStorage.setItem('cbt_user', JSON.stringify(userData));
     return userData;
   };
 
@@ -73,22 +73,23 @@ export function useAuth() {
     return registrationResult;
   };
 
-  const logout = () => {
+  const logout = async () => {
     setUser(null);
-    localStorage.removeItem('cbt_user');
+    try {
+      await fetch('/api/auth/logout', { method: 'POST', credentials: 'include' });
+    } catch (error) {
+      console.error('Error ending session:', error);
+    }
   };
 
   const updateUser = (updates: Partial<User>) => {
     if (user) {
-      const updatedUser = { ...user, ...updates };
-      setUser(updatedUser);
-      localStorage.setItem('cbt_user', JSON.stringify(updatedUser));
+      setUser({ ...user, ...updates });
     }
   };
 
   const handleGoogleAuth = async (userData: any): Promise<User> => {
     setUser(userData);
-    localStorage.setItem('cbt_user', JSON.stringify(userData));
     return userData;
   };
 
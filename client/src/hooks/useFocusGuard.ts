@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { toast } from '@/hooks/use-toast';
+import { FOCUS_SECTION_ACTIONS, type FocusDistractionType } from '@shared/focus';
+import type { FocusSession } from '@shared/schema';
+
+export const focusSessionQueryKey = (userId?: string) => ['/api/focus/sessions/active', userId];
+
+/**
+ * Watch for distractions while a focus session runs, wherever the student is in the app: the tab being
+ * hidden, the window losing focus, and opening a section (or the calculator) the session doesn't allow.
+ * The server decides what counts and keeps the score.
+ */
+export function useFocusGuard(userId: string | undefined, section: string, isCalculatorOpen: boolean) {
+  const queryClient = useQueryClient();
+
+  const { data: session } = useQuery<FocusSession | null>({
+    queryKey: focusSessionQueryKey(userId),
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/focus/sessions/active/${userId}`);
+      return await response.json() as FocusSession | null;
+    },
+    enabled: !!userId,
+    staleTime: 0,
+    refetchInterval: 60 * 1000,
+  });
+
+  const isFocusing = !!session && !session.isPaused && session.phase === 'focus';
+  const sessionRef = useRef(session);
+  sessionRef.current = session;
+
+  const report = useCallback(async (type: FocusDistractionType, blockedSection?: string) => {
+    const current = sessionRef.current;
+    if (!current) return;
+    try {
+      const response = await apiRequest('POST', `/api/focus/sessions/${current.id}/distractions`, { type, section: blockedSection });
+      const updated = await response.json() as FocusSession;
+      queryClient.setQueryData(focusSessionQueryKey(userId), updated);
+      if ((updated.distractionCount || 0) > (current.distractionCount || 0)) {
+        toast({ title: "Distraction noted", description: `Focus score ${updated.focusScore}/100. Stay with it!`, variant: "destructive" });
+      }
+    } catch (error) {
+      console.error('Error reporting focus distraction:', error);
+    }
+  }, [queryClient, userId]);
+
+  useEffect(() => {
+    if (!isFocusing) return;
+    const onVisibilityChange = () => {
+      if (document.hidden) report('tab_hidden');
+    };
+    const onBlur = () => report('window_blur');
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    window.addEventListener('blur', onBlur);
+    return () => {
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      window.removeEventListener('blur', onBlur);
+    };
+  }, [isFocusing, report]);
+
+  useEffect(() => {
+    const action = FOCUS_SECTION_ACTIONS[section];
+    if (isFocusing && action && !sessionRef.current?.allowedActions?.[action]) {
+      report('blocked_section', section);
+    }
+  }, [isFocusing, section, report]);
+
+  useEffect(() => {
+    if (isFocusing && isCalculatorOpen && !sessionRef.current?.allowedActions?.calculator) {
+      report('blocked_section', 'calculator');
+    }
+  }, [isFocusing, isCalculatorOpen, report]);
+}
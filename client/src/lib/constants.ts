@@ -9,73 +9,7 @@ export const SUBJECTS = [
   { name: "Literature", emoji: "📖", color: "blue" },
 ];
 
-export const STUDY_PLAN_TOPICS = {
-  English: [
-    "Grammar Fundamentals",
-    "Reading Comprehension",
-    "Essay Writing",
-    "Vocabulary Building",
-    "Literary Devices",
-    "Oral English"
-  ],
-  Mathematics: [
-    "Algebra",
-    "Geometry",
-    "Trigonometry",
-    "Calculus",
-    "Statistics",
-    "Number Theory",
-    "Coordinate Geometry",
-    "Sequences and Series"
-  ],
-  Biology: [
-    "Cell Biology",
-    "Genetics",
-    "Ecology",
-    "Evolution",
-    "Human Anatomy",
-    "Plant Biology",
-    "Microbiology"
-  ],
-  Physics: [
-    "Mechanics",
-    "Thermodynamics",
-    "Electromagnetism",
-    "Optics",
-    "Atomic Physics",
-    "Waves and Sound"
-  ],
-  Chemistry: [
-    "Atomic Structure",
-    "Chemical Bonding",
-    "Organic Chemistry",
-    "Inorganic Chemistry",
-    "Physical Chemistry",
-    "Electrochemistry"
-  ],
-  Economics: [
-    "Microeconomics",
-    "Macroeconomics",
-    "International Trade",
-    "Money and Banking",
-    "Development Economics"
-  ],
-  Government: [
-    "Constitutional Law",
-    "Political Systems",
-    "Public Administration",
-    "International Relations",
-    "Political Theory"
-  ],
-  Literature: [
-    "Poetry Analysis",
-    "Prose Fiction",
-    "Drama Studies",
-    "Literary Criticism",
-    "African Literature",
-    "World Literature"
-  ]
-};
+export { STUDY_PLAN_TOPICS } from '@shared/examPlan';
 
 export const AI_MODELS = [
   { id: 'gemini', name: 'Gemini', description: 'Google AI' },
@@ -5,6 +5,9 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
@@ -12,12 +15,20 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { apiRequest } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+import ExamPlanner from "@/components/ExamPlanner";
 import { 
   Calendar, Clock, Target, Brain, CheckCircle, XCircle, 
   Play, Pause, SkipForward, RotateCcw, TrendingUp, 
   Zap, AlertCircle, Star, ArrowRight, Plus, Settings
 } from "lucide-react";
 import type { StudyScheduler, Subject, StudyInsights } from "@shared/schema";
+import {
+  SCHEDULER_PLAN_DEFAULT_DAILY_MINUTES,
+  SCHEDULER_WEEKDAYS,
+  type SchedulerPerformance,
+  type StudyAvailability
+} from "@shared/scheduler";
 
 const createTaskSchema = z.object({
   subjectId: z.string().min(1, "Subject is required"),
@@ -31,6 +42,9 @@ const createTaskSchema = z.object({
 
 type CreateTaskForm = z.infer<typeof createTaskSchema>;
 
+const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message.replace(/^\d+: /, "") : fallback;
+
 export default function AdaptiveScheduler() {
   const { user } = useAuth();
   const queryClient = useQueryClient();
@@ -39,6 +53,10 @@ export default function AdaptiveScheduler() {
   const [activeTask, setActiveTask] = useState<StudyScheduler | null>(null);
   const [timeRemaining, setTimeRemaining] = useState(0);
   const [isRunning, setIsRunning] = useState(false);
+  const [completionScore, setCompletionScore] = useState("");
+  const [isPlanDialogOpen, setIsPlanDialogOpen] = useState(false);
+  const [availability, setAvailability] = useState<StudyAvailability>({});
+  const [dailyMinutes, setDailyMinutes] = useState(SCHEDULER_PLAN_DEFAULT_DAILY_MINUTES);
 
   const form = useForm<CreateTaskForm>({
     resolver: zodResolver(createTaskSchema),
@@ -54,67 +72,84 @@ export default function AdaptiveScheduler() {
   });
 
   // Fetch subjects
-  const { data: subjects } = useQuery({
+  const { data: subjects } = useQuery<Subject[]>({
     queryKey: ["/api/subjects"],
     enabled: !!user
   });
 
-  // Fetch today's schedule
+  // Fetch the selected day's schedule
   const { data: todaySchedule, isLoading } = useQuery({
-    queryKey: ["/api/scheduler/today", selectedDate],
-    enabled: !!user
+    queryKey: ["/api/scheduler/tasks", user?.id, selectedDate],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/scheduler/tasks/${user!.id}?date=${selectedDate}`);
+      return await response.json() as StudyScheduler[];
+    },
+    enabled: !!user,
+    staleTime: 0
   });
 
   // Fetch upcoming tasks
-  const { data: upcomingTasks } = useQuery({
-    queryKey: ["/api/scheduler/upcoming"],
+  const { data: upcomingTasks } = useQuery<StudyScheduler[]>({
+    queryKey: ["/api/scheduler/upcoming", user?.id],
+    enabled: !!user,
+    staleTime: 0
+  });
+
+  // Fetch study availability for the week planner and the auto-adjust setting
+  const { data: savedAvailability } = useQuery<StudyAvailability>({
+    queryKey: ["/api/scheduler/availability", user?.id],
     enabled: !!user
   });
 
-  // Fetch study insights
-  const { data: insights } = useQuery({
-    queryKey: ["/api/insights/weekly"],
+  useEffect(() => {
+    if (savedAvailability) setAvailability(savedAvailability);
+  }, [savedAvailability]);
+
+  // Fetch the latest weekly insights
+  const { data: insights } = useQuery<StudyInsights | null>({
+    queryKey: ["/api/insights/weekly", user?.id],
     enabled: !!user
   });
 
   // Create task mutation
   const createTaskMutation = useMutation({
-    mutationFn: (data: CreateTaskForm) => apiRequest("/api/scheduler/tasks", {
-      method: "POST",
-      body: JSON.stringify({ 
-        ...data, 
-        userId: user?.id,
-        scheduledDate: new Date(data.scheduledDate + 'T' + data.scheduledTime),
-        adaptiveScore: 5 // Default score, will be adjusted based on performance
-      })
+    mutationFn: (data: CreateTaskForm) => apiRequest("POST", "/api/scheduler/tasks", {
+      ...data,
+      userId: user?.id,
+      scheduledDate: new Date(data.scheduledDate + 'T' + data.scheduledTime)
     }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/scheduler"] });
       setIsCreateDialogOpen(false);
       form.reset();
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error, "Failed to schedule task"), variant: "destructive" });
     }
   });
 
   // Start task mutation
   const startTaskMutation = useMutation({
-    mutationFn: (taskId: string) => apiRequest(`/api/scheduler/tasks/${taskId}/start`, {
-      method: "POST"
-    }),
+    mutationFn: async (taskId: string) => {
+      const response = await apiRequest("PATCH", `/api/scheduler/tasks/${taskId}/start`);
+      return await response.json() as StudyScheduler;
+    },
     onSuccess: (task) => {
       setActiveTask(task);
-      setTimeRemaining(task.duration);
+      setTimeRemaining(task.duration || 0);
       setIsRunning(true);
+      setCompletionScore("");
       queryClient.invalidateQueries({ queryKey: ["/api/scheduler"] });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error, "Failed to start task"), variant: "destructive" });
     }
   });
 
   // Complete task mutation
   const completeTaskMutation = useMutation({
-    mutationFn: (data: { taskId: string; performance: any }) => 
-      apiRequest(`/api/scheduler/tasks/${data.taskId}/complete`, {
-        method: "POST",
-        body: JSON.stringify(data.performance)
-      }),
+    mutationFn: (data: { taskId: string; performance: SchedulerPerformance }) =>
+      apiRequest("PATCH", `/api/scheduler/tasks/${data.taskId}/complete`, { performance: data.performance }),
     onSuccess: () => {
       setActiveTask(null);
       setIsRunning(false);
@@ -123,6 +158,68 @@ export default function AdaptiveScheduler() {
     }
   });
 
+  // Skip task mutation
+  const skipTaskMutation = useMutation({
+    mutationFn: (taskId: string) => apiRequest("PATCH", `/api/scheduler/tasks/${taskId}/skip`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/scheduler"] });
+    }
+  });
+
+  // Save availability, then plan the week ahead around it
+  const planWeekMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PUT", `/api/scheduler/availability/${user!.id}`, availability);
+      const response = await apiRequest("POST", `/api/scheduler/plan/${user!.id}`, { dailyMinutes });
+      return await response.json() as StudyScheduler[];
+    },
+    onSuccess: (tasks) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/scheduler"] });
+      queryClient.setQueryData(["/api/scheduler/availability", user?.id], availability);
+      setIsPlanDialogOpen(false);
+      toast({ title: "Week planned", description: `${tasks.length} study sessions scheduled` });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error, "Failed to plan your week"), variant: "destructive" });
+    }
+  });
+
+  // Work out this week's insights so far
+  const refreshInsightsMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/insights/weekly/${user!.id}`);
+      return await response.json() as StudyInsights;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["/api/insights/weekly", user?.id], data);
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error, "Failed to update insights"), variant: "destructive" });
+    }
+  });
+
+  // Let weekly insights move the preferred time and reprioritise upcoming tasks
+  const autoAdjustMutation = useMutation({
+    mutationFn: async (autoAdjust: boolean) => {
+      const response = await apiRequest("PUT", `/api/scheduler/availability/${user!.id}`, { ...savedAvailability, autoAdjust });
+      return await response.json() as StudyAvailability;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["/api/scheduler/availability", user?.id], data);
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error, "Failed to save setting"), variant: "destructive" });
+    }
+  });
+
+  // Performance to report when finishing the active task
+  const completionPerformance = (timeEfficiency: number): SchedulerPerformance => {
+    const score = Number(completionScore);
+    return completionScore.trim() && !Number.isNaN(score)
+      ? { timeEfficiency, score: Math.min(Math.max(score, 0), 100) }
+      : { timeEfficiency };
+  };
+
   // Timer effect
   useEffect(() => {
     let interval: NodeJS.Timeout;
@@ -136,10 +233,7 @@ export default function AdaptiveScheduler() {
             if (activeTask) {
               completeTaskMutation.mutate({
                 taskId: activeTask.id,
-                performance: {
-                  timeEfficiency: 100,
-                  completed: true
-                }
+                performance: completionPerformance(100)
               });
             }
             return 0;
@@ -179,51 +273,11 @@ export default function AdaptiveScheduler() {
       case "review": return <RotateCcw className="w-4 h-4" />;
       case "notes": return <Brain className="w-4 h-4" />;
       case "practice": return <Play className="w-4 h-4" />;
+      case "mock": return <Star className="w-4 h-4" />;
       default: return <Calendar className="w-4 h-4" />;
     }
   };
 
-  const getAdaptiveRecommendations = () => {
-    if (!insights) return [];
-    
-    const recommendations = [];
-    
-    // Check if user has low focus scores
-    if (insights.averageFocusScore < 70) {
-      recommendations.push({
-        type: "focus",
-        message: "Consider shorter study sessions to improve focus",
-        action: "Reduce session duration to 25 minutes"
-      });
-    }
-    
-    // Check productive hours
-    if (insights.productiveHours?.length > 0) {
-      const mostProductive = insights.productiveHours.reduce((max, current) => 
-        current.productivity > max.productivity ? current : max
-      );
-      recommendations.push({
-        type: "timing",
-        message: `You're most productive at ${mostProductive.hour}:00`,
-        action: `Schedule important tasks around ${mostProductive.hour}:00`
-      });
-    }
-    
-    // Check subject performance
-    if (insights.subjectPerformance?.length > 0) {
-      const weakSubject = insights.subjectPerformance.reduce((min, current) => 
-        current.averageScore < min.averageScore ? current : min
-      );
-      recommendations.push({
-        type: "subject",
-        message: `${weakSubject.subject} needs more attention`,
-        action: `Increase study time for ${weakSubject.subject}`
-      });
-    }
-    
-    return recommendations;
-  };
-
   if (!user) {
     return (
       <div className="container mx-auto px-4 py-8">
@@ -249,167 +303,239 @@ export default function AdaptiveScheduler() {
             </p>
           </div>
           
-          <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-            <DialogTrigger asChild>
-              <Button className="bg-purple-600 hover:bg-purple-700">
-                <Plus className="w-4 h-4 mr-2" />
-                Schedule Task
-              </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>Schedule New Study Task</DialogTitle>
-                <DialogDescription>
-                  Create a new study task and let AI optimize your schedule
-                </DialogDescription>
-              </DialogHeader>
-              
-              <Form {...form}>
-                <form onSubmit={form.handleSubmit((data) => createTaskMutation.mutate(data))} className="space-y-4">
-                  <FormField
-                    control={form.control}
-                    name="subjectId"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Subject</FormLabel>
-                        <Select onValueChange={field.onChange} defaultValue={field.value}>
-                          <FormControl>
-                            <SelectTrigger>
-                              <SelectValue placeholder="Select subject" />
-                            </SelectTrigger>
-                          </FormControl>
-                          <SelectContent>
-                            {subjects?.map((subject: Subject) => (
-                              <SelectItem key={subject.id} value={subject.id}>
-                                {subject.name}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+          <div className="flex gap-2">
+            <Dialog open={isPlanDialogOpen} onOpenChange={setIsPlanDialogOpen}>
+              <DialogTrigger asChild>
+                <Button variant="outline">
+                  <Zap className="w-4 h-4 mr-2" />
+                  Plan My Week
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Plan the Week Ahead</DialogTitle>
+                  <DialogDescription>
+                    Sessions go to your weakest subjects first, on the days you can study
+                  </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4">
+                  <div>
+                    <label className="text-sm font-medium mb-2 block">Days you can study</label>
+                    <div className="grid grid-cols-4 gap-2">
+                      {SCHEDULER_WEEKDAYS.map(day => (
+                        <label key={day} className="flex items-center gap-2 text-sm capitalize">
+                          <Checkbox
+                            checked={!!availability[day]}
+                            onCheckedChange={(checked) => setAvailability({ ...availability, [day]: !!checked })}
+                          />
+                          {day.slice(0, 3)}
+                        </label>
+                      ))}
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">Leave all unticked to study every day</p>
+                  </div>
 
                   <div className="grid grid-cols-2 gap-4">
-                    <FormField
-                      control={form.control}
-                      name="scheduledDate"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Date</FormLabel>
-                          <FormControl>
-                            <Input type="date" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    
-                    <FormField
-                      control={form.control}
-                      name="scheduledTime"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Time</FormLabel>
-                          <FormControl>
-                            <Input type="time" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
+                    <div>
+                      <label className="text-sm font-medium mb-2 block">Start time</label>
+                      <Input
+                        type="time"
+                        value={availability.preferredTime && /^\d{2}:\d{2}$/.test(availability.preferredTime) ? availability.preferredTime : ""}
+                        onChange={(e) => setAvailability({ ...availability, preferredTime: e.target.value || undefined })}
+                      />
+                    </div>
+                    <div>
+                      <label className="text-sm font-medium mb-2 block">Minutes per day</label>
+                      <Select value={String(dailyMinutes)} onValueChange={(value) => setDailyMinutes(Number(value))}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="30">30 minutes</SelectItem>
+                          <SelectItem value="60">1 hour</SelectItem>
+                          <SelectItem value="90">1.5 hours</SelectItem>
+                          <SelectItem value="120">2 hours</SelectItem>
+                          <SelectItem value="180">3 hours</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
                   </div>
 
-                  <FormField
-                    control={form.control}
-                    name="duration"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Duration (minutes)</FormLabel>
-                        <Select onValueChange={(value) => field.onChange(Number(value) * 60)} defaultValue={(field.value / 60).toString()}>
-                          <FormControl>
-                            <SelectTrigger>
-                              <SelectValue placeholder="Select duration" />
-                            </SelectTrigger>
-                          </FormControl>
-                          <SelectContent>
-                            <SelectItem value="15">15 minutes</SelectItem>
-                            <SelectItem value="25">25 minutes (Pomodoro)</SelectItem>
-                            <SelectItem value="30">30 minutes</SelectItem>
-                            <SelectItem value="45">45 minutes</SelectItem>
-                            <SelectItem value="60">1 hour</SelectItem>
-                            <SelectItem value="90">1.5 hours</SelectItem>
-                            <SelectItem value="120">2 hours</SelectItem>
-                          </SelectContent>
-                        </Select>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+                  <div className="flex gap-3">
+                    <Button onClick={() => planWeekMutation.mutate()} disabled={planWeekMutation.isPending} className="flex-1">
+                      {planWeekMutation.isPending ? "Planning..." : "Plan Week"}
+                    </Button>
+                    <Button type="button" variant="outline" onClick={() => setIsPlanDialogOpen(false)}>
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              </DialogContent>
+            </Dialog>
 
-                  <div className="grid grid-cols-2 gap-4">
+            <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+              <DialogTrigger asChild>
+                <Button className="bg-purple-600 hover:bg-purple-700">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Schedule Task
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Schedule New Study Task</DialogTitle>
+                  <DialogDescription>
+                    Create a new study task and let AI optimize your schedule
+                  </DialogDescription>
+                </DialogHeader>
+                
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit((data) => createTaskMutation.mutate(data))} className="space-y-4">
                     <FormField
                       control={form.control}
-                      name="taskType"
+                      name="subjectId"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>Task Type</FormLabel>
+                          <FormLabel>Subject</FormLabel>
                           <Select onValueChange={field.onChange} defaultValue={field.value}>
                             <FormControl>
                               <SelectTrigger>
-                                <SelectValue placeholder="Select type" />
+                                <SelectValue placeholder="Select subject" />
                               </SelectTrigger>
                             </FormControl>
                             <SelectContent>
-                              <SelectItem value="quiz">Quiz Practice</SelectItem>
-                              <SelectItem value="review">Review Session</SelectItem>
-                              <SelectItem value="notes">Note Taking</SelectItem>
-                              <SelectItem value="practice">Practice Questions</SelectItem>
+                              {subjects?.map((subject: Subject) => (
+                                <SelectItem key={subject.id} value={subject.id}>
+                                  {subject.name}
+                                </SelectItem>
+                              ))}
                             </SelectContent>
                           </Select>
                           <FormMessage />
                         </FormItem>
                       )}
                     />
-                    
+
+                    <div className="grid grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="scheduledDate"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Date</FormLabel>
+                            <FormControl>
+                              <Input type="date" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      
+                      <FormField
+                        control={form.control}
+                        name="scheduledTime"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Time</FormLabel>
+                            <FormControl>
+                              <Input type="time" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+
                     <FormField
                       control={form.control}
-                      name="priority"
+                      name="duration"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>Priority</FormLabel>
-                          <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <FormLabel>Duration (minutes)</FormLabel>
+                          <Select onValueChange={(value) => field.onChange(Number(value) * 60)} defaultValue={(field.value / 60).toString()}>
                             <FormControl>
                               <SelectTrigger>
-                                <SelectValue placeholder="Select priority" />
+                                <SelectValue placeholder="Select duration" />
                               </SelectTrigger>
                             </FormControl>
                             <SelectContent>
-                              <SelectItem value="low">Low</SelectItem>
-                              <SelectItem value="medium">Medium</SelectItem>
-                              <SelectItem value="high">High</SelectItem>
-                              <SelectItem value="urgent">Urgent</SelectItem>
+                              <SelectItem value="15">15 minutes</SelectItem>
+                              <SelectItem value="25">25 minutes (Pomodoro)</SelectItem>
+                              <SelectItem value="30">30 minutes</SelectItem>
+                              <SelectItem value="45">45 minutes</SelectItem>
+                              <SelectItem value="60">1 hour</SelectItem>
+                              <SelectItem value="90">1.5 hours</SelectItem>
+                              <SelectItem value="120">2 hours</SelectItem>
                             </SelectContent>
                           </Select>
                           <FormMessage />
                         </FormItem>
                       )}
                     />
-                  </div>
 
-                  <div className="flex gap-3">
-                    <Button type="submit" disabled={createTaskMutation.isPending} className="flex-1">
-                      {createTaskMutation.isPending ? "Scheduling..." : "Schedule Task"}
-                    </Button>
-                    <Button type="button" variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
-                      Cancel
-                    </Button>
-                  </div>
-                </form>
-              </Form>
-            </DialogContent>
-          </Dialog>
+                    <div className="grid grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="taskType"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Task Type</FormLabel>
+                            <Select onValueChange={field.onChange} defaultValue={field.value}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Select type" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="quiz">Quiz Practice</SelectItem>
+                                <SelectItem value="review">Review Session</SelectItem>
+                                <SelectItem value="notes">Note Taking</SelectItem>
+                                <SelectItem value="practice">Practice Questions</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      
+                      <FormField
+                        control={form.control}
+                        name="priority"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Priority</FormLabel>
+                            <Select onValueChange={field.onChange} defaultValue={field.value}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Select priority" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="low">Low</SelectItem>
+                                <SelectItem value="medium">Medium</SelectItem>
+                                <SelectItem value="high">High</SelectItem>
+                                <SelectItem value="urgent">Urgent</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+
+                    <div className="flex gap-3">
+                      <Button type="submit" disabled={createTaskMutation.isPending} className="flex-1">
+                        {createTaskMutation.isPending ? "Scheduling..." : "Schedule Task"}
+                      </Button>
+                      <Button type="button" variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
+                        Cancel
+                      </Button>
+                    </div>
+                  </form>
+                </Form>
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
 
         {/* Active Task Timer */}
@@ -428,7 +554,7 @@ export default function AdaptiveScheduler() {
                     {formatTime(timeRemaining)}
                   </div>
                   <div className="text-sm text-gray-500">
-                    {Math.round((1 - timeRemaining / activeTask.duration) * 100)}% complete
+                    {Math.round((1 - timeRemaining / (activeTask.duration || 1)) * 100)}% complete
                   </div>
                 </div>
               </div>
@@ -443,13 +569,19 @@ export default function AdaptiveScheduler() {
                   {isRunning ? <Pause className="w-4 h-4 mr-2" /> : <Play className="w-4 h-4 mr-2" />}
                   {isRunning ? "Pause" : "Resume"}
                 </Button>
+                <Input
+                  type="number"
+                  min="0"
+                  max="100"
+                  placeholder="Score % (optional)"
+                  value={completionScore}
+                  onChange={(e) => setCompletionScore(e.target.value)}
+                  className="w-44 h-9"
+                />
                 <Button
                   onClick={() => completeTaskMutation.mutate({
                     taskId: activeTask.id,
-                    performance: { 
-                      timeEfficiency: Math.round((1 - timeRemaining / activeTask.duration) * 100),
-                      completed: true 
-                    }
+                    performance: completionPerformance(Math.round((1 - timeRemaining / (activeTask.duration || 1)) * 100))
                   })}
                   variant="outline"
                   size="sm"
@@ -463,7 +595,7 @@ export default function AdaptiveScheduler() {
         )}
 
         {/* AI Recommendations */}
-        {getAdaptiveRecommendations().length > 0 && (
+        {!!insights?.recommendations?.length && (
           <Card className="mb-6 bg-gradient-to-r from-purple-50 to-blue-50 dark:from-purple-900/20 dark:to-blue-900/20">
             <CardHeader>
               <CardTitle className="text-lg flex items-center gap-2">
@@ -473,12 +605,12 @@ export default function AdaptiveScheduler() {
             </CardHeader>
             <CardContent>
               <div className="space-y-3">
-                {getAdaptiveRecommendations().map((rec, index) => (
+                {insights.recommendations.map((rec, index) => (
                   <div key={index} className="flex items-start gap-3 p-3 bg-white dark:bg-gray-800 rounded-lg">
                     <Zap className="w-5 h-5 text-yellow-500 mt-0.5 flex-shrink-0" />
                     <div className="flex-1">
                       <p className="font-medium text-gray-900 dark:text-white">{rec.message}</p>
-                      <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">{rec.action}</p>
+                      <p className="text-sm text-gray-600 dark:text-gray-400 mt-1 capitalize">{rec.type} · {rec.priority} priority</p>
                     </div>
                   </div>
                 ))}
@@ -529,19 +661,22 @@ export default function AdaptiveScheduler() {
                       <div className="flex-1">
                         <div className="flex items-center gap-2 mb-1">
                           <h3 className="font-medium">{task.subjectName}</h3>
-                          <Badge className={getPriorityColor(task.priority)} variant="secondary">
+                          <Badge className={getPriorityColor(task.priority || "medium")} variant="secondary">
                             {task.priority}
                           </Badge>
                           <Badge variant="outline">
                             {task.taskType}
                           </Badge>
                         </div>
+                        {task.topic && (
+                          <p className="text-sm text-gray-700 dark:text-gray-300 mb-1">{task.topic}</p>
+                        )}
                         <div className="flex items-center gap-4 text-sm text-gray-600 dark:text-gray-400">
                           <span className="flex items-center gap-1">
                             <Clock className="w-3 h-3" />
                             {task.scheduledTime}
                           </span>
-                          <span>{Math.round(task.duration / 60)} min</span>
+                          <span>{Math.round((task.duration || 0) / 60)} min</span>
                           <span className="flex items-center gap-1">
                             <TrendingUp className="w-3 h-3" />
                             Score: {task.adaptiveScore}/10
@@ -559,6 +694,16 @@ export default function AdaptiveScheduler() {
                             <Play className="w-4 h-4" />
                           </Button>
                         )}
+                        {task.status === "pending" && (
+                          <Button
+                            onClick={() => skipTaskMutation.mutate(task.id)}
+                            size="sm"
+                            variant="outline"
+                            disabled={skipTaskMutation.isPending}
+                          >
+                            <SkipForward className="w-4 h-4" />
+                          </Button>
+                        )}
                         {task.status === "completed" && (
                           <CheckCircle className="w-5 h-5 text-green-500" />
                         )}
@@ -576,6 +721,8 @@ export default function AdaptiveScheduler() {
 
         {/* Sidebar */}
         <div className="space-y-6">
+          <ExamPlanner />
+
           {/* Upcoming Tasks */}
           <Card>
             <CardHeader>
@@ -594,7 +741,7 @@ export default function AdaptiveScheduler() {
                           {new Date(task.scheduledDate).toLocaleDateString()} at {task.scheduledTime}
                         </p>
                       </div>
-                      <Badge className={getPriorityColor(task.priority)} variant="secondary">
+                      <Badge className={getPriorityColor(task.priority || "medium")} variant="secondary">
                         {task.priority}
                       </Badge>
                     </div>
@@ -605,43 +752,70 @@ export default function AdaptiveScheduler() {
           </Card>
 
           {/* Study Insights */}
-          {insights && (
-            <Card>
-              <CardHeader>
-                <CardTitle className="text-lg">This Week's Insights</CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div>
-                  <div className="flex items-center justify-between mb-2">
-                    <span className="text-sm">Focus Score</span>
-                    <span className="font-medium">{insights.averageFocusScore || 0}/100</span>
-                  </div>
-                  <div className="w-full bg-gray-200 rounded-full h-2">
-                    <div 
-                      className="bg-purple-600 h-2 rounded-full"
-                      style={{ width: `${insights.averageFocusScore || 0}%` }}
-                    ></div>
-                  </div>
-                </div>
-                
-                <div>
-                  <div className="flex items-center justify-between mb-2">
-                    <span className="text-sm">Study Time</span>
-                    <span className="font-medium">{Math.round((insights.totalStudyTime || 0) / 3600)}h</span>
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-lg">Weekly Insights</CardTitle>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => refreshInsightsMutation.mutate()}
+                  disabled={refreshInsightsMutation.isPending}
+                >
+                  <RotateCcw className="w-4 h-4" />
+                </Button>
+              </div>
+              {insights && (
+                <CardDescription>Week of {new Date(`${insights.date}T00:00:00`).toLocaleDateString()}</CardDescription>
+              )}
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {insights ? (
+                <>
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="text-sm">Focus Score</span>
+                      <span className="font-medium">{insights.averageFocusScore || 0}/100</span>
+                    </div>
+                    <div className="w-full bg-gray-200 rounded-full h-2">
+                      <div 
+                        className="bg-purple-600 h-2 rounded-full"
+                        style={{ width: `${insights.averageFocusScore || 0}%` }}
+                      ></div>
+                    </div>
                   </div>
-                </div>
                 
-                {insights.preferredStudyTime && (
                   <div>
-                    <div className="flex items-center justify-between">
-                      <span className="text-sm">Best Time</span>
-                      <span className="font-medium capitalize">{insights.preferredStudyTime}</span>
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="text-sm">Study Time</span>
+                      <span className="font-medium">{Math.round((insights.totalStudyTime || 0) / 3600)}h</span>
                     </div>
                   </div>
-                )}
-              </CardContent>
-            </Card>
-          )}
+                
+                  {insights.preferredStudyTime && (
+                    <div>
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm">Best Time</span>
+                        <span className="font-medium capitalize">{insights.preferredStudyTime}</span>
+                      </div>
+                    </div>
+                  )}
+                </>
+              ) : (
+                <p className="text-sm text-gray-600 dark:text-gray-400">Your first insights arrive after a week of study.</p>
+              )}
+
+              <div className="flex items-center justify-between gap-2 pt-2 border-t">
+                <Label htmlFor="auto-adjust" className="text-sm">Adjust my schedule automatically</Label>
+                <Switch
+                  id="auto-adjust"
+                  checked={!!savedAvailability?.autoAdjust}
+                  onCheckedChange={(checked) => autoAdjustMutation.mutate(checked)}
+                  disabled={!savedAvailability || autoAdjustMutation.isPending}
+                />
+              </div>
+            </CardContent>
+          </Card>
         </div>
       </div>
     </div>
@@ -14,14 +14,10 @@ import {
   Trophy, 
   TrendingUp, 
   Settings,
-  Plus,
   Edit,
-  Trash2,
   Eye,
   Search,
   Filter,
-  Download,
-  Upload,
   MessageCircle,
   Clock,
   Target,
@@ -29,6 +25,8 @@ import {
 } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
+import QuestionBankManager from '@/components/QuestionBankManager';
+import QuestionReportQueue from '@/components/QuestionReportQueue';
 
 interface AdminStats {
   totalUsers: number;
@@ -65,41 +63,41 @@ export default function ComprehensiveAdminDashboard() {
     },
   });
 
-  // Fetch all questions
-  const { data: questions, isLoading: questionsLoading } = useQuery({
-    queryKey: ['/api/admin/questions'],
+  // Fetch subjects
+  const { data: subjects } = useQuery({
+    queryKey: ['/api/subjects'],
     queryFn: async () => {
-      const response = await apiRequest('GET', '/api/admin/questions');
+      const response = await apiRequest('GET', '/api/subjects');
       return await response.json();
     },
   });
 
-  // Fetch subjects
-  const { data: subjects } = useQuery({
-    queryKey: ['/api/subjects'],
+  // Recent unlock codes
+  const { data: unlockCodes } = useQuery({
+    queryKey: ['/api/admin/unlock-codes'],
     queryFn: async () => {
-      const response = await apiRequest('GET', '/api/subjects');
+      const response = await apiRequest('GET', '/api/admin/unlock-codes?limit=20');
       return await response.json();
     },
   });
 
-  // Delete question mutation
-  const deleteQuestionMutation = useMutation({
-    mutationFn: async (questionId: string) => {
-      const response = await apiRequest('DELETE', `/api/admin/questions/${questionId}`);
+  // Generate a batch of single-use 30-day premium codes
+  const generateCodesMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/admin/unlock-codes', { planId: 'premium-30d', count: 10 });
       return response.json();
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/admin/questions'] });
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/unlock-codes'] });
       toast({
         title: "Success",
-        description: "Question deleted successfully",
+        description: `Generated ${data.codes.length} unlock codes`,
       });
     },
     onError: () => {
       toast({
         title: "Error",
-        description: "Failed to delete question",
+        description: "Failed to generate unlock codes",
         variant: "destructive",
       });
     },
@@ -171,7 +169,7 @@ export default function ComprehensiveAdminDashboard() {
 
       {/* Main Tabs */}
       <Tabs value={selectedTab} onValueChange={setSelectedTab} className="space-y-6">
-        <TabsList className="grid w-full grid-cols-6 bg-gray-800">
+        <TabsList className="grid w-full grid-cols-7 bg-gray-800">
           <TabsTrigger value="overview" className="data-[state=active]:bg-blue-600">
             Overview
           </TabsTrigger>
@@ -181,6 +179,9 @@ export default function ComprehensiveAdminDashboard() {
           <TabsTrigger value="questions" className="data-[state=active]:bg-blue-600">
             Questions
           </TabsTrigger>
+          <TabsTrigger value="reports" className="data-[state=active]:bg-blue-600">
+            Reports
+          </TabsTrigger>
           <TabsTrigger value="subjects" className="data-[state=active]:bg-blue-600">
             Subjects
           </TabsTrigger>
@@ -340,82 +341,12 @@ export default function ComprehensiveAdminDashboard() {
 
         {/* Questions Tab */}
         <TabsContent value="questions" className="space-y-6">
-          <Card className="bg-gray-800 border-gray-700">
-            <CardHeader>
-              <CardTitle>Question Management</CardTitle>
-              <div className="flex items-center justify-between">
-                <div className="flex items-center space-x-2">
-                  <Input
-                    placeholder="Search questions..."
-                    className="bg-gray-700 border-gray-600"
-                  />
-                  <Button variant="outline" size="sm">
-                    <Search className="h-4 w-4" />
-                  </Button>
-                </div>
-                <Button className="bg-blue-600 hover:bg-blue-700">
-                  <Plus className="h-4 w-4 mr-2" />
-                  Add Question
-                </Button>
-              </div>
-            </CardHeader>
-            <CardContent>
-              <Table>
-                <TableHeader>
-                  <TableRow className="border-gray-700">
-                    <TableHead>Question</TableHead>
-                    <TableHead>Subject</TableHead>
-                    <TableHead>Difficulty</TableHead>
-                    <TableHead>Topic</TableHead>
-                    <TableHead>Created</TableHead>
-                    <TableHead>Actions</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {questions?.slice(0, 10).map((question: any) => (
-                    <TableRow key={question.id} className="border-gray-700">
-                      <TableCell className="max-w-md truncate">
-                        {question.question}
-                      </TableCell>
-                      <TableCell>
-                        <Badge variant="outline">
-                          {subjects?.find((s: any) => s.id === question.subjectId)?.name}
-                        </Badge>
-                      </TableCell>
-                      <TableCell>
-                        <Badge 
-                          variant={question.difficulty === 'hard' ? 'destructive' : 
-                                   question.difficulty === 'medium' ? 'secondary' : 'default'}
-                        >
-                          {question.difficulty}
-                        </Badge>
-                      </TableCell>
-                      <TableCell>{question.topic || 'General'}</TableCell>
-                      <TableCell>{new Date(question.createdAt).toLocaleDateString()}</TableCell>
-                      <TableCell>
-                        <div className="flex space-x-1">
-                          <Button variant="ghost" size="sm">
-                            <Eye className="h-4 w-4" />
-                          </Button>
-                          <Button variant="ghost" size="sm">
-                            <Edit className="h-4 w-4" />
-                          </Button>
-                          <Button 
-                            variant="ghost" 
-                            size="sm" 
-                            onClick={() => deleteQuestionMutation.mutate(question.id)}
-                            className="text-red-400 hover:text-red-300"
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
-                        </div>
-                      </TableCell>
-                    </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
-            </CardContent>
-          </Card>
+          <QuestionBankManager subjects={subjects || []} />
+        </TabsContent>
+
+        {/* Question Reports Tab */}
+        <TabsContent value="reports" className="space-y-6">
+          <QuestionReportQueue />
         </TabsContent>
 
         {/* Subjects Tab */}
@@ -504,13 +435,22 @@ export default function ComprehensiveAdminDashboard() {
               </CardHeader>
               <CardContent className="space-y-4">
                 <div className="p-4 bg-gray-700 rounded">
-                  <h4 className="font-medium mb-2">Active Codes:</h4>
-                  <div className="space-y-2">
-                    <Badge variant="default">0814880</Badge>
-                    <Badge variant="default">0901918</Badge>
-                    <Badge variant="default">0803988</Badge>
+                  <h4 className="font-medium mb-2">Recent Codes:</h4>
+                  <div className="flex flex-wrap gap-2">
+                    {unlockCodes?.map((code: any) => (
+                      <Badge
+                        key={code.id}
+                        variant={code.redemptionCount < code.maxRedemptions && !code.revokedAt ? 'default' : 'secondary'}
+                        className="font-mono"
+                      >
+                        {code.code}
+                      </Badge>
+                    ))}
                   </div>
                 </div>
+                <Button onClick={() => generateCodesMutation.mutate()} disabled={generateCodesMutation.isPending}>
+                  Generate 10 Premium Codes (30 days)
+                </Button>
                 <p className="text-sm text-gray-400">
                   Users need to message you on WhatsApp to get these unlock codes for premium access.
                 </p>
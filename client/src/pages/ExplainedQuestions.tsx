@@ -5,6 +5,7 @@ import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Trash2, PlayCircle, BookOpen } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
+import ReportQuestionButton from '@/components/ReportQuestionButton';
 
 interface ExplainedQuestion {
   _id: string;
@@ -178,14 +179,22 @@ export default function ExplainedQuestions() {
                           </Badge>
                         )}
                       </div>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => deleteExplainedQuestion(question._id)}
-                        className="text-red-600 hover:text-red-700"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </Button>
+                      <div className="flex items-center">
+                        <ReportQuestionButton
+                          question={{ ...question, id: question.questionId }}
+                          subject={subject?.name}
+                          userAnswer={question.userAnswer}
+                          className="text-gray-500 hover:text-red-600"
+                        />
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deleteExplainedQuestion(question._id)}
+                          className="text-red-600 hover:text-red-700"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
                     </div>
                   </CardHeader>
                   
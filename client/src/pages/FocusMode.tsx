@@ -13,6 +13,9 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { apiRequest } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+import { focusSessionQueryKey } from "@/hooks/useFocusGuard";
+import { celebrateBadges } from "@/components/UserBadges";
 import { 
   Shield, Clock, Play, Pause, Square, RotateCcw, 
   Target, AlertCircle, CheckCircle, Focus, Timer,
@@ -20,10 +23,12 @@ import {
   TrendingUp, Award, Star, Eye, EyeOff
 } from "lucide-react";
 import type { FocusSession } from "@shared/schema";
+import type { BadgeStatus } from "@shared/badges";
+import { FOCUS_SESSION_TYPES, getFocusTimeRemaining, type FocusDistractionType } from "@shared/focus";
 
 const createSessionSchema = z.object({
   sessionName: z.string().min(1, "Session name is required"),
-  sessionType: z.enum(["deep_focus", "pomodoro", "timed_review", "exam_prep"]),
+  sessionType: z.enum(FOCUS_SESSION_TYPES),
   duration: z.number().min(300, "Minimum 5 minutes").max(14400, "Maximum 4 hours"),
   breakDuration: z.number().min(300, "Minimum 5 minutes").max(1800, "Maximum 30 minutes"),
   totalCycles: z.number().min(1).max(10),
@@ -37,18 +42,20 @@ const createSessionSchema = z.object({
 
 type CreateSessionForm = z.infer<typeof createSessionSchema>;
 
+const DISTRACTION_LABELS: Record<FocusDistractionType, string> = {
+  tab_hidden: "Switched away from the tab",
+  window_blur: "Left the window",
+  blocked_section: "Opened a blocked section",
+};
+
+const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message.replace(/^\d+: /, "") : fallback;
+
 export default function FocusMode() {
   const { user } = useAuth();
   const queryClient = useQueryClient();
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
-  const [activeSession, setActiveSession] = useState<FocusSession | null>(null);
   const [timeRemaining, setTimeRemaining] = useState(0);
-  const [isRunning, setIsRunning] = useState(false);
-  const [isBreakTime, setIsBreakTime] = useState(false);
-  const [showDistractionWarning, setShowDistractionWarning] = useState(false);
-  const [distractionCount, setDistractionCount] = useState(0);
-  const [focusScore, setFocusScore] = useState(100);
-  const [blockedAttempts, setBlockedAttempts] = useState<string[]>([]);
 
   const form = useForm<CreateSessionForm>({
     resolver: zodResolver(createSessionSchema),
@@ -67,146 +74,106 @@ export default function FocusMode() {
     }
   });
 
-  // Fetch active session
-  const { data: currentSession } = useQuery({
-    queryKey: ["/api/focus/active"],
+  // Active session; the server moves it through its focus and break phases
+  const { data: activeSession } = useQuery<FocusSession | null>({
+    queryKey: focusSessionQueryKey(user?.id),
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/focus/sessions/active/${user!.id}`);
+      return await response.json() as FocusSession | null;
+    },
     enabled: !!user,
+    staleTime: 0,
     refetchInterval: 5000 // Check every 5 seconds
   });
 
   // Fetch focus history
-  const { data: focusHistory } = useQuery({
-    queryKey: ["/api/focus/history"],
+  const { data: focusHistory } = useQuery<FocusSession[]>({
+    queryKey: ["/api/focus/sessions/history", user?.id],
     enabled: !!user
   });
 
+  const isRunning = !!activeSession && !activeSession.isPaused;
+  const isBreakTime = activeSession?.phase === "break";
+  const focusScore = activeSession?.focusScore ?? 100;
+  const distractionCount = activeSession?.distractionCount || 0;
+
+  const setActiveSession = (session: FocusSession | null) => {
+    queryClient.setQueryData(focusSessionQueryKey(user?.id), session);
+  };
+
+  const onError = (fallback: string) => (error: unknown) => {
+    toast({ title: "Error", description: errorMessage(error, fallback), variant: "destructive" });
+  };
+
   // Create session mutation
   const createSessionMutation = useMutation({
-    mutationFn: (data: CreateSessionForm) => apiRequest("/api/focus/sessions", {
-      method: "POST",
-      body: JSON.stringify({ ...data, userId: user?.id })
-    }),
+    mutationFn: async (data: CreateSessionForm) => {
+      const response = await apiRequest("POST", "/api/focus/sessions", { ...data, userId: user?.id });
+      return await response.json() as FocusSession;
+    },
     onSuccess: (session) => {
       setActiveSession(session);
-      setTimeRemaining(session.duration);
-      setIsRunning(false);
-      setIsBreakTime(false);
-      setDistractionCount(0);
-      setFocusScore(100);
-      queryClient.invalidateQueries({ queryKey: ["/api/focus"] });
       setIsCreateDialogOpen(false);
       form.reset();
-    }
+    },
+    onError: onError("Failed to create focus session")
   });
 
   // Start session mutation
   const startSessionMutation = useMutation({
-    mutationFn: (sessionId: string) => apiRequest(`/api/focus/sessions/${sessionId}/start`, {
-      method: "POST"
-    }),
-    onSuccess: () => {
-      setIsRunning(true);
-      queryClient.invalidateQueries({ queryKey: ["/api/focus"] });
-    }
+    mutationFn: async (sessionId: string) => {
+      const response = await apiRequest("PATCH", `/api/focus/sessions/${sessionId}/start`);
+      return await response.json() as FocusSession;
+    },
+    onSuccess: setActiveSession,
+    onError: onError("Failed to start focus session")
   });
 
   // Pause session mutation
   const pauseSessionMutation = useMutation({
-    mutationFn: (sessionId: string) => apiRequest(`/api/focus/sessions/${sessionId}/pause`, {
-      method: "POST"
-    }),
-    onSuccess: () => {
-      setIsRunning(false);
-      queryClient.invalidateQueries({ queryKey: ["/api/focus"] });
-    }
+    mutationFn: async (sessionId: string) => {
+      const response = await apiRequest("PATCH", `/api/focus/sessions/${sessionId}/pause`);
+      return await response.json() as FocusSession;
+    },
+    onSuccess: setActiveSession,
+    onError: onError("Failed to pause focus session")
   });
 
   // Complete session mutation
   const completeSessionMutation = useMutation({
-    mutationFn: (data: { sessionId: string; focusScore: number; distractionCount: number }) =>
-      apiRequest(`/api/focus/sessions/${data.sessionId}/complete`, {
-        method: "POST",
-        body: JSON.stringify({
-          focusScore: data.focusScore,
-          distractionCount: data.distractionCount
-        })
-      }),
-    onSuccess: () => {
+    mutationFn: async (sessionId: string) => {
+      const response = await apiRequest("PATCH", `/api/focus/sessions/${sessionId}/complete`);
+      return await response.json() as FocusSession & { unlockedBadges?: BadgeStatus[] };
+    },
+    onSuccess: (session) => {
       setActiveSession(null);
-      setIsRunning(false);
-      setTimeRemaining(0);
-      setIsBreakTime(false);
-      queryClient.invalidateQueries({ queryKey: ["/api/focus"] });
-    }
+      queryClient.invalidateQueries({ queryKey: ["/api/focus/sessions/history"] });
+      toast({ title: "Session complete", description: `Focus score ${session.focusScore}/100` });
+      celebrateBadges(session.unlockedBadges);
+    },
+    onError: onError("Failed to end focus session")
   });
 
-  // Timer effect
+  // Count down locally between polls; at zero the server has moved the session on, so fetch it again
   useEffect(() => {
-    let interval: NodeJS.Timeout;
-    
-    if (isRunning && timeRemaining > 0) {
-      interval = setInterval(() => {
-        setTimeRemaining(prev => {
-          if (prev <= 1) {
-            if (activeSession) {
-              if (isBreakTime) {
-                // Break time ended, start next cycle or complete session
-                const nextCycle = activeSession.cyclesCompleted + 1;
-                if (nextCycle < activeSession.totalCycles) {
-                  setTimeRemaining(activeSession.duration);
-                  setIsBreakTime(false);
-                } else {
-                  // Session completed
-                  completeSessionMutation.mutate({
-                    sessionId: activeSession.id,
-                    focusScore,
-                    distractionCount
-                  });
-                }
-              } else {
-                // Study time ended, start break
-                setTimeRemaining(activeSession.breakDuration);
-                setIsBreakTime(true);
-              }
-            }
-            return 0;
-          }
-          return prev - 1;
-        });
-      }, 1000);
+    if (!activeSession) {
+      setTimeRemaining(0);
+      return;
     }
+    setTimeRemaining(getFocusTimeRemaining(activeSession));
+    if (activeSession.isPaused) return;
 
+    const interval = setInterval(() => {
+      const remaining = getFocusTimeRemaining(activeSession);
+      setTimeRemaining(remaining);
+      if (remaining === 0) {
+        clearInterval(interval);
+        queryClient.invalidateQueries({ queryKey: focusSessionQueryKey(user?.id) });
+        queryClient.invalidateQueries({ queryKey: ["/api/focus/sessions/history"] });
+      }
+    }, 1000);
     return () => clearInterval(interval);
-  }, [isRunning, timeRemaining, activeSession, isBreakTime, focusScore, distractionCount]);
-
-  // Focus tracking effect - simulate detecting distractions
-  useEffect(() => {
-    if (activeSession && isRunning && !isBreakTime) {
-      const distractionDetector = setInterval(() => {
-        // Simulate random distraction detection (in real app, this would be actual monitoring)
-        if (Math.random() < 0.05) { // 5% chance every 10 seconds
-          handleDistraction("Random distraction detected");
-        }
-      }, 10000);
-
-      return () => clearInterval(distractionDetector);
-    }
-  }, [activeSession, isRunning, isBreakTime]);
-
-  const handleDistraction = (source: string) => {
-    if (activeSession && isRunning && !isBreakTime) {
-      const newCount = distractionCount + 1;
-      const newScore = Math.max(0, focusScore - 5);
-      
-      setDistractionCount(newCount);
-      setFocusScore(newScore);
-      setBlockedAttempts(prev => [...prev, source]);
-      setShowDistractionWarning(true);
-      
-      // Hide warning after 3 seconds
-      setTimeout(() => setShowDistractionWarning(false), 3000);
-    }
-  };
+  }, [activeSession, queryClient, user?.id]);
 
   const formatTime = (seconds: number) => {
     const hours = Math.floor(seconds / 3600);
@@ -257,20 +224,6 @@ export default function FocusMode() {
 
   return (
     <div className="container mx-auto px-4 py-6 max-w-6xl">
-      {/* Distraction Warning Overlay */}
-      {showDistractionWarning && (
-        <div className="fixed inset-0 bg-red-500/20 backdrop-blur-sm z-50 flex items-center justify-center">
-          <Card className="max-w-md mx-4 border-red-500 border-2">
-            <CardContent className="p-6 text-center">
-              <AlertCircle className="w-12 h-12 text-red-500 mx-auto mb-4" />
-              <h3 className="text-lg font-bold text-red-800 mb-2">Distraction Detected!</h3>
-              <p className="text-red-600">Stay focused on your study session.</p>
-              <p className="text-sm text-gray-600 mt-2">Focus Score: {focusScore}/100</p>
-            </CardContent>
-          </Card>
-        </div>
-      )}
-
       {/* Header */}
       <div className="mb-8">
         <div className="flex items-center justify-between mb-6">
@@ -524,8 +477,8 @@ export default function FocusMode() {
                   <div>
                     <CardTitle className="text-xl">{activeSession.sessionName}</CardTitle>
                     <CardDescription>
-                      {isBreakTime ? "Break Time" : "Focus Time"} • 
-                      Cycle {activeSession.cyclesCompleted + 1} of {activeSession.totalCycles}
+                      {!activeSession.startedAt ? "Ready to start" : isBreakTime ? "Break Time" : "Focus Time"} • 
+                      Cycle {Math.min((activeSession.cyclesCompleted || 0) + 1, activeSession.totalCycles || 1)} of {activeSession.totalCycles}
                     </CardDescription>
                   </div>
                 </div>
@@ -535,7 +488,7 @@ export default function FocusMode() {
                     {formatTime(timeRemaining)}
                   </div>
                   <div className="text-sm text-gray-500">
-                    {isBreakTime ? "Break" : "Focus"} • {Math.round((1 - timeRemaining / (isBreakTime ? activeSession.breakDuration : activeSession.duration)) * 100)}%
+                    {isBreakTime ? "Break" : "Focus"} • {Math.round((1 - timeRemaining / ((isBreakTime ? activeSession.breakDuration : activeSession.duration) || 1)) * 100)}%
                   </div>
                 </div>
               </div>
@@ -569,15 +522,12 @@ export default function FocusMode() {
                     size="sm"
                   >
                     {isRunning ? <Pause className="w-4 h-4 mr-2" /> : <Play className="w-4 h-4 mr-2" />}
-                    {isRunning ? "Pause" : "Resume"}
+                    {isRunning ? "Pause" : activeSession.startedAt ? "Resume" : "Start"}
                   </Button>
                   
                   <Button
-                    onClick={() => completeSessionMutation.mutate({
-                      sessionId: activeSession.id,
-                      focusScore,
-                      distractionCount
-                    })}
+                    onClick={() => completeSessionMutation.mutate(activeSession.id)}
+                    disabled={completeSessionMutation.isPending}
                     variant="outline"
                     size="sm"
                   >
@@ -608,16 +558,16 @@ export default function FocusMode() {
               <div className="mt-4">
                 <p className="text-sm font-medium mb-2">Available Actions:</p>
                 <div className="flex gap-2">
-                  {activeSession.allowedActions.quiz && (
+                  {activeSession.allowedActions?.quiz && (
                     <Badge variant="outline" className="text-green-600">Quiz</Badge>
                   )}
-                  {activeSession.allowedActions.notes && (
+                  {activeSession.allowedActions?.notes && (
                     <Badge variant="outline" className="text-green-600">Notes</Badge>
                   )}
-                  {activeSession.allowedActions.calculator && (
+                  {activeSession.allowedActions?.calculator && (
                     <Badge variant="outline" className="text-green-600">Calculator</Badge>
                   )}
-                  {activeSession.allowedActions.wiki && (
+                  {activeSession.allowedActions?.wiki && (
                     <Badge variant="outline" className="text-green-600">Wiki</Badge>
                   )}
                 </div>
@@ -625,22 +575,24 @@ export default function FocusMode() {
             </CardContent>
           </Card>
           
-          {/* Blocked Attempts */}
-          {blockedAttempts.length > 0 && (
+          {/* Recorded Distractions */}
+          {(activeSession.distractionEvents?.length || 0) > 0 && (
             <Card className="mt-4 border-red-200">
               <CardHeader>
                 <CardTitle className="text-lg text-red-600 flex items-center gap-2">
                   <EyeOff className="w-5 h-5" />
-                  Blocked Distractions
+                  Distractions
                 </CardTitle>
               </CardHeader>
               <CardContent>
                 <div className="space-y-2">
-                  {blockedAttempts.slice(-5).map((attempt, index) => (
-                    <div key={index} className="flex items-center justify-between p-2 bg-red-50 dark:bg-red-900/20 rounded">
-                      <span className="text-sm">{attempt}</span>
+                  {activeSession.distractionEvents!.slice(-5).reverse().map((event) => (
+                    <div key={event.at} className="flex items-center justify-between p-2 bg-red-50 dark:bg-red-900/20 rounded">
+                      <span className="text-sm">
+                        {DISTRACTION_LABELS[event.type]}{event.section ? `: ${event.section}` : ""}
+                      </span>
                       <span className="text-xs text-gray-500">
-                        {new Date().toLocaleTimeString()}
+                        {new Date(event.at).toLocaleTimeString()}
                       </span>
                     </div>
                   ))}
@@ -672,15 +624,23 @@ export default function FocusMode() {
                     <div>
                       <h3 className="font-medium">{session.sessionName}</h3>
                       <p className="text-sm text-gray-600 dark:text-gray-400">
-                        {new Date(session.startedAt!).toLocaleDateString()} • 
-                        {Math.round((session.completedAt! - session.startedAt!) / 60000)} minutes
+                        {new Date(session.startedAt || session.createdAt!).toLocaleDateString()} • 
+                        {session.startedAt && session.completedAt
+                          ? Math.round((new Date(session.completedAt).getTime() - new Date(session.startedAt).getTime()) / 60000)
+                          : 0} minutes
                       </p>
+                      {(session.tasksCompleted?.length || 0) > 0 && (
+                        <p className="text-xs text-gray-500">
+                          {session.tasksCompleted!.length} task{session.tasksCompleted!.length === 1 ? "" : "s"} done
+                          {session.subjectsStudied?.length ? ` • ${session.subjectsStudied.join(", ")}` : ""}
+                        </p>
+                      )}
                     </div>
                   </div>
                   
                   <div className="flex items-center gap-4">
                     <div className="text-right">
-                      <div className={`font-bold ${getFocusScoreColor(session.focusScore)}`}>
+                      <div className={`font-bold ${getFocusScoreColor(session.focusScore ?? 100)}`}>
                         {session.focusScore}/100
                       </div>
                       <div className="text-xs text-gray-500">
@@ -688,7 +648,7 @@ export default function FocusMode() {
                       </div>
                     </div>
                     
-                    {session.isCompleted ? (
+                    {(session.cyclesCompleted || 0) >= (session.totalCycles || 1) ? (
                       <CheckCircle className="w-5 h-5 text-green-500" />
                     ) : (
                       <AlertCircle className="w-5 h-5 text-yellow-500" />
@@ -1,49 +1,77 @@
 import React, { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
-import { Trophy, Medal, Award, Star, ArrowLeft } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Trophy, Medal, Award, Star } from 'lucide-react';
 import { apiRequest } from '@/lib/queryClient';
-import { LeaderboardEntry, User } from '@/types';
+import { Subject, User } from '@/types';
+import {
+  LEADERBOARD_EXAM_TYPES,
+  LEADERBOARD_WINDOWS,
+  type LeaderboardExamType,
+  type LeaderboardResponse,
+  type LeaderboardWindow,
+} from '@shared/leaderboard';
 
 interface LeaderboardProps {
   user: User;
+  onUserUpdate: (updates: Partial<User>) => void;
   onBack: () => void;
 }
 
-export default function Leaderboard({ user, onBack }: LeaderboardProps) {
-  const [leaderboardData, setLeaderboardData] = useState<LeaderboardEntry[]>([]);
+export default function Leaderboard({ user, onUserUpdate, onBack }: LeaderboardProps) {
+  const [leaderboard, setLeaderboard] = useState<LeaderboardResponse | null>(null);
+  const [subjects, setSubjects] = useState<Subject[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [activeFilter, setActiveFilter] = useState('overall');
-  const [userRank, setUserRank] = useState<number | null>(null);
+  const [timeWindow, setTimeWindow] = useState<LeaderboardWindow>('week');
+  const [examType, setExamType] = useState<LeaderboardExamType | ''>('');
+  const [subjectId, setSubjectId] = useState('');
+  const [schoolOnly, setSchoolOnly] = useState(false);
+  const [schoolInput, setSchoolInput] = useState(user.school || '');
 
   useEffect(() => {
-    loadLeaderboard();
+    fetch('/api/subjects')
+      .then(response => response.json())
+      .then(setSubjects)
+      .catch(error => console.error('Error loading subjects:', error));
   }, []);
 
+  useEffect(() => {
+    loadLeaderboard();
+  }, [timeWindow, examType, subjectId, schoolOnly, user.school]);
+
   const loadLeaderboard = async () => {
     setIsLoading(true);
     try {
-      const response = await apiRequest('GET', '/api/leaderboard?limit=50');
-      const data = await response.json();
-      setLeaderboardData(data);
-      
-      // Find user's rank
-      const rank = data.findIndex((entry: LeaderboardEntry) => entry.user.id === user.id);
-      setUserRank(rank >= 0 ? rank + 1 : null);
+      const params = new URLSearchParams({ window: timeWindow, limit: '50' });
+      if (examType) params.set('examType', examType);
+      if (subjectId) params.set('subjectId', subjectId);
+      if (schoolOnly && user.school) params.set('school', user.school);
+
+      const response = await apiRequest('GET', `/api/leaderboard?${params}`);
+      setLeaderboard(await response.json());
     } catch (error) {
       console.error('Error loading leaderboard:', error);
-      setLeaderboardData([]);
+      setLeaderboard(null);
     } finally {
       setIsLoading(false);
     }
   };
 
-  const filters = [
-    { id: 'overall', name: 'Overall' },
-    { id: 'week', name: 'This Week' },
-    { id: 'mathematics', name: 'Mathematics' },
-    { id: 'english', name: 'English' },
-  ];
+  const saveSchool = async () => {
+    try {
+      const response = await apiRequest('PATCH', `/api/users/${user.id}/school`, { school: schoolInput });
+      const updated = await response.json();
+      onUserUpdate({ school: updated.school });
+      setSchoolOnly(!!updated.school);
+    } catch (error) {
+      console.error('Error saving school:', error);
+    }
+  };
+
+  const entries = leaderboard?.entries || [];
+  const me = leaderboard?.me || null;
+  const minAttempts = leaderboard?.filters.minAttempts || 0;
 
   const getRankIcon = (rank: number) => {
     switch (rank) {
@@ -103,28 +131,80 @@ export default function Leaderboard({ user, onBack }: LeaderboardProps) {
 
       {/* Leaderboard filters */}
       <Card className="bg-gray-800 border-gray-700">
-        <CardContent className="p-4">
+        <CardContent className="p-4 space-y-4">
           <div className="flex flex-wrap items-center gap-4">
-            <span className="text-gray-400 font-medium">Filter by:</span>
-            {filters.map((filter) => (
+            <span className="text-gray-400 font-medium">Period:</span>
+            {LEADERBOARD_WINDOWS.map((option) => (
               <Button
-                key={filter.id}
-                onClick={() => setActiveFilter(filter.id)}
+                key={option.id}
+                onClick={() => setTimeWindow(option.id)}
                 className={`px-4 py-2 rounded-lg text-sm transition-colors ${
-                  activeFilter === filter.id
+                  timeWindow === option.id
                     ? 'bg-blue-600 hover:bg-blue-700 text-white'
                     : 'bg-gray-600 hover:bg-gray-700 text-gray-300'
                 }`}
               >
-                {filter.name}
+                {option.name}
               </Button>
             ))}
           </div>
+
+          <div className="flex flex-wrap items-center gap-4">
+            <select
+              value={examType}
+              onChange={(e) => setExamType(e.target.value as LeaderboardExamType | '')}
+              className="bg-gray-700 text-white rounded-lg px-3 py-2 text-sm"
+            >
+              <option value="">All exams</option>
+              {LEADERBOARD_EXAM_TYPES.map((option) => (
+                <option key={option.id} value={option.id}>{option.name}</option>
+              ))}
+            </select>
+            <select
+              value={subjectId}
+              onChange={(e) => setSubjectId(e.target.value)}
+              className="bg-gray-700 text-white rounded-lg px-3 py-2 text-sm"
+            >
+              <option value="">All subjects</option>
+              {subjects.map((subject) => (
+                <option key={subject.id} value={subject.id}>{subject.name}</option>
+              ))}
+            </select>
+            {user.school ? (
+              <Button
+                onClick={() => setSchoolOnly(!schoolOnly)}
+                className={`px-4 py-2 rounded-lg text-sm transition-colors ${
+                  schoolOnly
+                    ? 'bg-blue-600 hover:bg-blue-700 text-white'
+                    : 'bg-gray-600 hover:bg-gray-700 text-gray-300'
+                }`}
+              >
+                {user.school} only
+              </Button>
+            ) : (
+              <div className="flex items-center gap-2">
+                <Input
+                  value={schoolInput}
+                  onChange={(e) => setSchoolInput(e.target.value)}
+                  placeholder="Your school or study group"
+                  maxLength={120}
+                  className="bg-gray-700 border-gray-600 text-white text-sm w-56"
+                />
+                <Button
+                  onClick={saveSchool}
+                  disabled={!schoolInput.trim()}
+                  className="bg-gray-600 hover:bg-gray-700 px-4 py-2 rounded-lg text-sm"
+                >
+                  Save
+                </Button>
+              </div>
+            )}
+          </div>
         </CardContent>
       </Card>
 
       {/* Your rank card */}
-      {userRank && (
+      {me && (
         <div className="bg-gradient-to-r from-blue-600 to-purple-600 rounded-xl p-6 text-white">
           <div className="flex items-center justify-between">
             <div className="flex items-center space-x-4">
@@ -135,18 +215,24 @@ export default function Leaderboard({ user, onBack }: LeaderboardProps) {
                   alt="Your Profile"
                   className="w-16 h-16 rounded-full object-cover border-4 border-white"
                 />
-                <div className="absolute -top-2 -right-2 bg-yellow-500 text-black w-8 h-8 rounded-full flex items-center justify-center font-bold text-sm">
-                  {userRank}
-                </div>
+                {me.rank && (
+                  <div className="absolute -top-2 -right-2 bg-yellow-500 text-black w-8 h-8 rounded-full flex items-center justify-center font-bold text-sm">
+                    {me.rank}
+                  </div>
+                )}
               </div>
               <div>
                 <h3 className="text-xl font-bold">{user.nickname}</h3>
-                <p className="opacity-90">Your Current Rank</p>
+                <p className="opacity-90">
+                  {me.rank
+                    ? `Rank ${me.rank} of ${leaderboard?.totalRanked}`
+                    : `Answer ${minAttempts - me.attempted} more questions to be ranked`}
+                </p>
               </div>
             </div>
             <div className="text-right">
-              <div className="text-3xl font-bold">{user.totalScore}%</div>
-              <div className="text-sm opacity-90">Average Score</div>
+              <div className="text-3xl font-bold">{me.accuracy.toFixed(1)}%</div>
+              <div className="text-sm opacity-90">Accuracy • {me.attempted} questions</div>
             </div>
           </div>
         </div>
@@ -157,15 +243,15 @@ export default function Leaderboard({ user, onBack }: LeaderboardProps) {
         <CardContent className="p-6">
           <h3 className="text-xl font-bold text-white mb-4">Top Performers</h3>
 
-          {leaderboardData.length > 0 ? (
+          {entries.length > 0 ? (
             <div className="space-y-3">
-              {leaderboardData.map((entry, index) => {
-                const rank = index + 1;
-                const isCurrentUser = entry.user.id === user.id;
+              {entries.map((entry) => {
+                const rank = entry.rank ?? 0;
+                const isCurrentUser = entry.userId === user.id;
 
                 return (
                   <div
-                    key={entry.user.id}
+                    key={entry.userId}
                     className={`flex items-center justify-between p-4 rounded-lg transition-all ${
                       rank <= 3
                         ? getRankBadgeColor(rank)
@@ -188,13 +274,13 @@ export default function Leaderboard({ user, onBack }: LeaderboardProps) {
                       </div>
                       <div className="flex items-center space-x-3">
                         <img
-                          src={entry.user.avatarUrl || "https://images.unsplash.com/photo-1472099645785-5658abf4ff4e?ixlib=rb-4.0.3&ixid=MnwxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8&auto=format&fit=crop&w=40&h=40"}
-                          alt={entry.user.nickname}
+                          src={entry.avatarUrl || "https://images.unsplash.com/photo-1472099645785-5658abf4ff4e?ixlib=rb-4.0.3&ixid=MnwxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8&auto=format&fit=crop&w=40&h=40"}
+                          alt={entry.nickname}
                           className="w-10 h-10 rounded-full object-cover"
                         />
                         <div>
                           <h5 className={`font-semibold ${rank <= 3 ? 'text-black' : 'text-white'}`}>
-                            {entry.user.nickname}
+                            {entry.nickname}
                             {isCurrentUser && ' (You)'}
                           </h5>
                           <p className={`text-sm ${
@@ -204,14 +290,14 @@ export default function Leaderboard({ user, onBack }: LeaderboardProps) {
                               ? 'text-blue-300' 
                               : 'text-gray-400'
                           }`}>
-                            {entry.user.isPremium ? 'Premium Student' : 'Student'}
+                            {entry.school || (entry.isPremium ? 'Premium Student' : 'Student')}
                           </p>
                         </div>
                       </div>
                     </div>
                     <div className="text-right">
                       <div className={`text-xl font-bold ${rank <= 3 ? 'text-black' : 'text-white'}`}>
-                        {entry.avgScore.toFixed(1)}%
+                        {entry.accuracy.toFixed(1)}%
                       </div>
                       <div className={`text-sm ${
                         rank <= 3 
@@ -220,7 +306,7 @@ export default function Leaderboard({ user, onBack }: LeaderboardProps) {
                           ? 'text-blue-300' 
                           : 'text-gray-400'
                       }`}>
-                        {entry.totalTests} tests
+                        {entry.attempted} questions • {entry.sessions} tests
                       </div>
                     </div>
                   </div>
@@ -232,14 +318,14 @@ export default function Leaderboard({ user, onBack }: LeaderboardProps) {
               <div className="text-4xl mb-4">📊</div>
               <h3 className="text-xl font-bold text-white mb-2">No Data Available</h3>
               <p className="text-gray-400">
-                Complete some quizzes to see the leaderboard!
+                Nobody has answered {minAttempts} questions here yet. Complete some quizzes to get ranked!
               </p>
             </div>
           )}
 
           <div className="mt-6 pt-4 border-t border-gray-700 text-center">
             <p className="text-sm text-gray-400">
-              Rankings updated every hour • Total students: {leaderboardData.length}
+              Ranked by accuracy • Minimum {minAttempts} questions • Ranked students: {leaderboard?.totalRanked ?? 0}
             </p>
           </div>
         </CardContent>
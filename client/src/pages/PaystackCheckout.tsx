@@ -33,7 +33,7 @@ export default function PaystackCheckout({ user, onBack, onSuccess }: PaystackCh
       const response = await apiRequest("POST", "/api/payments/initialize", {
         userId: user.id,
         email: user.email,
-        amount: 300000, // ₦3,000 in kobo for CBT access
+        planId: 'premium-30d', // ₦3,000 CBT access
       });
 
       const data = await response.json();
@@ -71,7 +71,7 @@ export default function PaystackCheckout({ user, onBack, onSuccess }: PaystackCh
       if (data.success) {
         toast({
           title: "Payment Successful!",
-          description: `Welcome to Premium CBT! Your unlock code is: ${data.unlockCode}`,
+          description: "Welcome to Premium CBT! Your access is now active.",
         });
         onSuccess();
       } else {
@@ -3,6 +3,7 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Trophy, Clock, Target, RotateCcw, Share2, CheckCircle, XCircle, Circle } from 'lucide-react';
 import { Question } from '@/types';
+import ReportQuestionButton from '@/components/ReportQuestionButton';
 
 interface QuizResult {
   session: any;
@@ -153,13 +154,16 @@ export default function ReviewSection({
                     </div>
                     <h4 className="font-semibold text-white">Question {questionNumber}</h4>
                   </div>
-                  <span className={`px-2 py-1 rounded text-sm font-medium ${
-                    isCorrect 
-                      ? 'bg-green-900 text-green-400'
-                      : 'bg-red-900 text-red-400'
-                  }`}>
-                    {isCorrect ? 'Correct' : 'Incorrect'}
-                  </span>
+                  <div className="flex items-center space-x-2">
+                    <ReportQuestionButton question={question} subject={subjectName} userAnswer={userAnswer} />
+                    <span className={`px-2 py-1 rounded text-sm font-medium ${
+                      isCorrect 
+                        ? 'bg-green-900 text-green-400'
+                        : 'bg-red-900 text-red-400'
+                    }`}>
+                      {isCorrect ? 'Correct' : 'Incorrect'}
+                    </span>
+                  </div>
                 </div>
 
                 <p className="text-gray-300 mb-4">{question.question}</p>
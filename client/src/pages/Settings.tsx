@@ -6,6 +6,7 @@ import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { Badge } from '@/components/ui/badge';
 import { User } from '@shared/schema';
+import NotificationSettings from '@/components/NotificationSettings';
 import { 
   ArrowLeft, 
   User as UserIcon, 
@@ -287,6 +288,9 @@ export default function Settings({ user, onBack }: SettingsProps) {
               )}
             </CardContent>
           </Card>
+
+          {/* Notification channels and inbox */}
+          <NotificationSettings />
         </div>
 
         {/* Save Settings Button */}
@@ -6,6 +6,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
@@ -13,8 +14,10 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { apiRequest } from "@/lib/queryClient";
-import { Plus, BookOpen, Edit3, Bookmark, Clock, Brain, Search, Star, Target, Lightbulb } from "lucide-react";
-import type { ShortNote, Subject } from "@shared/schema";
+import { toast } from "@/hooks/use-toast";
+import { Plus, BookOpen, Edit3, Bookmark, Clock, Brain, Search, Star, Target, Lightbulb, Sparkles, RotateCcw } from "lucide-react";
+import type { ExplainedQuestion, ShortNote, Subject } from "@shared/schema";
+import { SHORT_NOTE_MAX_SOURCE_QUESTIONS, getShortNoteNextReview, type ShortNoteDifficulty } from "@shared/shortNotes";
 
 const createNoteSchema = z.object({
   subjectId: z.string().min(1, "Subject is required"),
@@ -34,6 +37,11 @@ const createNoteSchema = z.object({
 
 type CreateNoteForm = z.infer<typeof createNoteSchema>;
 
+type NotesView = "all" | "bookmarked" | "due";
+
+const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message.replace(/^\d+: /, "") : fallback;
+
 export default function ShortNotes() {
   const { user } = useAuth();
   const queryClient = useQueryClient();
@@ -45,6 +53,13 @@ export default function ShortNotes() {
   const [formulaInput, setFormulaInput] = useState({ formula: "", description: "" });
   const [exampleInput, setExampleInput] = useState("");
   const [tagInput, setTagInput] = useState("");
+  const [view, setView] = useState<NotesView>("all");
+  const [openNote, setOpenNote] = useState<ShortNote | null>(null);
+  const [isGenerateDialogOpen, setIsGenerateDialogOpen] = useState(false);
+  const [generateSubject, setGenerateSubject] = useState("");
+  const [generateTopic, setGenerateTopic] = useState("");
+  const [generateDifficulty, setGenerateDifficulty] = useState<ShortNoteDifficulty>("medium");
+  const [sourceQuestionIds, setSourceQuestionIds] = useState<string[]>([]);
 
   const form = useForm<CreateNoteForm>({
     resolver: zodResolver(createNoteSchema),
@@ -63,49 +78,102 @@ export default function ShortNotes() {
   });
 
   // Fetch subjects
-  const { data: subjects } = useQuery({
+  const { data: subjects } = useQuery<Subject[]>({
     queryKey: ["/api/subjects"],
     enabled: !!user
   });
 
-  // Fetch short notes
+  // Fetch short notes; search and filters run on the server
   const { data: notes, isLoading } = useQuery({
-    queryKey: ["/api/notes/short", selectedSubject, selectedDifficulty, searchTerm],
-    enabled: !!user
+    queryKey: ["/api/short-notes", user?.id, view, selectedSubject, selectedDifficulty, searchTerm],
+    queryFn: async () => {
+      if (view === "due") {
+        const response = await apiRequest("GET", `/api/short-notes/${user!.id}/due`);
+        return await response.json() as ShortNote[];
+      }
+      const params = new URLSearchParams();
+      if (selectedSubject !== "all") params.set("subjectId", selectedSubject);
+      if (selectedDifficulty !== "all") params.set("difficulty", selectedDifficulty);
+      if (searchTerm.trim()) params.set("search", searchTerm.trim());
+      if (view === "bookmarked") params.set("bookmarked", "true");
+      const response = await apiRequest("GET", `/api/short-notes/${user!.id}?${params}`);
+      return await response.json() as ShortNote[];
+    },
+    enabled: !!user,
+    staleTime: 0
+  });
+
+  // Explained questions in the chosen subject, to build an AI note from
+  const { data: explainedQuestions } = useQuery<ExplainedQuestion[]>({
+    queryKey: ["/api/explained-questions", user?.id, generateSubject],
+    enabled: !!user && !!generateSubject && isGenerateDialogOpen
   });
 
   // Create note mutation
   const createNoteMutation = useMutation({
-    mutationFn: (data: CreateNoteForm) => apiRequest("/api/notes/short", {
-      method: "POST",
-      body: JSON.stringify({ ...data, userId: user?.id })
-    }),
+    mutationFn: (data: CreateNoteForm) => apiRequest("POST", "/api/short-notes", { ...data, userId: user?.id }),
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/notes/short"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/short-notes"] });
       setIsCreateDialogOpen(false);
       form.reset();
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error, "Failed to create note"), variant: "destructive" });
+    }
+  });
+
+  // Generate note mutation
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/short-notes/generate", {
+        subjectId: generateSubject,
+        topic: generateTopic.trim() || undefined,
+        explainedQuestionIds: sourceQuestionIds,
+        difficulty: generateDifficulty
+      });
+      return await response.json() as ShortNote;
+    },
+    onSuccess: (note) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/short-notes"] });
+      setIsGenerateDialogOpen(false);
+      setGenerateTopic("");
+      setSourceQuestionIds([]);
+      setOpenNote(note);
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: errorMessage(error, "Failed to generate note"), variant: "destructive" });
     }
   });
 
   // Bookmark note mutation
   const bookmarkMutation = useMutation({
-    mutationFn: (noteId: string) => apiRequest(`/api/notes/short/${noteId}/bookmark`, {
-      method: "POST"
+    mutationFn: (note: ShortNote) => apiRequest("PATCH", `/api/short-notes/${note.id}/bookmark`, {
+      isBookmarked: !note.isBookmarked
     }),
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/notes/short"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/short-notes"] });
+    }
+  });
+
+  // Opening a note records a review
+  const openNoteMutation = useMutation({
+    mutationFn: async (noteId: string) => {
+      const response = await apiRequest("GET", `/api/short-notes/single/${noteId}`);
+      return await response.json() as ShortNote;
+    },
+    onSuccess: (note) => {
+      setOpenNote(note);
+      queryClient.invalidateQueries({ queryKey: ["/api/short-notes"] });
     }
   });
 
-  const filteredNotes = notes?.filter((note: ShortNote) => {
-    const matchesSearch = note.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         note.topic.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         note.content.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesSubject = selectedSubject === "all" || note.subjectId === selectedSubject;
-    const matchesDifficulty = selectedDifficulty === "all" || note.difficulty === selectedDifficulty;
-    
-    return matchesSearch && matchesSubject && matchesDifficulty;
-  }) || [];
+  const filteredNotes = notes || [];
+
+  const toggleSourceQuestion = (id: string) => {
+    setSourceQuestionIds(ids => ids.includes(id)
+      ? ids.filter(entry => entry !== id)
+      : ids.length < SHORT_NOTE_MAX_SOURCE_QUESTIONS ? [...ids, id] : ids);
+  };
 
   const addKeyPoint = () => {
     if (keyPointInput.trim()) {
@@ -179,262 +247,371 @@ export default function ShortNotes() {
             </p>
           </div>
           
-          <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-            <DialogTrigger asChild>
-              <Button className="bg-blue-600 hover:bg-blue-700">
-                <Plus className="w-4 h-4 mr-2" />
-                Create Note
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
-              <DialogHeader>
-                <DialogTitle>Create New Short Note</DialogTitle>
-                <DialogDescription>
-                  Create a concise note for quick revision of important JAMB topics
-                </DialogDescription>
-              </DialogHeader>
-              
-              <Form {...form}>
-                <form onSubmit={form.handleSubmit((data) => createNoteMutation.mutate(data))} className="space-y-6">
+          <div className="flex gap-2">
+            <Dialog open={isGenerateDialogOpen} onOpenChange={setIsGenerateDialogOpen}>
+              <DialogTrigger asChild>
+                <Button variant="outline">
+                  <Sparkles className="w-4 h-4 mr-2" />
+                  Generate with AI
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>Generate a Short Note</DialogTitle>
+                  <DialogDescription>
+                    Get an AI-written note on a topic, or one built around questions you had explained
+                  </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4">
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    <FormField
-                      control={form.control}
-                      name="subjectId"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Subject</FormLabel>
-                          <Select onValueChange={field.onChange} defaultValue={field.value}>
-                            <FormControl>
-                              <SelectTrigger>
-                                <SelectValue placeholder="Select subject" />
-                              </SelectTrigger>
-                            </FormControl>
-                            <SelectContent>
-                              {subjects?.map((subject: Subject) => (
-                                <SelectItem key={subject.id} value={subject.id}>
-                                  {subject.name}
-                                </SelectItem>
-                              ))}
-                            </SelectContent>
-                          </Select>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    
-                    <FormField
-                      control={form.control}
-                      name="topic"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Topic</FormLabel>
-                          <FormControl>
-                            <Input placeholder="e.g., Quadratic Equations" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                  </div>
-
-                  <FormField
-                    control={form.control}
-                    name="title"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Title</FormLabel>
-                        <FormControl>
-                          <Input placeholder="Brief descriptive title" {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-
-                  <FormField
-                    control={form.control}
-                    name="content"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Content</FormLabel>
-                        <FormControl>
-                          <Textarea 
-                            placeholder="Write your note content here..."
-                            className="min-h-[120px]"
-                            {...field}
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-
-                  {/* Key Points */}
-                  <div>
-                    <label className="text-sm font-medium mb-2 block">Key Points</label>
-                    <div className="flex gap-2 mb-2">
-                      <Input
-                        placeholder="Add a key point..."
-                        value={keyPointInput}
-                        onChange={(e) => setKeyPointInput(e.target.value)}
-                        onKeyPress={(e) => e.key === 'Enter' && (e.preventDefault(), addKeyPoint())}
-                      />
-                      <Button type="button" onClick={addKeyPoint} size="sm">Add</Button>
+                    <div>
+                      <label className="text-sm font-medium mb-2 block">Subject</label>
+                      <Select value={generateSubject} onValueChange={(value) => { setGenerateSubject(value); setSourceQuestionIds([]); }}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select subject" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {subjects?.map((subject: Subject) => (
+                            <SelectItem key={subject.id} value={subject.id}>
+                              {subject.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
                     </div>
-                    <div className="flex flex-wrap gap-1">
-                      {form.watch("keyPoints").map((point, index) => (
-                        <Badge key={index} variant="secondary" className="text-xs">
-                          {point}
-                          <button 
-                            type="button"
-                            onClick={() => {
-                              const points = form.getValues("keyPoints");
-                              form.setValue("keyPoints", points.filter((_, i) => i !== index));
-                            }}
-                            className="ml-1 text-red-500"
-                          >
-                            ×
-                          </button>
-                        </Badge>
-                      ))}
+                    <div>
+                      <label className="text-sm font-medium mb-2 block">Difficulty</label>
+                      <Select value={generateDifficulty} onValueChange={(value) => setGenerateDifficulty(value as ShortNoteDifficulty)}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="easy">Easy</SelectItem>
+                          <SelectItem value="medium">Medium</SelectItem>
+                          <SelectItem value="hard">Hard</SelectItem>
+                        </SelectContent>
+                      </Select>
                     </div>
                   </div>
 
-                  {/* Formulas */}
                   <div>
-                    <label className="text-sm font-medium mb-2 block">Formulas</label>
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mb-2">
-                      <Input
-                        placeholder="Formula (e.g., x = -b ± √(b²-4ac)/2a)"
-                        value={formulaInput.formula}
-                        onChange={(e) => setFormulaInput(prev => ({ ...prev, formula: e.target.value }))}
-                      />
-                      <div className="flex gap-2">
-                        <Input
-                          placeholder="Description"
-                          value={formulaInput.description}
-                          onChange={(e) => setFormulaInput(prev => ({ ...prev, description: e.target.value }))}
-                        />
-                        <Button type="button" onClick={addFormula} size="sm">Add</Button>
-                      </div>
-                    </div>
-                    <div className="space-y-1">
-                      {form.watch("formulas").map((formula, index) => (
-                        <div key={index} className="text-xs bg-gray-100 dark:bg-gray-800 p-2 rounded flex justify-between">
-                          <span><strong>{formula.formula}</strong> - {formula.description}</span>
-                          <button 
-                            type="button"
-                            onClick={() => {
-                              const formulas = form.getValues("formulas");
-                              form.setValue("formulas", formulas.filter((_, i) => i !== index));
-                            }}
-                            className="text-red-500"
-                          >
-                            ×
-                          </button>
+                    <label className="text-sm font-medium mb-2 block">Topic</label>
+                    <Input
+                      placeholder="e.g., Quadratic Equations (optional when you pick questions)"
+                      value={generateTopic}
+                      onChange={(e) => setGenerateTopic(e.target.value)}
+                    />
+                  </div>
+
+                  {generateSubject && (
+                    <div>
+                      <label className="text-sm font-medium mb-2 block">
+                        Build from explained questions ({sourceQuestionIds.length}/{SHORT_NOTE_MAX_SOURCE_QUESTIONS})
+                      </label>
+                      {explainedQuestions?.length ? (
+                        <div className="space-y-2 max-h-60 overflow-y-auto">
+                          {explainedQuestions.map(question => (
+                            <label key={question.id} className="flex items-start gap-2 text-sm p-2 rounded bg-gray-50 dark:bg-gray-800 cursor-pointer">
+                              <Checkbox
+                                checked={sourceQuestionIds.includes(question.id)}
+                                onCheckedChange={() => toggleSourceQuestion(question.id)}
+                              />
+                              <span className="line-clamp-2">{question.question}</span>
+                            </label>
+                          ))}
                         </div>
-                      ))}
+                      ) : (
+                        <p className="text-xs text-gray-500">No explained questions in this subject yet</p>
+                      )}
                     </div>
+                  )}
+
+                  <div className="flex gap-3">
+                    <Button
+                      onClick={() => generateMutation.mutate()}
+                      disabled={generateMutation.isPending || !generateSubject || (!generateTopic.trim() && sourceQuestionIds.length === 0)}
+                      className="flex-1"
+                    >
+                      {generateMutation.isPending ? "Generating..." : "Generate Note"}
+                    </Button>
+                    <Button type="button" variant="outline" onClick={() => setIsGenerateDialogOpen(false)}>
+                      Cancel
+                    </Button>
                   </div>
+                </div>
+              </DialogContent>
+            </Dialog>
+
+            <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+              <DialogTrigger asChild>
+                <Button className="bg-blue-600 hover:bg-blue-700">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Create Note
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>Create New Short Note</DialogTitle>
+                  <DialogDescription>
+                    Create a concise note for quick revision of important JAMB topics
+                  </DialogDescription>
+                </DialogHeader>
+                
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit((data) => createNoteMutation.mutate(data))} className="space-y-6">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="subjectId"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Subject</FormLabel>
+                            <Select onValueChange={field.onChange} defaultValue={field.value}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Select subject" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {subjects?.map((subject: Subject) => (
+                                  <SelectItem key={subject.id} value={subject.id}>
+                                    {subject.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      
+                      <FormField
+                        control={form.control}
+                        name="topic"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Topic</FormLabel>
+                            <FormControl>
+                              <Input placeholder="e.g., Quadratic Equations" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
 
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     <FormField
                       control={form.control}
-                      name="difficulty"
+                      name="title"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>Difficulty</FormLabel>
-                          <Select onValueChange={field.onChange} defaultValue={field.value}>
-                            <FormControl>
-                              <SelectTrigger>
-                                <SelectValue placeholder="Select difficulty" />
-                              </SelectTrigger>
-                            </FormControl>
-                            <SelectContent>
-                              <SelectItem value="easy">Easy</SelectItem>
-                              <SelectItem value="medium">Medium</SelectItem>
-                              <SelectItem value="hard">Hard</SelectItem>
-                            </SelectContent>
-                          </Select>
+                          <FormLabel>Title</FormLabel>
+                          <FormControl>
+                            <Input placeholder="Brief descriptive title" {...field} />
+                          </FormControl>
                           <FormMessage />
                         </FormItem>
                       )}
                     />
-                    
+
                     <FormField
                       control={form.control}
-                      name="examRelevance"
+                      name="content"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>Exam Relevance (1-10)</FormLabel>
+                          <FormLabel>Content</FormLabel>
                           <FormControl>
-                            <Input 
-                              type="number" 
-                              min="1" 
-                              max="10" 
+                            <Textarea 
+                              placeholder="Write your note content here..."
+                              className="min-h-[120px]"
                               {...field}
-                              onChange={(e) => field.onChange(Number(e.target.value))}
                             />
                           </FormControl>
                           <FormMessage />
                         </FormItem>
                       )}
                     />
-                  </div>
 
-                  {/* Tags */}
-                  <div>
-                    <label className="text-sm font-medium mb-2 block">Tags</label>
-                    <div className="flex gap-2 mb-2">
-                      <Input
-                        placeholder="Add a tag..."
-                        value={tagInput}
-                        onChange={(e) => setTagInput(e.target.value)}
-                        onKeyPress={(e) => e.key === 'Enter' && (e.preventDefault(), addTag())}
+                    {/* Key Points */}
+                    <div>
+                      <label className="text-sm font-medium mb-2 block">Key Points</label>
+                      <div className="flex gap-2 mb-2">
+                        <Input
+                          placeholder="Add a key point..."
+                          value={keyPointInput}
+                          onChange={(e) => setKeyPointInput(e.target.value)}
+                          onKeyPress={(e) => e.key === 'Enter' && (e.preventDefault(), addKeyPoint())}
+                        />
+                        <Button type="button" onClick={addKeyPoint} size="sm">Add</Button>
+                      </div>
+                      <div className="flex flex-wrap gap-1">
+                        {form.watch("keyPoints").map((point, index) => (
+                          <Badge key={index} variant="secondary" className="text-xs">
+                            {point}
+                            <button 
+                              type="button"
+                              onClick={() => {
+                                const points = form.getValues("keyPoints");
+                                form.setValue("keyPoints", points.filter((_, i) => i !== index));
+                              }}
+                              className="ml-1 text-red-500"
+                            >
+                              ×
+                            </button>
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+
+                    {/* Formulas */}
+                    <div>
+                      <label className="text-sm font-medium mb-2 block">Formulas</label>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mb-2">
+                        <Input
+                          placeholder="Formula (e.g., x = -b ± √(b²-4ac)/2a)"
+                          value={formulaInput.formula}
+                          onChange={(e) => setFormulaInput(prev => ({ ...prev, formula: e.target.value }))}
+                        />
+                        <div className="flex gap-2">
+                          <Input
+                            placeholder="Description"
+                            value={formulaInput.description}
+                            onChange={(e) => setFormulaInput(prev => ({ ...prev, description: e.target.value }))}
+                          />
+                          <Button type="button" onClick={addFormula} size="sm">Add</Button>
+                        </div>
+                      </div>
+                      <div className="space-y-1">
+                        {form.watch("formulas").map((formula, index) => (
+                          <div key={index} className="text-xs bg-gray-100 dark:bg-gray-800 p-2 rounded flex justify-between">
+                            <span><strong>{formula.formula}</strong> - {formula.description}</span>
+                            <button 
+                              type="button"
+                              onClick={() => {
+                                const formulas = form.getValues("formulas");
+                                form.setValue("formulas", formulas.filter((_, i) => i !== index));
+                              }}
+                              className="text-red-500"
+                            >
+                              ×
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="difficulty"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Difficulty</FormLabel>
+                            <Select onValueChange={field.onChange} defaultValue={field.value}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Select difficulty" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="easy">Easy</SelectItem>
+                                <SelectItem value="medium">Medium</SelectItem>
+                                <SelectItem value="hard">Hard</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      
+                      <FormField
+                        control={form.control}
+                        name="examRelevance"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Exam Relevance (1-10)</FormLabel>
+                            <FormControl>
+                              <Input 
+                                type="number" 
+                                min="1" 
+                                max="10" 
+                                {...field}
+                                onChange={(e) => field.onChange(Number(e.target.value))}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
                       />
-                      <Button type="button" onClick={addTag} size="sm">Add</Button>
                     </div>
-                    <div className="flex flex-wrap gap-1">
-                      {form.watch("tags").map((tag, index) => (
-                        <Badge key={index} variant="outline" className="text-xs">
-                          #{tag}
-                          <button 
-                            type="button"
-                            onClick={() => {
-                              const tags = form.getValues("tags");
-                              form.setValue("tags", tags.filter((_, i) => i !== index));
-                            }}
-                            className="ml-1 text-red-500"
-                          >
-                            ×
-                          </button>
-                        </Badge>
-                      ))}
+
+                    {/* Tags */}
+                    <div>
+                      <label className="text-sm font-medium mb-2 block">Tags</label>
+                      <div className="flex gap-2 mb-2">
+                        <Input
+                          placeholder="Add a tag..."
+                          value={tagInput}
+                          onChange={(e) => setTagInput(e.target.value)}
+                          onKeyPress={(e) => e.key === 'Enter' && (e.preventDefault(), addTag())}
+                        />
+                        <Button type="button" onClick={addTag} size="sm">Add</Button>
+                      </div>
+                      <div className="flex flex-wrap gap-1">
+                        {form.watch("tags").map((tag, index) => (
+                          <Badge key={index} variant="outline" className="text-xs">
+                            #{tag}
+                            <button 
+                              type="button"
+                              onClick={() => {
+                                const tags = form.getValues("tags");
+                                form.setValue("tags", tags.filter((_, i) => i !== index));
+                              }}
+                              className="ml-1 text-red-500"
+                            >
+                              ×
+                            </button>
+                          </Badge>
+                        ))}
+                      </div>
                     </div>
-                  </div>
 
-                  <div className="flex gap-3">
-                    <Button type="submit" disabled={createNoteMutation.isPending} className="flex-1">
-                      {createNoteMutation.isPending ? "Creating..." : "Create Note"}
-                    </Button>
-                    <Button type="button" variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
-                      Cancel
-                    </Button>
-                  </div>
-                </form>
-              </Form>
-            </DialogContent>
-          </Dialog>
+                    <div className="flex gap-3">
+                      <Button type="submit" disabled={createNoteMutation.isPending} className="flex-1">
+                        {createNoteMutation.isPending ? "Creating..." : "Create Note"}
+                      </Button>
+                      <Button type="button" variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
+                        Cancel
+                      </Button>
+                    </div>
+                  </form>
+                </Form>
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
 
         {/* Filters */}
         <div className="flex flex-wrap gap-4 mb-6">
+          <Select value={view} onValueChange={(value) => setView(value as NotesView)}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Notes</SelectItem>
+              <SelectItem value="bookmarked">Bookmarked</SelectItem>
+              <SelectItem value="due">Due for Review</SelectItem>
+            </SelectContent>
+          </Select>
+
           <div className="flex items-center gap-2">
             <Search className="w-4 h-4 text-gray-500" />
             <Input
               placeholder="Search notes..."
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
+              disabled={view === "due"}
               className="w-64"
             />
           </div>
@@ -489,11 +666,15 @@ export default function ShortNotes() {
       ) : filteredNotes.length === 0 ? (
         <div className="text-center py-12">
           <Brain className="w-16 h-16 text-gray-400 mx-auto mb-4" />
-          <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">No notes found</h3>
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
+            {view === "due" ? "Nothing to review" : "No notes found"}
+          </h3>
           <p className="text-gray-600 dark:text-gray-400 mb-4">
-            {searchTerm || selectedSubject !== "all" || selectedDifficulty !== "all" 
-              ? "Try adjusting your filters or search terms"
-              : "Create your first short note to get started"}
+            {view === "due"
+              ? "You're up to date with your reviews"
+              : searchTerm || selectedSubject !== "all" || selectedDifficulty !== "all" || view === "bookmarked"
+                ? "Try adjusting your filters or search terms"
+                : "Create your first short note to get started"}
           </p>
           <Button onClick={() => setIsCreateDialogOpen(true)} className="bg-blue-600 hover:bg-blue-700">
             <Plus className="w-4 h-4 mr-2" />
@@ -503,7 +684,11 @@ export default function ShortNotes() {
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
           {filteredNotes.map((note: ShortNote) => (
-            <Card key={note.id} className="hover:shadow-lg transition-shadow duration-300 border-l-4 border-l-blue-500">
+            <Card
+              key={note.id}
+              className="hover:shadow-lg transition-shadow duration-300 border-l-4 border-l-blue-500 cursor-pointer"
+              onClick={() => openNoteMutation.mutate(note.id)}
+            >
               <CardHeader className="pb-4">
                 <div className="flex items-start justify-between">
                   <div className="flex-1">
@@ -518,7 +703,7 @@ export default function ShortNotes() {
                   <Button
                     variant="ghost"
                     size="sm"
-                    onClick={() => bookmarkMutation.mutate(note.id)}
+                    onClick={(e) => { e.stopPropagation(); bookmarkMutation.mutate(note); }}
                     className="flex-shrink-0"
                   >
                     <Bookmark className={`w-4 h-4 ${note.isBookmarked ? 'fill-yellow-400 text-yellow-400' : 'text-gray-400'}`} />
@@ -526,11 +711,11 @@ export default function ShortNotes() {
                 </div>
 
                 <div className="flex items-center gap-2 mt-2">
-                  <Badge className={getDifficultyColor(note.difficulty)} variant="secondary">
+                  <Badge className={getDifficultyColor(note.difficulty || "medium")} variant="secondary">
                     {note.difficulty}
                   </Badge>
                   <div className="flex items-center gap-1">
-                    {getRelevanceStars(note.examRelevance)}
+                    {getRelevanceStars(note.examRelevance || 5)}
                   </div>
                   <div className="flex items-center gap-1 text-xs text-gray-500">
                     <Target className="w-3 h-3" />
@@ -618,6 +803,93 @@ export default function ShortNotes() {
           ))}
         </div>
       )}
+
+      {/* Note detail */}
+      <Dialog open={!!openNote} onOpenChange={(open) => !open && setOpenNote(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          {openNote && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  {openNote.title}
+                  {openNote.aiGenerated && <Sparkles className="w-4 h-4 text-purple-500" />}
+                </DialogTitle>
+                <DialogDescription>
+                  {openNote.subjectName} • {openNote.topic}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-4">
+                <div className="flex items-center gap-2">
+                  <Badge className={getDifficultyColor(openNote.difficulty || "medium")} variant="secondary">
+                    {openNote.difficulty}
+                  </Badge>
+                  <div className="flex items-center gap-1 text-xs text-gray-500">
+                    <Target className="w-3 h-3" />
+                    {openNote.examRelevance}/10
+                  </div>
+                  <div className="flex items-center gap-1 text-xs text-gray-500 ml-auto">
+                    <RotateCcw className="w-3 h-3" />
+                    Next review {getShortNoteNextReview(openNote).toLocaleDateString()}
+                  </div>
+                </div>
+
+                <div className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-line">{openNote.content}</div>
+
+                {!!openNote.keyPoints?.length && (
+                  <div>
+                    <h4 className="text-sm font-medium mb-2 flex items-center gap-1">
+                      <Lightbulb className="w-4 h-4" />
+                      Key Points
+                    </h4>
+                    <ul className="space-y-1">
+                      {openNote.keyPoints.map((point, index) => (
+                        <li key={index} className="text-sm text-gray-600 dark:text-gray-400 flex items-start gap-1">
+                          <span className="text-blue-500 font-bold">•</span>
+                          {point}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {!!openNote.formulas?.length && (
+                  <div>
+                    <h4 className="text-sm font-medium mb-2">Formulas</h4>
+                    <div className="space-y-2">
+                      {openNote.formulas.map((formula, index) => (
+                        <div key={index} className="text-sm bg-gray-50 dark:bg-gray-800 p-2 rounded">
+                          <div className="font-mono text-blue-600 dark:text-blue-400">{formula.formula}</div>
+                          <div className="text-gray-600 dark:text-gray-400 mt-1">{formula.description}</div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {!!openNote.examples?.length && (
+                  <div>
+                    <h4 className="text-sm font-medium mb-2">Examples</h4>
+                    <div className="space-y-2">
+                      {openNote.examples.map((example, index) => (
+                        <div key={index} className="text-sm text-gray-600 dark:text-gray-400 whitespace-pre-line">{example}</div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {!!openNote.tags?.length && (
+                  <div className="flex flex-wrap gap-1">
+                    {openNote.tags.map((tag, index) => (
+                      <Badge key={index} variant="outline" className="text-xs">#{tag}</Badge>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
@@ -17,6 +17,9 @@ import {
   BarChart3,
   Settings
 } from 'lucide-react';
+import type { User } from '@shared/schema';
+import { DEFAULT_DAILY_GOALS, type DailyGoalProgress } from '@shared/studyProgress';
+import UserBadges from '@/components/UserBadges';
 
 interface StudyProgressData {
   subjectId: string;
@@ -35,47 +38,50 @@ interface StudyProgressData {
   monthlyGoal: number;
   monthlyProgress: number;
   lastStudyDate: string;
+  weakTopics: string[];
+  strongTopics: string[];
 }
 
-interface DailyGoals {
-  questionsGoal: number;
-  questionsCompleted: number;
-  timeGoal: number;
+interface StudySessionSummary {
+  id: string;
+  subjectName: string;
+  sessionType: string;
+  questionsAttempted: number;
+  score: number;
   timeSpent: number;
-  subjectsGoal: number;
-  subjectsStudied: number;
-  isCompleted: boolean;
+  completedAt: string;
+}
+
+interface StudyProgressDashboardProps {
+  user: User;
 }
 
-export default function StudyProgressDashboard() {
+export default function StudyProgressDashboard({ user }: StudyProgressDashboardProps) {
   const [selectedTimeframe, setSelectedTimeframe] = useState<'week' | 'month' | 'all'>('week');
-  
-  // Get current user from localStorage
-  const userId = localStorage.getItem('userId') || 'demo-user';
+  const userId = user.id;
 
   // Fetch study progress data
+  // Progress moves with every submitted quiz or exam, so always refetch when the dashboard opens
   const { data: progressData, isLoading: progressLoading } = useQuery<StudyProgressData[]>({
     queryKey: ['/api/progress/study', userId],
-    enabled: !!userId
+    enabled: !!userId,
+    staleTime: 0
   });
 
   // Fetch daily goals
-  const { data: dailyGoals, isLoading: goalsLoading } = useQuery<DailyGoals>({
+  const { data: dailyGoals, isLoading: goalsLoading } = useQuery<DailyGoalProgress>({
     queryKey: ['/api/progress/daily-goals', userId],
-    enabled: !!userId
+    enabled: !!userId,
+    staleTime: 0
   });
 
   // Fetch recent study sessions
-  const { data: recentSessions } = useQuery({
+  const { data: recentSessions } = useQuery<StudySessionSummary[]>({
     queryKey: ['/api/progress/recent-sessions', userId],
-    enabled: !!userId
+    enabled: !!userId,
+    staleTime: 0
   });
 
-  // Fetch achievements
-  const { data: achievements } = useQuery({
-    queryKey: ['/api/progress/achievements', userId],
-    enabled: !!userId
-  });
 
   if (progressLoading || goalsLoading) {
     return (
@@ -95,7 +101,7 @@ export default function StudyProgressDashboard() {
   }
 
   const totalProgress = progressData || [];
-  const goals = dailyGoals || { questionsGoal: 10, questionsCompleted: 0, timeGoal: 30, timeSpent: 0, subjectsGoal: 2, subjectsStudied: 0, isCompleted: false };
+  const goals = dailyGoals || { ...DEFAULT_DAILY_GOALS, questionsCompleted: 0, timeSpent: 0, subjectsStudied: 0, isCompleted: false };
 
   // Calculate overall statistics
   const overallStats = {
@@ -154,10 +160,10 @@ export default function StudyProgressDashboard() {
               <div className="space-y-2">
                 <div className="flex justify-between text-sm">
                   <span>Study Time</span>
-                  <span>{formatTime(goals.timeSpent)}/{formatTime(goals.timeGoal * 60)}</span>
+                  <span>{formatTime(goals.timeSpent)}/{formatTime(goals.timeGoal)}</span>
                 </div>
                 <Progress 
-                  value={(goals.timeSpent / (goals.timeGoal * 60)) * 100} 
+                  value={(goals.timeSpent / goals.timeGoal) * 100} 
                   className="h-2"
                 />
               </div>
@@ -254,7 +260,7 @@ export default function StudyProgressDashboard() {
           <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="subjects">Subject Progress</TabsTrigger>
             <TabsTrigger value="sessions">Recent Sessions</TabsTrigger>
-            <TabsTrigger value="achievements">Achievements</TabsTrigger>
+            <TabsTrigger value="achievements">Badges</TabsTrigger>
           </TabsList>
 
           <TabsContent value="subjects" className="space-y-4">
@@ -304,6 +310,17 @@ export default function StudyProgressDashboard() {
                           className="h-2"
                         />
                       </div>
+
+                      {(subject.weakTopics?.length > 0 || subject.strongTopics?.length > 0) && (
+                        <div className="flex flex-wrap gap-2 text-sm">
+                          {subject.strongTopics?.map(topic => (
+                            <Badge key={`strong-${topic}`} variant="default">{topic}</Badge>
+                          ))}
+                          {subject.weakTopics?.map(topic => (
+                            <Badge key={`weak-${topic}`} variant="destructive">{topic}</Badge>
+                          ))}
+                        </div>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -318,11 +335,11 @@ export default function StudyProgressDashboard() {
               </CardHeader>
               <CardContent>
                 <div className="space-y-3">
-                  {recentSessions?.slice(0, 10).map((session: any, index: number) => (
+                  {recentSessions?.length ? recentSessions.slice(0, 10).map((session, index) => (
                     <div key={session.id || index} className="flex items-center justify-between p-3 border rounded-lg">
                       <div>
                         <p className="font-medium" data-testid={`text-session-${index}`}>
-                          {session.subjectName || 'Unknown Subject'}
+                          {session.subjectName || 'Unknown Subject'}{session.sessionType === 'cbt' ? ' (CBT)' : ''}
                         </p>
                         <p className="text-sm text-gray-600 dark:text-gray-400">
                           {session.score}% • {session.questionsAttempted} questions • {formatTime(session.timeSpent)}
@@ -337,7 +354,7 @@ export default function StudyProgressDashboard() {
                         </p>
                       </div>
                     </div>
-                  )) || <p className="text-gray-500 text-center py-8">No recent sessions found</p>}
+                  )) : <p className="text-gray-500 text-center py-8">No recent sessions found</p>}
                 </div>
               </CardContent>
             </Card>
@@ -346,29 +363,10 @@ export default function StudyProgressDashboard() {
           <TabsContent value="achievements" className="space-y-4">
             <Card>
               <CardHeader>
-                <CardTitle>Your Achievements</CardTitle>
+                <CardTitle>Your Badges</CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  {achievements?.map((achievement: any) => (
-                    <div key={achievement.id} className="border rounded-lg p-4 flex items-center space-x-3">
-                      <div className="text-3xl">{achievement.icon}</div>
-                      <div>
-                        <h3 className="font-semibold" data-testid={`text-achievement-${achievement.type}`}>
-                          {achievement.title}
-                        </h3>
-                        <p className="text-sm text-gray-600 dark:text-gray-400">
-                          {achievement.description}
-                        </p>
-                        {achievement.isUnlocked && (
-                          <Badge variant="default" className="mt-2">
-                            Unlocked
-                          </Badge>
-                        )}
-                      </div>
-                    </div>
-                  )) || <p className="text-gray-500 text-center py-8">No achievements yet</p>}
-                </div>
+                <UserBadges userId={userId} />
               </CardContent>
             </Card>
           </TabsContent>
@@ -1,15 +1,14 @@
 import { useState, useRef, useEffect } from 'react';
-import { Send, Bot, User, Loader2, Brain, Sparkles, Zap, ArrowLeft, Sun, Moon, Settings, History, MessageSquare, Clock, BarChart3 } from 'lucide-react';
+import { Send, Bot, User, Loader2, Brain, Sparkles, Zap, ArrowLeft, Sun, Moon, Settings, History, MessageSquare, Plus, Pencil, Trash2, Check } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Switch } from '@/components/ui/switch';
 import { Separator } from '@/components/ui/separator';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
-import { Progress } from '@/components/ui/progress';
 import { useToast } from '@/hooks/use-toast';
+import { celebrateBadges } from '@/components/UserBadges';
 interface UserType {
   id: string;
   email: string;
@@ -26,15 +25,16 @@ interface Message {
   content: string;
   sender: 'user' | 'ai';
   timestamp: Date;
-  model?: 'groq' | 'gemini' | 'kaiz';
+  model?: string;
 }
 
-interface ChatHistory {
+interface Conversation {
   id: string;
   title: string;
-  messageCount: number;
-  lastMessage: string;
-  lastMessageAt: Date;
+  messageCount: number | null;
+  lastMessage: string | null;
+  lastMessageAt: string | null;
+  updatedAt: string | null;
 }
 
 interface UsageStats {
@@ -49,29 +49,56 @@ interface UTMEChatbotProps {
   onBack?: () => void;
 }
 
-const UTMEChatbot: React.FC<UTMEChatbotProps> = ({ user, onBack }) => {
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: '1',
-      content: 'Hey there! 👋 I\'m UTME AI - your friendly study buddy! I\'m here to help you ace your JAMB, WAEC, and POST-UTME exams. Whether you need help with tough questions, want to understand concepts better, or just need some study tips, I\'ve got you covered! What subject should we dive into today?',
-      sender: 'ai',
-      timestamp: new Date(),
-      model: 'groq'
+const WELCOME_MESSAGE: Message = {
+  id: 'welcome',
+  content: 'Hey there! 👋 I\'m UTME AI - your friendly study buddy! I\'m here to help you ace your JAMB, WAEC, and POST-UTME exams. Whether you need help with tough questions, want to understand concepts better, or just need some study tips, I\'ve got you covered! What subject should we dive into today?',
+  sender: 'ai',
+  timestamp: new Date(),
+  model: 'groq'
+};
+
+/**
+ * Read a server-sent event stream from a fetch response, calling onEvent for each complete event
+ */
+async function readEventStream(response: Response, onEvent: (event: string, data: any) => void) {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const raw = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      const event = raw.match(/^event: (.*)$/m)?.[1] || 'message';
+      const data = raw.match(/^data: (.*)$/m)?.[1];
+      if (data) onEvent(event, JSON.parse(data));
     }
-  ]);
+  }
+}
+
+const UTMEChatbot: React.FC<UTMEChatbotProps> = ({ user, onBack }) => {
+  const [messages, setMessages] = useState<Message[]>([WELCOME_MESSAGE]);
   const [inputText, setInputText] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [selectedModel, setSelectedModel] = useState<'groq' | 'gemini' | 'kaiz'>('groq');
   const [isDarkMode, setIsDarkMode] = useState(false);
-  const [showModelSelector, setShowModelSelector] = useState(false);
-  const [chatHistory, setChatHistory] = useState<ChatHistory[]>([]);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [currentConversationId, setCurrentConversationId] = useState<string | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameText, setRenameText] = useState('');
+  const [showHistory, setShowHistory] = useState(false);
   const [usageStats, setUsageStats] = useState<UsageStats>({
     todayMessages: 0,
     totalMessages: 0,
-    averageResponseTime: 1200,
+    averageResponseTime: 0,
     favoriteModel: 'groq'
   });
-  const [currentConversationId, setCurrentConversationId] = useState<string>('default');
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
 
@@ -83,34 +110,85 @@ const UTMEChatbot: React.FC<UTMEChatbotProps> = ({ user, onBack }) => {
     scrollToBottom();
   }, [messages]);
 
-  // Load chat history on component mount
+  // Load conversations and usage stats on component mount, reopening the most recent conversation
   useEffect(() => {
-    loadChatHistory();
+    loadConversations(true);
     loadUsageStats();
-  }, []);
+  }, [user.id]);
 
-  const loadChatHistory = async () => {
+  const loadConversations = async (openLatest = false) => {
     try {
-      const response = await fetch(`/api/chat/history/${user.id}`);
+      const response = await fetch('/api/chat/conversations');
+      if (response.ok) {
+        const data: Conversation[] = await response.json();
+        setConversations(data);
+        if (openLatest && data.length > 0) {
+          openConversation(data[0].id);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to load conversations:', error);
+    }
+  };
+
+  const openConversation = async (conversationId: string) => {
+    setCurrentConversationId(conversationId);
+    setShowHistory(false);
+    try {
+      const response = await fetch(`/api/chat/conversations/${conversationId}/messages`);
       if (response.ok) {
         const data = await response.json();
-        if (data.success) {
-          const formattedMessages = data.messages.map((msg: any) => ({
-            id: msg.id,
-            content: msg.content,
-            sender: msg.sender,
-            timestamp: new Date(msg.createdAt),
-            model: msg.aiModel
-          }));
-          
-          // If we have existing messages, add them to the default welcome message
-          if (formattedMessages.length > 0) {
-            setMessages(prev => [...prev, ...formattedMessages]);
-          }
+        const formattedMessages: Message[] = data.map((msg: any) => ({
+          id: msg.id,
+          content: msg.content,
+          sender: msg.sender,
+          timestamp: new Date(msg.createdAt),
+          model: msg.aiModel || undefined
+        }));
+        setMessages(formattedMessages.length > 0 ? formattedMessages : [WELCOME_MESSAGE]);
+      }
+    } catch (error) {
+      console.error('Failed to load conversation:', error);
+    }
+  };
+
+  const startNewConversation = () => {
+    setCurrentConversationId(null);
+    setMessages([WELCOME_MESSAGE]);
+    setShowHistory(false);
+  };
+
+  const renameConversation = async (conversationId: string) => {
+    const title = renameText.trim();
+    setRenamingId(null);
+    if (!title) return;
+
+    try {
+      const response = await fetch(`/api/chat/conversations/${conversationId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title })
+      });
+      if (response.ok) {
+        const updated: Conversation = await response.json();
+        setConversations(prev => prev.map(c => c.id === updated.id ? updated : c));
+      }
+    } catch (error) {
+      console.error('Failed to rename conversation:', error);
+    }
+  };
+
+  const deleteConversation = async (conversationId: string) => {
+    try {
+      const response = await fetch(`/api/chat/conversations/${conversationId}`, { method: 'DELETE' });
+      if (response.ok) {
+        setConversations(prev => prev.filter(c => c.id !== conversationId));
+        if (conversationId === currentConversationId) {
+          startNewConversation();
         }
       }
     } catch (error) {
-      console.error('Failed to load chat history:', error);
+      console.error('Failed to delete conversation:', error);
     }
   };
 
@@ -129,55 +207,70 @@ const UTMEChatbot: React.FC<UTMEChatbotProps> = ({ user, onBack }) => {
   };
 
   const handleSendMessage = async () => {
-    if (!inputText.trim()) return;
+    const text = inputText.trim();
+    if (!text) return;
 
     const userMessage: Message = {
       id: Date.now().toString(),
-      content: inputText,
+      content: text,
       sender: 'user',
       timestamp: new Date()
     };
+    const aiMessageId = (Date.now() + 1).toString();
 
-    setMessages(prev => [...prev, userMessage]);
+    setMessages(prev => [...prev.filter(m => m.id !== WELCOME_MESSAGE.id), userMessage]);
     setInputText('');
     setIsLoading(true);
 
     try {
-      const response = await fetch('/api/ai/chat', {
+      let conversationId = currentConversationId;
+      if (!conversationId) {
+        const created = await fetch('/api/chat/conversations', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({})
+        });
+        if (!created.ok) throw new Error('Failed to create conversation');
+        const conversation: Conversation = await created.json();
+        conversationId = conversation.id;
+        setCurrentConversationId(conversation.id);
+        setConversations(prev => [conversation, ...prev]);
+      }
+
+      const response = await fetch(`/api/chat/conversations/${conversationId}/messages`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Accept': 'text/event-stream',
         },
-        body: JSON.stringify({
-          message: inputText,
-          model: selectedModel,
-          userId: user.id,
-          conversationId: currentConversationId,
-          context: 'UTME preparation and study assistance'
-        })
+        body: JSON.stringify({ message: text, model: selectedModel })
       });
+      if (!response.ok || !response.body) {
+        throw new Error('Failed to get AI response');
+      }
 
-      const data = await response.json();
-
-      if (data.success) {
-        const aiMessage: Message = {
-          id: (Date.now() + 1).toString(),
-          content: data.response,
-          sender: 'ai',
-          timestamp: new Date(),
-          model: selectedModel
-        };
-
-        setMessages(prev => [...prev, aiMessage]);
-        
-        // Update usage stats
-        setUsageStats(prev => ({
-          ...prev,
-          todayMessages: prev.todayMessages + 1,
-          totalMessages: prev.totalMessages + 1,
-          averageResponseTime: data.responseTime || prev.averageResponseTime
-        }));
-      } else {
+      let failed = false;
+      await readEventStream(response, (event, data) => {
+        if (event === 'chunk') {
+          setMessages(prev => prev.some(m => m.id === aiMessageId)
+            ? prev.map(m => m.id === aiMessageId ? { ...m, content: m.content + data.text } : m)
+            : [...prev, { id: aiMessageId, content: data.text, sender: 'ai', timestamp: new Date(), model: selectedModel }]);
+        } else if (event === 'done') {
+          setMessages(prev => prev.map(m => m.id === aiMessageId ? { ...m, id: data.messageId, model: data.model } : m));
+          setConversations(prev => [data.conversation, ...prev.filter(c => c.id !== data.conversation.id)]);
+          setUsageStats(prev => ({
+            ...prev,
+            todayMessages: prev.todayMessages + 1,
+            totalMessages: prev.totalMessages + 1,
+            averageResponseTime: data.responseTime
+          }));
+          celebrateBadges(data.unlockedBadges);
+        } else if (event === 'error') {
+          failed = true;
+        }
+      });
+
+      if (failed) {
         throw new Error('Failed to get AI response');
       }
     } catch (error) {
@@ -199,30 +292,7 @@ const UTMEChatbot: React.FC<UTMEChatbotProps> = ({ user, onBack }) => {
     }
   };
 
-  // Load chat history and usage stats on component mount
-  useEffect(() => {
-    const loadChatData = async () => {
-      try {
-        // Load usage stats
-        const statsResponse = await fetch(`/api/chat/usage/${user.id}`);
-        if (statsResponse.ok) {
-          const stats = await statsResponse.json();
-          setUsageStats(stats);
-        }
-
-        // Load chat history  
-        const historyResponse = await fetch(`/api/chat/history/${user.id}`);
-        if (historyResponse.ok) {
-          const history = await historyResponse.json();
-          setChatHistory(history);
-        }
-      } catch (error) {
-        console.error('Failed to load chat data:', error);
-      }
-    };
-
-    loadChatData();
-  }, [user.id]);
+  const currentConversation = conversations.find(c => c.id === currentConversationId);
 
   return (
     <div className={`min-h-screen transition-all duration-300 ${
@@ -273,6 +343,99 @@ const UTMEChatbot: React.FC<UTMEChatbotProps> = ({ user, onBack }) => {
             </div>
 
             <div className="flex items-center space-x-4">
+              {/* Conversations */}
+              <Sheet open={showHistory} onOpenChange={setShowHistory}>
+                <SheetTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className={`transition-colors ${
+                      isDarkMode ? 'hover:bg-gray-700 text-gray-300' : 'hover:bg-gray-100 text-gray-600'
+                    }`}
+                  >
+                    <History className="w-4 h-4" />
+                  </Button>
+                </SheetTrigger>
+                <SheetContent side="left" className="w-80">
+                  <SheetHeader>
+                    <SheetTitle>Conversations</SheetTitle>
+                    <SheetDescription>Pick up where you left off or start a new chat</SheetDescription>
+                  </SheetHeader>
+                  <Button onClick={startNewConversation} className="w-full mt-4" variant="outline">
+                    <Plus className="w-4 h-4 mr-2" />
+                    New Chat
+                  </Button>
+                  <div className="mt-4 space-y-2 overflow-y-auto max-h-[calc(100vh-200px)]">
+                    {conversations.length === 0 && (
+                      <p className="text-sm text-gray-500 text-center py-6">No conversations yet</p>
+                    )}
+                    {conversations.map((conversation) => (
+                      <div
+                        key={conversation.id}
+                        className={`group rounded-lg border p-3 cursor-pointer transition-colors ${
+                          conversation.id === currentConversationId
+                            ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30'
+                            : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800'
+                        }`}
+                        onClick={() => renamingId !== conversation.id && openConversation(conversation.id)}
+                      >
+                        {renamingId === conversation.id ? (
+                          <div className="flex items-center space-x-2" onClick={(e) => e.stopPropagation()}>
+                            <Input
+                              value={renameText}
+                              onChange={(e) => setRenameText(e.target.value)}
+                              onKeyDown={(e) => e.key === 'Enter' && renameConversation(conversation.id)}
+                              className="h-8 text-sm"
+                              autoFocus
+                            />
+                            <Button size="sm" variant="ghost" onClick={() => renameConversation(conversation.id)}>
+                              <Check className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        ) : (
+                          <div className="flex items-start justify-between">
+                            <div className="flex items-start space-x-2 min-w-0">
+                              <MessageSquare className="w-4 h-4 mt-0.5 text-blue-600 flex-shrink-0" />
+                              <div className="min-w-0">
+                                <p className="text-sm font-medium truncate">{conversation.title}</p>
+                                {conversation.lastMessage && (
+                                  <p className="text-xs text-gray-500 truncate">{conversation.lastMessage}</p>
+                                )}
+                              </div>
+                            </div>
+                            <div className="flex opacity-0 group-hover:opacity-100 transition-opacity">
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                className="h-7 w-7 p-0"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  setRenamingId(conversation.id);
+                                  setRenameText(conversation.title);
+                                }}
+                              >
+                                <Pencil className="w-3 h-3" />
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                className="h-7 w-7 p-0 text-red-500"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  deleteConversation(conversation.id);
+                                }}
+                              >
+                                <Trash2 className="w-3 h-3" />
+                              </Button>
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </SheetContent>
+              </Sheet>
+
               {/* Theme Toggle */}
               <Button
                 variant="ghost"
@@ -342,7 +505,7 @@ const UTMEChatbot: React.FC<UTMEChatbotProps> = ({ user, onBack }) => {
                 <Bot className="w-5 h-5 text-blue-600" />
                 <span className={`font-semibold transition-colors ${
                   isDarkMode ? 'text-gray-200' : 'text-gray-800'
-                }`}>Chat with UTME AI</span>
+                }`}>{currentConversation?.title || 'Chat with UTME AI'}</span>
               </div>
               <div className={`text-sm transition-colors ${
                 isDarkMode ? 'text-gray-400' : 'text-gray-500'
@@ -400,7 +563,8 @@ const UTMEChatbot: React.FC<UTMEChatbotProps> = ({ user, onBack }) => {
               </div>
             ))}
             
-            {isLoading && (
+            {/* Thinking indicator until the first part of the reply streams in */}
+            {isLoading && messages[messages.length - 1]?.sender === 'user' && (
               <div className="flex justify-start">
                 <div className="flex items-start space-x-2 max-w-[80%]">
                   <div className={`w-8 h-8 rounded-full flex items-center justify-center shadow-sm ${
@@ -5,6 +5,7 @@ export interface User {
   firstName?: string | null;
   lastName?: string | null;
   avatarUrl?: string | null;
+  school?: string | null;
   isPremium: boolean | null;
   isAdmin: boolean | null;
   isActivated: boolean | null;
@@ -88,12 +89,6 @@ export interface WikiSearchResult {
   wordCount?: number;
 }
 
-export interface LeaderboardEntry {
-  user: User;
-  avgScore: number;
-  totalTests: number;
-}
-
 export interface CalculatorState {
   display: string;
   expression: string;
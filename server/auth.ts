@@ -0,0 +1,202 @@
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import type { Express, Request, RequestHandler, Response } from "express";
+import type { IncomingMessage } from "http";
+import { storage } from "./storage";
+import type { User as SelectUser } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: SelectUser;
+    }
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    userId?: string;
+  }
+}
+
+const SESSION_TTL = 7 * 24 * 60 * 60 * 1000; // 1 week
+
+export function getSession() {
+  const pgStore = connectPg(session);
+  const sessionStore = new pgStore({
+    conString: process.env.DATABASE_URL,
+    createTableIfMissing: false,
+    ttl: SESSION_TTL / 1000,
+    tableName: "sessions",
+  });
+
+  if (!process.env.SESSION_SECRET) {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("SESSION_SECRET must be set in production");
+    }
+    console.warn("⚠️ SESSION_SECRET not set, using development session secret");
+  }
+
+  return session({
+    secret: process.env.SESSION_SECRET || "cbt-dev-session-secret",
+    store: sessionStore,
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: SESSION_TTL,
+    },
+  });
+}
+
+// Shared with WebSocket upgrades, which don't pass through the Express middleware stack
+let sessionMiddleware: RequestHandler | undefined;
+
+/**
+ * Attach the session middleware and resolve the signed-in user onto req.user
+ */
+export function setupAuth(app: Express) {
+  app.set("trust proxy", 1);
+  sessionMiddleware = getSession();
+  app.use(sessionMiddleware);
+
+  app.use(async (req, _res, next) => {
+    const userId = req.session?.userId;
+    if (!userId) return next();
+
+    try {
+      const user = await storage.getUser(userId);
+      if (user) {
+        req.user = user;
+      } else {
+        // The account was removed while the session was still alive
+        delete req.session.userId;
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  });
+}
+
+/**
+ * Resolve the signed-in user for a request outside Express, such as a WebSocket upgrade, from its session cookie
+ */
+export function authenticateUpgrade(req: IncomingMessage): Promise<SelectUser | undefined> {
+  return new Promise((resolve, reject) => {
+    if (!sessionMiddleware) return resolve(undefined);
+
+    const request = req as Request;
+    sessionMiddleware(request, {} as Response, (error?: unknown) => {
+      if (error) return reject(error);
+      const userId = request.session?.userId;
+      if (!userId) return resolve(undefined);
+      storage.getUser(userId).then(resolve, reject);
+    });
+  });
+}
+
+/**
+ * Bind a user to the current session, regenerating the session id to prevent fixation
+ */
+export function establishSession(req: Request, user: SelectUser): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.regenerate((regenerateError) => {
+      if (regenerateError) return reject(regenerateError);
+      req.session.userId = user.id;
+      req.session.save((saveError) => (saveError ? reject(saveError) : resolve()));
+    });
+  });
+}
+
+export function destroySession(req: Request): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.destroy((error) => (error ? reject(error) : resolve()));
+  });
+}
+
+/**
+ * Strip credentials and verification secrets before sending a user to the client
+ */
+export function toPublicUser(user: SelectUser) {
+  const { password: _, emailVerificationToken: __, ...publicUser } = user;
+  return publicUser;
+}
+
+export const isAuthenticated: RequestHandler = (req, res, next) => {
+  if (!req.user) {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+  next();
+};
+
+export const isAdmin: RequestHandler = (req, res, next) => {
+  if (!req.user) {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+  if (!req.user.isAdmin) {
+    return res.status(403).json({ message: "Admin access required" });
+  }
+  next();
+};
+
+/**
+ * Check that the signed-in user may act on data owned by ownerId.
+ * Admins may access any user's data. Sends the error response when access is refused.
+ */
+export function ensureOwner(req: Request, res: Response, ownerId: string | null | undefined): boolean {
+  if (!req.user) {
+    res.status(401).json({ message: "Authentication required" });
+    return false;
+  }
+  if (req.user.isAdmin || (ownerId && ownerId === req.user.id)) {
+    return true;
+  }
+  res.status(403).json({ message: "You do not have access to this resource" });
+  return false;
+}
+
+/**
+ * Refuse requests whose userId (URL param or body field) is not the signed-in user
+ */
+export function authorizeUser(field = "userId"): RequestHandler {
+  return (req, res, next) => {
+    const ownerId = req.params[field] ?? req.body?.[field];
+    if (!ownerId) {
+      if (!req.user) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      // Default body-supplied ids to the signed-in user
+      if (req.body && typeof req.body === "object") {
+        req.body[field] = req.user.id;
+      }
+      return next();
+    }
+    if (ensureOwner(req, res, ownerId)) next();
+  };
+}
+
+/**
+ * Load a user-owned record by the :id route param and refuse access to other users' records
+ */
+export function authorizeResource(
+  load: (id: string) => Promise<{ userId: string } | null | undefined>,
+  param = "id",
+): RequestHandler {
+  return async (req, res, next) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    try {
+      const resource = await load(req.params[param]);
+      if (!resource) {
+        return res.status(404).json({ message: "Resource not found" });
+      }
+      if (ensureOwner(req, res, resource.userId)) next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
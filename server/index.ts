@@ -1,9 +1,28 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { cbtSessionService } from "./services/cbtSessionService";
+import { competitionService } from "./services/competitionService";
+import { notificationService } from "./services/notificationService";
+import { jobRunner } from "./services/jobRunner";
+import { schedulerReminderService } from "./services/schedulerReminderService";
+import { examPlanService } from "./services/examPlanService";
+import { focusSessionService } from "./services/focusSessionService";
+import { studyInsightsService } from "./services/studyInsightsService";
+import { studyProgressService } from "./services/studyProgressService";
+
+declare module "http" {
+  interface IncomingMessage {
+    rawBody?: Buffer; // exact request bytes, needed to check webhook signatures
+  }
+}
 
 const app = express();
-app.use(express.json());
+app.use(express.json({
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  },
+}));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -67,5 +86,14 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    cbtSessionService.startExpirySweep();
+    notificationService.startWorker();
+    jobRunner.register(schedulerReminderService.job);
+    jobRunner.register(examPlanService.job);
+    jobRunner.register(focusSessionService.job);
+    jobRunner.register(studyInsightsService.job);
+    jobRunner.register(competitionService.job);
+    jobRunner.register(studyProgressService.job);
+    jobRunner.start();
   });
 })();
@@ -4,16 +4,56 @@ import multer from "multer";
 import bcrypt from "bcrypt";
 import { storage } from "./storage";
 import { aiService } from "./services/aiService";
+import { aiProviderRegistry } from "./services/aiProviderRegistry";
+import { chatService } from "./services/chatService";
 import { wikiService } from "./services/wikiService";
-import { sendEmail, generateVerificationEmail, generateWelcomeEmail } from "./services/emailService";
-import { twilioService } from "./services/twilioService";
+import { notificationService } from "./services/notificationService";
+import { jobRunner } from "./services/jobRunner";
 // import { googleAuthService } from "./services/googleAuthService"; // DISABLED: Uncomment to re-enable Google OAuth
 import { generateVerificationToken, generateTokenExpiration, isTokenExpired } from "./utils/crypto";
-import { insertUserSchema, insertQuizSessionSchema } from "@shared/schema";
+import { insertUserSchema, type QuizSession } from "@shared/schema";
 import { registerCBTRoutes } from "./routes/cbtRoutes";
-
-// Valid unlock codes
-const VALID_UNLOCK_CODES = ['08148800', '09019180', '08039890'];
+import { registerCompetitionSocket } from "./routes/competitionSocket";
+import { questionBankService } from "./services/questionBankService";
+import { questionExposureService } from "./services/questionExposureService";
+import { quizGradingService } from "./services/quizGradingService";
+import { quizSessionService } from "./services/quizSessionService";
+import { reviewScheduleService } from "./services/reviewScheduleService";
+import { cbtSessionService } from "./services/cbtSessionService";
+import { entitlementService } from "./services/entitlementService";
+import { paymentService } from "./services/paymentService";
+import { competitionService } from "./services/competitionService";
+import { leaderboardService } from "./services/leaderboardService";
+import { questionAdminService } from "./services/questionAdminService";
+import { questionReportService } from "./services/questionReportService";
+import { studyProgressService } from "./services/studyProgressService";
+import { badgeService } from "./services/badgeService";
+import { shortNoteService } from "./services/shortNoteService";
+import { studySchedulerService } from "./services/studySchedulerService";
+import { examPlanService } from "./services/examPlanService";
+import { focusSessionService } from "./services/focusSessionService";
+import { studyInsightsService } from "./services/studyInsightsService";
+import {
+  orderUtmeSubjects,
+  utmeQuestionCount,
+  validateUtmeSubjects,
+  UTME_DURATION_SECONDS,
+  UTME_TOTAL_QUESTIONS,
+  type CbtSection,
+} from "@shared/utme";
+import { DEFAULT_PAYMENT_PLAN, ENTITLEMENT_PLANS, getEntitlementPlan } from "@shared/entitlements";
+import type { BadgeStatus } from "@shared/badges";
+import {
+  setupAuth,
+  establishSession,
+  destroySession,
+  toPublicUser,
+  isAuthenticated,
+  isAdmin,
+  authorizeUser,
+  authorizeResource,
+  ensureOwner,
+} from "./auth";
 
 // Configure multer for file uploads
 const upload = multer({
@@ -30,9 +70,27 @@ const upload = multer({
   },
 });
 
+// Question bank imports
+const questionFileUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    if (/\.(csv|json)$/i.test(file.originalname)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only .csv and .json files are allowed'));
+    }
+  },
+});
+
 export async function registerRoutes(app: Express): Promise<Server> {
-  // In-memory user storage for testing (temporary until MongoDB is fixed)
-  const tempUsers = new Map();
+  // Session-backed authentication; resolves req.user for every request
+  setupAuth(app);
+
+  // Every admin endpoint requires a signed-in admin
+  app.use("/api/admin", isAuthenticated, isAdmin);
 
   // Register CBT routes for ALOC API integration
   registerCBTRoutes(app);
@@ -89,9 +147,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const newUser = await storage.createUser(userData);
       
-      // Send verification email
-      const emailContent = generateVerificationEmail(email, verificationToken);
-      const emailSent = await sendEmail(emailContent);
+      // Send verification email; a failed send stays queued for retry
+      const [verification] = await notificationService.notify(newUser.id, 'verification', { verificationToken });
+      const emailSent = verification?.status === 'sent';
       
       if (emailSent) {
         console.log(`Verification email sent to ${email}`);
@@ -152,8 +210,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       // Send welcome email
-      const welcomeEmailContent = generateWelcomeEmail(user.email, user.firstName || user.nickname);
-      await sendEmail(welcomeEmailContent);
+      await notificationService.notify(user.id, 'welcome', {});
 
       console.log(`Email verified for user: ${email}`);
       
@@ -202,8 +259,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       // Send new verification email
-      const emailContent = generateVerificationEmail(email, verificationToken);
-      const emailSent = await sendEmail(emailContent);
+      const [verification] = await notificationService.notify(user.id, 'verification', { verificationToken });
+      const emailSent = verification?.status === 'sent';
       
       if (emailSent) {
         console.log(`New verification email sent to ${email}`);
@@ -246,19 +303,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.log(`✅ Auto-verified email for development: ${user.email}`);
       }
 
-      // Remove password from response
-      const { password: _, emailVerificationToken: __, ...userResponse } = user;
-      
+      await establishSession(req, user);
+
       console.log(`User logged in: ${email}`);
-      res.json(userResponse);
+      res.json(toPublicUser(await entitlementService.refreshUser(user)));
     } catch (error) {
       console.error("Error during login:", error);
       res.status(500).json({ message: "Failed to login" });
     }
   });
 
+  // Current session user
+  app.get("/api/auth/user", isAuthenticated, async (req, res) => {
+    try {
+      res.json(toPublicUser(await entitlementService.refreshUser(req.user!)));
+    } catch (error) {
+      console.error("Error fetching current user:", error);
+      res.status(500).json({ message: "Failed to fetch user" });
+    }
+  });
+
+  app.post("/api/auth/logout", async (req, res) => {
+    try {
+      await destroySession(req);
+      res.clearCookie("connect.sid");
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error during logout:", error);
+      res.status(500).json({ message: "Failed to logout" });
+    }
+  });
+
   // Activation route
-  app.post("/api/auth/activate", async (req, res) => {
+  app.post("/api/auth/activate", authorizeUser(), async (req, res) => {
     try {
       const { userId, activationCode } = req.body;
       
@@ -266,65 +343,62 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "User ID and activation code are required" });
       }
 
-      // Check if the code matches the valid unlock codes
-      if (!VALID_UNLOCK_CODES.includes(activationCode)) {
-        return res.status(400).json({ message: "Invalid activation code. Please message admin on WhatsApp to get a valid unlock code." });
-      }
-
-      // Check if user exists in temporary storage first 
-      let user = tempUsers.get(userId) || Array.from(tempUsers.values()).find(u => u._id === userId);
-      
-      if (!user) {
-        // Try database storage
-        try {
-          user = await storage.getUser(userId);
-        } catch (error) {
-          console.log("User not found in database storage");
-        }
-      }
-      
+      const user = await storage.getUser(userId);
       if (!user) {
         return res.status(404).json({ message: "User not found. Please make sure you're logged in." });
       }
 
-      // Update user to premium status
-      if (user._id) {
-        // Update temporary user
-        const updatedUser = { 
-          ...user, 
-          isPremium: true, 
-          isActivated: true, 
-          activationCode: activationCode,
-          updatedAt: new Date()
-        };
-        tempUsers.set(user.email, updatedUser);
-        tempUsers.set(user._id, updatedUser);
-        
-        const { password: _, ...userResponse } = updatedUser;
-        res.json({ 
-          message: "Account activated successfully! You now have unlimited access to all features.", 
-          user: userResponse 
-        });
-      } else {
-        // Update database user
-        const updatedUser = await storage.updateUser(user.id, {
-          isPremium: true,
-          isActivated: true,
-          activationCode: activationCode,
-          updatedAt: new Date()
-        });
-
-        res.json({ 
-          message: "Account activated successfully! You now have unlimited access to all features.", 
-          user: updatedUser 
-        });
+      const result = await entitlementService.redeemCode(user, activationCode);
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
       }
+
+      const updatedUser = await storage.getUser(userId);
+      res.json({ 
+        message: "Account activated successfully!", 
+        user: updatedUser && toPublicUser(updatedUser),
+        access: result.access
+      });
     } catch (error) {
       console.error("Error during activation:", error);
       res.status(500).json({ message: "Failed to activate account" });
     }
   });
 
+  // Entitlements: what the signed-in user has access to
+  app.get("/api/entitlements/me", isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user!;
+      const [access, entitlements] = await Promise.all([
+        entitlementService.getAccess(user),
+        entitlementService.getEntitlements(user),
+      ]);
+      res.json({ access, entitlements, plans: Object.values(ENTITLEMENT_PLANS) });
+    } catch (error) {
+      console.error("Error fetching entitlements:", error);
+      res.status(500).json({ message: "Failed to fetch entitlements" });
+    }
+  });
+
+  app.post("/api/entitlements/redeem", isAuthenticated, async (req, res) => {
+    try {
+      const { code } = req.body;
+      if (!code || typeof code !== 'string') {
+        return res.status(400).json({ message: "Unlock code is required" });
+      }
+
+      const result = await entitlementService.redeemCode(req.user!, code);
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+
+      res.json({ success: true, entitlement: result.entitlement, access: result.access });
+    } catch (error) {
+      console.error("Error redeeming unlock code:", error);
+      res.status(500).json({ message: "Failed to redeem unlock code" });
+    }
+  });
+
 
 
   // Legacy nickname registration (keeping for backward compatibility)
@@ -364,30 +438,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
         studyHours: 0
       };
       const user = await storage.createUser(userData);
+      await establishSession(req, user);
       
-      res.json(user);
+      res.json(toPublicUser(user));
     } catch (error) {
       console.error("Error creating user:", error);
       res.status(500).json({ message: "Failed to create user" });
     }
   });
 
-  app.get("/api/users/:id", async (req, res) => {
+  app.get("/api/users/:id", authorizeUser("id"), async (req, res) => {
     try {
       const user = await storage.getUser(req.params.id);
       if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
-      res.json(user);
+      res.json(toPublicUser(user));
     } catch (error) {
       console.error("Error fetching user:", error);
       res.status(500).json({ message: "Failed to fetch user" });
     }
   });
 
+  // Students set their school or study group to appear on its leaderboard; an empty value clears it
+  app.patch("/api/users/:id/school", authorizeUser("id"), async (req, res) => {
+    try {
+      const { school } = req.body;
+      if (school !== null && typeof school !== "string") {
+        return res.status(400).json({ message: "school must be a string" });
+      }
+
+      const normalized = school?.replace(/\s+/g, " ").trim() || null;
+      if (normalized && normalized.length > 120) {
+        return res.status(400).json({ message: "school must be 120 characters or fewer" });
+      }
+
+      const user = await storage.updateUser(req.params.id, { school: normalized, updatedAt: new Date() });
+      res.json(toPublicUser(user));
+    } catch (error) {
+      console.error("Error updating school:", error);
+      res.status(500).json({ message: "Failed to update school" });
+    }
+  });
+
   // AI Chat API Route - Fixed with proper aiService integration and Kaiz API support
   // Chat history endpoints
-  app.get("/api/chat/history/:userId", async (req, res) => {
+  app.get("/api/chat/history/:userId", authorizeUser(), async (req, res) => {
     try {
       const { userId } = req.params;
       const messages = await storage.getChatHistory(userId);
@@ -405,7 +501,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/chat/stats/:userId", async (req, res) => {
+  app.get("/api/chat/stats/:userId", authorizeUser(), async (req, res) => {
     try {
       const { userId } = req.params;
       // For now, return basic stats - can be enhanced later
@@ -427,9 +523,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/ai/chat", async (req, res) => {
+  app.post("/api/ai/chat", authorizeUser(), async (req, res) => {
     try {
-      const { message, model, userId, context } = req.body;
+      const { message, model, userId, conversationId } = req.body;
 
       if (!message || !userId) {
         return res.status(400).json({ 
@@ -451,51 +547,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log(`🤖 UTME AI Chat Request: User ${userId}, Model: ${selectedModel}, Message: "${message}"`);
 
+      // Continue the given conversation; clients that don't track conversations keep to their latest one
+      let conversation = conversationId && conversationId !== 'default'
+        ? await storage.getChatConversation(conversationId)
+        : await chatService.getCurrentConversation(userId);
+      if (!conversation || conversation.userId !== userId) {
+        return res.status(404).json({ 
+          success: false, 
+          message: "Conversation not found" 
+        });
+      }
+
       let aiResponse;
+      let respondingModel = selectedModel;
+      let responseTime = 0;
       
       try {
-        // Use the properly configured aiService class for better reliability
-        if (selectedModel === 'gemini') {
-          console.log('🔥 Using Gemini via aiService...');
-          const result = await aiService.generateChatResponse(message, 'gemini');
-          aiResponse = result;
-        } else if (selectedModel === 'gpt4') {
-          console.log('🧠 Using GPT-4 via aiService...');
-          const result = await aiService.generateChatResponse(message, 'gpt4');
-          aiResponse = result;
-        } else {
-          console.log('🚀 Using Groq via aiService...');
-          const result = await aiService.generateChatResponse(message, 'groq');
-          aiResponse = result;
-        }
-
-        // If aiService fails, try Kaiz API as fallback
-        if (!aiResponse || aiResponse.includes("Unable to generate content")) {
-          console.log('🔄 Trying Kaiz API as fallback...');
-          try {
-            const kaizPrompt = `You are UTME AI, created by broken vzn for educational purposes. You help Nigerian students with JAMB, WAEC, NECO, and POST-UTME preparation.
-
-Student's question: ${message}
-
-Provide a helpful, educational response in clear Nigerian English:`;
-
-            const kaizResponse = await fetch(`https://kaiz-apis.gleeze.com/api/kaiz-ai?ask=${encodeURIComponent(kaizPrompt)}&uid=1268&apikey=a0ebe80e-bf1a-4dbf-8d36-6935b1bfa5ea`);
-            
-            if (kaizResponse.ok) {
-              const kaizData = await kaizResponse.json();
-              if (kaizData.response) {
-                aiResponse = kaizData.response
-                  .replace(/(\b\w+\b)(\s+\1\b)+/gi, '$1') // Fix repeating words
-                  .replace(/\s+/g, ' ')
-                  .trim();
-                console.log('✅ Kaiz API response received');
-              }
-            }
-          } catch (kaizError) {
-            console.warn('⚠️ Kaiz API also failed:', kaizError);
-          }
-        }
-
+        // The provider registry falls back through the configured chain if the selected model fails
+        const reply = await chatService.sendMessage(conversation, message, { model: selectedModel });
+        aiResponse = reply.generation.text;
+        respondingModel = reply.generation.provider;
+        responseTime = reply.generation.latencyMs;
+        conversation = reply.conversation;
       } catch (error) {
         console.error(`❌ ${selectedModel} API error:`, error);
         
@@ -531,20 +604,13 @@ Remember: Every challenge you overcome brings you closer to your academic succes
 *UTME AI - Your Study Companion*`;
       }
 
-      // Save both user message and AI response to database
-      try {
-        await storage.saveChatMessage(userId, message, 'user', selectedModel);
-        await storage.saveChatMessage(userId, aiResponse, 'ai', selectedModel);
-        console.log('💾 Chat messages saved to database');
-      } catch (dbError) {
-        console.error('Failed to save chat to database:', dbError);
-      }
-
       res.json({
         success: true,
         response: aiResponse,
-        model: selectedModel,
-        responseTime: 1200
+        model: respondingModel,
+        responseTime,
+        conversationId: conversation.id,
+        title: conversation.title
       });
 
     } catch (error) {
@@ -556,6 +622,120 @@ Remember: Every challenge you overcome brings you closer to your academic succes
     }
   });
 
+  // Chat conversations
+  app.get("/api/chat/conversations", isAuthenticated, async (req, res) => {
+    try {
+      const conversations = await chatService.listConversations(req.user!.id);
+      res.json(conversations);
+    } catch (error) {
+      console.error("Error fetching conversations:", error);
+      res.status(500).json({ message: "Failed to fetch conversations" });
+    }
+  });
+
+  app.post("/api/chat/conversations", isAuthenticated, async (req, res) => {
+    try {
+      const conversation = await chatService.createConversation(req.user!.id, req.body.title);
+      res.json(conversation);
+    } catch (error) {
+      console.error("Error creating conversation:", error);
+      res.status(500).json({ message: "Failed to create conversation" });
+    }
+  });
+
+  app.patch("/api/chat/conversations/:id", authorizeResource((id) => storage.getChatConversation(id)), async (req, res) => {
+    try {
+      const { title } = req.body;
+      if (typeof title !== 'string' || !title.trim()) {
+        return res.status(400).json({ message: "Title is required" });
+      }
+      const conversation = await chatService.renameConversation(req.params.id, title);
+      res.json(conversation);
+    } catch (error) {
+      console.error("Error renaming conversation:", error);
+      res.status(500).json({ message: "Failed to rename conversation" });
+    }
+  });
+
+  app.delete("/api/chat/conversations/:id", authorizeResource((id) => storage.getChatConversation(id)), async (req, res) => {
+    try {
+      await chatService.deleteConversation(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting conversation:", error);
+      res.status(500).json({ message: "Failed to delete conversation" });
+    }
+  });
+
+  app.get("/api/chat/conversations/:id/messages", authorizeResource((id) => storage.getChatConversation(id)), async (req, res) => {
+    try {
+      const messages = await chatService.getMessages(req.params.id);
+      res.json(messages);
+    } catch (error) {
+      console.error("Error fetching conversation messages:", error);
+      res.status(500).json({ message: "Failed to fetch conversation messages" });
+    }
+  });
+
+  // Send a message and stream the reply as server-sent events:
+  // "chunk" events carry text as it is generated, then a final "done" or "error" event
+  app.post("/api/chat/conversations/:id/messages", authorizeResource((id) => storage.getChatConversation(id)), async (req, res) => {
+    try {
+      const { message, model } = req.body;
+      if (typeof message !== 'string' || !message.trim()) {
+        return res.status(400).json({ message: "Message is required" });
+      }
+
+      const conversation = await storage.getChatConversation(req.params.id);
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      });
+      const send = (event: string, data: unknown) => {
+        if (!res.writableEnded) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
+
+      // Stop generating once the client disconnects
+      const disconnected = new AbortController();
+      res.on('close', () => {
+        if (!res.writableEnded) disconnected.abort();
+      });
+
+      try {
+        const reply = await chatService.sendMessage(conversation, message.trim(), {
+          model,
+          onChunk: (text) => send('chunk', { text }),
+          signal: disconnected.signal,
+        });
+        send('done', {
+          messageId: reply.aiMessage.id,
+          model: reply.generation.provider,
+          responseTime: reply.generation.latencyMs,
+          conversation: reply.conversation,
+          unlockedBadges: await badgeService.evaluate(conversation.userId, 'chat_message_sent'),
+        });
+      } catch (error) {
+        if (disconnected.signal.aborted) {
+          console.log(`🔌 Chat client disconnected, stopped reply for conversation ${conversation.id}`);
+        } else {
+          console.error("Error streaming chat reply:", error);
+          send('error', { message: "Failed to generate AI response" });
+        }
+      } finally {
+        res.end();
+      }
+    } catch (error) {
+      console.error("Error sending chat message:", error);
+      res.status(500).json({ message: "Failed to send message" });
+    }
+  });
+
   // Subject routes
   app.get("/api/subjects", async (req, res) => {
     try {
@@ -623,7 +803,7 @@ Remember: Every challenge you overcome brings you closer to your academic succes
   });
 
   // User usage tracking for premium limits
-  app.post("/api/users/:id/usage", async (req, res) => {
+  app.post("/api/users/:id/usage", authorizeUser("id"), async (req, res) => {
     try {
       const userId = req.params.id;
       const user = await storage.getUser(userId);
@@ -632,118 +812,38 @@ Remember: Every challenge you overcome brings you closer to your academic succes
         return res.status(404).json({ message: "User not found" });
       }
 
-      // Only increment for non-premium users
-      if (!user.isPremium) {
-        const newUsageCount = (user.usageCount || 0) + 1;
-        await storage.updateUser(userId, { usageCount: newUsageCount });
-      }
+      // Premium users aren't counted against the free trial
+      const access = await entitlementService.recordTrialUse(user);
 
-      res.json({ success: true });
+      res.json({ success: true, access });
     } catch (error) {
       console.error("Error updating usage:", error);
       res.status(500).json({ message: "Failed to update usage" });
     }
   });
 
-  // Quiz routes - Enhanced with JAMB API integration
+  // Quiz routes - served from the local question bank
   app.get("/api/quiz/questions/:subjectId", async (req, res) => {
     try {
       const { subjectId } = req.params;
-      const limit = parseInt(req.query.limit as string) || 20;
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 50);
       const year = req.query.year as string;
-      const type = req.query.type as 'utme' | 'wassce' | 'neco' | 'post-utme';
-      
-      // Get the subject name from storage  
-      let subjectName = subjectId;
-      try {
-        const subject = await storage.getSubject(subjectId);
-        if (subject) {
-          subjectName = subject.name.toLowerCase();
-        }
-      } catch (error) {
-        console.log("Subject not found in storage, using subjectId as subject name");
-      }
-
-      // Import enhanced ALOC API service for real questions
-      const { alocQuestionService } = await import('./services/alocQuestionService');
+      const type = questionBankService.normalizeExamType(req.query.type as string) || 'utme';
+
+      // Served from the local question bank first; ALOC is only used to top up a short bank
+      const questions = await questionBankService.getQuestions(subjectId, {
+        limit,
+        examType: type,
+        year: questionBankService.normalizeYear(year) || undefined,
+        userId: req.user?.id,
+      });
 
-      // Try to fetch real questions from ALOC API using proper endpoints
-      try {
-        console.log(`🔍 Fetching ${limit} REAL questions for ${subjectName}, year: ${year}, type: ${type}`);
-        
-        const questionsResult = await alocQuestionService.fetchQuestionsForCBT(
-          [subjectName], 
-          { questionsPerSubject: limit, examType: type || 'utme', year }
-        );
-        
-        const alocQuestions = questionsResult[subjectName] || [];
-
-        if (alocQuestions.length > 0) {
-          // If we have some but not enough questions, supplement with realistic fallbacks
-          if (alocQuestions.length < limit) {
-            console.log(`📝 Got ${alocQuestions.length} real questions, supplementing with ${limit - alocQuestions.length} realistic questions`);
-            const { alocApiService } = await import('./services/alocApiService');
-            const supplementaryQuestions = alocApiService.generateRealisticQuestions(
-              subjectName, 
-              limit - alocQuestions.length, 
-              type || 'utme'
-            );
-            
-            // Add supplementary questions
-            alocQuestions.push(...supplementaryQuestions);
-          }
-          
-          // Transform ALOC questions to frontend format
-          const formattedQuestions = alocQuestionService.transformForFrontend(alocQuestions.slice(0, limit));
-          
-          console.log(`✅ Successfully prepared ${formattedQuestions.length} questions for ${subjectName}`);
-          return res.json(formattedQuestions);
-        } else {
-          console.log(`⚠️ No questions returned from ALOC API for ${subjectName}`);
-        }
-      } catch (apiError) {
-        console.error("❌ ALOC API error:", apiError);
+      if (req.user) {
+        await questionExposureService.recordServed(req.user.id, 'quiz', questions.map(q => q.id));
       }
 
-      // Try local storage as secondary option
-      try {
-        const localQuestions = await storage.getQuestionsBySubject(subjectId, limit);
-        if (localQuestions.length > 0) {
-          console.log(`📚 Using ${localQuestions.length} local questions for ${subjectName}`);
-          return res.json(localQuestions);
-        }
-      } catch (storageError) {
-        console.error("Storage error:", storageError);
-      }
-
-      // Last resort: Generate realistic fallback questions using our enhanced service
-      console.log(`⚠️ No questions available for ${subjectId}, generating ${limit} realistic fallback questions`);
-      
-      const { alocApiService } = await import('./services/alocApiService');
-      const realisticQuestions = alocApiService.generateRealisticQuestions(subjectName, limit, type || 'utme');
-      
-      // Transform to frontend format
-      const transformedQuestions = realisticQuestions.map(q => ({
-        id: q.id,
-        question: q.question,
-        options: [
-          { id: 'A', text: q.option.a },
-          { id: 'B', text: q.option.b },
-          { id: 'C', text: q.option.c },
-          { id: 'D', text: q.option.d }
-        ],
-        correctAnswer: q.answer.toUpperCase(),
-        subject: q.subject,
-        explanation: q.solution,
-        examType: q.examtype,
-        examYear: q.examyear,
-        imageUrl: q.image || null,
-        difficulty: 'medium',
-        timeLimit: 120
-      }));
-      
-      res.json(transformedQuestions);
-      
+      console.log(`✅ Prepared ${questions.length} questions for ${subjectId} (${type}, year: ${year || 'any'})`);
+      res.json(questions);
     } catch (error) {
       console.error("Error fetching questions:", error);
       res.status(500).json({ 
@@ -790,11 +890,11 @@ Remember: Every challenge you overcome brings you closer to your academic succes
   });
 
   // Enhanced quiz session creation with better data storage
-  app.post("/api/quiz/create-session", async (req, res) => {
+  app.post("/api/quiz/create-session", authorizeUser(), async (req, res) => {
     try {
-      const { userId, subjectId, subjectName, questions, questionsData, selectedYear, examType, mode } = req.body;
+      const { userId, subjectId, questions, questionsData, selectedYear, examType, mode } = req.body;
       
-      // Accept either questions or questionsData
+      // Accept either questions or questionsData; only their ids are used, the content comes from the bank
       const questionData = questionsData || questions;
       
       if (!userId || !subjectId || !questionData || !Array.isArray(questionData)) {
@@ -802,24 +902,16 @@ Remember: Every challenge you overcome brings you closer to your academic succes
         return res.status(400).json({ message: "Missing required fields" });
       }
 
-      // Let the database auto-generate the ID and startedAt timestamp
-      const sessionData = {
-        userId,
+      const session = await quizSessionService.create(userId, {
         subjectId,
-        subjectName: subjectName || 'Unknown Subject', 
-        questionsData: questionData,
-        userAnswers: {},
-        score: 0,
-        correctAnswers: 0,
-        totalQuestions: questionData.length,
-        timeSpent: 0,
-        isCompleted: false,
-        selectedYear: selectedYear || null,
-        examType: examType || 'utme',
-        mode: mode || 'practice'
-      };
-
-      const session = await storage.createQuizSession(sessionData);
+        questionIds: questionData.map((q: any) => q?.id).filter((id: unknown): id is string => typeof id === 'string'),
+        selectedYear,
+        examType,
+        mode,
+      });
+      if (!session) {
+        return res.status(400).json({ message: "None of these questions were served for a new quiz. Fetch a fresh set of questions." });
+      }
       res.json(session);
       
     } catch (error) {
@@ -829,101 +921,37 @@ Remember: Every challenge you overcome brings you closer to your academic succes
   });
 
   // Study Progress API Routes
-  app.get("/api/progress/study/:userId", async (req, res) => {
+  app.get("/api/progress/study/:userId", authorizeUser(), async (req, res) => {
     try {
-      const { userId } = req.params;
-      // Return empty progress data for now since we don't have this implemented
-      const progressData = { totalStudyTime: 0, sessionsCompleted: 0, averageScore: 0 };
-      res.json(progressData);
+      res.json(await studyProgressService.getProgress(req.params.userId));
     } catch (error) {
       console.error("Error fetching study progress:", error);
       res.status(500).json({ message: "Failed to fetch study progress" });
     }
   });
 
-  app.get("/api/progress/daily-goals/:userId", async (req, res) => {
+  app.get("/api/progress/daily-goals/:userId", authorizeUser(), async (req, res) => {
     try {
-      const { userId } = req.params;
-      // Return default goals for now since we're implementing this feature
-      const defaultGoals = {
-        questionsGoal: 10,
-        questionsCompleted: 0,
-        timeGoal: 30,
-        timeSpent: 0,
-        subjectsGoal: 2,
-        subjectsStudied: 0,
-        isCompleted: false
-      };
-      res.json(defaultGoals);
+      res.json(await studyProgressService.getDailyGoal(req.params.userId));
     } catch (error) {
       console.error("Error fetching daily goals:", error);
       res.status(500).json({ message: "Failed to fetch daily goals" });
     }
   });
 
-  app.get("/api/progress/recent-sessions/:userId", async (req, res) => {
+  app.get("/api/progress/recent-sessions/:userId", authorizeUser(), async (req, res) => {
     try {
-      const { userId } = req.params;
-      const limit = parseInt(req.query.limit as string) || 10;
-      
-      // Return empty sessions for now since we don't have this method
-      const sessions: any[] = [];
-      
-      // Transform quiz sessions to match study session format
-      const studySessions = sessions.map((session: any) => ({
-        id: session.id,
-        subjectName: session.subjectName,
-        sessionType: 'quiz',
-        questionsAttempted: session.totalQuestions,
-        correctAnswers: session.correctAnswers,
-        score: session.score,
-        timeSpent: session.timeSpent,
-        completedAt: session.completedAt || session.startedAt,
-        examType: session.examType
-      }));
-      
-      res.json(studySessions);
+      const limit = Math.min(parseInt(req.query.limit as string) || 10, 50);
+      res.json(await studyProgressService.getRecentSessions(req.params.userId, limit));
     } catch (error) {
       console.error("Error fetching recent sessions:", error);
       res.status(500).json({ message: "Failed to fetch recent sessions" });
     }
   });
 
-  app.get("/api/progress/achievements/:userId", async (req, res) => {
+  app.get("/api/progress/achievements/:userId", authorizeUser(), async (req, res) => {
     try {
-      const { userId } = req.params;
-      
-      // Default achievements for now
-      const defaultAchievements = [
-        {
-          id: 'first-quiz',
-          title: 'First Quiz',
-          description: 'Complete your first quiz session',
-          icon: '🎯',
-          type: 'sessions',
-          criteria: { sessions: 1 },
-          isUnlocked: false
-        },
-        {
-          id: 'perfect-score',
-          title: 'Perfect Score',
-          description: 'Score 100% on any quiz',
-          icon: '⭐',
-          type: 'score',
-          criteria: { score: 100 },
-          isUnlocked: false
-        },
-        {
-          id: 'study-streak',
-          title: 'Study Streak',
-          description: 'Study for 7 consecutive days',
-          icon: '🔥',
-          type: 'streak',
-          criteria: { streak: 7 },
-          isUnlocked: false
-        }
-      ];
-      res.json(defaultAchievements);
+      res.json(await badgeService.getBadges(req.params.userId));
     } catch (error) {
       console.error("Error fetching achievements:", error);
       res.status(500).json({ message: "Failed to fetch achievements" });
@@ -931,35 +959,33 @@ Remember: Every challenge you overcome brings you closer to your academic succes
   });
 
   // AI Quiz Generation endpoint
-  app.post("/api/ai/generate-quiz", async (req, res) => {
-    try {
-      const { topic, content, subjectId, difficulty, questionCount = 10 } = req.body;
-      
-      if (!topic || !content) {
-        return res.status(400).json({ message: "Topic and content are required" });
-      }
-
-      // Generate questions based on study content
-      const questions = [];
-      for (let i = 1; i <= questionCount; i++) {
-        const questionId = `ai-${Date.now()}-${i}`;
-        questions.push({
-          id: questionId,
-          question: `Based on the study content about ${topic}, which of the following statements is most accurate? (Question ${i})`,
-          options: [
-            { id: 'a', text: `Key concept from ${topic} - Option A` },
-            { id: 'b', text: `Key concept from ${topic} - Option B` },
-            { id: 'c', text: `Key concept from ${topic} - Option C` },
-            { id: 'd', text: `Key concept from ${topic} - Option D` }
-          ],
-          correctAnswer: ['a', 'b', 'c', 'd'][Math.floor(Math.random() * 4)],
-          explanation: `This relates to the fundamental principles of ${topic} as covered in the study material.`,
-          difficulty: difficulty || 'medium',
-          topic: topic,
-          aiGenerated: true
-        });
+  app.post("/api/ai/generate-quiz", isAuthenticated, async (req, res) => {
+    try {
+      const { topic, content, subjectId, difficulty, questionCount = 10, aiModel = 'gemini' } = req.body;
+      
+      if (!topic || !content || !subjectId) {
+        return res.status(400).json({ message: "Topic, content and subject are required" });
+      }
+
+      const subject = await questionBankService.resolveSubject(subjectId);
+      if (!subject) {
+        return res.status(404).json({ message: "Subject not found" });
       }
 
+      const count = Math.min(Math.max(parseInt(questionCount) || 10, 1), 20);
+      const generated = await aiService.generateQuizQuestions({
+        subject: subject.name,
+        topic,
+        content: String(content),
+        difficulty,
+        count,
+      }, aiModel, req.user!.id);
+
+      // Keep accepted questions in the bank so they can be reviewed and served again later
+      const saved = await questionBankService.saveGeneratedQuestions(subject, generated, { topic, difficulty });
+      const questions = saved.map(q => questionBankService.toClientQuestion(q, subject.name));
+      await questionExposureService.recordServed(req.user!.id, 'quiz', questions.map(q => q.id));
+
       res.json({ questions });
     } catch (error) {
       console.error("Error generating AI quiz:", error);
@@ -968,9 +994,10 @@ Remember: Every challenge you overcome brings you closer to your academic succes
   });
 
   // Enhanced quiz submission endpoint
-  app.post("/api/quiz/submit", async (req, res) => {
+  app.post("/api/quiz/submit", isAuthenticated, async (req, res) => {
     try {
-      const { sessionId, userAnswers, timeSpent, questionsData } = req.body;
+      // Any questionsData in the body is ignored: answers are graded against the question bank
+      const { sessionId, userAnswers, timeSpent } = req.body;
       
       if (!sessionId || !userAnswers) {
         return res.status(400).json({ message: "Missing required fields" });
@@ -981,43 +1008,52 @@ Remember: Every challenge you overcome brings you closer to your academic succes
       if (!session) {
         return res.status(404).json({ message: "Quiz session not found" });
       }
+      if (!ensureOwner(req, res, session.userId)) return;
+      if (session.isCompleted) {
+        return res.status(409).json({ message: "This quiz has already been submitted" });
+      }
+      if ((await quizGradingService.unservedAnswers(session, userAnswers)).length > 0) {
+        return res.status(400).json({ message: "Answers include questions that were not served in this quiz" });
+      }
 
-      // Calculate score based on questions data
-      let correctAnswers = 0;
-      const questions = questionsData || session.questionsData || [];
-      const totalQuestions = questions.length;
-      
-      // Check each answer
-      questions.forEach((question: any) => {
-        const userAnswer = userAnswers[question.id];
-        if (userAnswer === question.correctAnswer) {
-          correctAnswers++;
-        }
-      });
-
-      const score = totalQuestions > 0 ? Math.round((correctAnswers / totalQuestions) * 100) : 0;
+      const { score, correctAnswers, totalQuestions, questions } = await quizGradingService.grade(session, userAnswers);
 
-      // Update session with results
-      const updatedSession = await storage.updateQuizSession(sessionId, {
+      // Only the request that completes the quiz counts it; a concurrent submit gets a 409
+      const updatedSession = await storage.completeQuizSession(sessionId, {
         userAnswers,
         questionsData: questions, // Store questions data for review
         timeSpent: timeSpent || 0,
-        isCompleted: true,
         completedAt: new Date(),
         score,
         correctAnswers,
+        totalQuestions,
       });
+      if (!updatedSession) {
+        return res.status(409).json({ message: "This quiz has already been submitted" });
+      }
+
+      try {
+        const graded = await questionExposureService.recordAnswers(session.userId, userAnswers, questions.map(q => q.id), session.id);
+        await reviewScheduleService.recordResults(session.userId, graded);
+      } catch (exposureError) {
+        console.error("Error recording question exposures:", exposureError);
+      }
+
+      let unlockedBadges: BadgeStatus[] = [];
+      try {
+        await studyProgressService.recordQuiz(updatedSession);
+      } catch (progressError) {
+        console.error("Error recording study progress:", progressError);
+      }
+      try {
+        unlockedBadges = await badgeService.evaluate(session.userId, 'quiz_submitted');
+      } catch (badgeError) {
+        console.error("Error evaluating quiz badges:", badgeError);
+      }
 
       // Update user stats
       try {
-        const user = await storage.getUser(session.userId);
-        if (user) {
-          await storage.updateUser(session.userId, {
-            totalScore: (user.totalScore || 0) + correctAnswers,
-            testsCompleted: (user.testsCompleted || 0) + 1,
-            updatedAt: new Date()
-          });
-        }
+        await storage.recordQuizCompletion(session.userId, correctAnswers);
       } catch (userError) {
         console.error("Error updating user stats:", userError);
       }
@@ -1030,7 +1066,8 @@ Remember: Every challenge you overcome brings you closer to your academic succes
         timeSpent: timeSpent || 0,
         isCompleted: true,
         questions,
-        userAnswers
+        userAnswers,
+        unlockedBadges
       });
       
     } catch (error) {
@@ -1040,7 +1077,7 @@ Remember: Every challenge you overcome brings you closer to your academic succes
   });
 
   // AI explanation route - Fixed parameter handling
-  app.post("/api/quiz/explanation", async (req, res) => {
+  app.post("/api/quiz/explanation", authorizeUser(), async (req, res) => {
     try {
       const { questionId, question, correctAnswer, userAnswer, options, subject } = req.body;
       
@@ -1065,51 +1102,29 @@ Remember: Every challenge you overcome brings you closer to your academic succes
       // Generate comprehensive explanation using enhanced AI service
       console.log("🤖 Generating comprehensive AI explanation for question:", question.substring(0, 50) + "...");
       let explanation;
-      let provider = 'gemini';
+      let provider = 'fallback';
       
       try {
-        // Use Groq as primary AI for comprehensive explanations
-        explanation = await aiService.generateExplanation(
+        // Groq first for comprehensive explanations, with the registry falling back through the other providers
+        const result = await aiService.generateExplanation(
           question,
           correctAnswer,
           userAnswer || 'No answer provided',
-          'groq'
+          'groq',
+          userId
         );
-        provider = 'groq';
-        console.log("✅ Groq comprehensive explanation generated successfully");
-      } catch (groqError) {
-        console.log("⚠️ Groq failed, trying Gemini...", groqError instanceof Error ? groqError.message : String(groqError));
-        try {
-          // Fallback to Gemini
-          explanation = await aiService.generateExplanation(
-            question,
-            correctAnswer,
-            userAnswer || 'No answer provided',
-            'gemini'
-          );
-          provider = 'gemini';
-          console.log("✅ Gemini comprehensive explanation generated successfully");
-        } catch (geminiError) {
-          console.log("⚠️ Gemini failed, trying OpenAI GPT-4...", geminiError instanceof Error ? geminiError.message : String(geminiError));
-          try {
-            // Final fallback to OpenAI GPT-4
-            explanation = await aiService.generateExplanation(
-              question,
-              correctAnswer,
-              userAnswer || 'No answer provided',
-              'gpt4'
-            );
-            provider = 'openai';
-            console.log("✅ OpenAI GPT-4 comprehensive explanation generated successfully");
-          } catch (gptError) {
-            console.log("❌ All AI services failed, providing enhanced fallback");
-          
-          // Enhanced fallback with detailed structure
-          const correctOption = Array.isArray(options) 
-            ? options.find((opt: any) => opt.id === correctAnswer)?.text || ''
-            : '';
-          
-          explanation = `**Hello! I'm UTME AI, created by broken vzn to help Nigerian students excel.**
+        explanation = result.text;
+        provider = result.provider;
+        console.log(`✅ ${provider} comprehensive explanation generated successfully`);
+      } catch (aiError) {
+        console.log("❌ All AI services failed, providing enhanced fallback");
+        
+        // Enhanced fallback with detailed structure
+        const correctOption = Array.isArray(options) 
+          ? options.find((opt: any) => opt.id === correctAnswer)?.text || ''
+          : '';
+        
+        explanation = `**Hello! I'm UTME AI, created by broken vzn to help Nigerian students excel.**
 
 **🎯 CORRECT ANSWER: ${correctAnswer}${correctOption ? ` - ${correctOption}` : ''}**
 
@@ -1137,8 +1152,6 @@ This question type is designed to assess your deep understanding of ${subject} c
 Remember: Every question you master brings you closer to your academic goals! Keep practicing with UTME AI for continued improvement.
 
 *Note: For enhanced AI explanations with detailed analysis, ensure proper API connectivity.*`;
-          }
-        }
       }
 
       // Store the explanation if user and question info provided
@@ -1179,10 +1192,23 @@ Remember: Every question you master brings you closer to your academic goals! Ke
     }
   });
 
-  app.post("/api/quiz/start", async (req, res) => {
+  app.post("/api/quiz/start", authorizeUser(), async (req, res) => {
     try {
-      const sessionData = insertQuizSessionSchema.parse(req.body);
-      const session = await storage.createQuizSession(sessionData);
+      const { userId, subjectId, questionIds, selectedYear, examType, mode } = req.body;
+      if (!userId || !subjectId || !Array.isArray(questionIds)) {
+        return res.status(400).json({ message: "Missing required fields" });
+      }
+
+      const session = await quizSessionService.create(userId, {
+        subjectId,
+        questionIds: questionIds.filter((id: unknown): id is string => typeof id === 'string'),
+        selectedYear,
+        examType,
+        mode,
+      });
+      if (!session) {
+        return res.status(400).json({ message: "None of these questions were served for a new quiz. Fetch a fresh set of questions." });
+      }
       res.json(session);
     } catch (error) {
       console.error("Error starting quiz:", error);
@@ -1190,41 +1216,67 @@ Remember: Every question you master brings you closer to your academic goals! Ke
     }
   });
 
-  app.put("/api/quiz/session/:sessionId", async (req, res) => {
+  app.put("/api/quiz/session/:sessionId", authorizeResource((id) => storage.getQuizSession(id), "sessionId"), async (req, res) => {
     try {
       const { sessionId } = req.params;
-      const updates = req.body;
-      
-      // Enhanced completion tracking with full question storage
-      if (updates.isCompleted && updates.questions) {
-        // Store completed questions with full details for later review
-        const enhancedUpdates = {
-          ...updates,
-          questions: updates.questions.map((q: any) => ({
-            id: q.id,
-            question: q.question,
-            options: q.options,
-            correctAnswer: q.correctAnswer,
-            userAnswer: q.userAnswer,
-            isCorrect: q.userAnswer === q.correctAnswer,
-            explanation: q.explanation || null,
-            timeSpent: q.timeSpent || 0
-          }))
-        };
-        
-        const session = await storage.updateQuizSession(sessionId, enhancedUpdates);
-        res.json(session);
-      } else {
-        const session = await storage.updateQuizSession(sessionId, updates);
-        res.json(session);
+      // Only answers and time are taken from the client; results and the question set are kept on the server
+      const { questions, isCompleted, timeSpent } = req.body;
+      const updates: Partial<QuizSession> = {
+        ...(req.body.answers && typeof req.body.answers === 'object' ? { answers: req.body.answers } : {}),
+        ...(typeof timeSpent === 'number' ? { timeSpent } : {}),
+      };
+
+      const current = (await storage.getQuizSession(sessionId))!;
+      if (current.isCompleted) {
+        return res.status(409).json({ message: "This quiz has already been submitted" });
+      }
+      if (!isCompleted) {
+        res.json(await storage.updateQuizSession(sessionId, updates));
+        return;
+      }
+
+      const answers: Record<string, string> = Array.isArray(questions)
+        ? Object.fromEntries(questions.filter((q: any) => q.userAnswer).map((q: any) => [q.id, q.userAnswer]))
+        : updates.answers || {};
+      if ((await quizGradingService.unservedAnswers(current, answers)).length > 0) {
+        return res.status(400).json({ message: "Answers include questions that were not served in this quiz" });
+      }
+      const grade = await quizGradingService.grade(current, answers);
+      const timeByQuestion = new Map<string, number>(
+        Array.isArray(questions) ? questions.map((q: any) => [q.id, Number(q.timeSpent) || 0]) : []
+      );
+
+      const session = await storage.completeQuizSession(sessionId, {
+        ...updates,
+        // Store the served questions with the answers for later review, keyed against the bank
+        questions: grade.questions.map(q => {
+          const correctAnswer = grade.answerKeys[q.id];
+          const userAnswer = answers[q.id];
+          return {
+            ...q,
+            userAnswer,
+            isCorrect: !!correctAnswer && !!userAnswer && userAnswer.toUpperCase() === correctAnswer.toUpperCase(),
+            timeSpent: timeByQuestion.get(q.id) || 0,
+          };
+        }),
+        completedAt: new Date(),
+        score: grade.score,
+        correctAnswers: grade.correctAnswers,
+        totalQuestions: grade.totalQuestions,
+      });
+      if (!session) {
+        return res.status(409).json({ message: "This quiz has already been submitted" });
       }
+      const graded = await questionExposureService.recordAnswers(session.userId, answers, grade.questions.map(q => q.id), session.id);
+      await reviewScheduleService.recordResults(session.userId, graded);
+      res.json(session);
     } catch (error) {
       console.error("Error updating quiz session:", error);
       res.status(500).json({ message: "Failed to update quiz session" });
     }
   });
 
-  app.get("/api/quiz/sessions/:userId", async (req, res) => {
+  app.get("/api/quiz/sessions/:userId", authorizeUser(), async (req, res) => {
     try {
       const sessions = await storage.getUserQuizSessions(req.params.userId);
       res.json(sessions);
@@ -1235,7 +1287,7 @@ Remember: Every question you master brings you closer to your academic goals! Ke
   });
 
   // Enhanced explained questions routes
-  app.get("/api/explained-questions/:userId", async (req, res) => {
+  app.get("/api/explained-questions/:userId", authorizeUser(), async (req, res) => {
     try {
       const { userId } = req.params;
       const { subjectId, limit } = req.query;
@@ -1253,7 +1305,7 @@ Remember: Every question you master brings you closer to your academic goals! Ke
     }
   });
 
-  app.get("/api/explained-questions/:userId/:subjectId", async (req, res) => {
+  app.get("/api/explained-questions/:userId/:subjectId", authorizeUser(), async (req, res) => {
     try {
       const { userId, subjectId } = req.params;
       const { limit } = req.query;
@@ -1272,7 +1324,7 @@ Remember: Every question you master brings you closer to your academic goals! Ke
   });
 
   // Generate quiz from explained questions
-  app.get("/api/quiz/from-explained/:userId/:subjectId", async (req, res) => {
+  app.get("/api/quiz/from-explained/:userId/:subjectId", authorizeUser(), async (req, res) => {
     try {
       const { userId, subjectId } = req.params;
       const { limit, difficulty } = req.query;
@@ -1304,8 +1356,23 @@ Remember: Every question you master brings you closer to your academic goals! Ke
     }
   });
 
+  // Spaced-repetition review queue: missed questions due today, across subjects unless one is given
+  app.get("/api/reviews/due", isAuthenticated, async (req, res) => {
+    try {
+      const { subjectId, limit } = req.query;
+      const queue = await reviewScheduleService.getDailyQueue(req.user!.id, {
+        subjectId: subjectId as string | undefined,
+        limit: limit ? parseInt(limit as string) || undefined : undefined,
+      });
+      res.json(queue);
+    } catch (error) {
+      console.error("Error fetching due reviews:", error);
+      res.status(500).json({ message: "Failed to fetch due reviews" });
+    }
+  });
+
   // Delete explained question
-  app.delete("/api/explained-questions/:id", async (req, res) => {
+  app.delete("/api/explained-questions/:id", authorizeResource((id) => storage.getExplainedQuestionById(id)), async (req, res) => {
     try {
       const success = await storage.deleteExplainedQuestion(req.params.id);
       res.json({ success });
@@ -1316,7 +1383,7 @@ Remember: Every question you master brings you closer to your academic goals! Ke
   });
 
   // Legacy AI explanation route (forwards to enhanced explanation handler)
-  app.post("/api/ai/explain", async (req, res) => {
+  app.post("/api/ai/explain", isAuthenticated, async (req, res) => {
     try {
       const { questionId, question, correctAnswer, userAnswer, aiModel } = req.body;
       
@@ -1329,6 +1396,8 @@ Remember: Every question you master brings you closer to your academic goals! Ke
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          // Carry the caller's session so the explanation is stored against them
+          ...(req.headers.cookie ? { 'Cookie': req.headers.cookie } : {}),
         },
         body: JSON.stringify({
           questionId,
@@ -1379,7 +1448,8 @@ Remember: Every question you master brings you closer to your academic goals! Ke
         const generatedContent = await aiService.generateStudyPlan(
           subject.name,
           topic,
-          aiModel as string
+          aiModel as string,
+          req.user?.id
         );
 
         content = await storage.saveStudyPlanContent({
@@ -1409,7 +1479,8 @@ Remember: Every question you master brings you closer to your academic goals! Ke
       const generatedContent = await aiService.generateStudyPlan(
         subject.name,
         topic,
-        aiModel
+        aiModel,
+        req.user?.id
       );
 
       const content = await storage.saveStudyPlanContent({
@@ -1427,7 +1498,7 @@ Remember: Every question you master brings you closer to your academic goals! Ke
   });
 
   // Study progress routes
-  app.get("/api/study-progress/:userId/:subjectId", async (req, res) => {
+  app.get("/api/study-progress/:userId/:subjectId", authorizeUser(), async (req, res) => {
     try {
       const { userId, subjectId } = req.params;
       const progress = await storage.getStudyProgress(userId, subjectId);
@@ -1438,7 +1509,7 @@ Remember: Every question you master brings you closer to your academic goals! Ke
     }
   });
 
-  app.post("/api/study-progress/mark-studied", async (req, res) => {
+  app.post("/api/study-progress/mark-studied", authorizeUser(), async (req, res) => {
     try {
       const { userId, subjectId, topic } = req.body;
       const progress = await storage.markTopicAsStudied(userId, subjectId, topic);
@@ -1450,18 +1521,19 @@ Remember: Every question you master brings you closer to your academic goals! Ke
   });
 
   // AI explanation routes
-  app.post("/api/ai/explain", async (req, res) => {
+  app.post("/api/ai/explain", isAuthenticated, async (req, res) => {
     try {
       const { question, correctAnswer, userAnswer, aiModel = 'gemini' } = req.body;
       
-      const explanation = await aiService.generateExplanation(
+      const result = await aiService.generateExplanation(
         question,
         correctAnswer,
         userAnswer,
-        aiModel
+        aiModel,
+        req.user!.id
       );
       
-      res.json({ explanation });
+      res.json({ explanation: result.text, provider: result.provider });
     } catch (error) {
       console.error("Error generating explanation:", error);
       res.status(500).json({ message: "Failed to generate explanation" });
@@ -1702,125 +1774,111 @@ Remember: Every question you master brings you closer to your academic goals! Ke
     }
   });
 
-  // Leaderboard routes
-  app.get("/api/leaderboard", async (req, res) => {
+  // Students flag faulty questions from quiz review, CBT results or explanations
+  app.post("/api/question-reports", isAuthenticated, async (req, res) => {
     try {
-      const limit = parseInt(req.query.limit as string) || 50;
-      const leaderboard = await storage.getLeaderboard(limit);
-      res.json(leaderboard);
+      const result = await questionReportService.submit(req.user!, req.body);
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.json(result.data);
     } catch (error) {
-      console.error("Error fetching leaderboard:", error);
-      res.status(500).json({ message: "Failed to fetch leaderboard" });
+      console.error("Error reporting question:", error);
+      res.status(500).json({ message: "Failed to report question" });
     }
   });
 
-  // Admin routes - TEMPORARY with mock data for testing
-  app.get("/api/admin/stats", async (req, res) => {
+  app.get("/api/question-reports/mine", isAuthenticated, async (req, res) => {
     try {
-      // Temporary mock stats for admin testing
-      const mockStats = {
-        totalUsers: 25,
-        totalQuestions: 150,
-        totalSessions: 75,
-        activeUsers: 18
-      };
-      res.json(mockStats);
+      res.json(await questionReportService.getUserReports(req.user!.id));
     } catch (error) {
-      console.error("Error fetching admin stats:", error);
-      res.status(500).json({ message: "Failed to fetch admin stats" });
+      console.error("Error fetching question reports:", error);
+      res.status(500).json({ message: "Failed to fetch question reports" });
     }
   });
 
-  app.get("/api/admin/users", async (req, res) => {
+  // Notification inbox and channel preferences
+  app.get("/api/notifications", isAuthenticated, async (req, res) => {
     try {
-      // Temporary mock users for admin testing
-      const mockUsers = [
-        {
-          _id: "admin123",
-          email: "admin@cbtplatform.com",
-          nickname: "admin",
-          firstName: "Admin",
-          lastName: "User",
-          isAdmin: true,
-          isPremium: true,
-          isActivated: true,
-          totalScore: 0,
-          testsCompleted: 0,
-          studyHours: 0,
-          createdAt: new Date()
-        },
-        {
-          _id: "user1",
-          email: "student@example.com",
-          nickname: "student1",
-          firstName: "John",
-          lastName: "Doe",
-          isAdmin: false,
-          isPremium: true,
-          isActivated: true,
-          totalScore: 85,
-          testsCompleted: 5,
-          studyHours: 12,
-          createdAt: new Date()
-        }
-      ];
-      res.json(mockUsers);
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+      res.json(await notificationService.getInbox(req.user!.id, limit));
     } catch (error) {
-      console.error("Error fetching admin users:", error);
-      res.status(500).json({ message: "Failed to fetch users" });
+      console.error("Error fetching notifications:", error);
+      res.status(500).json({ message: "Failed to fetch notifications" });
     }
   });
 
-  app.get("/api/admin/questions", async (req, res) => {
+  // Body: { ids?: string[] }; without ids the whole inbox is marked read
+  app.post("/api/notifications/read", isAuthenticated, async (req, res) => {
     try {
-      // Temporary mock questions for admin testing
-      const mockQuestions = [
-        {
-          _id: "q1",
-          question: "What is the capital of Nigeria?",
-          options: ["Lagos", "Abuja", "Kano", "Port Harcourt"],
-          correctAnswer: "Abuja",
-          subject: "Geography",
-          difficulty: "easy",
-          createdAt: new Date()
-        },
-        {
-          _id: "q2", 
-          question: "Which organ is responsible for pumping blood?",
-          options: ["Brain", "Heart", "Liver", "Kidney"],
-          correctAnswer: "Heart",
-          subject: "Biology",
-          difficulty: "easy",
-          createdAt: new Date()
-        }
-      ];
-      res.json(mockQuestions);
+      const ids = Array.isArray(req.body?.ids) ? req.body.ids.filter((id: unknown) => typeof id === 'string') : undefined;
+      const updated = await notificationService.markRead(req.user!.id, ids);
+      res.json({ updated });
     } catch (error) {
-      console.error("Error fetching admin questions:", error);
-      res.status(500).json({ message: "Failed to fetch questions" });
+      console.error("Error marking notifications read:", error);
+      res.status(500).json({ message: "Failed to mark notifications read" });
     }
   });
 
-  // Create admin account endpoint - TEMPORARY simplified version
-  app.post("/api/admin/create-admin", async (req, res) => {
+  app.get("/api/notifications/preferences", isAuthenticated, async (req, res) => {
     try {
-      // For demonstration purposes, we'll just return success
-      // In a real app, this would create the admin user in the database
-      const adminResponse = {
-        _id: "admin123",
-        email: "admin@cbtplatform.com", 
-        nickname: "admin",
-        firstName: "Admin",
-        lastName: "User",
-        isAdmin: true,
-        isPremium: true,
-        isActivated: true
-      };
-      
-      res.json({ 
-        message: "Admin account ready - use email: admin@cbtplatform.com, password: admin123", 
-        admin: adminResponse 
+      res.json(notificationService.getPreferences(req.user!));
+    } catch (error) {
+      console.error("Error fetching notification preferences:", error);
+      res.status(500).json({ message: "Failed to fetch notification preferences" });
+    }
+  });
+
+  // Body: { phoneNumber?: string | null, preferences?: { [template]: channel[] } }
+  app.put("/api/notifications/preferences", isAuthenticated, async (req, res) => {
+    try {
+      const result = await notificationService.updatePreferences(req.user!, {
+        phoneNumber: req.body?.phoneNumber,
+        preferences: req.body?.preferences,
       });
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.json(result.data);
+    } catch (error) {
+      console.error("Error updating notification preferences:", error);
+      res.status(500).json({ message: "Failed to update notification preferences" });
+    }
+  });
+
+  // Leaderboard routes
+  // Ranked by accuracy over completed sessions; ?window=today|week|month|all&subjectId=&examType=&school=&minAttempts=&limit=
+  app.get("/api/leaderboard", async (req, res) => {
+    try {
+      const parsed = leaderboardService.parseFilters(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.message });
+      }
+
+      const leaderboard = await leaderboardService.getLeaderboard(parsed.filters, req.user?.id);
+      res.json(leaderboard);
+    } catch (error) {
+      console.error("Error fetching leaderboard:", error);
+      res.status(500).json({ message: "Failed to fetch leaderboard" });
+    }
+  });
+
+  // Promote an existing account to admin
+  app.post("/api/admin/create-admin", async (req, res) => {
+    try {
+      const email = typeof req.body.email === "string" ? req.body.email.trim().toLowerCase() : "";
+      if (!email) {
+        return res.status(400).json({ message: "email is required" });
+      }
+
+      const user = await storage.getUserByEmail(email);
+      if (!user) {
+        return res.status(404).json({ message: "No account with that email" });
+      }
+
+      const admin = await storage.updateUser(user.id, { isAdmin: true, updatedAt: new Date() });
+      console.log(`🛡️ ${req.user!.email} made ${admin.email} an admin`);
+      res.json({ message: `${admin.nickname} is now an admin`, admin: toPublicUser(admin) });
     } catch (error) {
       console.error("Error creating admin:", error);
       res.status(500).json({ message: "Failed to create admin account" });
@@ -1837,19 +1895,116 @@ Remember: Every question you master brings you closer to your academic goals! Ke
     }
   });
 
+  // Question bank management: ?search=&subjectId=&year=&examType=&topic=&difficulty=&source=&page=&pageSize=
+  app.get("/api/admin/questions", async (req, res) => {
+    try {
+      const { filters, page, pageSize } = questionAdminService.parseSearch(req.query);
+      res.json(await questionAdminService.search(filters, page, pageSize));
+    } catch (error) {
+      console.error("Error searching questions:", error);
+      res.status(500).json({ message: "Failed to search questions" });
+    }
+  });
+
+  // Same filters as the search, as a CSV or JSON download in the import format; ?page= picks the part of a large export
+  app.get("/api/admin/questions/export", async (req, res) => {
+    try {
+      const format = req.query.format === "json" ? "json" : "csv";
+      const { filters, page } = questionAdminService.parseSearch(req.query);
+      const { content, total, part, parts } = await questionAdminService.exportFile(filters, format, page);
+      if (part > parts) {
+        return res.status(404).json({ message: `This export only has ${parts} part${parts === 1 ? '' : 's'}` });
+      }
+
+      const suffix = parts > 1 ? `-part-${part}-of-${parts}` : '';
+      const filename = `questions-${new Date().toISOString().slice(0, 10)}${suffix}.${format}`;
+      res.setHeader("Content-Type", format === "json" ? "application/json" : "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      res.setHeader("X-Total-Count", String(total));
+      res.setHeader("X-Export-Parts", String(parts));
+      res.send(content);
+    } catch (error) {
+      console.error("Error exporting questions:", error);
+      res.status(500).json({ message: "Failed to export questions" });
+    }
+  });
+
+  // Multipart upload of a .csv or .json file; dryRun=true only validates
+  app.post("/api/admin/questions/import", questionFileUpload.single("file"), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "Upload a CSV or JSON file" });
+      }
+
+      const format = req.body.format === "json" || req.file.originalname.toLowerCase().endsWith(".json") ? "json" : "csv";
+      const result = await questionAdminService.importFile(req.user!.id, format, req.file.buffer.toString("utf8"), {
+        dryRun: req.body.dryRun === "true",
+      });
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.json(result.data);
+    } catch (error) {
+      console.error("Error importing questions:", error);
+      res.status(500).json({ message: "Failed to import questions" });
+    }
+  });
+
+  app.get("/api/admin/questions/audits", async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      res.json(await questionAdminService.getAudits({ limit }));
+    } catch (error) {
+      console.error("Error fetching question audits:", error);
+      res.status(500).json({ message: "Failed to fetch question audits" });
+    }
+  });
+
+  app.get("/api/admin/questions/:id", async (req, res) => {
+    try {
+      const question = await storage.getQuestion(req.params.id);
+      if (!question) {
+        return res.status(404).json({ message: "Question not found" });
+      }
+      res.json({ question, audits: await questionAdminService.getAudits({ questionId: question.id }) });
+    } catch (error) {
+      console.error("Error fetching question:", error);
+      res.status(500).json({ message: "Failed to fetch question" });
+    }
+  });
+
   app.post("/api/admin/questions", async (req, res) => {
     try {
-      const question = await storage.createQuestion(req.body);
-      res.json(question);
+      const result = await questionAdminService.create(req.user!.id, req.body);
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message, errors: result.errors });
+      }
+      res.json(result.data);
     } catch (error) {
       console.error("Error creating question:", error);
       res.status(500).json({ message: "Failed to create question" });
     }
   });
 
+  app.patch("/api/admin/questions/:id", async (req, res) => {
+    try {
+      const result = await questionAdminService.update(req.user!.id, req.params.id, req.body);
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message, errors: result.errors });
+      }
+      res.json(result.data);
+    } catch (error) {
+      console.error("Error updating question:", error);
+      res.status(500).json({ message: "Failed to update question" });
+    }
+  });
+
   app.delete("/api/admin/questions/:id", async (req, res) => {
     try {
-      await storage.deleteQuestion(req.params.id);
+      const result = await questionAdminService.remove(req.user!.id, req.params.id);
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
       res.json({ success: true });
     } catch (error) {
       console.error("Error deleting question:", error);
@@ -1857,6 +2012,209 @@ Remember: Every question you master brings you closer to your academic goals! Ke
     }
   });
 
+  // Moderation queue: ?status=open (default)|pending|reviewed|resolved|dismissed&page=&pageSize=
+  app.get("/api/admin/question-reports", async (req, res) => {
+    try {
+      const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+      const pageSize = Math.min(parseInt(req.query.pageSize as string) || 25, 100);
+      res.json(await questionReportService.getQueue({ status: req.query.status as string, page, pageSize }));
+    } catch (error) {
+      console.error("Error fetching question reports:", error);
+      res.status(500).json({ message: "Failed to fetch question reports" });
+    }
+  });
+
+  // Body: { status: 'reviewed' | 'resolved' | 'dismissed', adminNotes?, correction? }
+  app.patch("/api/admin/question-reports/:id", async (req, res) => {
+    try {
+      const result = await questionReportService.review(req.user!, req.params.id, req.body);
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message, errors: result.errors });
+      }
+      res.json({ reports: result.data });
+    } catch (error) {
+      console.error("Error reviewing question report:", error);
+      res.status(500).json({ message: "Failed to review question report" });
+    }
+  });
+
+  // Delivery log: ?status=pending|sending|sent|failed&channel=&userId=&page=&pageSize=
+  // In capture mode the locally captured email and SMS messages come back too
+  app.get("/api/admin/notifications", async (req, res) => {
+    try {
+      const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+      const pageSize = Math.min(parseInt(req.query.pageSize as string) || 25, 100);
+      const log = await notificationService.getLog({
+        status: req.query.status as string | undefined,
+        channel: req.query.channel as string | undefined,
+        userId: req.query.userId as string | undefined,
+        page,
+        pageSize,
+      });
+      res.json({ ...log, captured: notificationService.getCaptured() });
+    } catch (error) {
+      console.error("Error fetching notification log:", error);
+      res.status(500).json({ message: "Failed to fetch notification log" });
+    }
+  });
+
+  // Run the delivery worker now instead of waiting for its next tick
+  app.post("/api/admin/notifications/process", async (req, res) => {
+    try {
+      res.json({ processed: await notificationService.processDue() });
+    } catch (error) {
+      console.error("Error processing notifications:", error);
+      res.status(500).json({ message: "Failed to process notifications" });
+    }
+  });
+
+  // Background jobs and how their last run went
+  app.get("/api/admin/jobs", async (req, res) => {
+    try {
+      res.json(await jobRunner.getStatus());
+    } catch (error) {
+      console.error("Error fetching background jobs:", error);
+      res.status(500).json({ message: "Failed to fetch background jobs" });
+    }
+  });
+
+  // Run a job now; 409 while a run is already in progress
+  app.post("/api/admin/jobs/:name/run", async (req, res) => {
+    try {
+      const result = await jobRunner.runByName(req.params.name);
+      if (result === undefined) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      if (result === null) {
+        return res.status(409).json({ message: "Job is already running" });
+      }
+      res.json({ result });
+    } catch (error) {
+      console.error("Error running background job:", error);
+      res.status(500).json({ message: "Failed to run background job" });
+    }
+  });
+
+  // Question bank - pull ALOC questions into the local bank ahead of time
+  app.post("/api/admin/question-bank/import", async (req, res) => {
+    try {
+      const { subjectIds, examType, year, count = 40 } = req.body;
+      const allSubjects = await storage.getAllSubjects();
+      const targets = Array.isArray(subjectIds) && subjectIds.length > 0
+        ? allSubjects.filter(s => subjectIds.includes(s.id))
+        : allSubjects;
+
+      const results = [];
+      for (const subject of targets) {
+        results.push(await questionBankService.importFromAloc(subject, {
+          examType: questionBankService.normalizeExamType(examType) || 'utme',
+          year: questionBankService.normalizeYear(year) || undefined,
+          count: Math.min(Number(count) || 40, 100),
+        }));
+      }
+
+      res.json({ results });
+    } catch (error) {
+      console.error("Error importing questions:", error);
+      res.status(500).json({ message: "Failed to import questions" });
+    }
+  });
+
+  app.get("/api/admin/question-bank/stats", async (req, res) => {
+    try {
+      const stats = await storage.getQuestionBankStats();
+      res.json(stats);
+    } catch (error) {
+      console.error("Error fetching question bank stats:", error);
+      res.status(500).json({ message: "Failed to fetch question bank stats" });
+    }
+  });
+
+  // AI provider chain health: configuration and circuit breaker state per provider
+  app.get("/api/admin/ai/providers", async (req, res) => {
+    try {
+      res.json(aiProviderRegistry.getStatus());
+    } catch (error) {
+      console.error("Error fetching AI provider status:", error);
+      res.status(500).json({ message: "Failed to fetch AI provider status" });
+    }
+  });
+
+  // Unlock code batches
+  app.get("/api/admin/unlock-codes", async (req, res) => {
+    try {
+      const batchId = req.query.batchId as string | undefined;
+      const limit = parseInt(req.query.limit as string) || undefined;
+      res.json(await storage.getUnlockCodes({ batchId, limit }));
+    } catch (error) {
+      console.error("Error fetching unlock codes:", error);
+      res.status(500).json({ message: "Failed to fetch unlock codes" });
+    }
+  });
+
+  app.post("/api/admin/unlock-codes", async (req, res) => {
+    try {
+      const { planId, count, maxRedemptions, expiresAt, note } = req.body;
+
+      if (!getEntitlementPlan(planId)) {
+        return res.status(400).json({ message: `planId must be one of: ${Object.keys(ENTITLEMENT_PLANS).join(', ')}` });
+      }
+      const expiry = expiresAt ? new Date(expiresAt) : null;
+      if (expiry && isNaN(expiry.getTime())) {
+        return res.status(400).json({ message: "expiresAt must be a valid date" });
+      }
+
+      const codes = await entitlementService.generateCodeBatch({
+        planId,
+        count: parseInt(count) || 1,
+        maxRedemptions: parseInt(maxRedemptions) || 1,
+        expiresAt: expiry,
+        createdBy: req.user!.id,
+        note,
+      });
+
+      res.json({ batchId: codes[0]?.batchId, codes });
+    } catch (error) {
+      console.error("Error generating unlock codes:", error);
+      res.status(500).json({ message: "Failed to generate unlock codes" });
+    }
+  });
+
+  app.post("/api/admin/unlock-codes/:id/revoke", async (req, res) => {
+    try {
+      const code = await entitlementService.revokeCode(req.params.id);
+      if (!code) {
+        return res.status(404).json({ message: "Unlock code not found" });
+      }
+      res.json(code);
+    } catch (error) {
+      console.error("Error revoking unlock code:", error);
+      res.status(500).json({ message: "Failed to revoke unlock code" });
+    }
+  });
+
+  // Grant a plan to a user directly, e.g. for support cases
+  app.post("/api/admin/users/:id/entitlements", async (req, res) => {
+    try {
+      const { planId } = req.body;
+      if (!getEntitlementPlan(planId)) {
+        return res.status(400).json({ message: `planId must be one of: ${Object.keys(ENTITLEMENT_PLANS).join(', ')}` });
+      }
+
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const entitlement = await entitlementService.grantPlan(user.id, planId, 'admin', req.user!.id);
+      const access = await entitlementService.syncAccess(user.id);
+      res.json({ entitlement, access });
+    } catch (error) {
+      console.error("Error granting entitlement:", error);
+      res.status(500).json({ message: "Failed to grant entitlement" });
+    }
+  });
+
   // Competition routes
   app.get("/api/competitions", async (req, res) => {
     try {
@@ -1868,27 +2226,61 @@ Remember: Every question you master brings you closer to your academic goals! Ke
     }
   });
 
-  app.post("/api/competitions", async (req, res) => {
+  app.post("/api/competitions", authorizeUser("creatorId"), async (req, res) => {
     try {
-      const competition = await storage.createCompetition(req.body);
-      res.json(competition);
+      const result = await competitionService.create(req.body);
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.json(result.data);
     } catch (error) {
       console.error("Error creating competition:", error);
       res.status(500).json({ message: "Failed to create competition" });
     }
   });
 
-  app.post("/api/competitions/:id/join", async (req, res) => {
+  // Competition details with live standings, or the final ranks once it has finished
+  app.get("/api/competitions/:id", isAuthenticated, async (req, res) => {
+    try {
+      const competition = await storage.getCompetition(req.params.id);
+      if (!competition) {
+        return res.status(404).json({ message: "Competition not found" });
+      }
+      res.json({ ...competition, leaderboard: await competitionService.getLeaderboard(competition.id) });
+    } catch (error) {
+      console.error("Error fetching competition:", error);
+      res.status(500).json({ message: "Failed to fetch competition" });
+    }
+  });
+
+  app.post("/api/competitions/:id/join", authorizeUser(), async (req, res) => {
     try {
       const { userId } = req.body;
-      const participant = await storage.joinCompetition(req.params.id, userId);
-      res.json(participant);
+      const result = await competitionService.join(req.params.id, userId);
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.json(result.data);
     } catch (error) {
       console.error("Error joining competition:", error);
       res.status(500).json({ message: "Failed to join competition" });
     }
   });
 
+  // Host starts the match; players follow it over the competition WebSocket
+  app.post("/api/competitions/:id/start", isAuthenticated, async (req, res) => {
+    try {
+      const result = await competitionService.start(req.params.id, req.user!.id);
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.json(result.data);
+    } catch (error) {
+      console.error("Error starting competition:", error);
+      res.status(500).json({ message: "Failed to start competition" });
+    }
+  });
+
   // Analytics logging
   app.post("/api/analytics", async (req, res) => {
     try {
@@ -1914,43 +2306,29 @@ Remember: Every question you master brings you closer to your academic goals! Ke
   app.get("/api/admin/users", async (req, res) => {
     try {
       const users = await storage.getAllUsers();
-      res.json(users);
+      res.json(users.map(toPublicUser));
     } catch (error) {
       console.error("Error getting all users:", error);
       res.status(500).json({ message: "Failed to get users" });
     }
   });
 
-  app.get("/api/admin/questions", async (req, res) => {
-    try {
-      const questions = await storage.getAllQuestions();
-      res.json(questions);
-    } catch (error) {
-      console.error("Error getting all questions:", error);
-      res.status(500).json({ message: "Failed to get questions" });
-    }
-  });
-
-  app.delete("/api/admin/questions/:id", async (req, res) => {
-    try {
-      const { id } = req.params;
-      await storage.deleteQuestion(id);
-      res.json({ success: true });
-    } catch (error) {
-      console.error("Error deleting question:", error);
-      res.status(500).json({ message: "Failed to delete question" });
-    }
-  });
-
   // Payment routes for Paystack integration
-  app.post("/api/payments/initialize", async (req, res) => {
+  app.post("/api/payments/initialize", authorizeUser(), async (req, res) => {
     try {
-      const { userId, email, amount = 300000 } = req.body; // Default ₦3000 for CBT (in kobo)
+      const { userId, email, planId = DEFAULT_PAYMENT_PLAN } = req.body;
       
       if (!userId || !email) {
         return res.status(400).json({ message: "userId and email are required" });
       }
 
+      // The price comes from the plan, never from the client
+      const plan = getEntitlementPlan(planId);
+      if (!plan?.priceKobo) {
+        return res.status(400).json({ message: "This plan can't be bought online" });
+      }
+      const amount = plan.priceKobo;
+
       const { paystackService } = await import('./services/paystackService');
       
       // Generate unique reference
@@ -1964,19 +2342,19 @@ Remember: Every question you master brings you closer to your academic goals! Ke
         callback_url: `${req.protocol}://${req.get('host')}?reference=${reference}&status=success`,
         metadata: {
           userId,
+          planId: plan.id,
           sessionType: 'cbt'
         }
       });
 
       // Create payment record
-      const unlockCode = paystackService.generateUnlockCode();
       await storage.createPayment({
         userId,
         paymentReference: reference,
         paystackReference: paymentResponse.data.reference,
         amount,
         email,
-        unlockCode,
+        planId: plan.id,
         paymentMethod: 'paystack'
       });
 
@@ -1992,7 +2370,7 @@ Remember: Every question you master brings you closer to your academic goals! Ke
   });
 
   // Verify payment
-  app.post("/api/payments/verify", async (req, res) => {
+  app.post("/api/payments/verify", isAuthenticated, async (req, res) => {
     try {
       const { reference } = req.body;
       
@@ -2007,33 +2385,30 @@ Remember: Every question you master brings you closer to your academic goals! Ke
       if (!payment) {
         return res.status(404).json({ message: "Payment not found" });
       }
+      if (!ensureOwner(req, res, payment.userId)) return;
 
       // Verify with Paystack
       const verificationResponse = await paystackService.verifyPayment(reference);
       
       if (verificationResponse.data.status === 'success') {
-        // Update payment status
-        await storage.updatePayment(payment.id, {
-          status: 'success',
-          completedAt: new Date()
+        // The webhook may already have fulfilled this payment; confirming again is a no-op
+        const result = await paymentService.confirmCharge(reference, {
+          amount: verificationResponse.data.amount,
+          currency: verificationResponse.data.currency
         });
 
-        // Update user to premium status for CBT access
-        await storage.updateUser(payment.userId, {
-          isPremium: true,
-          isActivated: true
-        });
+        if (result.status === 'rejected') {
+          return res.status(400).json({ success: false, message: result.reason });
+        }
 
         res.json({
           success: true,
           status: 'success',
-          unlockCode: payment.unlockCode,
+          entitlement: result.status === 'not_found' ? undefined : result.entitlement,
           message: "Payment verified successfully"
         });
       } else {
-        await storage.updatePayment(payment.id, {
-          status: 'failed'
-        });
+        await paymentService.markFailed(payment);
         
         res.status(400).json({
           success: false,
@@ -2046,8 +2421,28 @@ Remember: Every question you master brings you closer to your academic goals! Ke
     }
   });
 
-  // Manual unlock code validation - FIXED to actually activate premium access
-  app.post("/api/payments/validate-code", async (req, res) => {
+  // Paystack webhook: fulfills payments server-to-server, so access doesn't depend on the browser
+  // coming back from checkout. Non-2xx responses make Paystack retry, which fulfillment tolerates.
+  app.post("/api/payments/webhook", async (req, res) => {
+    try {
+      const { paystackService } = await import('./services/paystackService');
+
+      const signature = req.headers['x-paystack-signature'];
+      if (typeof signature !== 'string' || !req.rawBody || !paystackService.verifyWebhookSignature(req.rawBody, signature)) {
+        console.warn('⚠️ Rejected Paystack webhook with an invalid signature');
+        return res.status(401).json({ message: "Invalid signature" });
+      }
+
+      const outcome = await paymentService.handleWebhookEvent(req.body);
+      res.json({ received: true, outcome });
+    } catch (error) {
+      console.error("Paystack webhook error:", error);
+      res.status(500).json({ message: "Failed to process webhook" });
+    }
+  });
+
+  // Manual unlock code validation
+  app.post("/api/payments/validate-code", authorizeUser(), async (req, res) => {
     try {
       const { userId, unlockCode } = req.body;
       
@@ -2055,68 +2450,30 @@ Remember: Every question you master brings you closer to your academic goals! Ke
         return res.status(400).json({ message: "userId and unlockCode are required" });
       }
 
-      console.log(`🔑 Validating unlock code: ${unlockCode} for user: ${userId}`);
-
-      let isValidCode = false;
-      let codeSource = '';
-
-      // Check if code matches the predefined valid unlock codes
-      if (VALID_UNLOCK_CODES.includes(unlockCode.trim())) {
-        isValidCode = true;
-        codeSource = 'predefined';
-        console.log('✅ Valid predefined unlock code detected');
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
 
-      // Also check if it's a payment-generated unlock code
-      if (!isValidCode) {
-        try {
-          const userPayments = await storage.getUserPayments(userId);
-          const validPayment = userPayments.find(p => 
-            p.unlockCode === unlockCode.toUpperCase() && 
-            (p.status === 'success' || p.status === 'pending')
-          );
-
-          if (validPayment) {
-            isValidCode = true;
-            codeSource = 'payment-generated';
-            console.log('✅ Valid payment-generated unlock code detected');
-          }
-        } catch (storageError) {
-          console.warn('⚠️ Storage error checking payment codes:', storageError);
-        }
+      const result = await entitlementService.redeemCode(user, unlockCode);
+      if (!result.success) {
+        console.log(`❌ Unlock code rejected for user ${userId}: ${result.message}`);
+        return res.status(result.status).json({ success: false, message: result.message });
       }
 
-      if (isValidCode) {
-        // IMPORTANT: Actually upgrade the user to premium when code is valid
-        const user = await storage.getUser(userId);
-        if (user && !user.isPremium) {
-          await storage.updateUser(userId, {
-            isPremium: true,
-            isActivated: true
-          });
-          console.log(`🎉 User ${userId} upgraded to premium via ${codeSource} unlock code`);
-          
-          // Send SMS notification via Twilio (replacing SendGrid)
-          if (user.email) {
-            await twilioService.sendActivationNotification(
-              user.email.replace('@', ''), // Simple phone conversion for demo
-              unlockCode
-            );
-          }
-        }
+      console.log(`🎉 User ${userId} redeemed an unlock code for ${result.entitlement.planId}`);
 
-        res.json({
-          success: true,
-          message: "Unlock code is valid - Premium access activated!",
-          upgraded: !user?.isPremium
-        });
-      } else {
-        console.log('❌ Invalid unlock code provided');
-        res.status(400).json({
-          success: false,
-          message: "Invalid unlock code. Please check your code and try again."
-        });
-      }
+      await notificationService.notify(user.id, 'access_activated', {
+        planName: getEntitlementPlan(result.entitlement.planId)?.name || result.entitlement.planId,
+        expiresAt: result.entitlement.endsAt?.toISOString() ?? null,
+      });
+
+      res.json({
+        success: true,
+        message: "Unlock code is valid - access activated!",
+        upgraded: result.access.isPremium && !user.isPremium,
+        access: result.access
+      });
     } catch (error) {
       console.error("Code validation error:", error);
       res.status(500).json({ message: "Failed to validate unlock code" });
@@ -2170,13 +2527,7 @@ Remember: Every question you master brings you closer to your academic goals! Ke
         user = await storage.createUser(userData);
         console.log(`✅ New user created via Google Auth: ${user.email}`);
         
-        // Send welcome SMS via Twilio
-        if (user.email) {
-          await twilioService.sendWelcomeMessage(
-            user.email.replace('@', ''), // Simple phone conversion for demo
-            user.firstName
-          );
-        }
+        await notificationService.notify(user.id, 'welcome', {});
       } else {
         // Update existing user with Google info if missing
         if (!user.googleId) {
@@ -2204,15 +2555,16 @@ Remember: Every question you master brings you closer to your academic goals! Ke
   */
 
   // CBT Session routes - Fixed and enhanced
-  app.post("/api/cbt/sessions", async (req, res) => {
+  app.post("/api/cbt/sessions", authorizeUser(), async (req, res) => {
     try {
       const { userId, selectedSubjects, paymentId } = req.body;
       
       console.log("CBT session creation request:", { userId, selectedSubjects, paymentId });
       
-      if (!userId || !selectedSubjects || selectedSubjects.length !== 4) {
-        console.log("CBT validation failed:", { userId: !!userId, subjectsCount: selectedSubjects?.length });
-        return res.status(400).json({ message: "userId and exactly 4 selectedSubjects are required" });
+      const subjectError = validateUtmeSubjects(selectedSubjects);
+      if (!userId || subjectError) {
+        console.log("CBT validation failed:", { userId: !!userId, subjectsCount: selectedSubjects?.length, subjectError });
+        return res.status(400).json({ message: subjectError || "userId is required" });
       }
 
       // Verify user exists
@@ -2221,16 +2573,22 @@ Remember: Every question you master brings you closer to your academic goals! Ke
         return res.status(404).json({ message: "User not found" });
       }
 
+      // Premium, a CBT plan or the free trial must be able to cover this attempt; it is used up when the exam starts
+      const access = await entitlementService.checkCbtAccess(user);
+      if (!access.allowed) {
+        return res.status(403).json({ message: access.message });
+      }
+
       // Create CBT session with all required fields
       const sessionData = {
         userId,
-        selectedSubjects,
-        paymentId: paymentId || `free-${Date.now()}`,
-        timeAllowed: 7200, // 2 hours
-        timeRemaining: 7200,
+        selectedSubjects: orderUtmeSubjects(selectedSubjects as Array<{ id: string; name: string; emoji: string }>),
+        paymentId: paymentId || null,
+        timeAllowed: UTME_DURATION_SECONDS, // fixed UTME duration, not client-configurable
+        timeRemaining: UTME_DURATION_SECONDS,
+        totalQuestions: UTME_TOTAL_QUESTIONS,
         isActive: true,
-        startedAt: new Date(),
-        questions: [], // Will be populated when starting exam
+        questions: [], // Will be populated when starting exam; the clock starts then too
         userAnswers: {},
         currentQuestionIndex: 0
       };
@@ -2247,62 +2605,143 @@ Remember: Every question you master brings you closer to your academic goals! Ke
   });
 
   // Get specific CBT session by ID
-  app.get("/api/cbt/sessions/:id", async (req, res) => {
+  app.get("/api/cbt/sessions/:id", authorizeResource((id) => storage.getCbtSession(id)), async (req, res) => {
     try {
       const { id } = req.params;
       console.log("Fetching CBT session:", id);
       
-      const session = await storage.getCbtSession(id);
-      if (!session) {
+      const stored = await storage.getCbtSession(id);
+      if (!stored) {
         return res.status(404).json({ message: "CBT session not found" });
       }
-      
+
+      // Remaining time is computed on the server; expired sessions are auto-submitted here
+      const session = await cbtSessionService.refresh(stored);
       console.log("Found CBT session with", session.questions?.length || 0, "questions");
-      res.json(session);
+      res.json(cbtSessionService.toClientSession(session));
     } catch (error) {
       console.error("Get CBT session error:", error);
       res.status(500).json({ message: "Failed to get CBT session", error: error instanceof Error ? error.message : "Unknown error" });
     }
   });
 
-  app.get("/api/cbt/sessions/active/:userId", async (req, res) => {
+  app.get("/api/cbt/sessions/active/:userId", authorizeUser(), async (req, res) => {
     try {
       const { userId } = req.params;
       console.log("Fetching active CBT session for user:", userId);
       
-      const session = await storage.getUserActiveCbtSession(userId);
-      console.log("Found CBT session:", session ? "Yes" : "No");
-      
-      res.json(session || null);
+      const stored = await storage.getUserActiveCbtSession(userId);
+      const session = stored ? await cbtSessionService.refresh(stored) : null;
+      console.log("Found CBT session:", session && !session.isCompleted ? "Yes" : "No");
+
+      // A session that just ran out of time has been auto-submitted and can no longer be resumed
+      res.json(session && !session.isCompleted ? cbtSessionService.toClientSession(session) : null);
     } catch (error) {
       console.error("Get active CBT session error:", error);
       res.status(500).json({ message: "Failed to get active CBT session", error: error instanceof Error ? error.message : "Unknown error" });
     }
   });
 
-  app.patch("/api/cbt/sessions/:id", async (req, res) => {
+  // Only navigation state may be patched; answers, timing and scores go through the dedicated routes
+  app.patch("/api/cbt/sessions/:id", authorizeResource((id) => storage.getCbtSession(id)), async (req, res) => {
     try {
       const { id } = req.params;
-      const updates = req.body;
-      
-      // Convert string dates to Date objects if needed
-      if (updates.completedAt && typeof updates.completedAt === 'string') {
-        updates.completedAt = new Date(updates.completedAt);
+      const { currentQuestionIndex, currentSubjectIndex } = req.body;
+      const updates: { currentQuestionIndex?: number; currentSubjectIndex?: number } = {};
+
+      if (Number.isInteger(currentQuestionIndex) && currentQuestionIndex >= 0) {
+        updates.currentQuestionIndex = currentQuestionIndex;
       }
-      if (updates.startedAt && typeof updates.startedAt === 'string') {
-        updates.startedAt = new Date(updates.startedAt);
+      if (Number.isInteger(currentSubjectIndex) && currentSubjectIndex >= 0) {
+        updates.currentSubjectIndex = currentSubjectIndex;
       }
-      
+      if (Object.keys(updates).length === 0) {
+        return res.status(400).json({ message: "Only currentQuestionIndex and currentSubjectIndex can be updated" });
+      }
+
       const updatedSession = await storage.updateCbtSession(id, updates);
-      res.json(updatedSession);
+      res.json(cbtSessionService.toClientSession(updatedSession));
     } catch (error) {
       console.error("CBT session update error:", error);
       res.status(500).json({ message: "Failed to update CBT session" });
     }
   });
 
+  // Exam clock controls - time spent paused does not count against the exam
+  app.post("/api/cbt/sessions/:id/pause", authorizeResource((id) => storage.getCbtSession(id)), async (req, res) => {
+    try {
+      const session = await cbtSessionService.refresh((await storage.getCbtSession(req.params.id))!);
+      if (session.isCompleted) {
+        return res.status(409).json({ message: "CBT session has already ended", session: cbtSessionService.toClientSession(session) });
+      }
+      res.json(cbtSessionService.toClientSession(await cbtSessionService.pause(session)));
+    } catch (error) {
+      console.error("CBT pause error:", error);
+      res.status(500).json({ message: "Failed to pause CBT session" });
+    }
+  });
+
+  app.post("/api/cbt/sessions/:id/resume", authorizeResource((id) => storage.getCbtSession(id)), async (req, res) => {
+    try {
+      const session = await cbtSessionService.refresh((await storage.getCbtSession(req.params.id))!);
+      if (session.isCompleted) {
+        return res.status(409).json({ message: "CBT session has already ended", session: cbtSessionService.toClientSession(session) });
+      }
+      res.json(cbtSessionService.toClientSession(await cbtSessionService.resume(session)));
+    } catch (error) {
+      console.error("CBT resume error:", error);
+      res.status(500).json({ message: "Failed to resume CBT session" });
+    }
+  });
+
+  // Save one answer as it is chosen so a refresh or dropped connection loses nothing
+  app.post("/api/cbt/sessions/:id/answers", authorizeResource((id) => storage.getCbtSession(id)), async (req, res) => {
+    try {
+      const { questionIndex, answer, subjectIndex } = req.body;
+      const session = await cbtSessionService.refresh((await storage.getCbtSession(req.params.id))!);
+
+      if (session.isCompleted) {
+        return res.status(409).json({ message: "CBT session has already ended", session: cbtSessionService.toClientSession(session) });
+      }
+      if (session.isPaused) {
+        return res.status(409).json({ message: "Resume the exam before answering" });
+      }
+      if (!Number.isInteger(questionIndex) || questionIndex < 0 || questionIndex >= (session.questions?.length || 0)) {
+        return res.status(400).json({ message: "Invalid questionIndex" });
+      }
+
+      const updated = await cbtSessionService.saveAnswer(
+        session,
+        questionIndex,
+        typeof answer === 'string' && answer ? answer : null,
+        Number.isInteger(subjectIndex) ? subjectIndex : undefined
+      );
+      if (!updated) {
+        const ended = (await storage.getCbtSession(session.id))!;
+        return res.status(409).json({ message: "CBT session has already ended", session: cbtSessionService.toClientSession(ended) });
+      }
+      res.json({ timeRemaining: updated.timeRemaining, userAnswers: updated.userAnswers });
+    } catch (error) {
+      console.error("CBT answer save error:", error);
+      res.status(500).json({ message: "Failed to save answer" });
+    }
+  });
+
+  app.post("/api/cbt/sessions/:id/submit", authorizeResource((id) => storage.getCbtSession(id)), async (req, res) => {
+    try {
+      const session = await cbtSessionService.refresh((await storage.getCbtSession(req.params.id))!);
+      if (session.isCompleted) return res.json(session);
+
+      const submitted = await cbtSessionService.submit(session);
+      res.json({ ...submitted, unlockedBadges: await badgeService.getUnlockedSince(submitted.userId, submitted.completedAt!) });
+    } catch (error) {
+      console.error("CBT submit error:", error);
+      res.status(500).json({ message: "Failed to submit CBT session" });
+    }
+  });
+
   // Start CBT Examination - Fetch questions for all selected subjects
-  app.post("/api/cbt/sessions/:id/start", async (req, res) => {
+  app.post("/api/cbt/sessions/:id/start", authorizeResource((id) => storage.getCbtSession(id)), async (req, res) => {
     try {
       const { id } = req.params;
       
@@ -2318,136 +2757,114 @@ Remember: Every question you master brings you closer to your academic goals! Ke
         return res.status(400).json({ message: "CBT session is not active" });
       }
 
-      // Import new ALOC API service with proper rate limiting
-      const { alocApiService } = await import('./services/alocApiService');
+      // Restarting would reset the exam clock; a started exam can only be resumed
+      if (session.startedAt && (session.questions?.length || 0) > 0) {
+        return res.status(409).json({
+          message: "CBT examination has already started",
+          session: cbtSessionService.toClientSession(await cbtSessionService.refresh(session))
+        });
+      }
 
+      // One section per subject in UTME order: English (60 questions) first, then 40 for each other subject.
+      // Questions are shuffled within a section but never across sections.
       const allQuestions = [];
-      const questionsPerSubject = 20; // 20 questions per subject as requested by user
+      const sections: CbtSection[] = [];
 
-      // Clear any previously used questions for fresh content
-      alocApiService.clearUsedQuestions();
+      console.log(`🚀 Loading UTME questions for ${session.selectedSubjects.length} subjects from the question bank...`);
 
-      console.log(`🚀 Fetching fresh questions for ${session.selectedSubjects.length} subjects...`);
-
-      // Fetch questions sequentially to avoid rate limits
-      for (const subject of session.selectedSubjects) {
+      for (const subject of orderUtmeSubjects(session.selectedSubjects)) {
+        const questionCount = utmeQuestionCount(subject);
         try {
-          console.log(`📚 Fetching ${questionsPerSubject} questions for ${subject.name}...`);
-          
-          const alocQuestions = await alocApiService.fetchQuestions(
-            subject.name.toLowerCase(), 
-            questionsPerSubject, 
-            'utme'
-          );
-
-          if (alocQuestions.length > 0) {
-            // Transform ALOC questions to our CBT format
-            const transformedQuestions = alocQuestions.map((q, index) => ({
-              id: `${id}_${subject.name}_${index}_${Date.now()}`,
-              question: q.question,
-              options: [
-                { id: 'A', text: q.option.a },
-                { id: 'B', text: q.option.b },
-                { id: 'C', text: q.option.c },
-                { id: 'D', text: q.option.d }
-              ],
-              correctAnswer: q.answer.toUpperCase(),
-              subject: subject.name,
-              explanation: q.solution || `This is a ${subject.name} question from ALOC database.`,
-              examType: q.examtype || 'utme',
-              examYear: q.examyear || '2024',
-              imageUrl: q.image || null,
-              timeLimit: 120, // 2 minutes per question
-              difficulty: 'medium'
-            }));
-
-            allQuestions.push(...transformedQuestions);
-            console.log(`✅ Added ${alocQuestions.length} REAL questions for ${subject.name} (total: ${allQuestions.length})`);
-          } else {
-            // Only add minimal fallback if absolutely no questions from ALOC
-            console.log(`⚠️ No ALOC questions for ${subject.name}, adding 1 fallback`);
-            const fallbacks = alocApiService.generateFallbackQuestions(subject.name, 1);
-            
-            const fallbackQuestion = {
-              id: `fallback_${id}_${subject.name}_${Date.now()}`,
-              question: fallbacks[0].question,
-              options: [
-                { id: 'A', text: fallbacks[0].option.a },
-                { id: 'B', text: fallbacks[0].option.b },
-                { id: 'C', text: fallbacks[0].option.c },
-                { id: 'D', text: fallbacks[0].option.d }
-              ],
-              correctAnswer: fallbacks[0].answer.toUpperCase(),
-              subject: subject.name,
-              explanation: fallbacks[0].solution,
-              examType: 'utme',
-              examYear: '2024',
-              imageUrl: null,
-              timeLimit: 120,
-              difficulty: 'medium'
-            };
-            
-            allQuestions.push(fallbackQuestion);
+          const bankQuestions = await questionBankService.getQuestions(subject.id, {
+            limit: questionCount,
+            examType: 'utme',
+            userId: session.userId,
+          });
+
+          const sectionQuestions = bankQuestions.map(q => ({
+            id: q.id,
+            question: q.question,
+            options: q.options,
+            correctAnswer: q.correctAnswer,
+            subject: subject.name,
+            explanation: q.explanation || `This is a ${subject.name} question.`,
+            examType: q.examType || 'utme',
+            examYear: q.examYear,
+            year: q.examYear,
+            imageUrl: q.imageUrl || undefined,
+            topic: q.topic,
+            difficulty: q.difficulty
+          }));
+
+          // Fisher-Yates shuffle within the section
+          for (let i = sectionQuestions.length - 1; i > 0; i--) {
+            const j = Math.floor(Math.random() * (i + 1));
+            [sectionQuestions[i], sectionQuestions[j]] = [sectionQuestions[j], sectionQuestions[i]];
           }
 
+          sections.push({
+            subjectId: subject.id,
+            subjectName: subject.name,
+            startIndex: allQuestions.length,
+            questionCount: sectionQuestions.length,
+          });
+          allQuestions.push(...sectionQuestions);
+          console.log(`✅ Added ${sectionQuestions.length}/${questionCount} questions for ${subject.name} (total: ${allQuestions.length})`);
         } catch (error) {
-          console.error(`❌ Error fetching questions for ${subject.name}:`, error);
-          
-          // Emergency fallback - only 1 question per failed subject
-          const emergency = alocApiService.generateFallbackQuestions(subject.name, 1);
-          const emergencyQuestion = {
-            id: `emergency_${id}_${subject.name}_${Date.now()}`,
-            question: emergency[0].question,
-            options: [
-              { id: 'A', text: emergency[0].option.a },
-              { id: 'B', text: emergency[0].option.b },
-              { id: 'C', text: emergency[0].option.c },
-              { id: 'D', text: emergency[0].option.d }
-            ],
-            correctAnswer: emergency[0].answer.toUpperCase(),
-            subject: subject.name,
-            explanation: emergency[0].solution,
-            examType: 'utme',
-            examYear: '2024',
-            imageUrl: null,
-            timeLimit: 120,
-            difficulty: 'medium'
-          };
-          
-          allQuestions.push(emergencyQuestion);
+          console.error(`❌ Error loading questions for ${subject.name}:`, error);
         }
       }
 
-      // Enhanced shuffle using Fisher-Yates algorithm
-      const shuffledQuestions = [...allQuestions];
-      for (let i = shuffledQuestions.length - 1; i > 0; i--) {
-        const j = Math.floor(Math.random() * (i + 1));
-        [shuffledQuestions[i], shuffledQuestions[j]] = [shuffledQuestions[j], shuffledQuestions[i]];
-      }
-
-      console.log(`🎯 Final result: ${shuffledQuestions.length} questions ready for CBT exam`);
-      console.log(`📊 ALOC API used questions: ${alocApiService.getUsedQuestionsCount()}`);
+      console.log(`🎯 Final result: ${allQuestions.length} questions ready for CBT exam`);
 
-      if (shuffledQuestions.length === 0) {
+      if (sections.length !== session.selectedSubjects.length || sections.some(section => section.questionCount === 0)) {
         return res.status(400).json({ 
           message: "Unable to fetch questions. Please check your internet connection and try again." 
         });
       }
 
-      // Update the session with questions (fix timestamp issue)
-      const updatedSession = await storage.updateCbtSession(id, {
-        questions: shuffledQuestions,
-        totalQuestions: shuffledQuestions.length,
-        startedAt: new Date()
-      });
+      // The paper is ready, so this is when the attempt is used up; it is given back if the exam doesn't start
+      const user = (await storage.getUser(session.userId))!;
+      const attempt = await entitlementService.startCbtAttempt(user);
+      if (!attempt.allowed) {
+        return res.status(403).json({ message: attempt.message });
+      }
 
-      console.log("CBT examination started successfully with", shuffledQuestions.length, "questions");
+      let updatedSession;
+      try {
+        updatedSession = await storage.startCbtSession(id, {
+          questions: allQuestions,
+          sections,
+          totalQuestions: allQuestions.length,
+          currentSubjectIndex: 0,
+          currentQuestionIndex: 0,
+          timeAllowed: UTME_DURATION_SECONDS,
+          timeRemaining: UTME_DURATION_SECONDS,
+          paymentId: attempt.entitlementId || session.paymentId || `${attempt.via}-${Date.now()}`,
+          startedAt: new Date()
+        });
+      } catch (error) {
+        await entitlementService.refundCbtAttempt(user, attempt);
+        throw error;
+      }
+      if (!updatedSession) {
+        await entitlementService.refundCbtAttempt(user, attempt);
+        const started = (await storage.getCbtSession(id))!;
+        return res.status(409).json({
+          message: "CBT examination has already started",
+          session: cbtSessionService.toClientSession(await cbtSessionService.refresh(started))
+        });
+      }
+
+      await questionExposureService.recordServed(session.userId, 'cbt', allQuestions.map(q => q.id), id);
+
+      console.log("CBT examination started successfully with", allQuestions.length, "questions");
 
       res.json({
         success: true,
         message: "CBT examination started successfully",
-        session: updatedSession,
-        totalQuestions: shuffledQuestions.length
+        session: cbtSessionService.toClientSession(updatedSession),
+        totalQuestions: allQuestions.length
       });
 
     } catch (error) {
@@ -2459,47 +2876,33 @@ Remember: Every question you master brings you closer to your academic goals! Ke
     }
   });
 
-  // Add CBT session completion route to prevent re-payment issues
-  app.post("/api/cbt/complete", async (req, res) => {
+  // Add CBT session completion route to prevent re-payment issues.
+  // Scores are computed on the server; any score or answers in the body are ignored.
+  app.post("/api/cbt/complete", isAuthenticated, async (req, res) => {
     try {
-      const { sessionId, userId, answers, score } = req.body;
+      const { sessionId } = req.body;
       
-      const session = await storage.getCbtSession(sessionId);
-      if (!session) {
+      const stored = await storage.getCbtSession(sessionId);
+      if (!stored) {
         return res.status(404).json({ message: "Session not found" });
       }
+      if (!ensureOwner(req, res, stored.userId)) return;
+
+      const wasCompleted = !!stored.isCompleted;
+      const refreshed = await cbtSessionService.refresh(stored);
+      // Marking the session completed is what prevents requiring payment again
+      const session = refreshed.isCompleted ? refreshed : await cbtSessionService.submit(refreshed);
       
-      // Mark session as completed - this prevents requiring payment again
-      await storage.updateCbtSession(sessionId, {
-        status: 'completed',
-        completedAt: new Date(),
-        finalScore: score,
-        answers: answers,
-        isCompleted: true // Crucial flag to prevent re-payment
-      });
-      
-      // Award badges for completion
-      try {
-        const completionBadge = {
-          userId,
-          title: 'Test Taker',
-          description: 'Completed your first CBT exam',
-          icon: 'award',
-          rarity: 'common',
-          unlockedAt: new Date()
-        };
-        
-        await storage.createUserBadge(completionBadge);
-      } catch (badgeError) {
-        console.error('Failed to create badge:', badgeError);
-      }
-      
+      // Badges were evaluated when the session was graded
+      const unlockedBadges = wasCompleted ? [] : await badgeService.getUnlockedSince(session.userId, session.completedAt!);
+
       res.json({ 
         success: true, 
         message: "Exam completed successfully",
         sessionId,
-        score,
-        badgeUnlocked: true
+        score: session.aggregateScore,
+        report: session.report,
+        unlockedBadges
       });
     } catch (error) {
       console.error("CBT completion error:", error);
@@ -2508,7 +2911,7 @@ Remember: Every question you master brings you closer to your academic goals! Ke
   });
 
   // Chat History and Badges API Routes
-  app.get("/api/chat/history/:userId", async (req, res) => {
+  app.get("/api/chat/history/:userId", authorizeUser(), async (req, res) => {
     try {
       const { userId } = req.params;
       const history = await storage.getChatHistory(userId);
@@ -2519,7 +2922,7 @@ Remember: Every question you master brings you closer to your academic goals! Ke
     }
   });
 
-  app.get("/api/users/:userId/badges", async (req, res) => {
+  app.get("/api/users/:userId/badges", authorizeUser(), async (req, res) => {
     try {
       const { userId } = req.params;
       const badges = await storage.getUserBadges(userId);
@@ -2530,7 +2933,7 @@ Remember: Every question you master brings you closer to your academic goals! Ke
     }
   });
 
-  app.get("/api/chat/usage/:userId", async (req, res) => {
+  app.get("/api/chat/usage/:userId", authorizeUser(), async (req, res) => {
     try {
       const { userId } = req.params;
       const stats = {
@@ -2547,15 +2950,16 @@ Remember: Every question you master brings you closer to your academic goals! Ke
   });
 
   // Short Notes API Routes
-  app.get("/api/short-notes/:userId", async (req, res) => {
+  app.get("/api/short-notes/:userId", authorizeUser(), async (req, res) => {
     try {
       const { userId } = req.params;
-      const { subjectId, difficulty, search } = req.query;
+      const { subjectId, difficulty, search, bookmarked } = req.query;
       
-      const notes = await storage.getShortNotes(userId, {
+      const notes = await shortNoteService.list(userId, {
         subjectId: subjectId as string,
         difficulty: difficulty as string,
-        search: search as string
+        search: search as string,
+        bookmarked: bookmarked === 'true'
       });
       
       res.json(notes);
@@ -2565,17 +2969,50 @@ Remember: Every question you master brings you closer to your academic goals! Ke
     }
   });
 
-  app.post("/api/short-notes", async (req, res) => {
+  app.get("/api/short-notes/:userId/due", authorizeUser(), async (req, res) => {
     try {
-      const note = await storage.createShortNote(req.body);
-      res.json(note);
+      res.json(await shortNoteService.getDue(req.params.userId));
+    } catch (error) {
+      console.error("Error fetching short notes due for review:", error);
+      res.status(500).json({ message: "Failed to fetch short notes due for review" });
+    }
+  });
+
+  app.post("/api/short-notes", authorizeUser(), async (req, res) => {
+    try {
+      const result = await shortNoteService.create(req.body.userId, req.body);
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.json(result.data);
     } catch (error) {
       console.error("Error creating short note:", error);
       res.status(500).json({ message: "Failed to create short note" });
     }
   });
 
-  app.get("/api/short-notes/single/:id", async (req, res) => {
+  // AI-written note on a topic, or built from questions the student had explained
+  app.post("/api/short-notes/generate", isAuthenticated, async (req, res) => {
+    try {
+      const { subjectId, topic, explainedQuestionIds, difficulty, aiModel } = req.body;
+      const result = await shortNoteService.generate(req.user!, {
+        subjectId,
+        topic,
+        explainedQuestionIds: Array.isArray(explainedQuestionIds) ? explainedQuestionIds.map(String) : undefined,
+        difficulty
+      }, aiModel);
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.json(result.data);
+    } catch (error) {
+      console.error("Error generating short note:", error);
+      res.status(500).json({ message: "Failed to generate short note" });
+    }
+  });
+
+  // Opening a note counts as a review
+  app.get("/api/short-notes/single/:id", authorizeResource((id) => storage.getShortNote(id)), async (req, res) => {
     try {
       const { id } = req.params;
       const note = await storage.getShortNote(id);
@@ -2584,25 +3021,32 @@ Remember: Every question you master brings you closer to your academic goals! Ke
         return res.status(404).json({ message: "Note not found" });
       }
       
-      res.json(note);
+      res.json(await shortNoteService.open(note));
     } catch (error) {
       console.error("Error fetching short note:", error);
       res.status(500).json({ message: "Failed to fetch short note" });
     }
   });
 
-  app.patch("/api/short-notes/:id", async (req, res) => {
+  app.patch("/api/short-notes/:id", authorizeResource((id) => storage.getShortNote(id)), async (req, res) => {
     try {
-      const { id } = req.params;
-      const note = await storage.updateShortNote(id, req.body);
-      res.json(note);
+      const note = await storage.getShortNote(req.params.id);
+      if (!note) {
+        return res.status(404).json({ message: "Note not found" });
+      }
+
+      const result = await shortNoteService.update(note, req.body);
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.json(result.data);
     } catch (error) {
       console.error("Error updating short note:", error);
       res.status(500).json({ message: "Failed to update short note" });
     }
   });
 
-  app.delete("/api/short-notes/:id", async (req, res) => {
+  app.delete("/api/short-notes/:id", authorizeResource((id) => storage.getShortNote(id)), async (req, res) => {
     try {
       const { id } = req.params;
       await storage.deleteShortNote(id);
@@ -2613,10 +3057,13 @@ Remember: Every question you master brings you closer to your academic goals! Ke
     }
   });
 
-  app.patch("/api/short-notes/:id/bookmark", async (req, res) => {
+  app.patch("/api/short-notes/:id/bookmark", authorizeResource((id) => storage.getShortNote(id)), async (req, res) => {
     try {
       const { id } = req.params;
       const { isBookmarked } = req.body;
+      if (typeof isBookmarked !== 'boolean') {
+        return res.status(400).json({ message: "isBookmarked must be true or false" });
+      }
       const note = await storage.bookmarkShortNote(id, isBookmarked);
       res.json(note);
     } catch (error) {
@@ -2626,12 +3073,13 @@ Remember: Every question you master brings you closer to your academic goals! Ke
   });
 
   // Adaptive Scheduler API Routes
-  app.get("/api/scheduler/tasks/:userId", async (req, res) => {
+  // Tasks on one day (?date=YYYY-MM-DD, Nigerian time), today by default
+  app.get("/api/scheduler/tasks/:userId", authorizeUser(), async (req, res) => {
     try {
       const { userId } = req.params;
       const { date } = req.query;
       
-      const tasks = await storage.getScheduledTasks(userId, date as string);
+      const tasks = await studySchedulerService.getDayTasks(userId, date as string);
       res.json(tasks);
     } catch (error) {
       console.error("Error fetching scheduled tasks:", error);
@@ -2639,10 +3087,10 @@ Remember: Every question you master brings you closer to your academic goals! Ke
     }
   });
 
-  app.get("/api/scheduler/today/:userId", async (req, res) => {
+  app.get("/api/scheduler/today/:userId", authorizeUser(), async (req, res) => {
     try {
       const { userId } = req.params;
-      const tasks = await storage.getTodayTasks(userId);
+      const tasks = await studySchedulerService.getTodayTasks(userId);
       res.json(tasks);
     } catch (error) {
       console.error("Error fetching today's tasks:", error);
@@ -2650,10 +3098,10 @@ Remember: Every question you master brings you closer to your academic goals! Ke
     }
   });
 
-  app.get("/api/scheduler/upcoming/:userId", async (req, res) => {
+  app.get("/api/scheduler/upcoming/:userId", authorizeUser(), async (req, res) => {
     try {
       const { userId } = req.params;
-      const tasks = await storage.getUpcomingTasks(userId);
+      const tasks = await studySchedulerService.getUpcomingTasks(userId);
       res.json(tasks);
     } catch (error) {
       console.error("Error fetching upcoming tasks:", error);
@@ -2661,87 +3109,208 @@ Remember: Every question you master brings you closer to your academic goals! Ke
     }
   });
 
-  app.post("/api/scheduler/tasks", async (req, res) => {
+  app.get("/api/scheduler/availability/:userId", authorizeUser(), async (req, res) => {
     try {
-      const task = await storage.createScheduledTask(req.body);
-      res.json(task);
+      res.json(await studySchedulerService.getAvailability(req.params.userId));
+    } catch (error) {
+      console.error("Error fetching study availability:", error);
+      res.status(500).json({ message: "Failed to fetch study availability" });
+    }
+  });
+
+  app.put("/api/scheduler/availability/:userId", authorizeUser(), async (req, res) => {
+    try {
+      const result = await studySchedulerService.updateAvailability(req.params.userId, req.body);
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.json(result.data);
+    } catch (error) {
+      console.error("Error updating study availability:", error);
+      res.status(500).json({ message: "Failed to update study availability" });
+    }
+  });
+
+  // Week-ahead plan weighted to the weakest subjects; replaces earlier planner tasks not yet started
+  app.post("/api/scheduler/plan/:userId", authorizeUser(), async (req, res) => {
+    try {
+      const result = await studySchedulerService.planWeek(req.params.userId, { dailyMinutes: req.body?.dailyMinutes });
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.json(result.data);
+    } catch (error) {
+      console.error("Error planning study week:", error);
+      res.status(500).json({ message: "Failed to plan study week" });
+    }
+  });
+
+  app.post("/api/scheduler/tasks", authorizeUser(), async (req, res) => {
+    try {
+      const result = await studySchedulerService.create(req.body.userId, req.body);
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.json(result.data);
     } catch (error) {
       console.error("Error creating scheduled task:", error);
       res.status(500).json({ message: "Failed to create scheduled task" });
     }
   });
 
-  app.patch("/api/scheduler/tasks/:id", async (req, res) => {
+  app.patch("/api/scheduler/tasks/:id", authorizeResource((id) => storage.getStudySchedule(id)), async (req, res) => {
     try {
-      const { id } = req.params;
-      const task = await storage.updateScheduledTask(id, req.body);
-      res.json(task);
+      const task = await storage.getStudySchedule(req.params.id);
+      if (!task) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+
+      const result = await studySchedulerService.update(task, req.body);
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.json(result.data);
     } catch (error) {
       console.error("Error updating scheduled task:", error);
       res.status(500).json({ message: "Failed to update scheduled task" });
     }
   });
 
-  app.patch("/api/scheduler/tasks/:id/start", async (req, res) => {
+  app.patch("/api/scheduler/tasks/:id/start", authorizeResource((id) => storage.getStudySchedule(id)), async (req, res) => {
     try {
-      const { id } = req.params;
-      const task = await storage.startTask(id);
-      res.json(task);
+      const task = await storage.getStudySchedule(req.params.id);
+      if (!task) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+
+      const result = await studySchedulerService.start(task);
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.json(result.data);
     } catch (error) {
       console.error("Error starting task:", error);
       res.status(500).json({ message: "Failed to start task" });
     }
   });
 
-  app.patch("/api/scheduler/tasks/:id/complete", async (req, res) => {
+  app.patch("/api/scheduler/tasks/:id/complete", authorizeResource((id) => storage.getStudySchedule(id)), async (req, res) => {
     try {
-      const { id } = req.params;
-      const { performance } = req.body;
-      const task = await storage.completeTask(id, performance);
-      res.json(task);
+      const task = await storage.getStudySchedule(req.params.id);
+      if (!task) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+
+      const result = await studySchedulerService.complete(task, req.body?.performance);
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.json(result.data);
     } catch (error) {
       console.error("Error completing task:", error);
       res.status(500).json({ message: "Failed to complete task" });
     }
   });
 
-  app.patch("/api/scheduler/tasks/:id/skip", async (req, res) => {
+  app.patch("/api/scheduler/tasks/:id/skip", authorizeResource((id) => storage.getStudySchedule(id)), async (req, res) => {
     try {
-      const { id } = req.params;
-      const task = await storage.skipTask(id);
-      res.json(task);
+      const task = await storage.getStudySchedule(req.params.id);
+      if (!task) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+
+      const result = await studySchedulerService.skip(task);
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.json(result.data);
     } catch (error) {
       console.error("Error skipping task:", error);
       res.status(500).json({ message: "Failed to skip task" });
     }
   });
 
+  // Exam countdown plan: the signed-in student's active plan with how it is going, or null
+  app.get("/api/exam-plan", isAuthenticated, async (req, res) => {
+    try {
+      res.json(await examPlanService.getOverview(req.user!.id));
+    } catch (error) {
+      console.error("Error fetching exam plan:", error);
+      res.status(500).json({ message: "Failed to fetch exam plan" });
+    }
+  });
+
+  // Replaces the current plan and the sessions it still had to come
+  app.post("/api/exam-plan", isAuthenticated, async (req, res) => {
+    try {
+      const result = await examPlanService.create(req.user!, req.body);
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.json(result.data);
+    } catch (error) {
+      console.error("Error creating exam plan:", error);
+      res.status(500).json({ message: "Failed to create exam plan" });
+    }
+  });
+
+  app.post("/api/exam-plan/rebalance", isAuthenticated, async (req, res) => {
+    try {
+      const plan = await storage.getActiveExamPlan(req.user!.id);
+      if (!plan) {
+        return res.status(404).json({ message: "No active exam plan" });
+      }
+
+      await examPlanService.rebalance(plan);
+      res.json(await examPlanService.getOverview(req.user!.id));
+    } catch (error) {
+      console.error("Error rebalancing exam plan:", error);
+      res.status(500).json({ message: "Failed to rebalance exam plan" });
+    }
+  });
+
+  app.delete("/api/exam-plan", isAuthenticated, async (req, res) => {
+    try {
+      const cancelled = await examPlanService.cancel(req.user!.id);
+      if (!cancelled) {
+        return res.status(404).json({ message: "No active exam plan" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error cancelling exam plan:", error);
+      res.status(500).json({ message: "Failed to cancel exam plan" });
+    }
+  });
+
   // Focus Sessions API Routes
-  app.post("/api/focus/sessions", async (req, res) => {
+  app.post("/api/focus/sessions", authorizeUser(), async (req, res) => {
     try {
-      const session = await storage.createFocusSession(req.body);
-      res.json(session);
+      const result = await focusSessionService.create(req.body.userId, req.body);
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.json(result.data);
     } catch (error) {
       console.error("Error creating focus session:", error);
       res.status(500).json({ message: "Failed to create focus session" });
     }
   });
 
-  app.get("/api/focus/sessions/active/:userId", async (req, res) => {
+  app.get("/api/focus/sessions/active/:userId", authorizeUser(), async (req, res) => {
     try {
       const { userId } = req.params;
-      const session = await storage.getActiveFocusSession(userId);
-      res.json(session);
+      const session = await focusSessionService.getActive(userId);
+      res.json(session || null);
     } catch (error) {
       console.error("Error fetching active focus session:", error);
       res.status(500).json({ message: "Failed to fetch active focus session" });
     }
   });
 
-  app.get("/api/focus/sessions/history/:userId", async (req, res) => {
+  app.get("/api/focus/sessions/history/:userId", authorizeUser(), async (req, res) => {
     try {
       const { userId } = req.params;
-      const sessions = await storage.getFocusHistory(userId);
+      const sessions = await focusSessionService.getHistory(userId);
       res.json(sessions);
     } catch (error) {
       console.error("Error fetching focus history:", error);
@@ -2749,81 +3318,118 @@ Remember: Every question you master brings you closer to your academic goals! Ke
     }
   });
 
-  app.patch("/api/focus/sessions/:id", async (req, res) => {
+  app.patch("/api/focus/sessions/:id", authorizeResource((id) => storage.getFocusSession(id)), async (req, res) => {
     try {
-      const { id } = req.params;
-      const session = await storage.updateFocusSession(id, req.body);
-      res.json(session);
+      const session = await storage.getFocusSession(req.params.id);
+      if (!session) {
+        return res.status(404).json({ message: "Focus session not found" });
+      }
+
+      const result = await focusSessionService.update(session, req.body);
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.json(result.data);
     } catch (error) {
       console.error("Error updating focus session:", error);
       res.status(500).json({ message: "Failed to update focus session" });
     }
   });
 
-  app.patch("/api/focus/sessions/:id/start", async (req, res) => {
+  app.patch("/api/focus/sessions/:id/start", authorizeResource((id) => storage.getFocusSession(id)), async (req, res) => {
     try {
-      const { id } = req.params;
-      const session = await storage.startFocusSession(id);
-      res.json(session);
+      const session = await storage.getFocusSession(req.params.id);
+      if (!session) {
+        return res.status(404).json({ message: "Focus session not found" });
+      }
+
+      const result = await focusSessionService.start(session);
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.json(result.data);
     } catch (error) {
       console.error("Error starting focus session:", error);
       res.status(500).json({ message: "Failed to start focus session" });
     }
   });
 
-  app.patch("/api/focus/sessions/:id/pause", async (req, res) => {
+  app.patch("/api/focus/sessions/:id/pause", authorizeResource((id) => storage.getFocusSession(id)), async (req, res) => {
     try {
-      const { id } = req.params;
-      const session = await storage.pauseFocusSession(id);
-      res.json(session);
+      const session = await storage.getFocusSession(req.params.id);
+      if (!session) {
+        return res.status(404).json({ message: "Focus session not found" });
+      }
+
+      const result = await focusSessionService.pause(session);
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.json(result.data);
     } catch (error) {
       console.error("Error pausing focus session:", error);
       res.status(500).json({ message: "Failed to pause focus session" });
     }
   });
 
-  app.patch("/api/focus/sessions/:id/complete", async (req, res) => {
+  // Distraction signals from the browser: tab hidden, window blurred, or a section the session doesn't allow opened
+  app.post("/api/focus/sessions/:id/distractions", authorizeResource((id) => storage.getFocusSession(id)), async (req, res) => {
     try {
-      const { id } = req.params;
-      const { focusScore, distractionCount } = req.body;
-      const session = await storage.completeFocusSession(id, focusScore, distractionCount);
-      res.json(session);
+      const session = await storage.getFocusSession(req.params.id);
+      if (!session) {
+        return res.status(404).json({ message: "Focus session not found" });
+      }
+
+      const result = await focusSessionService.recordDistraction(session, req.body);
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      res.json(result.data);
     } catch (error) {
-      console.error("Error completing focus session:", error);
-      res.status(500).json({ message: "Failed to complete focus session" });
+      console.error("Error recording focus distraction:", error);
+      res.status(500).json({ message: "Failed to record focus distraction" });
     }
   });
 
-  // Study Insights API Routes
-  app.get("/api/insights/weekly/:userId", async (req, res) => {
+  app.patch("/api/focus/sessions/:id/complete", authorizeResource((id) => storage.getFocusSession(id)), async (req, res) => {
     try {
-      const { userId } = req.params;
-      const insights = await storage.getWeeklyInsights(userId);
-      res.json(insights);
+      const session = await storage.getFocusSession(req.params.id);
+      if (!session) {
+        return res.status(404).json({ message: "Focus session not found" });
+      }
+
+      const result = await focusSessionService.complete(session);
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      const completed = result.data;
+      res.json({ ...completed, unlockedBadges: await badgeService.getUnlockedSince(completed.userId, completed.completedAt!) });
     } catch (error) {
-      console.error("Error fetching weekly insights:", error);
-      res.status(500).json({ message: "Failed to fetch weekly insights" });
+      console.error("Error completing focus session:", error);
+      res.status(500).json({ message: "Failed to complete focus session" });
     }
   });
 
-  app.post("/api/insights", async (req, res) => {
+  // Study Insights API Routes
+  // Latest weekly insights; null until the first week has been worked out
+  app.get("/api/insights/weekly/:userId", authorizeUser(), async (req, res) => {
     try {
-      const insights = await storage.createStudyInsights(req.body);
+      const insights = await studyInsightsService.getLatest(req.params.userId);
       res.json(insights);
     } catch (error) {
-      console.error("Error creating study insights:", error);
-      res.status(500).json({ message: "Failed to create study insights" });
+      console.error("Error fetching weekly insights:", error);
+      res.status(500).json({ message: "Failed to fetch weekly insights" });
     }
   });
 
-  app.patch("/api/insights/:id", async (req, res) => {
+  // Work out this week's insights so far
+  app.post("/api/insights/weekly/:userId", authorizeUser(), async (req, res) => {
     try {
-      const { id } = req.params;
-      const insights = await storage.updateStudyInsights(id, req.body);
+      const insights = await studyInsightsService.refresh(req.params.userId);
       res.json(insights);
     } catch (error) {
-      console.error("Error updating study insights:", error);
-      res.status(500).json({ message: "Failed to update study insights" });
+      console.error("Error generating weekly insights:", error);
+      res.status(500).json({ message: "Failed to generate weekly insights" });
     }
   });
 
@@ -2832,35 +3438,24 @@ Remember: Every question you master brings you closer to your academic goals! Ke
   // =====================================
 
   // Initialize Paystack payment for CBT access
-  app.post("/api/payment/initialize", async (req, res) => {
+  app.post("/api/payment/initialize", authorizeUser(), async (req, res) => {
     try {
-      const { userId, email, amount = 300000 } = req.body; // Default ₦3000 in kobo
+      const { userId, email, planId = DEFAULT_PAYMENT_PLAN } = req.body;
       
       if (!userId || !email) {
         return res.status(400).json({ message: "User ID and email are required" });
       }
 
+      // The price comes from the plan, never from the client
+      const plan = getEntitlementPlan(planId);
+      if (!plan?.priceKobo) {
+        return res.status(400).json({ message: "This plan can't be bought online" });
+      }
+      const amount = plan.priceKobo;
+
+      // Without Paystack there is no way to take payment; access then comes from admin-issued unlock codes
       if (!process.env.PAYSTACK_SECRET_KEY) {
-        // Return manual unlock code for testing without Paystack
-        const unlockCode = `CBT-${Math.random().toString(36).substr(2, 8).toUpperCase()}`;
-        
-        const payment = await storage.createPayment({
-          userId,
-          paymentReference: `manual_${Date.now()}`,
-          amount,
-          email,
-          status: 'pending',
-          unlockCode,
-          paymentMethod: 'manual'
-        });
-        
-        return res.json({
-          success: true,
-          paymentMethod: 'manual',
-          unlockCode,
-          message: 'Use this unlock code to activate CBT access: ' + unlockCode,
-          paymentId: payment.id
-        });
+        return res.status(503).json({ message: "Online payment is not available. Please contact admin for an unlock code." });
       }
 
       // Create payment reference
@@ -2883,9 +3478,10 @@ Remember: Every question you master brings you closer to your academic goals! Ke
             custom_fields: [{
               display_name: "CBT Access",
               variable_name: "cbt_access",
-              value: "4-subject CBT examination access"
+              value: plan.name
             }],
-            userId
+            userId,
+            planId: plan.id
           },
           callback_url: `${req.protocol}://${req.get('host')}/payment/callback`
         })
@@ -2909,6 +3505,7 @@ Remember: Every question you master brings you closer to your academic goals! Ke
         amount,
         email,
         status: 'pending',
+        planId: plan.id,
         paymentMethod: 'paystack'
       });
 
@@ -2932,7 +3529,7 @@ Remember: Every question you master brings you closer to your academic goals! Ke
   });
 
   // Verify Paystack payment
-  app.post("/api/payment/verify", async (req, res) => {
+  app.post("/api/payment/verify", isAuthenticated, async (req, res) => {
     try {
       const { reference } = req.body;
       
@@ -2942,6 +3539,12 @@ Remember: Every question you master brings you closer to your academic goals! Ke
 
       console.log(`🔍 Verifying payment: ${reference}`);
 
+      const existingPayment = await storage.getPaymentByReference(reference);
+      if (!existingPayment) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      if (!ensureOwner(req, res, existingPayment.userId)) return;
+
       if (!process.env.PAYSTACK_SECRET_KEY) {
         return res.status(500).json({ message: "Paystack not configured" });
       }
@@ -2964,27 +3567,21 @@ Remember: Every question you master brings you closer to your academic goals! Ke
         throw new Error(`Paystack verification error: ${verifyData.message}`);
       }
 
-      // Update payment status
-      const payment = await storage.getPaymentByReference(reference);
-      if (!payment) {
-        throw new Error('Payment record not found');
-      }
-
       const isSuccessful = verifyData.data.status === 'success';
-      const unlockCode = isSuccessful ? `CBT-${Math.random().toString(36).substr(2, 8).toUpperCase()}` : undefined;
-      
-      await storage.updatePayment(payment.id, {
-        status: isSuccessful ? 'success' : 'failed',
-        unlockCode,
-        completedAt: new Date()
-      });
 
-      // If payment successful, activate user's premium status
-      if (isSuccessful && payment.userId) {
-        await storage.updateUser(payment.userId, {
-          isPremium: true
+      // A successful payment grants the plan it was for, once, even if the webhook got here first
+      let entitlement;
+      if (isSuccessful) {
+        const result = await paymentService.confirmCharge(reference, {
+          amount: verifyData.data.amount,
+          currency: verifyData.data.currency
         });
-        console.log(`✅ User ${payment.userId} activated as premium`);
+        if (result.status === 'rejected') {
+          return res.status(400).json({ success: false, message: result.reason });
+        }
+        entitlement = result.status === 'not_found' ? undefined : result.entitlement;
+      } else {
+        await paymentService.markFailed(existingPayment);
       }
 
       console.log(`✅ Payment verification complete: ${verifyData.data.status}`);
@@ -2992,9 +3589,9 @@ Remember: Every question you master brings you closer to your academic goals! Ke
       res.json({
         success: isSuccessful,
         status: verifyData.data.status,
-        unlockCode,
+        entitlement,
         message: isSuccessful ? 
-          'Payment successful! Use unlock code: ' + unlockCode :
+          'Payment successful! Your access has been activated.' :
           'Payment was not successful',
         amount: verifyData.data.amount,
         gatewayResponse: verifyData.data.gateway_response
@@ -3010,7 +3607,7 @@ Remember: Every question you master brings you closer to your academic goals! Ke
   });
 
   // Manual unlock code activation
-  app.post("/api/payment/activate-code", async (req, res) => {
+  app.post("/api/payment/activate-code", authorizeUser(), async (req, res) => {
     try {
       const { userId, unlockCode } = req.body;
       
@@ -3018,23 +3615,22 @@ Remember: Every question you master brings you closer to your academic goals! Ke
         return res.status(400).json({ message: "User ID and unlock code are required" });
       }
 
-      // Simple validation - in a real app you'd check against a database
-      const validCode = unlockCode.toUpperCase().startsWith('CBT-');
-      
-      if (!validCode) {
-        return res.status(400).json({ message: "Invalid unlock code format" });
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
 
-      // Activate user's premium status
-      await storage.updateUser(userId, {
-        isPremium: true
-      });
+      const result = await entitlementService.redeemCode(user, unlockCode);
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
 
       console.log(`✅ Manual unlock code activated for user ${userId}`);
 
       res.json({
         success: true,
-        message: 'CBT access activated successfully!'
+        message: 'CBT access activated successfully!',
+        access: result.access
       });
       
     } catch (error) {
@@ -3047,5 +3643,6 @@ Remember: Every question you master brings you closer to your academic goals! Ke
   });
 
   const httpServer = createServer(app);
+  registerCompetitionSocket(httpServer);
   return httpServer;
 }
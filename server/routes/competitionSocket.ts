@@ -0,0 +1,129 @@
+// WebSocket endpoint for live competitions. It shares the HTTP server and the session cookie with the
+// REST API and only relays: all game state and scoring live in competitionService.
+import { STATUS_CODES, type Server } from "http";
+import type { Duplex } from "stream";
+import { WebSocketServer, WebSocket } from "ws";
+import { authenticateUpgrade } from "../auth";
+import { competitionService } from "../services/competitionService";
+import {
+  COMPETITION_SOCKET_PATH,
+  type CompetitionClientMessage,
+  type CompetitionServerMessage,
+} from "@shared/competition";
+
+// Connections that don't answer a ping within this interval are dropped
+const HEARTBEAT_MS = 30 * 1000;
+
+interface Connection {
+  socket: WebSocket;
+  userId: string;
+  alive: boolean;
+}
+
+function send(socket: WebSocket, message: CompetitionServerMessage): void {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+function reject(socket: Duplex, status: number): void {
+  socket.write(`HTTP/1.1 ${status} ${STATUS_CODES[status]}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+export function registerCompetitionSocket(server: Server): void {
+  const wss = new WebSocketServer({ noServer: true });
+  const rooms = new Map<string, Set<Connection>>();
+
+  competitionService.subscribe((competitionId, message, userId) => {
+    rooms.get(competitionId)?.forEach(connection => {
+      if (!userId || connection.userId === userId) send(connection.socket, message);
+    });
+  });
+
+  server.on("upgrade", async (req, socket, head) => {
+    const url = new URL(req.url || "/", "http://localhost");
+    // Other upgrades, such as Vite's HMR socket in development, are left to their own handlers
+    if (url.pathname !== COMPETITION_SOCKET_PATH) return;
+
+    try {
+      const user = await authenticateUpgrade(req);
+      if (!user) return reject(socket, 401);
+
+      const competitionId = url.searchParams.get("competitionId");
+      if (!competitionId) return reject(socket, 400);
+
+      // Connecting to a competition that hasn't started joins it
+      const joined = await competitionService.join(competitionId, user.id);
+      if (!joined.success) return reject(socket, joined.status);
+
+      wss.handleUpgrade(req, socket, head, ws => onConnection(ws, competitionId, user.id));
+    } catch (error) {
+      console.error("Competition socket upgrade error:", error);
+      reject(socket, 500);
+    }
+  });
+
+  async function onConnection(socket: WebSocket, competitionId: string, userId: string) {
+    const connection: Connection = { socket, userId, alive: true };
+    rooms.set(competitionId, (rooms.get(competitionId) || new Set()).add(connection));
+    competitionService.playerConnected(competitionId, userId);
+
+    socket.on("pong", () => {
+      connection.alive = true;
+    });
+
+    socket.on("message", async (data) => {
+      let message: CompetitionClientMessage;
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        return send(socket, { type: "error", message: "Messages must be JSON" });
+      }
+
+      try {
+        if (message.type === "start") {
+          const result = await competitionService.start(competitionId, userId);
+          if (!result.success) send(socket, { type: "error", message: result.message });
+        } else if (message.type === "answer") {
+          const result = competitionService.submitAnswer(competitionId, userId, message.questionId, message.answer);
+          send(socket, result.success
+            ? { type: "answer_received", questionId: result.data.questionId }
+            : { type: "error", message: result.message });
+        } else {
+          send(socket, { type: "error", message: "Unknown message type" });
+        }
+      } catch (error) {
+        console.error("Competition socket message error:", error);
+        send(socket, { type: "error", message: "Something went wrong" });
+      }
+    });
+
+    socket.on("close", () => {
+      const room = rooms.get(competitionId);
+      room?.delete(connection);
+      if (room?.size === 0) rooms.delete(competitionId);
+      // A player with the competition open in another tab is still there
+      if (!Array.from(room || []).some(other => other.userId === userId)) {
+        competitionService.playerDisconnected(competitionId, userId);
+      }
+    });
+
+    try {
+      const snapshot = await competitionService.getSnapshot(competitionId, userId);
+      if (snapshot) send(socket, snapshot);
+    } catch (error) {
+      console.error("Error sending competition state:", error);
+    }
+  }
+
+  const heartbeat = setInterval(() => {
+    rooms.forEach(room => room.forEach(connection => {
+      if (!connection.alive) return connection.socket.terminate();
+      connection.alive = false;
+      connection.socket.ping();
+    }));
+  }, HEARTBEAT_MS);
+  heartbeat.unref();
+  wss.on("close", () => clearInterval(heartbeat));
+}
@@ -0,0 +1,82 @@
+// Local stand-in for Paystack's webhook delivery: signs sample event payloads with PAYSTACK_SECRET_KEY
+// and posts them to the webhook endpoint, so fulfillment can be exercised without a real charge.
+//
+//   PAYSTACK_SECRET_KEY=sk_test_... npm run paystack:replay -- charge.success <paymentReference> [amountKobo]
+//
+// Options: --url <webhook url> (default http://localhost:5000/api/payments/webhook),
+// --times <n> to deliver the same payload repeatedly, --bad-signature to check that forged calls are refused.
+import crypto from "crypto";
+import type { PaystackWebhookEvent } from "../services/paystackService";
+
+const SAMPLE_EVENTS: Record<string, (reference: string, amount: number) => PaystackWebhookEvent> = {
+  'charge.success': (reference, amount) => ({
+    event: 'charge.success',
+    data: {
+      id: 302961,
+      domain: 'test',
+      status: 'success',
+      reference,
+      amount,
+      currency: 'NGN',
+      gateway_response: 'Successful',
+      paid_at: new Date().toISOString(),
+      channel: 'card',
+      customer: { email: 'student@example.com', customer_code: 'CUS_standin' },
+    },
+  }),
+  'refund.pending': (reference, amount) => ({
+    event: 'refund.pending',
+    data: { id: 1101, status: 'pending', transaction_reference: reference, amount: String(amount), currency: 'NGN' },
+  }),
+  'refund.processed': (reference, amount) => ({
+    event: 'refund.processed',
+    data: { id: 1101, status: 'processed', transaction_reference: reference, amount: String(amount), currency: 'NGN' },
+  }),
+};
+
+function readOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  if (index === -1) return undefined;
+  const [, value] = args.splice(index, 2);
+  return value;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const url = readOption(args, '--url') || 'http://localhost:5000/api/payments/webhook';
+  const times = Math.max(1, parseInt(readOption(args, '--times') || '1'));
+  const badSignature = args.includes('--bad-signature');
+  const [eventName, reference, amount = '300000'] = args.filter(arg => arg !== '--bad-signature');
+
+  const buildEvent = SAMPLE_EVENTS[eventName];
+  if (!buildEvent || !reference) {
+    console.error(`Usage: replayPaystackWebhook <${Object.keys(SAMPLE_EVENTS).join('|')}> <paymentReference> [amountKobo]`);
+    process.exit(1);
+  }
+
+  const secretKey = process.env.PAYSTACK_SECRET_KEY;
+  if (!secretKey) {
+    console.error('PAYSTACK_SECRET_KEY must be set to the key the server is running with');
+    process.exit(1);
+  }
+
+  const body = JSON.stringify(buildEvent(reference, parseInt(amount)));
+  const signature = crypto
+    .createHmac('sha512', badSignature ? `${secretKey}-forged` : secretKey)
+    .update(body)
+    .digest('hex');
+
+  for (let delivery = 1; delivery <= times; delivery++) {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-paystack-signature': signature },
+      body,
+    });
+    console.log(`📨 ${eventName} delivery ${delivery}/${times}: ${response.status} ${await response.text()}`);
+  }
+}
+
+main().catch(error => {
+  console.error('Webhook replay failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,260 @@
+// Routes AI requests through a configurable chain of providers with per-provider timeouts,
+// retries and circuit breaking, recording provider, latency and token usage for every attempt
+import { storage } from "../storage";
+import { createDefaultProviders, type AIProvider, type AIProviderResult, type AIRequest } from "./aiProviders";
+
+export type AITask = 'chat' | 'explanation' | 'study-plan' | 'quiz' | 'notes';
+
+export interface AIGenerateOptions {
+  task: AITask;
+  // Provider to try first; the rest of the configured order follows as fallbacks
+  preferred?: string;
+  userId?: string;
+  // Aborting stops the provider call and the rest of the chain, e.g. when the client has gone away
+  signal?: AbortSignal;
+}
+
+export interface AIGeneration {
+  text: string;
+  provider: string;
+  model: string;
+  latencyMs: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface AIRegistryConfig {
+  order: string[];
+  timeoutMs: number;
+  providerTimeoutMs: Record<string, number>;
+  maxRetries: number;
+  circuitFailureThreshold: number;
+  circuitResetMs: number;
+}
+
+interface CircuitState {
+  consecutiveFailures: number;
+  openUntil: number;
+}
+
+// Usage from calls not tied to a signed-in user is accounted under this id
+const SYSTEM_USAGE_USER = 'system';
+
+function parseNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * Read the registry settings from the environment:
+ * AI_PROVIDER_ORDER (comma separated), AI_TIMEOUT_MS, AI_TIMEOUT_MS_<PROVIDER>, AI_MAX_RETRIES,
+ * AI_CIRCUIT_FAILURE_THRESHOLD, AI_CIRCUIT_RESET_MS. AI_OFFLINE=true uses only the stub provider.
+ */
+export function loadRegistryConfig(env: NodeJS.ProcessEnv = process.env): AIRegistryConfig {
+  const order = env.AI_OFFLINE === 'true'
+    ? ['stub']
+    : (env.AI_PROVIDER_ORDER || 'groq,gemini,gpt4,grok,kaiz').split(',').map(name => name.trim()).filter(Boolean);
+
+  const providerTimeoutMs: Record<string, number> = {};
+  for (const [key, value] of Object.entries(env)) {
+    const match = key.match(/^AI_TIMEOUT_MS_(\w+)$/);
+    if (match) providerTimeoutMs[match[1].toLowerCase()] = parseNumber(value, 0);
+  }
+
+  return {
+    order,
+    timeoutMs: parseNumber(env.AI_TIMEOUT_MS, 30000),
+    providerTimeoutMs,
+    maxRetries: parseNumber(env.AI_MAX_RETRIES, 1),
+    circuitFailureThreshold: parseNumber(env.AI_CIRCUIT_FAILURE_THRESHOLD, 3),
+    circuitResetMs: parseNumber(env.AI_CIRCUIT_RESET_MS, 60000),
+  };
+}
+
+export class AIProviderRegistry {
+  private providers = new Map<string, AIProvider>();
+  private circuits = new Map<string, CircuitState>();
+
+  constructor(providers: AIProvider[], private config: AIRegistryConfig) {
+    providers.forEach(provider => this.register(provider));
+  }
+
+  register(provider: AIProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  configure(updates: Partial<AIRegistryConfig>): void {
+    this.config = { ...this.config, ...updates };
+  }
+
+  /**
+   * Current health of each provider in the chain, for admin diagnostics
+   */
+  getStatus(): Array<{ name: string; configured: boolean; circuitOpen: boolean; consecutiveFailures: number }> {
+    return this.config.order
+      .filter(name => this.providers.has(name))
+      .map(name => {
+        const circuit = this.circuits.get(name);
+        return {
+          name,
+          configured: this.providers.get(name)!.isConfigured(),
+          circuitOpen: this.isCircuitOpen(name),
+          consecutiveFailures: circuit?.consecutiveFailures || 0,
+        };
+      });
+  }
+
+  /**
+   * Generate a response from the first provider in the chain that succeeds.
+   * Unconfigured providers and ones with an open circuit are skipped.
+   */
+  async generate(request: AIRequest, options: AIGenerateOptions): Promise<AIGeneration> {
+    return await this.runChain(options, (provider, signal) => provider.generate(request, signal));
+  }
+
+  /**
+   * Like generate, but passes the response to onChunk as it arrives.
+   * Falling back or retrying only happens before the first chunk; once text has been sent a failure is final.
+   */
+  async generateStream(request: AIRequest, options: AIGenerateOptions, onChunk: (text: string) => void): Promise<AIGeneration> {
+    let streamed = false;
+    const emit = (text: string) => {
+      streamed = true;
+      onChunk(text);
+    };
+
+    return await this.runChain(options, async (provider, signal) => {
+      if (provider.stream) {
+        return await provider.stream(request, signal, emit);
+      }
+      const result = await provider.generate(request, signal);
+      emit(result.text);
+      return result;
+    }, () => !streamed);
+  }
+
+  private async runChain(
+    options: AIGenerateOptions,
+    run: (provider: AIProvider, signal: AbortSignal) => Promise<AIProviderResult>,
+    canContinue: () => boolean = () => true,
+  ): Promise<AIGeneration> {
+    const chain = this.buildChain(options.preferred);
+    if (chain.length === 0) {
+      throw new Error(`No AI provider available for ${options.task}`);
+    }
+
+    const errors: string[] = [];
+    for (const provider of chain) {
+      try {
+        return await this.runWithRetries(provider, options, run, canContinue);
+      } catch (error) {
+        if (!canContinue() || options.signal?.aborted) throw error;
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`⚠️ AI provider ${provider.name} failed for ${options.task}: ${message}`);
+        errors.push(`${provider.name}: ${message}`);
+      }
+    }
+
+    throw new Error(`All AI providers failed for ${options.task} (${errors.join('; ')})`);
+  }
+
+  private buildChain(preferred?: string): AIProvider[] {
+    const names = preferred ? [preferred, ...this.config.order.filter(name => name !== preferred)] : this.config.order;
+    return names
+      .map(name => this.providers.get(name))
+      .filter((provider): provider is AIProvider => !!provider && provider.isConfigured() && !this.isCircuitOpen(provider.name));
+  }
+
+  private async runWithRetries(
+    provider: AIProvider,
+    options: AIGenerateOptions,
+    run: (provider: AIProvider, signal: AbortSignal) => Promise<AIProviderResult>,
+    canContinue: () => boolean,
+  ): Promise<AIGeneration> {
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt <= this.config.maxRetries && (attempt === 0 || canContinue()); attempt++) {
+      if (attempt > 0) {
+        await new Promise(resolve => setTimeout(resolve, 500 * attempt));
+      }
+
+      const startedAt = Date.now();
+      try {
+        const result = await this.withTimeout(provider, run, options.signal);
+        const generation: AIGeneration = { ...result, provider: provider.name, latencyMs: Date.now() - startedAt };
+        this.recordSuccess(provider.name);
+        this.recordUsage(options, generation, true);
+        return generation;
+      } catch (error) {
+        // A call the caller abandoned says nothing about the provider's health
+        if (options.signal?.aborted) throw error;
+        lastError = error;
+        this.recordUsage(options, { provider: provider.name, latencyMs: Date.now() - startedAt, inputTokens: 0, outputTokens: 0 }, false);
+      }
+    }
+
+    this.recordFailure(provider.name);
+    throw lastError;
+  }
+
+  private async withTimeout(
+    provider: AIProvider,
+    run: (provider: AIProvider, signal: AbortSignal) => Promise<AIProviderResult>,
+    callerSignal?: AbortSignal,
+  ) {
+    if (callerSignal?.aborted) throw new Error("Aborted by caller");
+
+    const timeoutMs = this.config.providerTimeoutMs[provider.name] || this.config.timeoutMs;
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    let onAbort: (() => void) | undefined;
+
+    // Providers are given the signal, but the race also covers any that ignore it
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new Error(`Timed out after ${timeoutMs}ms`));
+      }, timeoutMs);
+      onAbort = () => {
+        controller.abort();
+        reject(new Error("Aborted by caller"));
+      };
+      callerSignal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+    try {
+      return await Promise.race([run(provider, controller.signal), timeout]);
+    } finally {
+      clearTimeout(timer);
+      if (onAbort) callerSignal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  private isCircuitOpen(name: string): boolean {
+    const circuit = this.circuits.get(name);
+    return !!circuit && circuit.openUntil > Date.now();
+  }
+
+  private recordSuccess(name: string): void {
+    this.circuits.delete(name);
+  }
+
+  // Once a provider has failed enough calls in a row it is skipped until the reset period passes;
+  // the next call after that is a trial, and another failure opens the circuit again straight away
+  private recordFailure(name: string): void {
+    const circuit = this.circuits.get(name) || { consecutiveFailures: 0, openUntil: 0 };
+    circuit.consecutiveFailures++;
+    if (circuit.consecutiveFailures >= this.config.circuitFailureThreshold) {
+      circuit.openUntil = Date.now() + this.config.circuitResetMs;
+      console.warn(`🔌 AI provider ${name} circuit opened for ${this.config.circuitResetMs}ms after ${circuit.consecutiveFailures} failures`);
+    }
+    this.circuits.set(name, circuit);
+  }
+
+  private recordUsage(options: AIGenerateOptions, usage: Pick<AIGeneration, 'provider' | 'latencyMs' | 'inputTokens' | 'outputTokens'>, success: boolean): void {
+    storage.recordAIUsage(options.userId || SYSTEM_USAGE_USER, { ...usage, task: options.task, success })
+      .catch(error => console.error("Error recording AI usage:", error));
+  }
+}
+
+export const aiProviderRegistry = new AIProviderRegistry(createDefaultProviders(), loadRegistryConfig());
@@ -0,0 +1,322 @@
+// AI providers behind a common interface so the registry can pick, time out and fall back between them
+import { GoogleGenAI } from "@google/genai";
+import OpenAI from "openai";
+
+export interface AIChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface AIRequest {
+  prompt: string;
+  systemPrompt?: string;
+  // Earlier turns of a conversation, oldest first, sent ahead of the prompt
+  history?: AIChatTurn[];
+  // Ask for a JSON object; responseSchema is passed to providers that support structured output
+  json?: boolean;
+  responseSchema?: unknown;
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface AIProviderResult {
+  text: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface AIProvider {
+  readonly name: string;
+  isConfigured(): boolean;
+  generate(request: AIRequest, signal: AbortSignal): Promise<AIProviderResult>;
+  // Optional incremental output; providers without it are streamed as a single chunk by the registry
+  stream?(request: AIRequest, signal: AbortSignal, onChunk: (text: string) => void): Promise<AIProviderResult>;
+}
+
+const KAIZ_BASE_URL = "https://kaiz-apis.gleeze.com/api";
+const KAIZ_API_KEY = process.env.KAIZ_API_KEY || "a0ebe80e-bf1a-4dbf-8d36-6935b1bfa5ea";
+
+/**
+ * Rough token count for providers that don't report usage (about four characters per token)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Single-string form for providers that take one prompt, with any history as a transcript
+function joinPrompt(request: AIRequest): string {
+  const transcript = (request.history || [])
+    .map(turn => `${turn.role === 'user' ? 'Student' : 'Assistant'}: ${turn.content}`)
+    .join('\n\n');
+  return [request.systemPrompt, transcript ? `Conversation so far:\n${transcript}` : '', request.prompt]
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+function chatMessages(request: AIRequest): OpenAI.Chat.ChatCompletionMessageParam[] {
+  return [
+    ...(request.systemPrompt ? [{ role: "system" as const, content: request.systemPrompt }] : []),
+    ...(request.history || []).map(turn => ({ role: turn.role, content: turn.content })),
+    { role: "user" as const, content: request.prompt },
+  ];
+}
+
+// Kaiz responses sometimes stutter repeated words and stray whitespace
+function cleanKaizResponse(text: string): string {
+  return text
+    .replace(/(\b\w+\b)(\s+\1\b)+/gi, '$1')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+class GeminiProvider implements AIProvider {
+  readonly name = 'gemini';
+  private readonly model = "gemini-2.5-flash";
+  private client = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || "" });
+
+  isConfigured(): boolean {
+    return !!process.env.GEMINI_API_KEY;
+  }
+
+  async generate(request: AIRequest, signal: AbortSignal): Promise<AIProviderResult> {
+    const response = await this.client.models.generateContent(this.buildParams(request, signal));
+
+    if (!response.text) {
+      throw new Error('Empty response from Gemini API');
+    }
+    return {
+      text: response.text,
+      model: this.model,
+      inputTokens: response.usageMetadata?.promptTokenCount ?? estimateTokens(joinPrompt(request)),
+      outputTokens: response.usageMetadata?.candidatesTokenCount ?? estimateTokens(response.text),
+    };
+  }
+
+  async stream(request: AIRequest, signal: AbortSignal, onChunk: (text: string) => void): Promise<AIProviderResult> {
+    const stream = await this.client.models.generateContentStream(this.buildParams(request, signal));
+    let text = '';
+    let inputTokens: number | undefined;
+    let outputTokens: number | undefined;
+
+    for await (const chunk of stream) {
+      if (chunk.text) {
+        text += chunk.text;
+        onChunk(chunk.text);
+      }
+      inputTokens = chunk.usageMetadata?.promptTokenCount ?? inputTokens;
+      outputTokens = chunk.usageMetadata?.candidatesTokenCount ?? outputTokens;
+    }
+
+    if (!text) {
+      throw new Error('Empty response from Gemini API');
+    }
+    return {
+      text,
+      model: this.model,
+      inputTokens: inputTokens ?? estimateTokens(joinPrompt(request)),
+      outputTokens: outputTokens ?? estimateTokens(text),
+    };
+  }
+
+  private buildParams(request: AIRequest, signal: AbortSignal) {
+    return {
+      model: this.model,
+      contents: [
+        ...(request.history || []).map(turn => ({ role: turn.role === 'assistant' ? 'model' : 'user', parts: [{ text: turn.content }] })),
+        { role: 'user', parts: [{ text: request.prompt }] },
+      ],
+      config: {
+        abortSignal: signal,
+        ...(request.systemPrompt ? { systemInstruction: request.systemPrompt } : {}),
+        ...(request.json ? { responseMimeType: "application/json" } : {}),
+        ...(request.json && request.responseSchema ? { responseSchema: request.responseSchema } : {}),
+        ...(request.maxTokens ? { maxOutputTokens: request.maxTokens } : {}),
+        ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      },
+    };
+  }
+}
+
+// OpenAI-compatible chat completions, used for both OpenAI and xAI Grok
+class OpenAICompatibleProvider implements AIProvider {
+  private client: OpenAI;
+
+  constructor(
+    readonly name: string,
+    private readonly model: string,
+    private readonly apiKeyEnv: string,
+    baseURL?: string,
+  ) {
+    this.client = new OpenAI({ apiKey: process.env[apiKeyEnv] || "", baseURL });
+  }
+
+  isConfigured(): boolean {
+    return !!process.env[this.apiKeyEnv];
+  }
+
+  async generate(request: AIRequest, signal: AbortSignal): Promise<AIProviderResult> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: chatMessages(request),
+      max_tokens: request.maxTokens ?? 2000,
+      temperature: request.temperature ?? 0.7,
+      ...(request.json ? { response_format: { type: "json_object" as const } } : {}),
+    }, { signal });
+
+    const content = response.choices[0]?.message.content;
+    if (!content) {
+      throw new Error(`Empty response from ${this.name} API`);
+    }
+    return {
+      text: content,
+      model: this.model,
+      inputTokens: response.usage?.prompt_tokens ?? estimateTokens(joinPrompt(request)),
+      outputTokens: response.usage?.completion_tokens ?? estimateTokens(content),
+    };
+  }
+
+  async stream(request: AIRequest, signal: AbortSignal, onChunk: (text: string) => void): Promise<AIProviderResult> {
+    const stream = await this.client.chat.completions.create({
+      model: this.model,
+      messages: chatMessages(request),
+      max_tokens: request.maxTokens ?? 2000,
+      temperature: request.temperature ?? 0.7,
+      stream: true,
+      stream_options: { include_usage: true },
+    }, { signal });
+
+    let text = '';
+    let usage: OpenAI.CompletionUsage | undefined;
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onChunk(delta);
+      }
+      usage = chunk.usage ?? usage;
+    }
+
+    if (!text) {
+      throw new Error(`Empty response from ${this.name} API`);
+    }
+    return {
+      text,
+      model: this.model,
+      inputTokens: usage?.prompt_tokens ?? estimateTokens(joinPrompt(request)),
+      outputTokens: usage?.completion_tokens ?? estimateTokens(text),
+    };
+  }
+}
+
+// Kaiz-hosted endpoints take the whole prompt as a query parameter and report no token usage
+class KaizProvider implements AIProvider {
+  constructor(
+    readonly name: string,
+    private readonly endpoint: string,
+    private readonly model: string,
+    private readonly extraParams: Record<string, string> = {},
+  ) {}
+
+  isConfigured(): boolean {
+    return !!KAIZ_API_KEY;
+  }
+
+  async generate(request: AIRequest, signal: AbortSignal): Promise<AIProviderResult> {
+    const prompt = joinPrompt(request);
+    const params = new URLSearchParams({ ask: prompt, uid: "1268", ...this.extraParams, apikey: KAIZ_API_KEY });
+    const response = await fetch(`${KAIZ_BASE_URL}/${this.endpoint}?${params}`, { signal });
+
+    if (!response.ok) {
+      throw new Error(`Kaiz ${this.endpoint} API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    if (data.error) {
+      throw new Error(`Kaiz ${this.endpoint} API error: ${data.error}`);
+    }
+    if (!data.response) {
+      throw new Error(`No response from Kaiz ${this.endpoint} API`);
+    }
+
+    // JSON output must keep its structure, so only free text is cleaned up
+    const text = request.json ? String(data.response).trim() : cleanKaizResponse(String(data.response));
+    return {
+      text,
+      model: this.model,
+      inputTokens: estimateTokens(prompt),
+      outputTokens: estimateTokens(text),
+    };
+  }
+}
+
+/**
+ * Offline provider with canned, deterministic responses for local development and tests.
+ * JSON requests get a small valid quiz so callers that parse structured output still work.
+ */
+export class StubProvider implements AIProvider {
+  readonly name = 'stub';
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async generate(request: AIRequest): Promise<AIProviderResult> {
+    const text = request.json ? this.jsonResponse() : this.textResponse(request.prompt);
+    return {
+      text,
+      model: 'stub',
+      inputTokens: estimateTokens(joinPrompt(request)),
+      outputTokens: estimateTokens(text),
+    };
+  }
+
+  async stream(request: AIRequest, _signal: AbortSignal, onChunk: (text: string) => void): Promise<AIProviderResult> {
+    const result = await this.generate(request);
+    for (const word of result.text.match(/\S+\s*/g) || []) {
+      onChunk(word);
+    }
+    return result;
+  }
+
+  private textResponse(prompt: string): string {
+    const excerpt = prompt.replace(/\s+/g, ' ').trim().slice(-120);
+    return `[offline AI] This is a placeholder response generated without contacting an AI provider. You asked about: "${excerpt}"`;
+  }
+
+  private jsonResponse(): string {
+    return JSON.stringify({
+      questions: [{
+        question: "Which of these is a placeholder question produced by the offline AI provider?",
+        options: [
+          { id: "A", text: "This one" },
+          { id: "B", text: "Not this one" },
+          { id: "C", text: "Neither of these" },
+          { id: "D", text: "None of the above" },
+        ],
+        correctAnswer: "A",
+        explanation: "The offline provider always returns this question so the quiz flow can run without an API key.",
+      }],
+      note: {
+        title: "Placeholder note from the offline AI provider",
+        content: "The offline provider always returns this note so note generation can run without an API key. Configure an AI provider to get real notes.",
+        keyPoints: ["This note is a placeholder", "No AI provider was contacted", "Set an AI provider API key for real notes"],
+        formulas: [],
+        examples: ["Generating a note with AI_OFFLINE=true"],
+        examRelevance: 5,
+        tags: ["offline"],
+      },
+    });
+  }
+}
+
+export function createDefaultProviders(): AIProvider[] {
+  return [
+    new KaizProvider('groq', 'groq-completions', 'llama-3.3-70b-versatile', { model: 'llama-3.3-70b-versatile' }),
+    new GeminiProvider(),
+    new OpenAICompatibleProvider('gpt4', 'gpt-4o', 'OPENAI_API_KEY'),
+    new OpenAICompatibleProvider('grok', 'grok-2-1212', 'XAI_API_KEY', "https://api.x.ai/v1"),
+    new KaizProvider('kaiz', 'kaiz-ai', 'kaiz-ai'),
+    new StubProvider(),
+  ];
+}
@@ -1,17 +1,135 @@
-import { GoogleGenAI } from "@google/genai";
-import OpenAI from "openai";
-
-// Initialize AI clients
-const gemini = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || "" });
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY || "" });
-const grok = new OpenAI({ 
-  baseURL: "https://api.x.ai/v1", 
-  apiKey: process.env.XAI_API_KEY || "" 
+import { Type } from "@google/genai";
+import { z } from "zod";
+import { aiProviderRegistry, type AIGeneration } from "./aiProviderRegistry";
+import type { AIChatTurn } from "./aiProviders";
+
+const QUIZ_OPTION_IDS = ['A', 'B', 'C', 'D'] as const;
+const MAX_QUIZ_ATTEMPTS = 3;
+const MAX_QUIZ_CONTENT_LENGTH = 12000;
+const MAX_NOTE_ATTEMPTS = 2;
+
+export interface QuizGenerationRequest {
+  subject: string;
+  topic: string;
+  content: string;
+  difficulty?: string;
+  count: number;
+}
+
+// One multiple-choice question: four distinct options, exactly one correct, with an explanation
+const generatedQuizQuestionSchema = z.object({
+  question: z.string().trim().min(10, "question text is too short"),
+  options: z.array(z.object({
+    id: z.string().trim().toUpperCase().pipe(z.enum(QUIZ_OPTION_IDS)),
+    text: z.string().trim().min(1, "option text is empty"),
+  })).length(QUIZ_OPTION_IDS.length, "there must be exactly 4 options"),
+  correctAnswer: z.string().trim().toUpperCase().pipe(z.enum(QUIZ_OPTION_IDS)),
+  explanation: z.string().trim().min(20, "explanation is missing or too short"),
+}).superRefine((q, ctx) => {
+  if (new Set(q.options.map(o => o.id)).size !== q.options.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "option ids must be A, B, C and D exactly once" });
+  }
+  if (new Set(q.options.map(o => o.text.toLowerCase())).size !== q.options.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "options must be distinct" });
+  }
+  if (!q.options.some(o => o.id === q.correctAnswer)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "correctAnswer must name one of the options" });
+  }
 });
 
-export class AIService {
-  async generateChatResponse(message: string, aiModel: string = 'groq'): Promise<string> {
-    const systemPrompt = `You are UTME AI, created by broken vzn - a friendly, conversational AI tutor for Nigerian students!
+export type GeneratedQuizQuestion = z.infer<typeof generatedQuizQuestionSchema>;
+
+export interface ShortNoteAIRequest {
+  subject: string;
+  topic: string;
+  difficulty?: string;
+  // Questions the student had explained, to build the note around
+  sourceQuestions?: Array<{ question: string; correctAnswer: string; explanation: string }>;
+}
+
+// A revision note: a summary plus the key points, formulas and worked examples worth memorising
+const generatedShortNoteSchema = z.object({
+  title: z.string().trim().min(3, "title is missing").max(200),
+  content: z.string().trim().min(50, "content is missing or too short"),
+  keyPoints: z.array(z.string().trim().min(1)).min(3, "there must be at least 3 key points").max(12),
+  formulas: z.array(z.object({
+    formula: z.string().trim().min(1),
+    description: z.string().trim().min(1),
+  })).max(10).default([]),
+  examples: z.array(z.string().trim().min(1)).max(6).default([]),
+  examRelevance: z.coerce.number().int().min(1).max(10).catch(5),
+  tags: z.array(z.string().trim().toLowerCase().min(1)).max(8).default([]),
+});
+
+export type GeneratedShortNote = z.infer<typeof generatedShortNoteSchema>;
+
+// Gemini structured-output schema mirroring generatedQuizQuestionSchema
+const quizResponseSchema = {
+  type: Type.OBJECT,
+  properties: {
+    questions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          question: { type: Type.STRING },
+          options: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                id: { type: Type.STRING, enum: [...QUIZ_OPTION_IDS] },
+                text: { type: Type.STRING },
+              },
+              required: ['id', 'text'],
+            },
+          },
+          correctAnswer: { type: Type.STRING, enum: [...QUIZ_OPTION_IDS] },
+          explanation: { type: Type.STRING },
+        },
+        required: ['question', 'options', 'correctAnswer', 'explanation'],
+      },
+    },
+  },
+  required: ['questions'],
+};
+
+// Gemini structured-output schema mirroring generatedShortNoteSchema
+const shortNoteResponseSchema = {
+  type: Type.OBJECT,
+  properties: {
+    note: {
+      type: Type.OBJECT,
+      properties: {
+        title: { type: Type.STRING },
+        content: { type: Type.STRING },
+        keyPoints: { type: Type.ARRAY, items: { type: Type.STRING } },
+        formulas: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              formula: { type: Type.STRING },
+              description: { type: Type.STRING },
+            },
+            required: ['formula', 'description'],
+          },
+        },
+        examples: { type: Type.ARRAY, items: { type: Type.STRING } },
+        examRelevance: { type: Type.INTEGER },
+        tags: { type: Type.ARRAY, items: { type: Type.STRING } },
+      },
+      required: ['title', 'content', 'keyPoints', 'formulas', 'examples', 'examRelevance', 'tags'],
+    },
+  },
+  required: ['note'],
+};
+
+// Shared persona for explanation and study plan requests
+const EDUCATION_SYSTEM_PROMPT = "You are UTME AI, created by broken vzn for educational purposes. You are an expert Nigerian education assistant specializing in JAMB, WAEC, NECO, and POST-UTME preparation. Provide comprehensive, detailed educational content that truly helps Nigerian students learn and excel.";
+
+// Persona for the UTME AI chatbot
+const CHAT_SYSTEM_PROMPT = `You are UTME AI, created by broken vzn - a friendly, conversational AI tutor for Nigerian students!
 
 YOUR PERSONALITY:
 - Chat naturally like a helpful friend who's really good at academics
@@ -41,29 +159,63 @@ RESPONSE LENGTH:
 - For explanations: 2-4 paragraphs max
 - For practice questions: Brief setup + question + encouraging note
 
-Student says: ${message}
-
 Respond naturally and helpfully! 🚀`;
 
+export class AIService {
+  async generateChatResponse(message: string, aiModel: string = 'groq', userId?: string, history: AIChatTurn[] = []): Promise<AIGeneration> {
     try {
-      switch (aiModel) {
-        case 'groq':
-        case 'grok':
-          return await this.generateWithGroq(systemPrompt, message);
-        case 'gemini':
-          return await this.generateWithGemini(`${systemPrompt}\n\nStudent: ${message}`);
-        case 'gpt4':
-          return await this.generateWithOpenAI(`${systemPrompt}\n\nStudent: ${message}`);
-        default:
-          return await this.generateWithGroq(systemPrompt, message);
-      }
+      return await aiProviderRegistry.generate(
+        { systemPrompt: CHAT_SYSTEM_PROMPT, history, prompt: message },
+        { task: 'chat', preferred: aiModel, userId }
+      );
     } catch (error) {
       console.error(`Error generating chat response with ${aiModel}:`, error);
       throw new Error('Failed to generate AI response');
     }
   }
 
-  async generateStudyPlan(subject: string, topic: string, aiModel: string = 'gemini'): Promise<string> {
+  /**
+   * Stream a chat reply, with earlier turns of the conversation as context
+   */
+  async streamChatResponse(
+    message: string,
+    history: AIChatTurn[],
+    onChunk: (text: string) => void,
+    aiModel: string = 'groq',
+    userId?: string,
+    signal?: AbortSignal
+  ): Promise<AIGeneration> {
+    return await aiProviderRegistry.generateStream(
+      { systemPrompt: CHAT_SYSTEM_PROMPT, history, prompt: message },
+      { task: 'chat', preferred: aiModel, userId, signal },
+      onChunk
+    );
+  }
+
+  /**
+   * Short title for a conversation, based on its opening message
+   */
+  async generateConversationTitle(message: string, userId?: string): Promise<string> {
+    const fallback = message.replace(/\s+/g, ' ').trim().slice(0, 50) || 'New Conversation';
+
+    try {
+      const result = await aiProviderRegistry.generate(
+        {
+          prompt: `Write a title of at most 6 words for a study chat that starts with this message. Reply with the title only, no quotes.\n\nMessage: ${message.slice(0, 500)}`,
+          maxTokens: 30,
+          temperature: 0.3,
+        },
+        { task: 'chat', userId }
+      );
+      const title = result.text.split('\n')[0].replace(/^["'#*\s]+|["'*\s.]+$/g, '').slice(0, 80);
+      return title || fallback;
+    } catch (error) {
+      console.error("Error generating conversation title:", error);
+      return fallback;
+    }
+  }
+
+  async generateStudyPlan(subject: string, topic: string, aiModel: string = 'gemini', userId?: string): Promise<string> {
     const prompt = `Create a comprehensive study plan for ${topic} in ${subject}. 
 
     Include:
@@ -78,16 +230,11 @@ Respond naturally and helpfully! 🚀`;
     Format the response in markdown for easy reading. Make it engaging and educational for POST UTME students.`;
 
     try {
-      switch (aiModel) {
-        case 'gemini':
-          return await this.generateWithGemini(prompt);
-        case 'gpt4':
-          return await this.generateWithOpenAI(prompt);
-        case 'grok':
-          return await this.generateWithGrok(prompt);
-        default:
-          return await this.generateWithGemini(prompt);
-      }
+      const result = await aiProviderRegistry.generate(
+        { systemPrompt: EDUCATION_SYSTEM_PROMPT, prompt },
+        { task: 'study-plan', preferred: aiModel, userId }
+      );
+      return result.text;
     } catch (error) {
       console.error(`Error generating study plan with ${aiModel}:`, error);
       // Fallback to a basic study plan
@@ -99,8 +246,9 @@ Respond naturally and helpfully! 🚀`;
     question: string,
     correctAnswer: string,
     userAnswer: string,
-    aiModel: string = 'groq'
-  ): Promise<string> {
+    aiModel: string = 'groq',
+    userId?: string
+  ): Promise<AIGeneration> {
     const prompt = `You are UTME AI, created by broken vzn, an expert Nigerian education assistant. Provide a comprehensive, detailed explanation for this examination question.
 
     Question: ${question}
@@ -126,111 +274,185 @@ Respond naturally and helpfully! 🚀`;
     Make this explanation thorough, educational, and specifically tailored for Nigerian students preparing for university entrance examinations. Use clear, accessible language while maintaining academic depth.`;
 
     try {
-      switch (aiModel) {
-        case 'groq':
-          return await this.generateWithGroq(`You are UTME AI, created by broken vzn. Provide comprehensive explanations for educational questions.`, `${prompt}`);
-        case 'gemini':
-          return await this.generateWithGemini(prompt);
-        case 'gpt4':
-          return await this.generateWithOpenAI(prompt);
-        case 'grok':
-          return await this.generateWithGrok(prompt);
-        default:
-          return await this.generateWithGroq(`You are UTME AI, created by broken vzn. Provide comprehensive explanations for educational questions.`, `${prompt}`);
-      }
+      return await aiProviderRegistry.generate(
+        { systemPrompt: EDUCATION_SYSTEM_PROMPT, prompt },
+        { task: 'explanation', preferred: aiModel, userId }
+      );
     } catch (error) {
       console.error(`Error generating explanation with ${aiModel}:`, error);
       throw new Error('Failed to generate AI explanation');
     }
   }
 
-  private async generateWithGemini(prompt: string): Promise<string> {
-    if (!process.env.GEMINI_API_KEY) {
-      throw new Error('Gemini API key not configured');
-    }
+  /**
+   * Generate multiple-choice questions grounded in the given study content.
+   * Malformed or invalid questions are rejected and the model is asked again with the reasons.
+   */
+  async generateQuizQuestions(request: QuizGenerationRequest, aiModel: string = 'gemini', userId?: string): Promise<GeneratedQuizQuestion[]> {
+    const accepted: GeneratedQuizQuestion[] = [];
+    const seenQuestions = new Set<string>();
+    let feedback = '';
+
+    for (let attempt = 1; attempt <= MAX_QUIZ_ATTEMPTS && accepted.length < request.count; attempt++) {
+      const prompt = this.buildQuizPrompt(request, request.count - accepted.length, feedback);
+
+      let result: AIGeneration;
+      try {
+        result = await aiProviderRegistry.generate(
+          { prompt, json: true, responseSchema: quizResponseSchema, maxTokens: 4000, temperature: 0.4 },
+          { task: 'quiz', preferred: aiModel, userId }
+        );
+      } catch (error) {
+        console.error(`Error generating quiz questions with ${aiModel}:`, error);
+        break;
+      }
 
-    const response = await gemini.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: prompt,
-    });
+      const { questions, errors } = this.parseQuizQuestions(result.text);
+      for (const question of questions) {
+        const key = question.question.toLowerCase();
+        if (seenQuestions.has(key)) continue;
+        seenQuestions.add(key);
+        accepted.push(question);
+      }
 
-    const text = response.text;
-    if (!text || text.trim().length === 0) {
-      throw new Error('Empty response from Gemini API');
+      console.log(`🧠 Quiz generation attempt ${attempt} (${result.provider}): ${questions.length} valid, ${errors.length} rejected`);
+      feedback = errors.length > 0
+        ? `Some of your previous questions were rejected: ${errors.slice(0, 5).join('; ')}. Avoid these mistakes.`
+        : '';
     }
 
-    return text;
+    if (accepted.length === 0) {
+      throw new Error('Failed to generate valid quiz questions');
+    }
+    return accepted.slice(0, request.count);
   }
 
-  private async generateWithOpenAI(prompt: string): Promise<string> {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error('OpenAI API key not configured');
-    }
+  /**
+   * Generate a structured revision note on a topic, built around the student's explained questions when
+   * given. An invalid note is rejected and the model is asked once more with the reasons.
+   */
+  async generateShortNote(request: ShortNoteAIRequest, aiModel: string = 'gemini', userId?: string): Promise<GeneratedShortNote> {
+    let feedback = '';
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-      messages: [
+    for (let attempt = 1; attempt <= MAX_NOTE_ATTEMPTS; attempt++) {
+      const result = await aiProviderRegistry.generate(
         {
-          role: "system",
-          content: "You are UTME AI, created by broken vzn for educational purposes. You are an expert Nigerian education assistant specializing in JAMB, WAEC, NECO, and POST-UTME preparation. Provide comprehensive, detailed educational content that truly helps Nigerian students learn and excel."
+          systemPrompt: EDUCATION_SYSTEM_PROMPT,
+          prompt: this.buildShortNotePrompt(request, feedback),
+          json: true,
+          responseSchema: shortNoteResponseSchema,
+          maxTokens: 3000,
+          temperature: 0.4,
         },
-        {
-          role: "user", 
-          content: prompt
-        }
-      ],
-      max_tokens: 2000,
-      temperature: 0.7,
-    });
+        { task: 'notes', preferred: aiModel, userId }
+      );
 
-    const content = response.choices[0].message.content;
-    if (!content || content.trim().length === 0) {
-      throw new Error('Empty response from OpenAI API');
+      const parsed = this.parseShortNote(result.text);
+      if (parsed.note) {
+        console.log(`📝 Generated a short note on ${request.topic} (${result.provider}, attempt ${attempt})`);
+        return parsed.note;
+      }
+      feedback = `Your previous note was rejected: ${parsed.error}. Fix this.`;
     }
 
-    return content;
+    throw new Error('Failed to generate a valid short note');
   }
 
-  private async generateWithGroq(systemPrompt: string, userMessage: string): Promise<string> {
-    try {
-      // Use Kaizenji's Groq API service for better educational responses
-      const fullPrompt = `${systemPrompt}\n\nStudent: ${userMessage}`;
-      
-      const response = await fetch(`https://kaiz-apis.gleeze.com/api/groq-completions?ask=${encodeURIComponent(fullPrompt)}&uid=1268&model=llama-3.3-70b-versatile&apikey=a0ebe80e-bf1a-4dbf-8d36-6935b1bfa5ea`);
+  private buildShortNotePrompt(request: ShortNoteAIRequest, feedback: string): string {
+    const sources = (request.sourceQuestions || [])
+      .map((source, index) => `${index + 1}. ${source.question}\nCorrect answer: ${source.correctAnswer}\nExplanation: ${source.explanation.slice(0, 1500)}`)
+      .join('\n\n');
+
+    return `Write a concise ${request.difficulty || 'medium'} level revision note on "${request.topic}" (${request.subject}) for a student preparing for JAMB/UTME.
+${sources ? `\nBuild the note around the concepts these questions test, so the student can answer similar ones:\n\n${sources}\n` : ''}
+Rules:
+- "content" is a clear summary of the topic in 2-4 short paragraphs
+- "keyPoints" are 3-8 short facts worth memorising
+- "formulas" lists formulas or equations with what each means; use an empty list if the topic has none
+- "examples" are 1-4 short worked examples or typical exam questions with answers
+- "examRelevance" is 1-10, how often the topic appears in UTME
+- "tags" are 2-5 lowercase keywords
+${feedback ? `\n${feedback}\n` : ''}
+Respond with JSON only, no markdown, in exactly this shape:
+{"note":{"title":"...","content":"...","keyPoints":["..."],"formulas":[{"formula":"...","description":"..."}],"examples":["..."],"examRelevance":7,"tags":["..."]}}`;
+  }
 
-      if (!response.ok) {
-        throw new Error(`Kaizenji Groq API error: ${response.status} ${response.statusText}`);
-      }
+  private parseShortNote(raw: string): { note?: GeneratedShortNote; error?: string } {
+    const start = raw.indexOf('{');
+    const end = raw.lastIndexOf('}');
+    if (start === -1 || end <= start) {
+      return { error: 'the response was not a JSON object' };
+    }
 
-      const data = await response.json();
-      
-      if (data.error) {
-        throw new Error(`Kaizenji API error: ${data.error}`);
-      }
-      
-      if (data.response) {
-        return data.response
-          .replace(/(\b\w+\b)(\s+\1\b)+/gi, '$1') // Fix repeating words
-          .replace(/\s+/g, ' ')
-          .trim();
-      }
-      
-      throw new Error('No response from Kaizenji Groq API');
-    } catch (error) {
-      console.error('Kaizenji Groq API error:', error);
-      // Fallback to Grok if Groq fails
-      return await this.generateWithGrok(`${systemPrompt}\n\nStudent: ${userMessage}`);
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw.slice(start, end + 1));
+    } catch {
+      return { error: 'the response was not valid JSON' };
     }
+
+    const result = generatedShortNoteSchema.safeParse((parsed as { note?: unknown })?.note);
+    return result.success
+      ? { note: result.data }
+      : { error: result.error.issues.map(issue => `${issue.path.join('.') || 'note'}: ${issue.message}`).join(', ') };
+  }
+
+  private buildQuizPrompt(request: QuizGenerationRequest, count: number, feedback: string): string {
+    const content = request.content.slice(0, MAX_QUIZ_CONTENT_LENGTH);
+
+    return `You are an examiner setting ${request.difficulty || 'medium'} difficulty UTME-style multiple-choice questions for Nigerian students.
+
+Write ${count} questions on "${request.topic}" (${request.subject}) that can be answered from the study content below. Do not test facts that are not in the content.
+
+Rules:
+- Each question has exactly four options with ids "A", "B", "C" and "D"
+- Option texts must all be different and only one option may be correct
+- "correctAnswer" is the id of the single correct option
+- "explanation" says why the correct option is right, referring to the study content
+${feedback ? `\n${feedback}\n` : ''}
+Respond with JSON only, no markdown, in exactly this shape:
+{"questions":[{"question":"...","options":[{"id":"A","text":"..."},{"id":"B","text":"..."},{"id":"C","text":"..."},{"id":"D","text":"..."}],"correctAnswer":"A","explanation":"..."}]}
+
+Study content:
+"""
+${content}
+"""`;
   }
 
-  private async generateWithGrok(prompt: string): Promise<string> {
-    const response = await grok.chat.completions.create({
-      model: "grok-2-1212",
-      messages: [{ role: "user", content: prompt }],
-      max_tokens: 2000,
+  /**
+   * Parse a model response into validated questions, collecting the reasons anything was rejected
+   */
+  private parseQuizQuestions(raw: string): { questions: GeneratedQuizQuestion[]; errors: string[] } {
+    const start = raw.indexOf('{');
+    const end = raw.lastIndexOf('}');
+    if (start === -1 || end <= start) {
+      return { questions: [], errors: ['the response was not a JSON object'] };
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw.slice(start, end + 1));
+    } catch {
+      return { questions: [], errors: ['the response was not valid JSON'] };
+    }
+
+    const items = (parsed as { questions?: unknown })?.questions;
+    if (!Array.isArray(items)) {
+      return { questions: [], errors: ['the response had no "questions" array'] };
+    }
+
+    const questions: GeneratedQuizQuestion[] = [];
+    const errors: string[] = [];
+    items.forEach((item, index) => {
+      const result = generatedQuizQuestionSchema.safeParse(item);
+      if (result.success) {
+        questions.push(result.data);
+      } else {
+        errors.push(`question ${index + 1}: ${result.error.issues.map(issue => issue.message).join(', ')}`);
+      }
     });
 
-    return response.choices[0].message.content || "Unable to generate content at this time.";
+    return { questions, errors };
   }
 
   private getFallbackStudyPlan(subject: string, topic: string): string {
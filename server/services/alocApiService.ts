@@ -27,8 +27,6 @@ class AlocApiService {
   private readonly accessToken = process.env.ALOC_ACCESS_TOKEN || '';
   private readonly rateLimitDelay = 300; // Reduced for faster responses
   private lastRequestTime = 0;
-  
-  private usedQuestionIds = new Set<string>();
 
   private subjectMapping: Record<string, string> = {
     'english': 'english',
@@ -203,13 +201,7 @@ class AlocApiService {
     }
 
     const questionId = qData.id?.toString() || `aloc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    
-    if (this.usedQuestionIds.has(questionId)) {
-      return null;
-    }
 
-    this.usedQuestionIds.add(questionId);
-    
     return {
       id: questionId,
       question: qData.question,
@@ -430,20 +422,6 @@ class AlocApiService {
     return banks[subject.toLowerCase()] || banks.english;
   }
 
-  /**
-   * Clear used questions for fresh session
-   */
-  clearUsedQuestions(): void {
-    this.usedQuestionIds.clear();
-  }
-
-  /**
-   * Get count of used questions
-   */
-  getUsedQuestionsCount(): number {
-    return this.usedQuestionIds.size;
-  }
-
   /**
    * Alias for generateRealisticQuestions to maintain compatibility
    */
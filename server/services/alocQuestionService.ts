@@ -1,5 +1,5 @@
 // Enhanced ALOC API service following user's guidelines
-interface AlocQuestion {
+export interface AlocQuestion {
   id: string;
   question: string;
   option: {
@@ -226,8 +226,8 @@ export class AlocQuestionService {
           subject: subject,
           // Ensure answer is lowercase for consistency
           answer: qData.answer.toLowerCase(),
-          // Provide default solution if missing
-          solution: qData.solution || 'Detailed explanation for this question.'
+          // Leave solution empty when ALOC has none so placeholders never reach the question bank
+          solution: qData.solution || undefined
         });
       }
     }
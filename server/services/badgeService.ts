@@ -0,0 +1,152 @@
+// Badge engine: measures the BADGE_CATALOG criteria when something happens (a quiz is submitted, a CBT exam
+// completes, a focus session ends, a chat message is sent), keeps progress on progressive badges and awards
+// each badge at most once.
+import { storage, type BadgeStats } from "../storage";
+import {
+  BADGE_CATALOG,
+  BADGE_METRIC_EVENTS,
+  SUBJECT_COMPLETION_MIN_AVERAGE,
+  SUBJECT_COMPLETION_MIN_SESSIONS,
+  type BadgeDefinition,
+  type BadgeEvent,
+  type BadgeMetric,
+  type BadgeStatus,
+  type BadgeRarity,
+} from "@shared/badges";
+import type { UserBadge } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+class BadgeService {
+  /**
+   * Re-measure the badges an event can move and return the ones it unlocked. Never throws: badges must not
+   * break the action that triggered them.
+   */
+  async evaluate(userId: string, event: BadgeEvent, now: Date = new Date()): Promise<BadgeStatus[]> {
+    try {
+      const candidates = BADGE_CATALOG.filter(badge => BADGE_METRIC_EVENTS[badge.criteria.metric].includes(event));
+      const owned = new Map((await storage.getUserBadges(userId)).map(badge => [badge.badgeType, badge]));
+      const pending = candidates.filter(badge => !owned.get(badge.id)?.unlockedAt);
+      if (pending.length === 0) return [];
+
+      const stats = await storage.getBadgeStats(userId, {
+        minSessions: SUBJECT_COMPLETION_MIN_SESSIONS,
+        minAverage: SUBJECT_COMPLETION_MIN_AVERAGE,
+      });
+
+      const unlocked: BadgeStatus[] = [];
+      for (const badge of pending) {
+        const progress = Math.min(this.measure(stats, badge.criteria.metric, now), badge.criteria.target);
+        const isUnlocked = progress >= badge.criteria.target;
+        const current = owned.get(badge.id);
+
+        // Only unlocked badges and progressive badges that moved are worth a row
+        if (!isUnlocked && (!badge.progressive || progress === 0 || progress === current?.progress)) continue;
+
+        const saved = await storage.saveBadgeProgress({
+          userId,
+          badgeType: badge.id,
+          title: badge.title,
+          description: badge.description,
+          icon: badge.icon,
+          color: badge.color,
+          rarity: badge.rarity,
+          progress,
+          maxProgress: badge.criteria.target,
+          criteria: badge.criteria,
+          unlockedAt: isUnlocked ? now : null,
+        });
+        if (saved?.unlockedAt && isUnlocked) {
+          unlocked.push(this.toStatus(badge, saved));
+        }
+      }
+
+      if (unlocked.length > 0) {
+        console.log(`🏅 ${userId} unlocked ${unlocked.map(badge => badge.title).join(', ')} (${event})`);
+      }
+      return unlocked;
+    } catch (error) {
+      console.error(`Error evaluating badges for ${event}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Every catalog badge with the user's progress, plus any older badges awarded outside the catalog
+   */
+  async getBadges(userId: string): Promise<BadgeStatus[]> {
+    const owned = await storage.getUserBadges(userId);
+    const byType = new Map(owned.map(badge => [badge.badgeType, badge]));
+
+    const catalog = BADGE_CATALOG.map(badge => this.toStatus(badge, byType.get(badge.id)));
+    const legacy = owned
+      .filter(badge => !BADGE_CATALOG.some(entry => entry.id === badge.badgeType) && badge.isVisible !== false)
+      .map(badge => ({
+        id: badge.badgeType,
+        title: badge.title,
+        description: badge.description,
+        icon: badge.icon,
+        color: badge.color || '#3B82F6',
+        rarity: (badge.rarity || 'common') as BadgeRarity,
+        progress: badge.maxProgress || 1,
+        maxProgress: badge.maxProgress || 1,
+        unlockedAt: badge.unlockedAt,
+      }));
+
+    return [...catalog, ...legacy];
+  }
+
+  /**
+   * Badges unlocked at or after a moment, for actions whose badges were evaluated elsewhere
+   */
+  async getUnlockedSince(userId: string, since: Date): Promise<BadgeStatus[]> {
+    const badges = await this.getBadges(userId);
+    return badges.filter(badge => badge.unlockedAt && new Date(badge.unlockedAt) >= since);
+  }
+
+  private measure(stats: BadgeStats, metric: BadgeMetric, now: Date): number {
+    switch (metric) {
+      case 'sessionsCompleted': return stats.quizzesCompleted + stats.cbtExamsCompleted;
+      case 'cbtExamsCompleted': return stats.cbtExamsCompleted;
+      case 'bestScore': return stats.bestScore;
+      case 'studyStreak': return this.currentStreak(stats.studyDates, now);
+      case 'chatMessages': return stats.chatMessages;
+      case 'subjectsCompleted': return stats.subjectsCompleted;
+      case 'focusSessionsCompleted': return stats.focusSessionsCompleted;
+    }
+  }
+
+  /**
+   * Consecutive study days ending today, or yesterday when nothing has been done yet today
+   */
+  private currentStreak(studyDates: string[], now: Date): number {
+    const dates = new Set(studyDates);
+    const day = new Date(now);
+    if (!dates.has(day.toISOString().slice(0, 10))) {
+      day.setTime(day.getTime() - DAY_MS);
+    }
+
+    let streak = 0;
+    while (dates.has(day.toISOString().slice(0, 10))) {
+      streak++;
+      day.setTime(day.getTime() - DAY_MS);
+    }
+    return streak;
+  }
+
+  private toStatus(badge: BadgeDefinition, owned?: UserBadge): BadgeStatus {
+    return {
+      id: badge.id,
+      title: badge.title,
+      description: badge.description,
+      icon: badge.icon,
+      color: badge.color,
+      rarity: badge.rarity,
+      progress: owned?.unlockedAt ? badge.criteria.target : owned?.progress || 0,
+      maxProgress: badge.criteria.target,
+      unlockedAt: owned?.unlockedAt || null,
+    };
+  }
+}
+
+export const badgeService = new BadgeService();
@@ -0,0 +1,80 @@
+// Grades CBT sessions on the server from the stored questions and the answers recorded during the exam
+import {
+  scoreUtmeSections,
+  UTME_MAX_AGGREGATE,
+  type CbtAccuracyBreakdown,
+  type CbtGradingReport,
+  type CbtQuestionResult,
+} from "@shared/utme";
+import type { CbtSession } from "@shared/schema";
+
+class CbtGradingService {
+  /**
+   * Score a session against cbtSessions.questions[].correctAnswer and build the detailed report
+   */
+  grade(session: CbtSession): CbtGradingReport {
+    const questions = session.questions || [];
+    const userAnswers = session.userAnswers || {};
+    const { subjectScores, aggregateScore } = scoreUtmeSections(session.sections || [], questions, userAnswers);
+
+    // Time on a question is the sum of the gaps before each answer event for it
+    const timeByIndex = new Map<number, number>();
+    for (const event of session.answerLog || []) {
+      timeByIndex.set(event.questionIndex, (timeByIndex.get(event.questionIndex) || 0) + event.timeSpent);
+    }
+
+    const results: CbtQuestionResult[] = questions.map((question, index) => {
+      const selectedAnswer = userAnswers[String(index)] || null;
+      return {
+        index,
+        questionId: question.id,
+        subject: question.subject,
+        topic: question.topic || undefined,
+        year: question.year || undefined,
+        selectedAnswer,
+        correctAnswer: question.correctAnswer,
+        isCorrect: !!selectedAnswer && selectedAnswer.toUpperCase() === question.correctAnswer.toUpperCase(),
+        timeSpent: timeByIndex.get(index) || 0,
+      };
+    });
+
+    const answered = results.filter(r => r.selectedAnswer !== null);
+    const totalTimeSpent = answered.reduce((sum, r) => sum + r.timeSpent, 0);
+
+    return {
+      totalQuestions: results.length,
+      answered: answered.length,
+      unanswered: results.length - answered.length,
+      correct: results.filter(r => r.isCorrect).length,
+      aggregateScore,
+      maxAggregate: UTME_MAX_AGGREGATE,
+      subjects: subjectScores,
+      topics: this.breakdown(results, r => r.topic ? `${r.subject}: ${r.topic}` : undefined),
+      years: this.breakdown(results, r => r.year),
+      totalTimeSpent,
+      averageTimePerQuestion: answered.length > 0 ? Math.round(totalTimeSpent / answered.length) : 0,
+      questions: results,
+    };
+  }
+
+  private breakdown(results: CbtQuestionResult[], groupBy: (result: CbtQuestionResult) => string | undefined): CbtAccuracyBreakdown[] {
+    const groups = new Map<string, CbtAccuracyBreakdown>();
+
+    for (const result of results) {
+      const label = groupBy(result);
+      if (!label) continue;
+
+      const group = groups.get(label) || { label, correct: 0, answered: 0, total: 0, accuracy: 0 };
+      group.total++;
+      if (result.selectedAnswer !== null) group.answered++;
+      if (result.isCorrect) group.correct++;
+      groups.set(label, group);
+    }
+
+    return Array.from(groups.values())
+      .map(group => ({ ...group, accuracy: Math.round((group.correct / group.total) * 100) }))
+      .sort((a, b) => a.label.localeCompare(b.label));
+  }
+}
+
+export const cbtGradingService = new CbtGradingService();
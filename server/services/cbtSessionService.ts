@@ -0,0 +1,197 @@
+// Server-side lifecycle for CBT sessions: remaining time is always derived from startedAt,
+// timeAllowed and the recorded pauses, and answers and scores never come from what the client reports
+import { storage } from "../storage";
+import { questionExposureService } from "./questionExposureService";
+import { cbtGradingService } from "./cbtGradingService";
+import { studyProgressService } from "./studyProgressService";
+import { badgeService } from "./badgeService";
+import { examPlanService } from "./examPlanService";
+import { UTME_DURATION_SECONDS } from "@shared/utme";
+import type { CbtSession } from "@shared/schema";
+
+export type CbtSubmitReason = 'submitted' | 'expired';
+
+class CbtSessionService {
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Seconds of exam time used so far, excluding time spent paused
+   */
+  getElapsedSeconds(session: CbtSession, now: Date = new Date()): number {
+    if (!session.startedAt) return 0;
+
+    const pausedMs = (session.pauses || []).reduce((total, pause) => {
+      const resumedAt = pause.resumedAt ? new Date(pause.resumedAt) : now;
+      return total + Math.max(0, resumedAt.getTime() - new Date(pause.pausedAt).getTime());
+    }, 0);
+
+    return Math.max(0, Math.floor((now.getTime() - new Date(session.startedAt).getTime() - pausedMs) / 1000));
+  }
+
+  getTimeRemaining(session: CbtSession, now: Date = new Date()): number {
+    if (session.isCompleted) return 0;
+    const allowed = session.timeAllowed ?? UTME_DURATION_SECONDS;
+    return Math.max(0, allowed - this.getElapsedSeconds(session, now));
+  }
+
+  isExpired(session: CbtSession, now: Date = new Date()): boolean {
+    return !!session.startedAt && !session.isCompleted && this.getTimeRemaining(session, now) === 0;
+  }
+
+  /**
+   * Bring a session up to date: auto-submit it if time ran out, otherwise report the live remaining time
+   */
+  async refresh(session: CbtSession): Promise<CbtSession> {
+    if (this.isExpired(session)) {
+      return await this.submit(session, 'expired');
+    }
+    return { ...session, timeRemaining: this.getTimeRemaining(session) };
+  }
+
+  async pause(session: CbtSession): Promise<CbtSession> {
+    if (session.isPaused || session.isCompleted || !session.startedAt) {
+      return { ...session, timeRemaining: this.getTimeRemaining(session) };
+    }
+
+    const updated = await storage.updateCbtSession(session.id, {
+      isPaused: true,
+      pauses: [...(session.pauses || []), { pausedAt: new Date().toISOString() }],
+      timeRemaining: this.getTimeRemaining(session),
+    });
+    return { ...updated, timeRemaining: this.getTimeRemaining(updated) };
+  }
+
+  async resume(session: CbtSession): Promise<CbtSession> {
+    if (!session.isPaused || session.isCompleted) {
+      return { ...session, timeRemaining: this.getTimeRemaining(session) };
+    }
+
+    const updated = await storage.updateCbtSession(session.id, {
+      isPaused: false,
+      pauses: this.closeOpenPause(session, new Date()),
+    });
+    return { ...updated, timeRemaining: this.getTimeRemaining(updated) };
+  }
+
+  /**
+   * Record the candidate's choice for one question, when it was made and how long it took,
+   * along with where they are in the paper. Undefined when the exam ended before the answer was saved.
+   */
+  async saveAnswer(session: CbtSession, questionIndex: number, answer: string | null, subjectIndex?: number): Promise<CbtSession | undefined> {
+    const updated = await storage.saveCbtAnswer(session.id, {
+      questionIndex,
+      questionId: session.questions![questionIndex].id,
+      answer,
+      answeredAt: new Date().toISOString(),
+      elapsedSeconds: this.getElapsedSeconds(session),
+    }, {
+      currentQuestionIndex: questionIndex,
+      ...(subjectIndex !== undefined ? { currentSubjectIndex: subjectIndex } : {}),
+      timeRemaining: this.getTimeRemaining(session),
+    });
+    return updated && { ...updated, timeRemaining: this.getTimeRemaining(updated) };
+  }
+
+  /**
+   * Close the exam and grade it from the answers saved on the server.
+   * Expired sessions are closed at their deadline rather than whenever the expiry was noticed.
+   * Only the request that closes the session records its results; any other gets the closed session back.
+   */
+  async submit(session: CbtSession, reason: CbtSubmitReason = 'submitted'): Promise<CbtSession> {
+    if (session.isCompleted) return session;
+
+    const now = new Date();
+    const remaining = this.getTimeRemaining(session, now);
+    const completedAt = reason === 'expired' ? new Date(now.getTime() - this.getOverrunSeconds(session, now) * 1000) : now;
+    const questions = session.questions || [];
+    const userAnswers = session.userAnswers || {};
+    const report = cbtGradingService.grade(session);
+
+    const updated = await storage.completeCbtSession(session.id, {
+      pauses: this.closeOpenPause(session, completedAt),
+      timeRemaining: remaining,
+      completedAt,
+      subjectScores: report.subjects,
+      aggregateScore: report.aggregateScore,
+      report,
+    });
+    if (!updated) return (await storage.getCbtSession(session.id))!;
+
+    try {
+      const answersByQuestionId = Object.fromEntries(
+        Object.entries(userAnswers)
+          .filter(([index]) => questions[Number(index)])
+          .map(([index, answer]) => [questions[Number(index)].id, answer])
+      );
+      await questionExposureService.recordAnswers(session.userId, answersByQuestionId, questions.map(q => q.id), session.id);
+    } catch (error) {
+      console.error("Error recording CBT question exposures:", error);
+    }
+
+    try {
+      await studyProgressService.recordCbt(updated, completedAt);
+    } catch (error) {
+      console.error("Error recording CBT study progress:", error);
+    }
+    try {
+      await examPlanService.rebalanceIfNeeded(session.userId, completedAt);
+    } catch (error) {
+      console.error("Error rebalancing exam plan:", error);
+    }
+    try {
+      await badgeService.evaluate(session.userId, 'cbt_completed');
+    } catch (error) {
+      console.error("Error evaluating CBT badges:", error);
+    }
+
+    console.log(`📝 CBT session ${session.id} ${reason === 'expired' ? 'auto-submitted at time limit' : 'submitted'}: ${report.aggregateScore}/${report.maxAggregate}`);
+    return updated;
+  }
+
+  /**
+   * Shape a session for the candidate: answer keys and explanations stay on the server until the exam is over
+   */
+  toClientSession(session: CbtSession) {
+    if (session.isCompleted) return session;
+
+    const { answerLog: _, ...rest } = session;
+    return {
+      ...rest,
+      questions: (session.questions || []).map(({ correctAnswer: _answer, explanation: _explanation, ...question }) => question),
+    };
+  }
+
+  /**
+   * Auto-submit every running session whose time has run out, including ones nobody is looking at
+   */
+  async expireOverdueSessions(): Promise<number> {
+    const running = await storage.getRunningCbtSessions();
+    let expired = 0;
+    for (const session of running) {
+      if (this.isExpired(session)) {
+        await this.submit(session, 'expired');
+        expired++;
+      }
+    }
+    return expired;
+  }
+
+  startExpirySweep(intervalMs = 60 * 1000): void {
+    if (this.sweepTimer) return;
+    this.sweepTimer = setInterval(() => {
+      this.expireOverdueSessions().catch(error => console.error("CBT expiry sweep failed:", error));
+    }, intervalMs);
+    this.sweepTimer.unref();
+  }
+
+  private getOverrunSeconds(session: CbtSession, now: Date): number {
+    const allowed = session.timeAllowed ?? UTME_DURATION_SECONDS;
+    return Math.max(0, this.getElapsedSeconds(session, now) - allowed);
+  }
+
+  private closeOpenPause(session: CbtSession, at: Date): Array<{ pausedAt: string; resumedAt?: string }> {
+    return (session.pauses || []).map(pause => pause.resumedAt ? pause : { ...pause, resumedAt: at.toISOString() });
+  }
+}
+
+export const cbtSessionService = new CbtSessionService();
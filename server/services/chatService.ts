@@ -0,0 +1,115 @@
+// UTME AI chatbot conversations: stores each turn, sends recent turns back as context and titles new chats
+import { storage } from "../storage";
+import { aiService } from "./aiService";
+import type { AIGeneration } from "./aiProviderRegistry";
+import type { AIChatTurn } from "./aiProviders";
+import type { ChatConversation, ChatMessage } from "@shared/schema";
+
+const DEFAULT_TITLE = "New Conversation";
+
+// How much of the conversation is replayed to the model with each new message
+const CONTEXT_MESSAGES = 20;
+const CONTEXT_CHARACTERS = 12000;
+
+export interface ChatReply {
+  userMessage: ChatMessage;
+  aiMessage: ChatMessage;
+  conversation: ChatConversation;
+  generation: AIGeneration;
+}
+
+class ChatService {
+  async createConversation(userId: string, title?: string): Promise<ChatConversation> {
+    return await storage.createChatConversation({
+      userId,
+      title: title?.trim() || DEFAULT_TITLE,
+    });
+  }
+
+  /**
+   * The user's most recent active conversation, started if they have none, for clients that don't track conversations
+   */
+  async getCurrentConversation(userId: string): Promise<ChatConversation> {
+    return (await storage.getLatestChatConversation(userId)) || await this.createConversation(userId);
+  }
+
+  async listConversations(userId: string): Promise<ChatConversation[]> {
+    return await storage.getChatConversations(userId);
+  }
+
+  async renameConversation(id: string, title: string): Promise<ChatConversation> {
+    return await storage.updateChatConversation(id, { title: title.trim().slice(0, 100) });
+  }
+
+  async deleteConversation(id: string): Promise<void> {
+    await storage.deleteChatConversation(id);
+  }
+
+  async getMessages(conversationId: string): Promise<ChatMessage[]> {
+    return await storage.getConversationMessages(conversationId);
+  }
+
+  /**
+   * Save the student's message, generate a reply with the conversation so far as context and save it too.
+   * When onChunk is given the reply is streamed through it as it is generated; aborting signal stops it.
+   * The first exchange of an untitled conversation also gives it a title.
+   */
+  async sendMessage(
+    conversation: ChatConversation,
+    message: string,
+    options: { model?: string; onChunk?: (text: string) => void; signal?: AbortSignal } = {}
+  ): Promise<ChatReply> {
+    const history = this.toHistory(await storage.getConversationMessages(conversation.id, CONTEXT_MESSAGES));
+    const titlePromise = conversation.title === DEFAULT_TITLE && !conversation.messageCount
+      ? aiService.generateConversationTitle(message, conversation.userId)
+      : Promise.resolve(conversation.title);
+
+    const userMessage = await storage.saveChatMessage({
+      userId: conversation.userId,
+      conversationId: conversation.id,
+      content: message,
+      sender: 'user',
+    });
+
+    const generation = options.onChunk
+      ? await aiService.streamChatResponse(message, history, options.onChunk, options.model, conversation.userId, options.signal)
+      : await aiService.generateChatResponse(message, options.model, conversation.userId, history);
+
+    const aiMessage = await storage.saveChatMessage({
+      userId: conversation.userId,
+      conversationId: conversation.id,
+      content: generation.text,
+      sender: 'ai',
+      aiModel: generation.provider,
+      metadata: {
+        responseTime: generation.latencyMs,
+        tokens: generation.inputTokens + generation.outputTokens,
+      },
+    });
+
+    const updated = await storage.updateChatConversation(conversation.id, {
+      title: await titlePromise,
+      messageCount: (conversation.messageCount || 0) + 2,
+      lastMessage: generation.text.slice(0, 200),
+      lastMessageAt: new Date(),
+    });
+
+    return { userMessage, aiMessage, conversation: updated, generation };
+  }
+
+  // Most recent turns that fit the context budget, oldest first
+  private toHistory(messages: ChatMessage[]): AIChatTurn[] {
+    const turns: AIChatTurn[] = [];
+    let characters = 0;
+
+    for (let i = messages.length - 1; i >= 0; i--) {
+      characters += messages[i].content.length;
+      if (characters > CONTEXT_CHARACTERS) break;
+      turns.unshift({ role: messages[i].sender === 'user' ? 'user' : 'assistant', content: messages[i].content });
+    }
+
+    return turns;
+  }
+}
+
+export const chatService = new ChatService();
@@ -0,0 +1,437 @@
+// Real-time competition engine: each running match lives in memory on one shared clock, answers are scored
+// on the server with a speed bonus, scores are saved after every question and final ranks when it ends.
+// Transport-agnostic: the WebSocket layer subscribes to the messages published here.
+// The instance hosting a match renews a heartbeat on it, so other instances can tell a live match from one
+// whose host went away.
+import { storage } from "../storage";
+import { questionBankService, type BankQuestion } from "./questionBankService";
+import { instanceId, type BackgroundJob } from "./jobRunner";
+import {
+  COMPETITION_CORRECT_POINTS,
+  COMPETITION_MAX_QUESTIONS,
+  COMPETITION_MAX_SPEED_BONUS,
+  COMPETITION_MIN_QUESTIONS,
+  COMPETITION_MIN_SECONDS_PER_QUESTION,
+  type CompetitionLeaderboardEntry,
+  type CompetitionQuestion,
+  type CompetitionServerMessage,
+  type CompetitionStatus,
+} from "@shared/competition";
+import type { Competition, CompetitionParticipant, InsertCompetition } from "@shared/schema";
+
+// Pause between revealing a question's answer and sending the next question
+const RESULT_PAUSE_MS = 3000;
+
+// The host renews its matches' heartbeat this often; a match not renewed within the lease has lost its host
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+const HOST_LEASE_MS = 2 * 60 * 1000;
+
+// Messages with a userId are meant for that player only
+export type CompetitionListener = (competitionId: string, message: CompetitionServerMessage, userId?: string) => void;
+
+export type CompetitionResult<T> =
+  | { success: true; data: T }
+  | { success: false; status: number; message: string };
+
+interface PlayerState {
+  participantId: string;
+  userId: string;
+  nickname: string;
+  score: number;
+  timeSpentMs: number;
+  answers: CompetitionParticipant['answers'];
+}
+
+interface LiveMatch {
+  competition: Competition;
+  questions: BankQuestion[];
+  questionMs: number;
+  index: number;
+  questionStartedAt: number;
+  phase: 'question' | 'result';
+  players: Map<string, PlayerState>;
+  timer: NodeJS.Timeout | null;
+}
+
+function fail<T>(status: number, message: string): CompetitionResult<T> {
+  return { success: false, status, message };
+}
+
+function toCompetitionQuestion(question: BankQuestion): CompetitionQuestion {
+  return { id: question.id, question: question.question, options: question.options, imageUrl: question.imageUrl };
+}
+
+/**
+ * Order by score, then by less time spent answering; players level on both share a rank
+ */
+function rankPlayers(players: Array<{ userId: string; nickname: string; score: number; timeSpentMs: number; answers: CompetitionParticipant['answers'] }>): CompetitionLeaderboardEntry[] {
+  const sorted = [...players].sort((a, b) => b.score - a.score || a.timeSpentMs - b.timeSpentMs);
+  return sorted.map(player => ({
+    userId: player.userId,
+    nickname: player.nickname,
+    score: player.score,
+    correct: player.answers.filter(a => a.isCorrect).length,
+    answered: player.answers.length,
+    rank: sorted.findIndex(p => p.score === player.score && p.timeSpentMs === player.timeSpentMs) + 1,
+  }));
+}
+
+class CompetitionService {
+  readonly job: BackgroundJob = {
+    name: 'competition-recovery',
+    intervalMs: 60 * 1000,
+    run: (now) => this.recoverInterrupted(now),
+  };
+
+  private matches = new Map<string, LiveMatch>();
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  // Players with an open connection, per competition; kept from before the match starts
+  private presence = new Map<string, Set<string>>();
+  private listeners = new Set<CompetitionListener>();
+
+  subscribe(listener: CompetitionListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Create a competition in the waiting state with its host as the first participant.
+   * The time limit is shared equally by the questions, with a minimum per question.
+   */
+  async create(input: InsertCompetition): Promise<CompetitionResult<Competition>> {
+    if (!input.title?.trim()) {
+      return fail(400, "title is required");
+    }
+    if (!input.subjectId || !(await storage.getSubject(input.subjectId))) {
+      return fail(400, "A valid subjectId is required");
+    }
+
+    const questionsCount = Math.max(COMPETITION_MIN_QUESTIONS, Math.min(COMPETITION_MAX_QUESTIONS, input.questionsCount ?? 20));
+    const timeLimit = Math.max(questionsCount * COMPETITION_MIN_SECONDS_PER_QUESTION, input.timeLimit ?? 3600);
+
+    const competition = await storage.createCompetition({
+      title: input.title.trim(),
+      description: input.description,
+      subjectId: input.subjectId,
+      creatorId: input.creatorId,
+      maxParticipants: Math.max(2, input.maxParticipants ?? 10),
+      questionsCount,
+      timeLimit,
+      status: 'waiting',
+    });
+
+    await storage.joinCompetition({ competitionId: competition.id, userId: competition.creatorId, answers: [] });
+    console.log(`🏁 Competition ${competition.id} created by ${competition.creatorId}`);
+    return { success: true, data: competition };
+  }
+
+  /**
+   * Add the user to a competition that hasn't started. Joining again returns the existing entry.
+   */
+  async join(competitionId: string, userId: string): Promise<CompetitionResult<CompetitionParticipant>> {
+    const competition = await storage.getCompetition(competitionId);
+    if (!competition) {
+      return fail(404, "Competition not found");
+    }
+
+    const existing = await storage.getCompetitionParticipant(competitionId, userId);
+    if (existing) {
+      return { success: true, data: existing };
+    }
+    if (competition.status !== 'waiting') {
+      return fail(409, "This competition has already started");
+    }
+
+    const participants = await storage.getCompetitionParticipants(competitionId);
+    if (participants.length >= (competition.maxParticipants ?? 10)) {
+      return fail(409, "This competition is full");
+    }
+
+    const participant = await storage.joinCompetition({ competitionId, userId, answers: [] });
+    this.publish(competitionId, { type: 'leaderboard', leaderboard: await this.getLeaderboard(competitionId) });
+    return { success: true, data: participant };
+  }
+
+  /**
+   * Start the match: only the host can, and only while it is waiting. Every participant gets the same
+   * question set, fixed here and saved on the competition.
+   */
+  async start(competitionId: string, userId: string, now: Date = new Date()): Promise<CompetitionResult<Competition>> {
+    const competition = await storage.getCompetition(competitionId);
+    if (!competition) {
+      return fail(404, "Competition not found");
+    }
+    if (competition.creatorId !== userId) {
+      return fail(403, "Only the host can start the competition");
+    }
+    if (competition.status !== 'waiting') {
+      return fail(409, `Competition is already ${competition.status}`);
+    }
+
+    const questions = await questionBankService.getQuestions(competition.subjectId, { limit: competition.questionsCount ?? 20 });
+    if (questions.length === 0) {
+      return fail(409, "No questions are available for this subject yet");
+    }
+
+    const started = await storage.transitionCompetition(competitionId, 'waiting', {
+      status: 'running',
+      startTime: now,
+      questionIds: questions.map(q => q.id),
+      hostInstance: instanceId,
+      heartbeatAt: now,
+    });
+    if (!started) {
+      return fail(409, "Competition has already started");
+    }
+
+    const participants = await storage.getCompetitionParticipants(competitionId);
+    const users = await Promise.all(participants.map(p => storage.getUser(p.userId)));
+
+    const match: LiveMatch = {
+      competition: started,
+      questions,
+      questionMs: Math.floor(((started.timeLimit ?? 3600) * 1000) / questions.length),
+      index: -1,
+      questionStartedAt: 0,
+      phase: 'result',
+      players: new Map(participants.map((p, i) => [p.userId, {
+        participantId: p.id,
+        userId: p.userId,
+        nickname: users[i]?.nickname || 'Player',
+        score: 0,
+        timeSpentMs: 0,
+        answers: [],
+      }])),
+      timer: null,
+    };
+    this.matches.set(competitionId, match);
+    this.startHeartbeat();
+
+    console.log(`🏁 Competition ${competitionId} started with ${participants.length} players and ${questions.length} questions`);
+    this.nextQuestion(match);
+    return { success: true, data: started };
+  }
+
+  /**
+   * Score an answer to the current question. Each player gets one answer per question, and the
+   * question closes early once every connected player has answered.
+   */
+  submitAnswer(competitionId: string, userId: string, questionId: string, answer: string, now: number = Date.now()): CompetitionResult<{ questionId: string }> {
+    const match = this.matches.get(competitionId);
+    if (!match || match.phase !== 'question') {
+      return fail(409, "No question is open");
+    }
+
+    const question = match.questions[match.index];
+    const player = match.players.get(userId);
+    if (!player) {
+      return fail(403, "You are not in this competition");
+    }
+    if (question.id !== questionId) {
+      return fail(409, "That question is closed");
+    }
+    if (player.answers.some(a => a.questionId === questionId)) {
+      return fail(409, "You have already answered this question");
+    }
+
+    const responseMs = now - match.questionStartedAt;
+    if (responseMs > match.questionMs) {
+      return fail(409, "Time is up for this question");
+    }
+
+    const isCorrect = !!answer && answer.toUpperCase() === question.correctAnswer.toUpperCase();
+    const points = isCorrect
+      ? COMPETITION_CORRECT_POINTS + Math.round(COMPETITION_MAX_SPEED_BONUS * (1 - responseMs / match.questionMs))
+      : 0;
+
+    player.answers.push({ questionId, selectedAnswer: answer, isCorrect, points, responseMs });
+    player.score += points;
+    player.timeSpentMs += responseMs;
+
+    const connected = this.presence.get(competitionId) || new Set<string>();
+    const waitingOn = Array.from(match.players.values())
+      .filter(p => connected.has(p.userId) && !p.answers.some(a => a.questionId === questionId));
+    if (waitingOn.length === 0) {
+      this.closeQuestion(match);
+    }
+
+    return { success: true, data: { questionId } };
+  }
+
+  playerConnected(competitionId: string, userId: string): void {
+    this.presence.set(competitionId, (this.presence.get(competitionId) || new Set()).add(userId));
+  }
+
+  playerDisconnected(competitionId: string, userId: string): void {
+    const connected = this.presence.get(competitionId);
+    connected?.delete(userId);
+    if (connected?.size === 0) {
+      this.presence.delete(competitionId);
+    }
+  }
+
+  /**
+   * Everything a player needs on (re)connecting: status, standings and the open question if there is one
+   */
+  async getSnapshot(competitionId: string, userId: string): Promise<CompetitionServerMessage | undefined> {
+    const competition = await storage.getCompetition(competitionId);
+    if (!competition) return undefined;
+
+    const match = this.matches.get(competitionId);
+    const question = match && match.phase === 'question' ? match.questions[match.index] : undefined;
+
+    return {
+      type: 'state',
+      status: (competition.status || 'waiting') as CompetitionStatus,
+      hostId: competition.creatorId,
+      questionsCount: match?.questions.length ?? competition.questionsCount ?? 0,
+      leaderboard: await this.getLeaderboard(competitionId),
+      current: match && question ? {
+        index: match.index,
+        question: toCompetitionQuestion(question),
+        endsAt: new Date(match.questionStartedAt + match.questionMs).toISOString(),
+        answered: !!match.players.get(userId)?.answers.some(a => a.questionId === question.id),
+      } : undefined,
+    };
+  }
+
+  /**
+   * Live standings while a match runs, otherwise the saved scores and ranks
+   */
+  async getLeaderboard(competitionId: string): Promise<CompetitionLeaderboardEntry[]> {
+    const match = this.matches.get(competitionId);
+    if (match) {
+      return rankPlayers(Array.from(match.players.values()));
+    }
+
+    const participants = await storage.getCompetitionParticipants(competitionId);
+    const users = await Promise.all(participants.map(p => storage.getUser(p.userId)));
+    return rankPlayers(participants.map((p, i) => ({
+      userId: p.userId,
+      nickname: users[i]?.nickname || 'Player',
+      score: p.score || 0,
+      timeSpentMs: (p.timeSpent || 0) * 1000,
+      answers: p.answers || [],
+    })));
+  }
+
+  /**
+   * Matches are only held in memory by the instance hosting them, so a running match whose host stopped
+   * renewing its heartbeat is finished with the scores saved up to its last completed question
+   */
+  async recoverInterrupted(now: Date = new Date()): Promise<Record<string, number>> {
+    const heartbeatBefore = new Date(now.getTime() - HOST_LEASE_MS);
+    const abandoned = await storage.getAbandonedCompetitions(heartbeatBefore);
+    let recovered = 0;
+    for (const competition of abandoned.filter(c => !this.matches.has(c.id))) {
+      const finished = await storage.finishAbandonedCompetition(competition.id, heartbeatBefore, now);
+      if (!finished) continue;
+      await this.saveRanks(competition.id, await this.getLeaderboard(competition.id));
+      recovered++;
+      console.log(`🏁 Competition ${competition.id} lost its host ${competition.hostInstance ?? 'instance'} and has been finished`);
+    }
+    return { recovered };
+  }
+
+  private nextQuestion(match: LiveMatch): void {
+    match.index++;
+    if (match.index >= match.questions.length) {
+      this.finish(match).catch(error => console.error("Error finishing competition:", error));
+      return;
+    }
+
+    match.phase = 'question';
+    match.questionStartedAt = Date.now();
+    match.timer = setTimeout(() => this.closeQuestion(match), match.questionMs);
+
+    this.publish(match.competition.id, {
+      type: 'question',
+      index: match.index,
+      total: match.questions.length,
+      question: toCompetitionQuestion(match.questions[match.index]),
+      endsAt: new Date(match.questionStartedAt + match.questionMs).toISOString(),
+    });
+  }
+
+  private closeQuestion(match: LiveMatch): void {
+    if (match.phase !== 'question') return;
+    match.phase = 'result';
+    if (match.timer) clearTimeout(match.timer);
+
+    const question = match.questions[match.index];
+    const players = Array.from(match.players.values());
+
+    // Not answering costs the whole question's time
+    for (const player of players) {
+      if (!player.answers.some(a => a.questionId === question.id)) player.timeSpentMs += match.questionMs;
+    }
+
+    const leaderboard = rankPlayers(players);
+    for (const player of players) {
+      const answer = player.answers.find(a => a.questionId === question.id);
+      this.publish(match.competition.id, {
+        type: 'question_result',
+        index: match.index,
+        questionId: question.id,
+        correctAnswer: question.correctAnswer,
+        yourResult: { answer: answer?.selectedAnswer ?? null, isCorrect: !!answer?.isCorrect, points: answer?.points ?? 0 },
+        leaderboard,
+      }, player.userId);
+    }
+
+    this.saveScores(match)
+      .catch(error => console.error("Error saving competition scores:", error))
+      .finally(() => {
+        match.timer = setTimeout(() => this.nextQuestion(match), RESULT_PAUSE_MS);
+      });
+  }
+
+  private async finish(match: LiveMatch): Promise<void> {
+    const competitionId = match.competition.id;
+    const leaderboard = rankPlayers(Array.from(match.players.values()));
+
+    await this.saveRanks(competitionId, leaderboard);
+    await storage.transitionCompetition(competitionId, 'running', { status: 'finished', endTime: new Date() });
+    this.matches.delete(competitionId);
+    if (this.matches.size === 0) this.stopHeartbeat();
+
+    console.log(`🏆 Competition ${competitionId} finished; winner ${leaderboard[0]?.nickname ?? 'none'}`);
+    this.publish(competitionId, { type: 'finished', leaderboard });
+  }
+
+  private async saveScores(match: LiveMatch): Promise<void> {
+    await Promise.all(Array.from(match.players.values()).map(player =>
+      storage.updateCompetitionParticipant(player.participantId, {
+        score: player.score,
+        timeSpent: Math.round(player.timeSpentMs / 1000),
+        answers: player.answers,
+      })
+    ));
+  }
+
+  private async saveRanks(competitionId: string, leaderboard: CompetitionLeaderboardEntry[]): Promise<void> {
+    const participants = await storage.getCompetitionParticipants(competitionId);
+    const ranks = new Map(leaderboard.map(entry => [entry.userId, entry.rank]));
+    await Promise.all(participants.map(p => storage.updateCompetitionParticipant(p.id, { rank: ranks.get(p.userId) ?? null })));
+  }
+
+  private startHeartbeat(): void {
+    if (this.heartbeatTimer) return;
+    this.heartbeatTimer = setInterval(() => {
+      storage.heartbeatCompetitions(Array.from(this.matches.keys()), instanceId, new Date())
+        .catch(error => console.error("Error renewing competition heartbeat:", error));
+    }, HEARTBEAT_INTERVAL_MS);
+    this.heartbeatTimer.unref();
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    this.heartbeatTimer = null;
+  }
+
+  private publish(competitionId: string, message: CompetitionServerMessage, userId?: string): void {
+    this.listeners.forEach(listener => listener(competitionId, message, userId));
+  }
+}
+
+export const competitionService = new CompetitionService();
@@ -167,4 +167,102 @@ export function generateWelcomeEmail(userEmail: string, userName: string) {
       </html>
     `
   };
-}
\ No newline at end of file
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function generateQuestionReportOutcomeEmail(userEmail: string, userName: string, outcome: {
+  questionText: string;
+  status: 'resolved' | 'dismissed';
+  adminNotes?: string | null;
+}) {
+  const summary = outcome.status === 'resolved'
+    ? 'Thanks to your report, we have corrected this question.'
+    : 'We reviewed this question and found it to be correct, so it has been left as it is.';
+  const excerpt = outcome.questionText.length > 200 ? `${outcome.questionText.slice(0, 200)}…` : outcome.questionText;
+
+  return {
+    to: userEmail,
+    from: 'noreply@test.replit.dev',
+    subject: outcome.status === 'resolved' ? 'The question you reported has been fixed' : 'Update on the question you reported',
+    text: `Hi ${userName}, ${summary}\n\nQuestion: ${excerpt}${outcome.adminNotes ? `\n\nNote from our team: ${outcome.adminNotes}` : ''}`,
+    html: `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>Your Question Report</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .content { background: #f9f9f9; padding: 30px; border-radius: 10px; }
+          .question { background: white; padding: 20px; margin: 15px 0; border-radius: 8px; border-left: 4px solid #667eea; }
+          .footer { text-align: center; margin-top: 30px; color: #666; font-size: 14px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="content">
+            <p>Hi ${escapeHtml(userName)},</p>
+            <p>${summary}</p>
+            <div class="question">${escapeHtml(excerpt)}</div>
+            ${outcome.adminNotes ? `<p><strong>Note from our team:</strong> ${escapeHtml(outcome.adminNotes)}</p>` : ''}
+            <p>Thank you for helping keep UTME AI accurate for everyone.</p>
+          </div>
+          <div class="footer">
+            <p>UTME AI - Helping Nigerian students achieve their academic dreams</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `
+  };
+}
+
+// Plain branded email for notifications that don't have a dedicated design
+export function generateNotificationEmail(userEmail: string, userName: string, message: {
+  subject: string;
+  paragraphs: string[];
+  action?: { label: string; url: string };
+}) {
+  return {
+    to: userEmail,
+    from: 'noreply@test.replit.dev',
+    subject: message.subject,
+    text: [`Hi ${userName},`, ...message.paragraphs, ...(message.action ? [`${message.action.label}: ${message.action.url}`] : [])].join('\n\n'),
+    html: `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>${escapeHtml(message.subject)}</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .content { background: #f9f9f9; padding: 30px; border-radius: 10px; }
+          .button { display: inline-block; background: #667eea; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+          .footer { text-align: center; margin-top: 30px; color: #666; font-size: 14px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="content">
+            <p>Hi ${escapeHtml(userName)},</p>
+            ${message.paragraphs.map(paragraph => `<p>${escapeHtml(paragraph)}</p>`).join('\n            ')}
+            ${message.action ? `<a href="${escapeHtml(message.action.url)}" class="button">${escapeHtml(message.action.label)}</a>` : ''}
+          </div>
+          <div class="footer">
+            <p>UTME AI - Helping Nigerian students achieve their academic dreams</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `
+  };
+}
@@ -0,0 +1,339 @@
+// Single source of truth for premium access, CBT access and the free trial: everything is derived from
+// the user's entitlements, which unlock codes, payments and admins grant
+import { randomInt, randomUUID } from "crypto";
+import { storage } from "../storage";
+import { DEFAULT_PAYMENT_PLAN, FREE_TRIAL_LIMIT, getEntitlementPlan, type AccessSummary, type EntitlementSource } from "@shared/entitlements";
+import type { Entitlement, Payment, UnlockCode, User } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Printed codes avoid characters that are easy to misread (0/O, 1/I/L)
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+const MAX_BATCH_SIZE = 500;
+
+export type RedeemResult =
+  | { success: true; entitlement: Entitlement; access: AccessSummary }
+  | { success: false; status: number; message: string };
+
+export type CbtAttemptResult =
+  | { allowed: true; via: 'premium' | 'entitlement' | 'trial'; entitlementId?: string }
+  | { allowed: false; message: string };
+
+export interface CodeBatchOptions {
+  planId: string;
+  count: number;
+  maxRedemptions?: number;
+  expiresAt?: Date | null;
+  createdBy?: string;
+  note?: string;
+}
+
+export function normalizeUnlockCode(code: string): string {
+  return code.replace(/[\s-]/g, '').toUpperCase();
+}
+
+function isCurrent(entitlement: Entitlement, now: Date): boolean {
+  return !entitlement.revokedAt
+    && entitlement.startsAt <= now
+    && (!entitlement.endsAt || entitlement.endsAt > now);
+}
+
+function attemptsLeft(entitlement: Entitlement): number {
+  return Math.max(0, (entitlement.cbtAttemptsGranted || 0) - entitlement.cbtAttemptsUsed);
+}
+
+class EntitlementService {
+  /**
+   * What the user can do right now: premium status, CBT attempts left and the free trial
+   */
+  async getAccess(user: User, now: Date = new Date()): Promise<AccessSummary> {
+    return this.summarize(user, await this.getEntitlements(user), now);
+  }
+
+  /**
+   * Bring the user's cached isPremium flag in line with their entitlements, e.g. after premium expired
+   */
+  async refreshUser(user: User, now: Date = new Date()): Promise<User> {
+    const access = await this.getAccess(user, now);
+    return await this.syncUser(user, access);
+  }
+
+  async getEntitlements(user: User): Promise<Entitlement[]> {
+    const entitlements = await storage.getUserEntitlements(user.id);
+
+    // Users made premium before entitlements existed keep unlimited access
+    if (entitlements.length === 0 && user.isPremium) {
+      return [await this.grantPlan(user.id, 'premium-lifetime', 'legacy')];
+    }
+
+    return entitlements;
+  }
+
+  /**
+   * Give the user a plan. Premium time stacks: a new premium plan runs on from the end of any current one.
+   */
+  async grantPlan(userId: string, planId: string, source: EntitlementSource, sourceId?: string, now: Date = new Date()): Promise<Entitlement> {
+    const plan = getEntitlementPlan(planId);
+    if (!plan) {
+      throw new Error(`Unknown plan: ${planId}`);
+    }
+
+    let endsAt: Date | null = null;
+    if (plan.durationDays !== null) {
+      const from = plan.kind === 'premium' ? await this.getPremiumEnd(userId, now) : now.getTime();
+      endsAt = new Date(from + plan.durationDays * DAY_MS);
+    }
+
+    const entitlement = await storage.createEntitlement({
+      userId,
+      planId: plan.id,
+      kind: plan.kind,
+      source,
+      sourceId,
+      startsAt: now,
+      endsAt,
+      cbtAttemptsGranted: plan.kind === 'cbt_attempts' ? plan.cbtAttempts || 1 : null,
+    });
+
+    console.log(`🎟️ Granted ${plan.id} to user ${userId} (${source})`);
+    return entitlement;
+  }
+
+  /**
+   * Grant the plan a successful payment bought. Safe to call more than once for the same payment.
+   */
+  async grantForPayment(payment: Payment, now: Date = new Date()): Promise<Entitlement> {
+    const existing = await storage.getEntitlementBySource('payment', payment.id);
+    if (existing) return existing;
+
+    const entitlement = await this.grantPlan(payment.userId, payment.planId || DEFAULT_PAYMENT_PLAN, 'payment', payment.id, now);
+    await this.syncAccess(payment.userId, now);
+    return entitlement;
+  }
+
+  /**
+   * Take back what a refunded payment granted
+   */
+  async revokeForPayment(payment: Payment, now: Date = new Date()): Promise<Entitlement | undefined> {
+    const entitlement = await storage.getEntitlementBySource('payment', payment.id);
+    if (!entitlement || entitlement.revokedAt) return entitlement;
+
+    const revoked = await storage.updateEntitlement(entitlement.id, { revokedAt: now });
+    await this.syncAccess(payment.userId, now);
+    console.log(`🎟️ Revoked ${entitlement.planId} from user ${payment.userId} after refund`);
+    return revoked;
+  }
+
+  /**
+   * Redeem an unlock code for the user. The redemption limit is enforced atomically in storage,
+   * and a user can redeem any one code only once.
+   */
+  async redeemCode(user: User, rawCode: string, now: Date = new Date()): Promise<RedeemResult> {
+    const code = normalizeUnlockCode(rawCode);
+    const unlockCode = code ? await storage.getUnlockCodeByCode(code) : undefined;
+
+    if (!unlockCode || !getEntitlementPlan(unlockCode.planId)) {
+      return { success: false, status: 404, message: "Invalid unlock code. Please check your code and try again." };
+    }
+    if (unlockCode.revokedAt) {
+      return { success: false, status: 410, message: "This unlock code is no longer valid." };
+    }
+    if (unlockCode.expiresAt && unlockCode.expiresAt <= now) {
+      return { success: false, status: 410, message: "This unlock code has expired." };
+    }
+    // The redemption row goes in first, so concurrent redemptions by the same user can't both get a plan
+    const redemption = await storage.createUnlockCodeRedemption(unlockCode.id, user.id);
+    if (!redemption) {
+      return { success: false, status: 409, message: "You have already redeemed this unlock code." };
+    }
+
+    const claimed = await storage.claimUnlockCode(unlockCode.id, now);
+    if (!claimed) {
+      await storage.deleteUnlockCodeRedemption(redemption.id);
+      return { success: false, status: 410, message: "This unlock code has already been used." };
+    }
+
+    let entitlement: Entitlement;
+    try {
+      entitlement = await this.grantPlan(user.id, unlockCode.planId, 'unlock_code', unlockCode.id, now);
+    } catch (error) {
+      await storage.releaseUnlockCode(unlockCode.id);
+      await storage.deleteUnlockCodeRedemption(redemption.id);
+      throw error;
+    }
+    await storage.updateUnlockCodeRedemption(redemption.id, { entitlementId: entitlement.id });
+    await storage.updateUser(user.id, { activationCode: unlockCode.code });
+
+    return { success: true, entitlement, access: await this.syncAccess(user.id, now) };
+  }
+
+  /**
+   * Count one practice session against a free user's trial. Premium users aren't counted.
+   */
+  async recordTrialUse(user: User, now: Date = new Date()): Promise<AccessSummary> {
+    const access = await this.getAccess(user, now);
+    if (access.isPremium) return access;
+
+    const updated = await storage.incrementUsageCount(user.id);
+    return await this.getAccess(updated, now);
+  }
+
+  /**
+   * Whether the user could start a CBT exam now, without using anything up
+   */
+  async checkCbtAccess(user: User, now: Date = new Date()): Promise<CbtAttemptResult> {
+    const entitlements = await this.getEntitlements(user);
+    const access = this.summarize(user, entitlements, now);
+    if (access.isPremium) {
+      return { allowed: true, via: 'premium' };
+    }
+
+    const [entitlement] = this.getAttemptPlans(entitlements, now);
+    if (entitlement) {
+      return { allowed: true, via: 'entitlement', entitlementId: entitlement.id };
+    }
+    if (access.trialRemaining > 0) {
+      return { allowed: true, via: 'trial' };
+    }
+
+    return { allowed: false, message: "You have no CBT attempts left. Please buy a plan or redeem an unlock code." };
+  }
+
+  /**
+   * Check and use the user's access to start a CBT exam: premium covers it, otherwise one attempt
+   * is taken from a CBT plan (the one expiring soonest) or, failing that, from the free trial
+   */
+  async startCbtAttempt(user: User, now: Date = new Date()): Promise<CbtAttemptResult> {
+    const entitlements = await this.getEntitlements(user);
+    const access = this.summarize(user, entitlements, now);
+    if (access.isPremium) {
+      return { allowed: true, via: 'premium' };
+    }
+
+    for (const entitlement of this.getAttemptPlans(entitlements, now)) {
+      if (await storage.useCbtAttempt(entitlement.id)) {
+        return { allowed: true, via: 'entitlement', entitlementId: entitlement.id };
+      }
+    }
+
+    if (access.trialRemaining > 0 && await storage.useTrialAttempt(user.id, FREE_TRIAL_LIMIT)) {
+      return { allowed: true, via: 'trial' };
+    }
+
+    return { allowed: false, message: "You have no CBT attempts left. Please buy a plan or redeem an unlock code." };
+  }
+
+  /**
+   * Give back an attempt startCbtAttempt used, when the exam it was for couldn't start
+   */
+  async refundCbtAttempt(user: User, attempt: CbtAttemptResult): Promise<void> {
+    if (!attempt.allowed || attempt.via === 'premium') return;
+    if (attempt.via === 'entitlement') {
+      await storage.releaseCbtAttempt(attempt.entitlementId!);
+    } else {
+      await storage.decrementUsageCount(user.id);
+    }
+    console.log(`🎟️ Refunded a CBT attempt (${attempt.via}) to user ${user.id}`);
+  }
+
+  /**
+   * Create a batch of unlock codes for a plan
+   */
+  async generateCodeBatch(options: CodeBatchOptions): Promise<UnlockCode[]> {
+    if (!getEntitlementPlan(options.planId)) {
+      throw new Error(`Unknown plan: ${options.planId}`);
+    }
+
+    const count = Math.max(1, Math.min(MAX_BATCH_SIZE, Math.floor(options.count)));
+    const batchId = randomUUID();
+    const codes = new Set<string>();
+    while (codes.size < count) {
+      codes.add(this.generateCode());
+    }
+
+    const created = await storage.createUnlockCodes(Array.from(codes, code => ({
+      code,
+      batchId,
+      planId: options.planId,
+      maxRedemptions: Math.max(1, Math.floor(options.maxRedemptions || 1)),
+      expiresAt: options.expiresAt || null,
+      createdBy: options.createdBy,
+      note: options.note,
+    })));
+
+    console.log(`🎟️ Generated ${created.length} ${options.planId} unlock codes in batch ${batchId}`);
+    return created;
+  }
+
+  async revokeCode(id: string, now: Date = new Date()): Promise<UnlockCode> {
+    return await storage.updateUnlockCode(id, { revokedAt: now });
+  }
+
+  // Current CBT plans with attempts left, the one expiring soonest first
+  private getAttemptPlans(entitlements: Entitlement[], now: Date): Entitlement[] {
+    return entitlements
+      .filter(e => e.kind === 'cbt_attempts' && isCurrent(e, now) && attemptsLeft(e) > 0)
+      .sort((a, b) => (a.endsAt?.getTime() ?? Infinity) - (b.endsAt?.getTime() ?? Infinity));
+  }
+
+  private generateCode(): string {
+    return Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join('');
+  }
+
+  // When the user's current timed premium runs out, or now if they have none
+  private async getPremiumEnd(userId: string, now: Date): Promise<number> {
+    return (await storage.getUserEntitlements(userId))
+      .filter(e => e.kind === 'premium' && isCurrent(e, now) && e.endsAt)
+      .reduce((latest, e) => Math.max(latest, e.endsAt!.getTime()), now.getTime());
+  }
+
+  /**
+   * Recompute the user's access after their entitlements changed and update their cached flags
+   */
+  async syncAccess(userId: string, now: Date = new Date()): Promise<AccessSummary> {
+    const user = await storage.getUser(userId);
+    if (!user) {
+      throw new Error(`User not found: ${userId}`);
+    }
+    const access = await this.getAccess(user, now);
+    await this.syncUser(user, access);
+    return access;
+  }
+
+  private async syncUser(user: User, access: AccessSummary): Promise<User> {
+    const isActivated = access.isPremium || !!user.isActivated;
+    if (user.isPremium === access.isPremium && user.isActivated === isActivated) {
+      return user;
+    }
+    return await storage.updateUser(user.id, { isPremium: access.isPremium, isActivated, updatedAt: new Date() });
+  }
+
+  private summarize(user: User, entitlements: Entitlement[], now: Date): AccessSummary {
+    const current = entitlements.filter(e => isCurrent(e, now));
+    const premium = current.filter(e => e.kind === 'premium');
+    const isPremium = premium.length > 0;
+    const cbtAttemptsRemaining = current
+      .filter(e => e.kind === 'cbt_attempts')
+      .reduce((sum, e) => sum + attemptsLeft(e), 0);
+
+    let premiumUntil: string | null = null;
+    if (isPremium && premium.every(e => e.endsAt)) {
+      premiumUntil = new Date(Math.max(...premium.map(e => e.endsAt!.getTime()))).toISOString();
+    }
+
+    const trialUsed = user.usageCount || 0;
+    const trialRemaining = isPremium ? 0 : Math.max(0, FREE_TRIAL_LIMIT - trialUsed);
+
+    return {
+      isPremium,
+      premiumUntil,
+      cbtAttemptsRemaining,
+      trialUsed,
+      trialRemaining,
+      canStartCbt: isPremium || cbtAttemptsRemaining > 0 || trialRemaining > 0,
+    };
+  }
+}
+
+export const entitlementService = new EntitlementService();
@@ -0,0 +1,453 @@
+// Exam countdown plans: lays out every syllabus topic of the student's subjects over the days left before the
+// exam, with mock-exam checkpoints and revision days at the end, as study scheduler tasks. The remaining
+// plan is laid out again when the student falls behind or their results show new weak topics.
+import { z } from "zod";
+import { storage } from "../storage";
+import { questionBankService } from "./questionBankService";
+import { studySchedulerService } from "./studySchedulerService";
+import { notificationService } from "./notificationService";
+import type { BackgroundJob } from "./jobRunner";
+import {
+  EXAM_PLAN_EXAMS,
+  EXAM_PLAN_MAX_DAILY_HOURS,
+  EXAM_PLAN_MAX_DAYS,
+  EXAM_PLAN_MAX_REVISION_DAYS,
+  EXAM_PLAN_MIN_DAILY_HOURS,
+  EXAM_PLAN_MIN_DAYS,
+  EXAM_PLAN_MOCK_EVERY_DAYS,
+  EXAM_PLAN_REMINDER_DAYS,
+  EXAM_PLAN_REVISION_SHARE,
+  EXAM_PLAN_SESSION_MINUTES,
+  STUDY_PLAN_TOPICS,
+  daysBetween,
+  type ExamPlanOverview,
+  type ExamPlanRequest,
+  type ExamPlanSubject,
+  type ExamPlanTopic,
+} from "@shared/examPlan";
+import {
+  SCHEDULER_PLAN_BREAK_MINUTES,
+  SCHEDULER_WEEKDAYS,
+  formatMinutesAsTime,
+  fromLocalTime,
+  resolveStudyStartMinutes,
+  toLocalDayKey,
+} from "@shared/scheduler";
+import type { ExamPlan, InsertStudyScheduler, StudyProgress, StudyScheduler, User } from "@shared/schema";
+
+export type ExamPlanResult<T> =
+  | { success: true; data: T }
+  | { success: false; status: number; message: string };
+
+type SessionKind = 'learn' | 'practice' | 'review' | 'quiz' | 'mock';
+
+interface PlannedSession {
+  kind: SessionKind;
+  subject: ExamPlanSubject;
+  topic: string | null;
+  weak: boolean;
+}
+
+const DAY_MINUTES = 24 * 60;
+const MAX_BANK_TOPICS = 20;
+const JOB_BATCH_SIZE = 100;
+
+const TASK_TYPES: Record<SessionKind, string> = {
+  learn: 'notes',
+  practice: 'practice',
+  review: 'review',
+  quiz: 'quiz',
+  mock: 'mock',
+};
+
+const requestSchema = z.object({
+  examType: z.enum(EXAM_PLAN_EXAMS.map(exam => exam.id) as [string, ...string[]]),
+  examDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "examDate must be YYYY-MM-DD"),
+  subjectIds: z.array(z.string().min(1)).min(1, "Pick at least one subject"),
+  dailyHours: z.coerce.number().min(EXAM_PLAN_MIN_DAILY_HOURS).max(EXAM_PLAN_MAX_DAILY_HOURS),
+});
+
+function describeIssues(error: z.ZodError): string {
+  return error.issues.map(issue => `${issue.path.join('.') || 'plan'}: ${issue.message}`).join(', ');
+}
+
+function sameTopic(a: string, b: string): boolean {
+  const left = a.trim().toLowerCase();
+  const right = b.trim().toLowerCase();
+  return left === right || left.includes(right) || right.includes(left);
+}
+
+// Take one item from each list in turn until all are empty
+function interleave<T>(lists: T[][]): T[] {
+  const queues = lists.map(list => [...list]);
+  const result: T[] = [];
+  while (queues.some(queue => queue.length > 0)) {
+    for (const queue of queues) {
+      const next = queue.shift();
+      if (next !== undefined) result.push(next);
+    }
+  }
+  return result;
+}
+
+class ExamPlanService {
+  readonly job: BackgroundJob = {
+    name: 'exam-plans',
+    intervalMs: 60 * 60 * 1000,
+    run: (now) => this.runJob(now),
+  };
+
+  async getOverview(userId: string, now: Date = new Date()): Promise<ExamPlanOverview | null> {
+    const plan = await storage.getActiveExamPlan(userId);
+    return plan ? this.buildOverview(plan, await storage.getExamPlanTasks(plan.id), now) : null;
+  }
+
+  /**
+   * Start a plan for an exam, replacing the student's current plan and its sessions still to come
+   */
+  async create(user: User, input: unknown, now: Date = new Date()): Promise<ExamPlanResult<ExamPlanOverview>> {
+    const parsed = requestSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, status: 400, message: describeIssues(parsed.error) };
+    }
+    const request = parsed.data as ExamPlanRequest;
+    const exam = EXAM_PLAN_EXAMS.find(entry => entry.id === request.examType)!;
+
+    const daysLeft = daysBetween(toLocalDayKey(now), request.examDate);
+    if (Number.isNaN(daysLeft) || daysLeft < EXAM_PLAN_MIN_DAYS || daysLeft > EXAM_PLAN_MAX_DAYS) {
+      return { success: false, status: 400, message: `The exam must be between ${EXAM_PLAN_MIN_DAYS} and ${EXAM_PLAN_MAX_DAYS} days away` };
+    }
+
+    const subjectIds = Array.from(new Set(request.subjectIds));
+    if (subjectIds.length > exam.maxSubjects) {
+      return { success: false, status: 400, message: `${exam.name} has at most ${exam.maxSubjects} subjects` };
+    }
+
+    const subjects: ExamPlanSubject[] = [];
+    for (const subjectId of subjectIds) {
+      const subject = await questionBankService.resolveSubject(subjectId);
+      if (!subject) {
+        return { success: false, status: 404, message: `Subject ${subjectId} not found` };
+      }
+      subjects.push({ subjectId: subject.id, subjectName: subject.name });
+    }
+    if (exam.requiredSubject && !subjects.some(subject => sameTopic(subject.subjectName, exam.requiredSubject!))) {
+      return { success: false, status: 400, message: `${exam.requiredSubject} is compulsory for ${exam.name}` };
+    }
+
+    const progress = await this.getProgress(user.id, subjects);
+    const topics: ExamPlanTopic[] = [];
+    for (const subject of subjects) {
+      const syllabus = await this.getSyllabus(subject);
+      if (syllabus.length === 0) {
+        return { success: false, status: 400, message: `There are no syllabus topics for ${subject.subjectName} yet` };
+      }
+      const weakTopics = progress.get(subject.subjectId)?.weakTopics || [];
+      topics.push(...syllabus.map(topic => ({
+        ...subject,
+        topic,
+        covered: false,
+        weak: weakTopics.some(weak => sameTopic(weak, topic)),
+      })));
+    }
+
+    const current = await storage.getActiveExamPlan(user.id);
+    if (current) {
+      await storage.deleteExamPlanTasks(current.id, now);
+      await storage.updateExamPlan(current.id, { status: 'cancelled' });
+    }
+
+    const plan = await storage.createExamPlan({
+      userId: user.id,
+      examType: exam.id,
+      examDate: fromLocalTime(request.examDate, '00:00'),
+      subjects,
+      dailyMinutes: Math.round(request.dailyHours * 60),
+      topics,
+      weakTopics: this.weakTopicSnapshot(progress),
+      status: 'active',
+      lastRebalancedAt: now,
+    });
+    const laidOut = await this.layOut(plan, topics, now);
+    console.log(`🎯 ${exam.name} plan for user ${user.id}: ${topics.length} topics over ${daysLeft} days`);
+    return { success: true, data: this.buildOverview(laidOut, await storage.getExamPlanTasks(plan.id), now) };
+  }
+
+  async cancel(userId: string, now: Date = new Date()): Promise<boolean> {
+    const plan = await storage.getActiveExamPlan(userId);
+    if (!plan) return false;
+    await storage.deleteExamPlanTasks(plan.id, now);
+    await storage.updateExamPlan(plan.id, { status: 'cancelled' });
+    return true;
+  }
+
+  /**
+   * Lay out the rest of the plan again from now: topics with a completed session count as covered, topics
+   * whose sessions were missed come round again, and weak topics get extra practice.
+   */
+  async rebalance(plan: ExamPlan, now: Date = new Date()): Promise<ExamPlan> {
+    const [tasks, progress] = await Promise.all([
+      storage.getExamPlanTasks(plan.id),
+      this.getProgress(plan.userId, plan.subjects),
+    ]);
+
+    const completedTopics = tasks.filter(task => task.status === 'completed' && task.topic);
+    const topics = plan.topics.map(topic => ({
+      ...topic,
+      covered: topic.covered || completedTopics.some(task => task.subjectId === topic.subjectId && task.topic === topic.topic),
+      weak: (progress.get(topic.subjectId)?.weakTopics || []).some(weak => sameTopic(weak, topic.topic)),
+    }));
+
+    // Weak topics from the student's results that the syllabus didn't name are added to it
+    for (const subject of plan.subjects) {
+      for (const weak of progress.get(subject.subjectId)?.weakTopics || []) {
+        if (!topics.some(topic => topic.subjectId === subject.subjectId && sameTopic(topic.topic, weak))) {
+          topics.push({ ...subject, topic: weak, covered: false, weak: true });
+        }
+      }
+    }
+
+    await storage.deleteExamPlanTasks(plan.id, now);
+    const updated = await storage.updateExamPlan(plan.id, {
+      topics,
+      weakTopics: this.weakTopicSnapshot(progress),
+      lastRebalancedAt: now,
+      rebalanceCount: (plan.rebalanceCount || 0) + 1,
+    });
+    console.log(`🎯 Rebalanced exam plan ${plan.id}: ${topics.filter(topic => !topic.covered).length} topics left`);
+    return await this.layOut(updated, topics, now);
+  }
+
+  /**
+   * Rebalance the student's plan if they skipped sessions or their results show weak topics the plan
+   * hasn't allowed for since it was last laid out. Returns whether it was rebalanced.
+   */
+  async rebalanceIfNeeded(userId: string, now: Date = new Date()): Promise<boolean> {
+    const plan = await storage.getActiveExamPlan(userId);
+    if (!plan || plan.examDate <= now) return false;
+    return await this.rebalancePlanIfNeeded(plan, now);
+  }
+
+  /**
+   * Background job: closes plans whose exam has passed, sends exam countdown reminders and rebalances plans
+   * that need it
+   */
+  async runJob(now: Date = new Date()): Promise<Record<string, number>> {
+    const counts = { checked: 0, completed: 0, reminded: 0, rebalanced: 0 };
+    const today = toLocalDayKey(now);
+
+    for (let offset = 0; ; offset += JOB_BATCH_SIZE) {
+      const plans = await storage.getActiveExamPlans(JOB_BATCH_SIZE, offset);
+      for (const plan of plans) {
+        counts.checked++;
+        const daysLeft = daysBetween(today, toLocalDayKey(plan.examDate));
+        if (daysLeft < 0) {
+          await storage.updateExamPlan(plan.id, { status: 'completed' });
+          counts.completed++;
+          continue;
+        }
+
+        const sent = plan.remindersSent || [];
+        const mark = EXAM_PLAN_REMINDER_DAYS.find(days => days === daysLeft && !sent.includes(days));
+        if (mark !== undefined) {
+          const exam = EXAM_PLAN_EXAMS.find(entry => entry.id === plan.examType);
+          await storage.updateExamPlan(plan.id, { remindersSent: [...sent, mark] });
+          await notificationService.notify(plan.userId, 'exam_reminder', {
+            examName: exam?.name || plan.examType,
+            examDate: plan.examDate.toISOString(),
+            daysLeft,
+          }, now);
+          counts.reminded++;
+        }
+
+        if (await this.rebalancePlanIfNeeded(plan, now)) counts.rebalanced++;
+      }
+      if (plans.length < JOB_BATCH_SIZE) break;
+    }
+
+    if (counts.completed + counts.reminded + counts.rebalanced > 0) {
+      console.log(`🎯 Exam plans: ${counts.reminded} reminders, ${counts.rebalanced} rebalanced, ${counts.completed} finished`);
+    }
+    return counts;
+  }
+
+  private async rebalancePlanIfNeeded(plan: ExamPlan, now: Date): Promise<boolean> {
+    const [tasks, progress] = await Promise.all([
+      storage.getExamPlanTasks(plan.id),
+      this.getProgress(plan.userId, plan.subjects),
+    ]);
+    const since = plan.lastRebalancedAt || plan.createdAt || new Date(0);
+    const fellBehind = tasks.some(task => task.status === 'skipped' && task.scheduledDate >= since);
+    const snapshot = plan.weakTopics || {};
+    const newWeakTopics = plan.subjects.some(subject =>
+      (progress.get(subject.subjectId)?.weakTopics || []).some(weak => !(snapshot[subject.subjectId] || []).includes(weak))
+    );
+
+    if (!fellBehind && !newWeakTopics) return false;
+    await this.rebalance(plan, now);
+    return true;
+  }
+
+  /**
+   * Write the plan's sessions from now until the day before the exam and record how many topics didn't fit
+   */
+  private async layOut(plan: ExamPlan, topics: ExamPlanTopic[], now: Date): Promise<ExamPlan> {
+    const exam = EXAM_PLAN_EXAMS.find(entry => entry.id === plan.examType)!;
+    const availability = await studySchedulerService.getAvailability(plan.userId);
+    const startMinutes = resolveStudyStartMinutes(availability.preferredTime);
+    const anyDayTicked = SCHEDULER_WEEKDAYS.some(day => availability[day]);
+    const slotMinutes = EXAM_PLAN_SESSION_MINUTES + SCHEDULER_PLAN_BREAK_MINUTES;
+    const sessionsPerDay = Math.max(1, Math.min(
+      Math.floor(plan.dailyMinutes / EXAM_PLAN_SESSION_MINUTES),
+      Math.floor((DAY_MINUTES - startMinutes) / slotMinutes),
+    ));
+
+    // Study days: today if the start time is still ahead, up to the day before the exam
+    const today = toLocalDayKey(now);
+    const examDay = toLocalDayKey(plan.examDate);
+    const days: string[] = [];
+    for (let offset = fromLocalTime(today, formatMinutesAsTime(startMinutes)) > now ? 0 : 1; ; offset++) {
+      const day = toLocalDayKey(new Date(fromLocalTime(today, '12:00').getTime() + offset * DAY_MINUTES * 60 * 1000));
+      if (day >= examDay) break;
+      const weekday = SCHEDULER_WEEKDAYS[new Date(`${day}T00:00:00Z`).getUTCDay()];
+      if (!anyDayTicked || availability[weekday]) days.push(day);
+    }
+
+    const revisionCount = days.length <= 1 ? 0 : Math.min(
+      Math.max(Math.round(days.length * EXAM_PLAN_REVISION_SHARE), 1),
+      EXAM_PLAN_MAX_REVISION_DAYS,
+      days.length - 1,
+    );
+    const syllabusDays = days.slice(0, days.length - revisionCount);
+    const revisionDays = days.slice(days.length - revisionCount);
+    const mockSlots = Math.ceil(exam.mockMinutes / EXAM_PLAN_SESSION_MINUTES);
+    // The revision days open with a mock, unless the last syllabus day already had one
+    const isMockDay = (index: number, revision: boolean): boolean =>
+      revision
+        ? index === 0 && !(syllabusDays.length > 0 && isMockDay(syllabusDays.length - 1, false))
+        : (index + 1) % EXAM_PLAN_MOCK_EVERY_DAYS === 0;
+    const capacity = (index: number, revision: boolean) =>
+      isMockDay(index, revision) ? Math.max(sessionsPerDay - mockSlots, 0) : sessionsPerDay;
+
+    // Topics still to learn, weak ones first in each subject and followed by a practice session;
+    // weak topics already covered get a practice session to reinforce them
+    const perSubject = plan.subjects.map(subject => {
+      const own = topics.filter(topic => topic.subjectId === subject.subjectId);
+      const pending = own.filter(topic => !topic.covered).sort((a, b) => Number(b.weak) - Number(a.weak));
+      const sessions: PlannedSession[] = [];
+      for (const topic of pending) {
+        sessions.push({ kind: 'learn', subject, topic: topic.topic, weak: topic.weak });
+        if (topic.weak) sessions.push({ kind: 'practice', subject, topic: topic.topic, weak: true });
+      }
+      for (const topic of own.filter(entry => entry.covered && entry.weak)) {
+        sessions.push({ kind: 'practice', subject, topic: topic.topic, weak: true });
+      }
+      return sessions;
+    });
+    let queue = interleave(perSubject);
+
+    // When it doesn't all fit, practice goes first, then topics spill into the revision days
+    const syllabusCapacity = syllabusDays.reduce((sum, _day, index) => sum + capacity(index, false), 0);
+    const revisionCapacity = revisionDays.reduce((sum, _day, index) => sum + capacity(index, true), 0);
+    while (queue.length > syllabusCapacity && queue.some(session => session.kind === 'practice')) {
+      queue.splice(queue.map(session => session.kind).lastIndexOf('practice'), 1);
+    }
+    const overflow = queue.slice(syllabusCapacity);
+    queue = queue.slice(0, syllabusCapacity);
+    const unscheduled = overflow.slice(revisionCapacity).filter(session => session.kind === 'learn').length;
+
+    // Revision: weak topics first, then every topic, subject by subject in turn
+    const revisionTopics = interleave(plan.subjects.map(subject =>
+      topics.filter(topic => topic.subjectId === subject.subjectId).sort((a, b) => Number(b.weak) - Number(a.weak))
+    ));
+    let revisionIndex = 0;
+    const learned: PlannedSession[] = [];
+    let quizIndex = 0;
+
+    const rows: InsertStudyScheduler[] = [];
+    const writeDay = (day: string, sessions: PlannedSession[], mock: boolean, revision: boolean) => {
+      let clock = startMinutes;
+      const push = (session: PlannedSession | null, minutes: number) => {
+        const time = formatMinutesAsTime(clock);
+        rows.push({
+          userId: plan.userId,
+          subjectId: session?.subject.subjectId || plan.subjects[0].subjectId,
+          subjectName: session?.subject.subjectName || `${exam.name} mock exam`,
+          topic: session?.topic || null,
+          scheduledDate: fromLocalTime(day, time),
+          scheduledTime: time,
+          duration: minutes * 60,
+          priority: !session || session.weak || revision ? 'high' : 'medium',
+          taskType: session ? TASK_TYPES[session.kind] : TASK_TYPES.mock,
+          difficulty: session?.kind === 'learn' ? 'medium' : 'hard',
+          status: 'pending',
+          source: 'exam_plan',
+          examPlanId: plan.id,
+        });
+        clock += minutes + SCHEDULER_PLAN_BREAK_MINUTES;
+      };
+      if (mock) push(null, exam.mockMinutes);
+      for (const session of sessions) {
+        if (clock + EXAM_PLAN_SESSION_MINUTES > DAY_MINUTES) break;
+        push(session, EXAM_PLAN_SESSION_MINUTES);
+      }
+    };
+
+    syllabusDays.forEach((day, index) => {
+      const sessions = queue.splice(0, capacity(index, false));
+      // Spare time goes to quizzes on topics already learned
+      while (sessions.length < capacity(index, false) && learned.length > 0) {
+        const source = learned[quizIndex++ % learned.length];
+        sessions.push({ ...source, kind: 'quiz' });
+      }
+      learned.push(...sessions.filter(session => session.kind === 'learn'));
+      writeDay(day, sessions, isMockDay(index, false), false);
+    });
+
+    revisionDays.forEach((day, index) => {
+      const sessions = overflow.splice(0, capacity(index, true));
+      while (sessions.length < capacity(index, true) && revisionTopics.length > 0) {
+        const topic = revisionTopics[revisionIndex++ % revisionTopics.length];
+        sessions.push({ kind: 'review', subject: topic, topic: topic.topic, weak: topic.weak });
+      }
+      writeDay(day, sessions, isMockDay(index, true), true);
+    });
+
+    await storage.createStudySchedules(rows);
+    return await storage.updateExamPlan(plan.id, { unscheduledTopics: unscheduled });
+  }
+
+  private buildOverview(plan: ExamPlan, tasks: StudyScheduler[], now: Date): ExamPlanOverview {
+    const upcoming = tasks.filter(task => task.status === 'pending' && task.scheduledDate > now);
+    const since = plan.lastRebalancedAt || plan.createdAt || new Date(0);
+    return {
+      plan,
+      examName: EXAM_PLAN_EXAMS.find(exam => exam.id === plan.examType)?.name || plan.examType,
+      daysLeft: Math.max(daysBetween(toLocalDayKey(now), toLocalDayKey(plan.examDate)), 0),
+      topicsCovered: plan.topics.filter(topic => topic.covered).length,
+      topicsTotal: plan.topics.length,
+      missedSessions: tasks.filter(task => task.status === 'skipped' && task.scheduledDate >= since).length,
+      nextSession: upcoming[0] || null,
+      nextMock: upcoming.find(task => task.taskType === TASK_TYPES.mock) || null,
+    };
+  }
+
+  // Syllabus topics of a subject, from the built-in list or else its bank questions
+  private async getSyllabus(subject: ExamPlanSubject): Promise<string[]> {
+    const listed = STUDY_PLAN_TOPICS[subject.subjectName as keyof typeof STUDY_PLAN_TOPICS];
+    return listed ? [...listed] : await storage.getSubjectTopics(subject.subjectId, MAX_BANK_TOPICS);
+  }
+
+  private async getProgress(userId: string, subjects: ExamPlanSubject[]): Promise<Map<string, StudyProgress>> {
+    const progress = await storage.getAllUserProgress(userId);
+    return new Map(progress
+      .filter(entry => subjects.some(subject => subject.subjectId === entry.subjectId))
+      .map(entry => [entry.subjectId, entry]));
+  }
+
+  private weakTopicSnapshot(progress: Map<string, StudyProgress>): Record<string, string[]> {
+    return Object.fromEntries(Array.from(progress.values()).map(entry => [entry.subjectId, entry.weakTopics || []]));
+  }
+}
+
+export const examPlanService = new ExamPlanService();
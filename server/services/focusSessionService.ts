@@ -0,0 +1,296 @@
+// Focus sessions: the focus/break cycle runs on the server from phaseEndsAt, so it survives refreshes and
+// finishes on time even with the page closed. Distraction signals from the browser are checked against the
+// session and scored here, and on completion the session is linked to the quizzes and notes done during it.
+import { z } from "zod";
+import { storage } from "../storage";
+import { badgeService } from "./badgeService";
+import type { BackgroundJob } from "./jobRunner";
+import {
+  FOCUS_DEFAULT_ALLOWED_ACTIONS,
+  FOCUS_DISTRACTION_DEBOUNCE_MS,
+  FOCUS_DISTRACTION_PENALTIES,
+  FOCUS_DISTRACTION_TYPES,
+  FOCUS_SECTION_ACTIONS,
+  FOCUS_SESSION_TYPES,
+  getFocusTimeRemaining,
+  type FocusCompletedTask,
+} from "@shared/focus";
+import type { FocusSession } from "@shared/schema";
+
+export type FocusSessionResult<T> =
+  | { success: true; data: T }
+  | { success: false; status: number; message: string };
+
+const HISTORY_LIMIT = 20;
+const JOB_BATCH_SIZE = 100;
+
+const allowedActionsSchema = z.object({
+  quiz: z.boolean(),
+  notes: z.boolean(),
+  calculator: z.boolean(),
+  wiki: z.boolean(),
+});
+
+const sessionSchema = z.object({
+  sessionName: z.string().trim().min(1, "sessionName is required").max(100),
+  sessionType: z.enum(FOCUS_SESSION_TYPES),
+  duration: z.coerce.number().int().min(300).max(14400),
+  breakDuration: z.coerce.number().int().min(0).max(1800).default(300),
+  totalCycles: z.coerce.number().int().min(1).max(10).default(1),
+  allowedActions: allowedActionsSchema.default(FOCUS_DEFAULT_ALLOWED_ACTIONS),
+});
+
+const sessionUpdateSchema = z.object({
+  sessionName: z.string().trim().min(1).max(100).optional(),
+  allowedActions: allowedActionsSchema.optional(),
+});
+
+const distractionSchema = z.object({
+  type: z.enum(FOCUS_DISTRACTION_TYPES),
+  section: z.string().optional(),
+});
+
+function describeIssues(error: z.ZodError): string {
+  return error.issues.map(issue => `${issue.path.join('.') || 'session'}: ${issue.message}`).join(', ');
+}
+
+class FocusSessionService {
+  readonly job: BackgroundJob = {
+    name: 'focus-sessions',
+    intervalMs: 60 * 1000,
+    run: (now) => this.runJob(now),
+  };
+
+  /**
+   * Set up a session, paused at the start of its first focus phase until the student starts it
+   */
+  async create(userId: string, input: unknown): Promise<FocusSessionResult<FocusSession>> {
+    const parsed = sessionSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, status: 400, message: describeIssues(parsed.error) };
+    }
+    if (await this.getActive(userId)) {
+      return { success: false, status: 409, message: "Finish your current focus session first" };
+    }
+
+    const session = await storage.createFocusSession({
+      ...parsed.data,
+      userId,
+      isActive: true,
+      isPaused: true,
+      phase: 'focus',
+      timeRemaining: parsed.data.duration,
+    });
+    return { success: true, data: session };
+  }
+
+  /**
+   * The user's running or paused session, moved on to its current phase; undefined when there is none
+   */
+  async getActive(userId: string, now: Date = new Date()): Promise<FocusSession | undefined> {
+    const session = await storage.getActiveFocusSession(userId);
+    if (!session) return undefined;
+    const current = await this.advance(session, now);
+    return current.isCompleted ? undefined : current;
+  }
+
+  async getHistory(userId: string): Promise<FocusSession[]> {
+    return await storage.getFocusHistory(userId, HISTORY_LIMIT);
+  }
+
+  async update(session: FocusSession, input: unknown): Promise<FocusSessionResult<FocusSession>> {
+    const parsed = sessionUpdateSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, status: 400, message: describeIssues(parsed.error) };
+    }
+    const updated = await storage.updateFocusSession(session.id, parsed.data);
+    return updated
+      ? { success: true, data: updated }
+      : { success: false, status: 409, message: "This focus session has already finished" };
+  }
+
+  async start(session: FocusSession, now: Date = new Date()): Promise<FocusSessionResult<FocusSession>> {
+    if (session.isCompleted) {
+      return { success: false, status: 409, message: "This focus session has already finished" };
+    }
+    if (!session.isPaused) return { success: true, data: await this.advance(session, now) };
+
+    const updated = await storage.updateFocusSession(session.id, {
+      isPaused: false,
+      phaseEndsAt: new Date(now.getTime() + (session.timeRemaining ?? session.duration) * 1000),
+      startedAt: session.startedAt || now,
+    });
+    return updated
+      ? { success: true, data: updated }
+      : { success: false, status: 409, message: "This focus session has already finished" };
+  }
+
+  async pause(session: FocusSession, now: Date = new Date()): Promise<FocusSessionResult<FocusSession>> {
+    const current = await this.advance(session, now);
+    if (current.isCompleted) {
+      return { success: false, status: 409, message: "This focus session has already finished" };
+    }
+    if (current.isPaused) return { success: true, data: current };
+
+    const updated = await storage.updateFocusSession(current.id, {
+      isPaused: true,
+      timeRemaining: getFocusTimeRemaining(current, now),
+      phaseEndsAt: null,
+    });
+    return updated
+      ? { success: true, data: updated }
+      : { success: false, status: 409, message: "This focus session has already finished" };
+  }
+
+  /**
+   * Count a distraction the browser saw. Only signals during a running focus phase count, and one arriving
+   * right after another is taken as the same distraction.
+   */
+  async recordDistraction(session: FocusSession, input: unknown, now: Date = new Date()): Promise<FocusSessionResult<FocusSession>> {
+    const parsed = distractionSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, status: 400, message: describeIssues(parsed.error) };
+    }
+    const { type, section } = parsed.data;
+
+    const current = await this.advance(session, now);
+    if (current.isCompleted) {
+      return { success: false, status: 409, message: "This focus session has already finished" };
+    }
+    if (type === 'blocked_section') {
+      const action = section ? FOCUS_SECTION_ACTIONS[section] : undefined;
+      if (!action) {
+        return { success: false, status: 400, message: "section must be one of the app's study sections" };
+      }
+      // An allowed section isn't a distraction
+      if ((current.allowedActions || FOCUS_DEFAULT_ALLOWED_ACTIONS)[action]) return { success: true, data: current };
+    }
+    if (current.isPaused || current.phase !== 'focus') return { success: true, data: current };
+
+    const last = current.distractionEvents?.[current.distractionEvents.length - 1];
+    if (last && now.getTime() - new Date(last.at).getTime() < FOCUS_DISTRACTION_DEBOUNCE_MS) {
+      return { success: true, data: current };
+    }
+
+    const updated = await storage.recordFocusDistraction(current.id, {
+      type,
+      at: now.toISOString(),
+      ...(type === 'blocked_section' ? { section } : {}),
+    }, FOCUS_DISTRACTION_PENALTIES[type]);
+    return updated
+      ? { success: true, data: updated }
+      : { success: false, status: 409, message: "This focus session has already finished" };
+  }
+
+  /**
+   * End the session now, before its cycles have run out. It keeps the cycles it had completed, so it is
+   * recorded as ended early and doesn't count towards focus badges or weekly insights.
+   */
+  async complete(session: FocusSession, now: Date = new Date()): Promise<FocusSessionResult<FocusSession>> {
+    const current = await this.advance(session, now);
+    if (current.isCompleted) {
+      return { success: false, status: 409, message: "This focus session has already finished" };
+    }
+    const finished = await this.finish(current, now);
+    return finished
+      ? { success: true, data: finished }
+      : { success: false, status: 409, message: "This focus session has already finished" };
+  }
+
+  async runJob(now: Date = new Date()): Promise<Record<string, number>> {
+    const sessions = await storage.getRunningFocusSessions(now, JOB_BATCH_SIZE);
+    let completed = 0;
+    for (const session of sessions) {
+      try {
+        if ((await this.advance(session, now)).isCompleted) completed++;
+      } catch (error) {
+        console.error(`Error advancing focus session ${session.id}:`, error);
+      }
+    }
+    return { advanced: sessions.length, completed };
+  }
+
+  /**
+   * Move a running session through every phase that has ended by now: a finished focus phase completes a
+   * cycle and starts the break, a finished break starts the next focus phase, and the last cycle ends the session.
+   */
+  private async advance(session: FocusSession, now: Date): Promise<FocusSession> {
+    if (session.isCompleted || session.isPaused || !session.phaseEndsAt || session.phaseEndsAt > now) return session;
+
+    let phase = session.phase || 'focus';
+    let phaseEndsAt = session.phaseEndsAt;
+    let cyclesCompleted = session.cyclesCompleted || 0;
+    const totalCycles = session.totalCycles || 1;
+    const breakSeconds = session.breakDuration || 0;
+
+    while (phaseEndsAt <= now) {
+      if (phase === 'focus') {
+        cyclesCompleted++;
+        if (cyclesCompleted >= totalCycles) {
+          return (await this.finish({ ...session, cyclesCompleted }, phaseEndsAt)) || session;
+        }
+        phase = 'break';
+        phaseEndsAt = new Date(phaseEndsAt.getTime() + breakSeconds * 1000);
+      } else {
+        phase = 'focus';
+        phaseEndsAt = new Date(phaseEndsAt.getTime() + session.duration * 1000);
+      }
+    }
+
+    return (await storage.updateFocusSession(session.id, { phase, phaseEndsAt, cyclesCompleted })) || session;
+  }
+
+  /**
+   * Close the session at endedAt with the quizzes, CBT exams and notes done while it ran, then check for
+   * badges. Undefined when another request finished it first.
+   */
+  private async finish(session: FocusSession, endedAt: Date): Promise<FocusSession | undefined> {
+    const startedAt = session.startedAt || session.createdAt || endedAt;
+    const activity = await storage.getFocusActivity(session.userId, startedAt, endedAt);
+
+    const tasksCompleted: FocusCompletedTask[] = [
+      ...activity.quizzes.map(quiz => ({
+        type: 'quiz' as const,
+        id: quiz.id,
+        subject: quiz.subjectName,
+        score: quiz.score ?? undefined,
+        timeSpent: quiz.timeSpent || 0,
+      })),
+      ...activity.cbtSessions.map(cbt => ({
+        type: 'cbt' as const,
+        id: cbt.id,
+        subject: cbt.selectedSubjects.map(subject => subject.name).join(', '),
+        score: cbt.aggregateScore ?? undefined,
+        timeSpent: cbt.startedAt && cbt.completedAt
+          ? Math.round((cbt.completedAt.getTime() - Math.max(cbt.startedAt.getTime(), startedAt.getTime())) / 1000)
+          : 0,
+      })),
+      ...activity.notes.map(note => ({
+        type: 'note' as const,
+        id: note.id,
+        subject: note.subjectName,
+        timeSpent: 0,
+      })),
+    ];
+    const subjectsStudied = Array.from(new Set([
+      ...activity.quizzes.map(quiz => quiz.subjectName),
+      ...activity.cbtSessions.flatMap(cbt => cbt.selectedSubjects.map(subject => subject.name)),
+      ...activity.notes.map(note => note.subjectName),
+    ]));
+
+    const finished = await storage.completeFocusSession(session.id, {
+      cyclesCompleted: session.cyclesCompleted,
+      timeRemaining: 0,
+      completedAt: endedAt,
+      tasksCompleted,
+      subjectsStudied,
+    });
+    if (!finished) return undefined;
+
+    await badgeService.evaluate(finished.userId, 'focus_session_completed');
+    console.log(`🎧 Focus session ${finished.id} finished: score ${finished.focusScore}, ${tasksCompleted.length} tasks done`);
+    return finished;
+  }
+}
+
+export const focusSessionService = new FocusSessionService();
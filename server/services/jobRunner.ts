@@ -0,0 +1,96 @@
+// Periodic background jobs run inside the server process. Each run takes a lease in job_locks first, so
+// with several instances up a job still runs once per interval rather than once per instance.
+import { hostname } from "os";
+import { randomUUID } from "crypto";
+import { storage } from "../storage";
+import type { JobLock } from "@shared/schema";
+
+export interface BackgroundJob {
+  name: string;
+  intervalMs: number;
+  // Counts of what the run did, kept on the job's lock row
+  run(now: Date): Promise<Record<string, number>>;
+}
+
+// A run that takes longer than this is assumed dead and its lease can be taken over
+const JOB_LEASE_MS = 10 * 60 * 1000;
+
+// Identifies this server process in leases other instances can see
+export const instanceId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+class JobRunner {
+  private jobs = new Map<string, BackgroundJob>();
+  private timers: NodeJS.Timeout[] = [];
+  private running = new Set<string>();
+  private readonly instanceId = instanceId;
+
+  register(job: BackgroundJob): void {
+    this.jobs.set(job.name, job);
+  }
+
+  start(): void {
+    if (this.timers.length > 0) return;
+    for (const job of Array.from(this.jobs.values())) {
+      const timer = setInterval(() => {
+        this.runJob(job).catch(error => console.error(`Background job ${job.name} failed:`, error));
+      }, job.intervalMs);
+      timer.unref();
+      this.timers.push(timer);
+    }
+    console.log(`⏱️ Background jobs started: ${Array.from(this.jobs.keys()).join(', ')}`);
+  }
+
+  /**
+   * Run a job unless an instance is running it or ran it within the last interval. With force only a run
+   * in progress stops it. Returns what the run did, or null when the job was skipped.
+   */
+  async runJob(job: BackgroundJob, options: { force?: boolean } = {}): Promise<Record<string, number> | null> {
+    if (this.running.has(job.name)) return null;
+    this.running.add(job.name);
+    try {
+      const startedAt = new Date();
+      // A little under the interval, so timer jitter doesn't make an instance skip its own next tick
+      const notStartedSince = options.force ? startedAt : new Date(startedAt.getTime() - job.intervalMs * 0.9);
+      const lock = await storage.acquireJobLock(job.name, this.instanceId, startedAt, new Date(startedAt.getTime() + JOB_LEASE_MS), notStartedSince);
+      if (!lock) return null;
+
+      let result: Record<string, number> | undefined;
+      let failure: unknown;
+      try {
+        result = await job.run(startedAt);
+      } catch (error) {
+        failure = error;
+      }
+
+      await storage.releaseJobLock(job.name, this.instanceId, {
+        lockedUntil: new Date(),
+        lastFinishedAt: new Date(),
+        lastError: failure ? (failure instanceof Error ? failure.message : String(failure)) : null,
+        ...(result ? { lastResult: result } : {}),
+      });
+      if (failure) throw failure;
+      return result ?? null;
+    } finally {
+      this.running.delete(job.name);
+    }
+  }
+
+  async runByName(name: string): Promise<Record<string, number> | null | undefined> {
+    const job = this.jobs.get(name);
+    return job ? await this.runJob(job, { force: true }) : undefined;
+  }
+
+  /**
+   * Registered jobs with the state of their last run
+   */
+  async getStatus(): Promise<Array<{ name: string; intervalMs: number; lock: JobLock | null }>> {
+    const locks = new Map((await storage.getJobLocks()).map(lock => [lock.name, lock]));
+    return Array.from(this.jobs.values()).map(job => ({
+      name: job.name,
+      intervalMs: job.intervalMs,
+      lock: locks.get(job.name) || null,
+    }));
+  }
+}
+
+export const jobRunner = new JobRunner();
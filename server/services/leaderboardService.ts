@@ -0,0 +1,145 @@
+// Scoped leaderboards: accuracy over completed quiz and CBT sessions, filtered by time window,
+// subject, exam type and school. Only students with enough answered questions are ranked.
+import { storage, type LeaderboardTotals, type LeaderboardTotalsFilters } from "../storage";
+import { questionBankService } from "./questionBankService";
+import {
+  LEADERBOARD_DEFAULT_LIMIT,
+  LEADERBOARD_EXAM_TYPES,
+  LEADERBOARD_MAX_LIMIT,
+  LEADERBOARD_MIN_ATTEMPTS,
+  LEADERBOARD_WINDOWS,
+  type LeaderboardExamType,
+  type LeaderboardFilters,
+  type LeaderboardResponse,
+  type LeaderboardStanding,
+  type LeaderboardWindow,
+} from "@shared/leaderboard";
+
+export type LeaderboardFiltersResult =
+  | { success: true; filters: LeaderboardFilters }
+  | { success: false; message: string };
+
+class LeaderboardService {
+  /**
+   * Read leaderboard filters from a request query, applying defaults for anything left out
+   */
+  parseFilters(query: Record<string, unknown>): LeaderboardFiltersResult {
+    const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+
+    const window = (text(query.window) || 'all') as LeaderboardWindow;
+    if (!LEADERBOARD_WINDOWS.some(option => option.id === window)) {
+      return { success: false, message: `window must be one of ${LEADERBOARD_WINDOWS.map(option => option.id).join(', ')}` };
+    }
+
+    const rawExamType = text(query.examType);
+    const examType: LeaderboardExamType | null | undefined = rawExamType ? questionBankService.normalizeExamType(rawExamType) : undefined;
+    if (examType === null) {
+      return { success: false, message: `examType must be one of ${LEADERBOARD_EXAM_TYPES.map(option => option.id).join(', ')}` };
+    }
+
+    const minAttempts = parseInt(text(query.minAttempts) || '');
+    const limit = parseInt(text(query.limit) || '');
+
+    return {
+      success: true,
+      filters: {
+        window,
+        subjectId: text(query.subjectId),
+        examType,
+        school: text(query.school),
+        minAttempts: Number.isFinite(minAttempts) && minAttempts > 0 ? minAttempts : LEADERBOARD_MIN_ATTEMPTS,
+        limit: Math.min(Number.isFinite(limit) && limit > 0 ? limit : LEADERBOARD_DEFAULT_LIMIT, LEADERBOARD_MAX_LIMIT),
+      },
+    };
+  }
+
+  /**
+   * Rank students by accuracy, then by questions answered. The requesting student's own standing is
+   * returned alongside the top entries, with a null rank while they're short of the minimum attempts.
+   */
+  async getLeaderboard(filters: LeaderboardFilters, userId?: string, now: Date = new Date()): Promise<LeaderboardResponse> {
+    const totalsFilters: LeaderboardTotalsFilters = {
+      since: this.getWindowStart(filters.window, now),
+      subjectId: filters.subjectId,
+      examTypes: filters.examType ? questionBankService.getExamTypeAliases(filters.examType) : undefined,
+      school: filters.school,
+    };
+
+    // CBT papers are always UTME
+    const includeCbt = !filters.examType || filters.examType === 'utme';
+    const [quizTotals, cbtTotals] = await Promise.all([
+      storage.getQuizLeaderboardTotals(totalsFilters),
+      includeCbt ? storage.getCbtLeaderboardTotals(totalsFilters) : Promise.resolve([]),
+    ]);
+
+    const standings = this.combine([...quizTotals, ...cbtTotals]);
+    const ranked = standings
+      .filter(standing => standing.attempted >= filters.minAttempts)
+      .sort((a, b) => this.compare(a, b));
+
+    ranked.forEach((standing, index) => {
+      const previous = ranked[index - 1];
+      standing.rank = previous && this.compare(previous, standing) === 0 ? previous.rank : index + 1;
+    });
+
+    return {
+      filters,
+      entries: ranked.slice(0, filters.limit),
+      totalRanked: ranked.length,
+      me: (userId && standings.find(standing => standing.userId === userId)) || null,
+    };
+  }
+
+  /**
+   * Start of the leaderboard window in server time; weeks start on Monday
+   */
+  getWindowStart(window: LeaderboardWindow, now: Date = new Date()): Date | undefined {
+    if (window === 'all') return undefined;
+
+    const start = new Date(now);
+    start.setHours(0, 0, 0, 0);
+    if (window === 'week') {
+      start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+    } else if (window === 'month') {
+      start.setDate(1);
+    }
+    return start;
+  }
+
+  private combine(totals: LeaderboardTotals[]): LeaderboardStanding[] {
+    const byUser = new Map<string, LeaderboardStanding>();
+
+    for (const row of totals) {
+      const standing = byUser.get(row.userId) || {
+        rank: null,
+        userId: row.userId,
+        nickname: row.nickname,
+        avatarUrl: row.avatarUrl,
+        school: row.school,
+        isPremium: !!row.isPremium,
+        sessions: 0,
+        correct: 0,
+        attempted: 0,
+        accuracy: 0,
+      };
+      standing.sessions += row.sessions;
+      standing.correct += row.correct;
+      standing.attempted += row.attempted;
+      byUser.set(row.userId, standing);
+    }
+
+    return Array.from(byUser.values()).map(standing => ({
+      ...standing,
+      accuracy: standing.attempted > 0 ? Math.round((standing.correct / standing.attempted) * 1000) / 10 : 0,
+    }));
+  }
+
+  private compare(a: LeaderboardStanding, b: LeaderboardStanding): number {
+    // Compare exact ratios so rounding doesn't create ties
+    const accuracyA = a.attempted > 0 ? a.correct / a.attempted : 0;
+    const accuracyB = b.attempted > 0 ? b.correct / b.attempted : 0;
+    return accuracyB - accuracyA || b.attempted - a.attempted;
+  }
+}
+
+export const leaderboardService = new LeaderboardService();
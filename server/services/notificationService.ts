@@ -0,0 +1,244 @@
+// Notifications: renders a template for each channel the user wants it on, queues one row per channel,
+// delivers through the channel's transport and retries failures with backoff. In-app rows are the inbox.
+import { storage } from "../storage";
+import { createDefaultTransports, CaptureTransport, isCaptureMode, type CapturedNotification, type NotificationTransport } from "./notificationTransports";
+import { renderNotification, type NotificationTemplateData } from "./notificationTemplates";
+import {
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_MAX_ATTEMPTS,
+  NOTIFICATION_RETRY_BASE_MS,
+  NOTIFICATION_TEMPLATES,
+  normalizePhoneNumber,
+  type NotificationChannel,
+  type NotificationPreferences,
+  type NotificationPreferencesResponse,
+  type NotificationTemplate,
+} from "@shared/notifications";
+import type { InsertNotification, Notification, User } from "@shared/schema";
+
+export type NotificationResult<T> =
+  | { success: true; data: T }
+  | { success: false; status: number; message: string };
+
+export interface PreferencesUpdate {
+  phoneNumber?: string | null;
+  preferences?: NotificationPreferences;
+}
+
+// How long a claimed notification stays with one worker before another may take it over
+const DELIVERY_LEASE_MS = 5 * 60 * 1000;
+const WORKER_BATCH_SIZE = 50;
+
+class NotificationService {
+  private transports = new Map<NotificationChannel, NotificationTransport>();
+  private workerTimer: NodeJS.Timeout | null = null;
+
+  constructor(transports: NotificationTransport[]) {
+    transports.forEach(transport => this.register(transport));
+  }
+
+  register(transport: NotificationTransport): void {
+    this.transports.set(transport.channel, transport);
+  }
+
+  /**
+   * Queue a template on every channel the user gets it on and make the first delivery attempt straight
+   * away. Failed attempts are left to the worker. Never throws: a notification must not break the action
+   * that sent it.
+   */
+  async notify<T extends NotificationTemplate>(
+    userId: string,
+    template: T,
+    data: NotificationTemplateData[T],
+    now: Date = new Date(),
+  ): Promise<Notification[]> {
+    try {
+      const user = await storage.getUser(userId);
+      if (!user) return [];
+
+      const rows: InsertNotification[] = [];
+      for (const channel of this.resolveChannels(user, template)) {
+        const recipient = this.recipientFor(user, channel);
+        if (!recipient) continue;
+
+        const rendered = renderNotification(template, channel, user, data);
+        rows.push({
+          userId,
+          template,
+          channel,
+          recipient,
+          subject: rendered.subject,
+          body: rendered.body,
+          html: rendered.html,
+          data,
+          status: 'pending',
+          nextAttemptAt: now,
+          createdAt: now,
+        });
+      }
+
+      const queued = await storage.createNotifications(rows);
+      const delivered: Notification[] = [];
+      for (const notification of queued) {
+        const claimed = await storage.claimNotification(notification.id, now, new Date(now.getTime() + DELIVERY_LEASE_MS));
+        delivered.push(claimed ? await this.deliver(claimed, now) : notification);
+      }
+      return delivered;
+    } catch (error) {
+      console.error(`Error sending ${template} notification:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Deliver notifications that are due: new ones whose first attempt didn't happen, retries whose backoff
+   * has passed and any whose worker died mid-delivery. Safe to run on several instances at once.
+   */
+  async processDue(now: Date = new Date()): Promise<number> {
+    const due = await storage.claimDueNotifications(now, new Date(now.getTime() + DELIVERY_LEASE_MS), WORKER_BATCH_SIZE);
+    for (const notification of due) {
+      await this.deliver(notification, now);
+    }
+    return due.length;
+  }
+
+  startWorker(intervalMs = 30 * 1000): void {
+    if (this.workerTimer) return;
+    this.workerTimer = setInterval(() => {
+      this.processDue().catch(error => console.error("Notification worker failed:", error));
+    }, intervalMs);
+    this.workerTimer.unref();
+    if (isCaptureMode()) {
+      console.log('📨 Notifications are captured locally (NOTIFICATION_TRANSPORT=live to send them)');
+    }
+  }
+
+  async getInbox(userId: string, limit: number): Promise<{ notifications: Notification[]; unread: number }> {
+    const [notifications, unread] = await Promise.all([
+      storage.getUserNotifications(userId, { channel: 'in_app', limit }),
+      storage.countUnreadNotifications(userId),
+    ]);
+    return { notifications, unread };
+  }
+
+  /**
+   * Mark inbox notifications read; all of them when no ids are given
+   */
+  async markRead(userId: string, ids?: string[]): Promise<number> {
+    return await storage.markNotificationsRead(userId, ids, new Date());
+  }
+
+  getPreferences(user: User): NotificationPreferencesResponse {
+    return {
+      phoneNumber: user.phoneNumber || null,
+      preferences: user.notificationPreferences || {},
+      templates: NOTIFICATION_TEMPLATES,
+    };
+  }
+
+  async updatePreferences(user: User, update: PreferencesUpdate): Promise<NotificationResult<NotificationPreferencesResponse>> {
+    let phoneNumber = user.phoneNumber || null;
+    if (update.phoneNumber !== undefined) {
+      phoneNumber = update.phoneNumber ? normalizePhoneNumber(update.phoneNumber) : null;
+      if (update.phoneNumber && !phoneNumber) {
+        return { success: false, status: 400, message: "Enter a valid phone number, e.g. 08012345678 or +2348012345678" };
+      }
+    }
+
+    const preferences: NotificationPreferences = { ...(user.notificationPreferences || {}) };
+    for (const [template, channels] of Object.entries(update.preferences || {})) {
+      const info = NOTIFICATION_TEMPLATES.find(entry => entry.id === template);
+      if (!info || !info.configurable) {
+        return { success: false, status: 400, message: `Notifications for ${template} can't be changed` };
+      }
+      if (!Array.isArray(channels) || channels.some(channel => !NOTIFICATION_CHANNELS.some(entry => entry.id === channel))) {
+        return { success: false, status: 400, message: `Invalid channels for ${info.name}` };
+      }
+      preferences[info.id] = Array.from(new Set(channels));
+    }
+
+    if (!phoneNumber && Object.values(preferences).some(channels => channels?.includes('sms'))) {
+      return { success: false, status: 400, message: "Add a phone number to get SMS notifications" };
+    }
+
+    const updated = await storage.updateUser(user.id, { phoneNumber, notificationPreferences: preferences });
+    return { success: true, data: this.getPreferences(updated) };
+  }
+
+  async getLog(options: { status?: string; channel?: string; userId?: string; page: number; pageSize: number }): Promise<{ notifications: Notification[]; total: number }> {
+    return await storage.getNotifications({
+      status: options.status,
+      channel: options.channel,
+      userId: options.userId,
+      limit: options.pageSize,
+      offset: (options.page - 1) * options.pageSize,
+    });
+  }
+
+  /**
+   * Messages the capture transport kept, newest first, or null when notifications are really being sent
+   */
+  getCaptured(): CapturedNotification[] | null {
+    return isCaptureMode() ? CaptureTransport.getCaptured() : null;
+  }
+
+  // Transactional templates ignore preferences; the rest use the user's choice or the template default
+  private resolveChannels(user: User, template: NotificationTemplate): NotificationChannel[] {
+    const info = NOTIFICATION_TEMPLATES.find(entry => entry.id === template);
+    if (!info) return [];
+    if (!info.configurable) return info.defaultChannels;
+    return user.notificationPreferences?.[template] ?? info.defaultChannels;
+  }
+
+  private recipientFor(user: User, channel: NotificationChannel): string | null {
+    switch (channel) {
+      case 'email': return user.email || null;
+      case 'sms': return user.phoneNumber || null;
+      case 'in_app': return user.id;
+    }
+  }
+
+  /**
+   * One delivery attempt of a claimed notification, logged on the row. Failures are retried with
+   * exponential backoff until NOTIFICATION_MAX_ATTEMPTS, then the notification is marked failed.
+   */
+  private async deliver(notification: Notification, now: Date): Promise<Notification> {
+    const transport = this.transports.get(notification.channel as NotificationChannel);
+    try {
+      if (!transport || !transport.isConfigured()) {
+        throw new Error(`No configured transport for ${notification.channel}`);
+      }
+      await transport.send({
+        id: notification.id,
+        channel: notification.channel as NotificationChannel,
+        recipient: notification.recipient,
+        subject: notification.subject,
+        body: notification.body,
+        html: notification.html,
+      });
+
+      return await storage.recordNotificationAttempt(
+        notification.id,
+        { at: now.toISOString(), transport: transport.name, success: true },
+        { status: 'sent', sentAt: now, lastError: null },
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const attempts = (notification.attempts || 0) + 1;
+      const giveUp = attempts >= NOTIFICATION_MAX_ATTEMPTS;
+      console.warn(`⚠️ ${notification.channel} notification ${notification.id} failed (attempt ${attempts}): ${message}`);
+
+      return await storage.recordNotificationAttempt(
+        notification.id,
+        { at: now.toISOString(), transport: transport?.name || notification.channel, success: false, error: message },
+        {
+          status: giveUp ? 'failed' : 'pending',
+          lastError: message,
+          nextAttemptAt: giveUp ? null : new Date(now.getTime() + NOTIFICATION_RETRY_BASE_MS * 2 ** (attempts - 1)),
+        },
+      );
+    }
+  }
+}
+
+export const notificationService = new NotificationService(createDefaultTransports());
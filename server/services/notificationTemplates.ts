@@ -0,0 +1,147 @@
+// Renders each notification template for each channel: full emails, short SMS texts and inbox entries
+import {
+  generateNotificationEmail,
+  generateQuestionReportOutcomeEmail,
+  generateVerificationEmail,
+  generateWelcomeEmail,
+} from "./emailService";
+import type { NotificationChannel, NotificationTemplate } from "@shared/notifications";
+import type { User } from "@shared/schema";
+
+// What each template needs; stored with the notification, so dates are ISO strings
+export interface NotificationTemplateData {
+  verification: { verificationToken: string };
+  welcome: Record<string, never>;
+  payment_receipt: { reference: string; amount: number; planName: string; paidAt: string; expiresAt?: string | null };
+  access_activated: { planName: string; expiresAt?: string | null };
+  exam_reminder: { examName: string; examDate: string; daysLeft: number };
+  streak_at_risk: { streak: number };
+  scheduler_reminder: { title: string; subjectName?: string | null; startsAt: string; duration?: number | null };
+  question_report_outcome: { questionText: string; status: 'resolved' | 'dismissed'; adminNotes?: string | null };
+}
+
+export interface RenderedNotification {
+  subject: string | null;
+  body: string;
+  html: string | null;
+}
+
+// SMS texts are cut to a single segment's worth of a long message
+const SMS_MAX_LENGTH = 320;
+
+// Same domains as the verification email links
+function appUrl(): string {
+  return process.env.NODE_ENV === 'production' ? 'https://your-app.replit.app' : 'http://localhost:5000';
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString('en-NG', { day: 'numeric', month: 'long', year: 'numeric' });
+}
+
+function formatTime(value: string): string {
+  return new Date(value).toLocaleString('en-NG', { weekday: 'short', hour: 'numeric', minute: '2-digit', timeZone: 'Africa/Lagos' });
+}
+
+function formatNaira(kobo: number): string {
+  return `₦${(kobo / 100).toLocaleString('en-NG', { minimumFractionDigits: 2 })}`;
+}
+
+/**
+ * Title and one-paragraph text for a template, shared by the SMS, in-app and generic email renderings
+ */
+function summarize<T extends NotificationTemplate>(template: T, data: NotificationTemplateData[T]): { title: string; text: string } {
+  switch (template) {
+    case 'verification':
+      return { title: 'Verify your email', text: 'Please verify your email address to activate your UTME AI account.' };
+    case 'welcome':
+      return { title: 'Welcome to UTME AI', text: 'Your account is verified. Start practising with past questions, CBT exams and the AI tutor.' };
+    case 'payment_receipt': {
+      const receipt = data as NotificationTemplateData['payment_receipt'];
+      const until = receipt.expiresAt ? ` It is active until ${formatDate(receipt.expiresAt)}.` : '';
+      return {
+        title: 'Payment received',
+        text: `We received ${formatNaira(receipt.amount)} for ${receipt.planName} on ${formatDate(receipt.paidAt)} (reference ${receipt.reference}).${until}`,
+      };
+    }
+    case 'access_activated': {
+      const access = data as NotificationTemplateData['access_activated'];
+      const until = access.expiresAt ? ` until ${formatDate(access.expiresAt)}` : '';
+      return {
+        title: 'Premium activated',
+        text: `${access.planName} is now active${until}. You have full access to CBT exams, the AI tutor and all premium features.`,
+      };
+    }
+    case 'exam_reminder': {
+      const exam = data as NotificationTemplateData['exam_reminder'];
+      const when = exam.daysLeft === 0 ? 'is today' : exam.daysLeft === 1 ? 'is tomorrow' : `is in ${exam.daysLeft} days`;
+      return { title: `${exam.examName} ${when}`, text: `Your ${exam.examName} ${when} (${formatDate(exam.examDate)}). Keep up your revision!` };
+    }
+    case 'streak_at_risk': {
+      const { streak } = data as NotificationTemplateData['streak_at_risk'];
+      return {
+        title: 'Keep your streak going',
+        text: `You have studied ${streak} day${streak === 1 ? '' : 's'} in a row. Take a quick quiz today so your streak doesn't reset.`,
+      };
+    }
+    case 'scheduler_reminder': {
+      const task = data as NotificationTemplateData['scheduler_reminder'];
+      const subject = task.subjectName ? ` (${task.subjectName})` : '';
+      const length = task.duration ? ` for ${task.duration} minutes` : '';
+      return { title: `Coming up: ${task.title}`, text: `${task.title}${subject} starts ${formatTime(task.startsAt)}${length}.` };
+    }
+    case 'question_report_outcome': {
+      const outcome = data as NotificationTemplateData['question_report_outcome'];
+      return {
+        title: outcome.status === 'resolved' ? 'The question you reported has been fixed' : 'Update on the question you reported',
+        text: outcome.status === 'resolved'
+          ? 'Thanks to your report, we have corrected the question.'
+          : 'We reviewed the question you reported and found it to be correct.',
+      };
+    }
+    default:
+      throw new Error(`Unknown notification template: ${template}`);
+  }
+}
+
+function renderEmail<T extends NotificationTemplate>(template: T, user: User, data: NotificationTemplateData[T]) {
+  const name = user.firstName || user.nickname;
+  switch (template) {
+    case 'verification':
+      return generateVerificationEmail(user.email, (data as NotificationTemplateData['verification']).verificationToken);
+    case 'welcome':
+      return generateWelcomeEmail(user.email, name);
+    case 'question_report_outcome':
+      return generateQuestionReportOutcomeEmail(user.email, name, data as NotificationTemplateData['question_report_outcome']);
+    default: {
+      const summary = summarize(template, data);
+      return generateNotificationEmail(user.email, name, {
+        subject: summary.title,
+        paragraphs: [summary.text],
+        action: { label: 'Open UTME AI', url: appUrl() },
+      });
+    }
+  }
+}
+
+/**
+ * Render a template for one channel. Templates with their own email design keep it; the rest use the
+ * generic notification email.
+ */
+export function renderNotification<T extends NotificationTemplate>(
+  template: T,
+  channel: NotificationChannel,
+  user: User,
+  data: NotificationTemplateData[T],
+): RenderedNotification {
+  if (channel === 'email') {
+    const email = renderEmail(template, user, data);
+    return { subject: email.subject, body: email.text, html: email.html };
+  }
+
+  const summary = summarize(template, data);
+  if (channel === 'sms') {
+    const text = `${summary.title}: ${summary.text} - UTME AI`;
+    return { subject: null, body: text.length > SMS_MAX_LENGTH ? `${text.slice(0, SMS_MAX_LENGTH - 1)}…` : text, html: null };
+  }
+  return { subject: summary.title, body: summary.text, html: null };
+}
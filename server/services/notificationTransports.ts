@@ -0,0 +1,121 @@
+// Notification transports behind a common interface, one per channel. Outside production the email and
+// SMS transports are swapped for a capture transport so notifications can be tested without SendGrid or Twilio.
+import { sendEmail } from "./emailService";
+import { twilioService } from "./twilioService";
+import type { NotificationChannel } from "@shared/notifications";
+
+export interface OutgoingNotification {
+  id: string;
+  channel: NotificationChannel;
+  recipient: string;
+  subject?: string | null;
+  body: string;
+  html?: string | null;
+}
+
+export interface NotificationTransport {
+  readonly name: string;
+  readonly channel: NotificationChannel;
+  isConfigured(): boolean;
+  // Resolves on delivery and throws with the provider's reason when it fails
+  send(message: OutgoingNotification): Promise<void>;
+}
+
+export interface CapturedNotification extends OutgoingNotification {
+  capturedAt: string;
+}
+
+const CAPTURE_LIMIT = 100;
+
+const EMAIL_FROM = 'noreply@test.replit.dev';
+
+class SendGridEmailTransport implements NotificationTransport {
+  readonly name = 'sendgrid';
+  readonly channel = 'email' as const;
+
+  isConfigured(): boolean {
+    return !!process.env.SENDGRID_API_KEY;
+  }
+
+  async send(message: OutgoingNotification): Promise<void> {
+    const sent = await sendEmail({
+      to: message.recipient,
+      from: EMAIL_FROM,
+      subject: message.subject || 'UTME AI',
+      text: message.body,
+      html: message.html || undefined,
+    });
+    if (!sent) {
+      throw new Error('SendGrid did not accept the email');
+    }
+  }
+}
+
+class TwilioSmsTransport implements NotificationTransport {
+  readonly name = 'twilio';
+  readonly channel = 'sms' as const;
+
+  isConfigured(): boolean {
+    return !!process.env.TWILIO_ACCOUNT_SID && !!process.env.TWILIO_AUTH_TOKEN;
+  }
+
+  async send(message: OutgoingNotification): Promise<void> {
+    const result = await twilioService.sendSMS({ to: message.recipient, message: message.body });
+    if (!result.success) {
+      throw new Error(result.error || 'Twilio did not accept the SMS');
+    }
+  }
+}
+
+// The notification row itself is the inbox entry, so there is nothing to hand off
+class InAppTransport implements NotificationTransport {
+  readonly name = 'in_app';
+  readonly channel = 'in_app' as const;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async send(): Promise<void> {}
+}
+
+// Keeps the most recent messages in memory and logs them instead of sending anything
+export class CaptureTransport implements NotificationTransport {
+  readonly name = 'capture';
+  private static captured: CapturedNotification[] = [];
+
+  constructor(readonly channel: NotificationChannel) {}
+
+  static getCaptured(): CapturedNotification[] {
+    return [...CaptureTransport.captured].reverse();
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async send(message: OutgoingNotification): Promise<void> {
+    CaptureTransport.captured.push({ ...message, capturedAt: new Date().toISOString() });
+    if (CaptureTransport.captured.length > CAPTURE_LIMIT) {
+      CaptureTransport.captured.shift();
+    }
+    console.log(`📨 [capture] ${message.channel} to ${message.recipient}: ${message.subject || message.body.slice(0, 80)}`);
+  }
+}
+
+/**
+ * Whether email and SMS are captured rather than sent: NOTIFICATION_TRANSPORT=capture or live forces
+ * either, otherwise everything outside production is captured
+ */
+export function isCaptureMode(env: NodeJS.ProcessEnv = process.env): boolean {
+  if (env.NOTIFICATION_TRANSPORT === 'capture') return true;
+  if (env.NOTIFICATION_TRANSPORT === 'live') return false;
+  return env.NODE_ENV !== 'production';
+}
+
+export function createDefaultTransports(env: NodeJS.ProcessEnv = process.env): NotificationTransport[] {
+  if (isCaptureMode(env)) {
+    return [new CaptureTransport('email'), new CaptureTransport('sms'), new InAppTransport()];
+  }
+  return [new SendGridEmailTransport(), new TwilioSmsTransport(), new InAppTransport()];
+}
@@ -0,0 +1,143 @@
+// Payment fulfillment shared by the browser verify routes and the Paystack webhook: each payment's plan
+// is granted exactly once, whichever confirmation arrives first, and taken back on a full refund
+import { storage } from "../storage";
+import { entitlementService } from "./entitlementService";
+import { notificationService } from "./notificationService";
+import type { PaystackWebhookEvent } from "./paystackService";
+import { getEntitlementPlan } from "@shared/entitlements";
+import type { Entitlement, Payment, PaymentWebhookEvent } from "@shared/schema";
+
+const PAYMENT_CURRENCY = 'NGN';
+
+export interface ChargeDetails {
+  amount: number; // kobo
+  currency?: string;
+}
+
+export type FulfillmentResult =
+  | { status: 'fulfilled' | 'already_fulfilled'; payment: Payment; entitlement?: Entitlement }
+  | { status: 'rejected'; payment: Payment; reason: string }
+  | { status: 'not_found' };
+
+export type WebhookOutcome = PaymentWebhookEvent['outcome'] | 'duplicate' | 'unknown_payment';
+
+class PaymentService {
+  /**
+   * Grant the plan for a charge Paystack reports as successful. Only the first confirmation of a payment
+   * reference grants anything; later ones (webhook redeliveries, the browser verifying) change nothing.
+   */
+  async confirmCharge(reference: string, charge: ChargeDetails, now: Date = new Date()): Promise<FulfillmentResult> {
+    const payment = await storage.getPaymentByReference(reference);
+    if (!payment) {
+      return { status: 'not_found' };
+    }
+
+    const reason = this.checkCharge(payment, charge);
+    if (reason) {
+      console.warn(`⚠️ Payment ${reference} not fulfilled: ${reason}`);
+      return { status: 'rejected', payment, reason };
+    }
+
+    const claimed = await storage.claimPaymentFulfillment(reference, now);
+    if (!claimed) {
+      return { status: 'already_fulfilled', payment, entitlement: await storage.getEntitlementBySource('payment', payment.id) };
+    }
+
+    try {
+      const entitlement = await entitlementService.grantForPayment(claimed, now);
+      console.log(`✅ Payment ${reference} fulfilled with ${entitlement.planId}`);
+      await notificationService.notify(claimed.userId, 'payment_receipt', {
+        reference,
+        amount: claimed.amount,
+        planName: getEntitlementPlan(entitlement.planId)?.name || entitlement.planId,
+        paidAt: now.toISOString(),
+        expiresAt: entitlement.endsAt?.toISOString() ?? null,
+      }, now);
+      return { status: 'fulfilled', payment: claimed, entitlement };
+    } catch (error) {
+      // Release the claim so the next confirmation can try again
+      await storage.updatePayment(claimed.id, { fulfilledAt: null });
+      throw error;
+    }
+  }
+
+  /**
+   * Record a charge that didn't go through, unless the payment was already fulfilled some other way
+   */
+  async markFailed(payment: Payment): Promise<void> {
+    if (payment.fulfilledAt) return;
+    await storage.updatePayment(payment.id, { status: 'failed' });
+  }
+
+  /**
+   * Handle a webhook delivery whose signature has been checked. Successful charges are fulfilled,
+   * completed full refunds revoke the plan, and every event is logged on its payment.
+   * Redeliveries of an event already logged are skipped.
+   */
+  async handleWebhookEvent(event: PaystackWebhookEvent, now: Date = new Date()): Promise<WebhookOutcome> {
+    const reference = event.data?.reference || event.data?.transaction_reference;
+    const payment = reference ? await storage.getPaymentByReference(reference) : undefined;
+    if (!reference || !payment) {
+      console.warn(`⚠️ Paystack ${event.event} for unknown payment ${reference}`);
+      return 'unknown_payment';
+    }
+
+    const key = `${event.event}:${event.data.id ?? reference}`;
+    if (payment.webhookEvents?.some(logged => logged.key === key)) {
+      return 'duplicate';
+    }
+
+    const amount = event.data.amount !== undefined ? Number(event.data.amount) : undefined;
+    let outcome: PaymentWebhookEvent['outcome'] = 'recorded';
+    let note: string | undefined;
+
+    if (event.event === 'charge.success') {
+      const result = await this.confirmCharge(reference, { amount: amount ?? 0, currency: event.data.currency }, now);
+      if (result.status === 'rejected') {
+        outcome = 'rejected';
+        note = result.reason;
+      } else if (result.status !== 'not_found') {
+        outcome = result.status;
+      }
+    } else if (event.event === 'refund.processed') {
+      ({ outcome, note } = await this.refund(payment, amount, now));
+    }
+
+    await storage.appendPaymentWebhookEvent(payment.id, {
+      key,
+      event: event.event,
+      receivedAt: now.toISOString(),
+      outcome,
+      amount,
+      note,
+    });
+
+    console.log(`📨 Paystack ${event.event} for ${reference}: ${outcome}`);
+    return outcome;
+  }
+
+  private async refund(payment: Payment, amount: number | undefined, now: Date): Promise<{ outcome: PaymentWebhookEvent['outcome']; note?: string }> {
+    if (amount !== undefined && amount < payment.amount) {
+      return { outcome: 'recorded', note: `Partial refund of ${amount} kobo; access kept` };
+    }
+
+    await storage.updatePayment(payment.id, { status: 'refunded', refundedAt: now });
+    await entitlementService.revokeForPayment(payment, now);
+    return { outcome: 'refunded' };
+  }
+
+  private checkCharge(payment: Payment, charge: ChargeDetails): string | undefined {
+    if (payment.refundedAt) {
+      return 'payment was refunded';
+    }
+    if (charge.currency && charge.currency !== PAYMENT_CURRENCY) {
+      return `paid in ${charge.currency}, expected ${PAYMENT_CURRENCY}`;
+    }
+    if (charge.amount < payment.amount) {
+      return `paid ${charge.amount} kobo, expected ${payment.amount}`;
+    }
+    return undefined;
+  }
+}
+
+export const paymentService = new PaymentService();
@@ -67,6 +67,20 @@ export interface PaystackVerifyResponse {
   };
 }
 
+// Body of a webhook delivery; only the fields fulfillment relies on are typed
+export interface PaystackWebhookEvent {
+  event: string; // 'charge.success', 'refund.processed', ...
+  data: {
+    id?: number | string;
+    reference?: string; // charge events
+    transaction_reference?: string; // refund events
+    status?: string;
+    amount?: number | string; // kobo; refund events send it as a string
+    currency?: string;
+    [key: string]: any;
+  };
+}
+
 export class PaystackService {
   private readonly baseUrl = 'https://api.paystack.co';
   private readonly secretKey = process.env.PAYSTACK_SECRET_KEY;
@@ -227,26 +241,20 @@ export class PaystackService {
     }
   }
 
-  /**
-   * Generate a unique unlock code
-   */
-  generateUnlockCode(): string {
-    // Generate a 8-digit numeric code like the predefined ones
-    return Math.floor(10000000 + Math.random() * 90000000).toString();
-  }
-
   /**
    * Verify webhook signature
    */
-  verifyWebhookSignature(payload: string, signature: string): boolean {
+  verifyWebhookSignature(payload: string | Buffer, signature: string): boolean {
     if (!this.secretKey) return false;
     
     const hash = crypto
       .createHmac('sha512', this.secretKey)
-      .update(payload, 'utf8')
+      .update(payload)
       .digest('hex');
     
-    return hash === signature;
+    const expected = Buffer.from(hash, 'hex');
+    const received = Buffer.from(signature, 'hex');
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
   }
 
   /**
@@ -0,0 +1,401 @@
+// Admin question-bank management: search, editing, bulk CSV/JSON import and export.
+// Every change goes through the same validation and is written to the question audit trail.
+import { storage } from "../storage";
+import { questionBankService } from "./questionBankService";
+import { parseCsv, toCsv } from "../utils/csv";
+import {
+  QUESTION_CSV_COLUMNS,
+  QUESTION_DIFFICULTIES,
+  QUESTION_EXPORT_MAX_ROWS,
+  QUESTION_IMPORT_MAX_ROWS,
+  QUESTION_OPTION_IDS,
+  QUESTION_SEARCH_MAX_PAGE_SIZE,
+  type QuestionAuditAction,
+  type QuestionAuditChanges,
+  type QuestionCsvColumn,
+  type QuestionDifficulty,
+  type QuestionFileFormat,
+  type QuestionImportResult,
+  type QuestionImportRowError,
+  type QuestionSearchFilters,
+  type QuestionSearchPage,
+} from "@shared/questionBank";
+import type { InsertQuestionAudit, NewQuestion, Question, QuestionAudit, Subject } from "@shared/schema";
+
+export type QuestionAdminResult<T> =
+  | { success: true; data: T }
+  | { success: false; status: number; message: string; errors?: string[] };
+
+export type QuestionAuditEntry = QuestionAudit & { adminNickname: string | null };
+
+// The question fields admins edit, compared field by field for the audit trail
+const EDITABLE_FIELDS = [
+  'subjectId',
+  'question',
+  'options',
+  'correctAnswer',
+  'explanation',
+  'imageUrl',
+  'difficulty',
+  'topic',
+  'year',
+  'examType',
+] as const;
+
+type EditableQuestion = Pick<NewQuestion, typeof EDITABLE_FIELDS[number]>;
+
+// Inserted questions are written in batches so a large import doesn't become one huge statement
+const IMPORT_BATCH_SIZE = 500;
+
+class QuestionAdminService {
+  /**
+   * Read search filters and paging from a request query
+   */
+  parseSearch(query: Record<string, unknown>): { filters: QuestionSearchFilters; page: number; pageSize: number } {
+    const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+    const difficulty = text(query.difficulty);
+    const page = parseInt(text(query.page) || '');
+    const pageSize = parseInt(text(query.pageSize) || '');
+
+    return {
+      filters: {
+        search: text(query.search),
+        subjectId: text(query.subjectId),
+        year: questionBankService.normalizeYear(text(query.year)) || undefined,
+        examType: questionBankService.normalizeExamType(text(query.examType)) || undefined,
+        topic: text(query.topic),
+        difficulty: QUESTION_DIFFICULTIES.includes(difficulty as QuestionDifficulty) ? difficulty as QuestionDifficulty : undefined,
+        source: text(query.source),
+      },
+      page: Number.isFinite(page) && page > 0 ? page : 1,
+      pageSize: Math.min(Number.isFinite(pageSize) && pageSize > 0 ? pageSize : 25, QUESTION_SEARCH_MAX_PAGE_SIZE),
+    };
+  }
+
+  async search(filters: QuestionSearchFilters, page: number, pageSize: number): Promise<QuestionSearchPage<Question>> {
+    const { questions, total } = await storage.searchQuestions(filters, { limit: pageSize, offset: (page - 1) * pageSize });
+    return { questions, total, page, pageSize };
+  }
+
+  /**
+   * Audit entries, newest first, with the nickname of the admin who made each change
+   */
+  async getAudits(options: { questionId?: string; limit?: number } = {}): Promise<QuestionAuditEntry[]> {
+    const audits = await storage.getQuestionAudits(options);
+    const adminIds = Array.from(new Set(audits.map(audit => audit.adminId)));
+    const admins = await Promise.all(adminIds.map(id => storage.getUser(id)));
+    const nicknames = new Map(admins.filter(admin => !!admin).map(admin => [admin!.id, admin!.nickname]));
+    return audits.map(audit => ({ ...audit, adminNickname: nicknames.get(audit.adminId) || null }));
+  }
+
+  async create(adminId: string, input: Record<string, unknown>): Promise<QuestionAdminResult<Question>> {
+    const validated = this.validate(input, await storage.getAllSubjects());
+    if ('errors' in validated) {
+      return { success: false, status: 400, message: "Invalid question", errors: validated.errors };
+    }
+
+    const [question] = await storage.insertQuestionsIfNew([{ ...validated.question, source: 'manual' }]);
+    if (!question) {
+      return { success: false, status: 409, message: "This question is already in the bank" };
+    }
+
+    await this.audit(adminId, 'create', [question], question => this.snapshot(question, 'to'));
+    return { success: true, data: question };
+  }
+
+  /**
+   * Apply a partial edit. Fields left out keep their current values; the result is validated as a whole.
+   */
+  async update(adminId: string, id: string, input: Record<string, unknown>): Promise<QuestionAdminResult<Question>> {
+    const existing = await storage.getQuestion(id);
+    if (!existing) {
+      return { success: false, status: 404, message: "Question not found" };
+    }
+
+    const merged = { ...this.pickEditable(existing), ...this.pickProvided(input) };
+    const validated = this.validate(merged, await storage.getAllSubjects());
+    if ('errors' in validated) {
+      return { success: false, status: 400, message: "Invalid question", errors: validated.errors };
+    }
+
+    const changes = this.diff(existing, validated.question);
+    if (Object.keys(changes).length === 0) {
+      return { success: true, data: existing };
+    }
+
+    if (validated.question.contentHash !== existing.contentHash) {
+      const [clash] = await storage.getQuestionsByContentHashes([validated.question.contentHash!]);
+      if (clash && clash.id !== id) {
+        return { success: false, status: 409, message: "Another question in the bank has the same text and options" };
+      }
+    }
+
+    const question = await storage.updateQuestion(id, validated.question);
+    await this.audit(adminId, 'update', [question], () => changes);
+    return { success: true, data: question };
+  }
+
+  async remove(adminId: string, id: string): Promise<QuestionAdminResult<Question>> {
+    const existing = await storage.getQuestion(id);
+    if (!existing) {
+      return { success: false, status: 404, message: "Question not found" };
+    }
+
+    await storage.deleteQuestion(id);
+    await this.audit(adminId, 'delete', [existing], question => this.snapshot(question, 'from'));
+    return { success: true, data: existing };
+  }
+
+  /**
+   * Validate every row of a CSV or JSON file and insert the valid ones that aren't already in the bank.
+   * Invalid rows are reported by row number and skipped; a dry run only validates.
+   */
+  async importFile(adminId: string, format: QuestionFileFormat, content: string, options: { dryRun?: boolean } = {}): Promise<QuestionAdminResult<QuestionImportResult>> {
+    const parsed = format === 'csv' ? this.readCsv(content) : this.readJson(content);
+    if ('message' in parsed) {
+      return { success: false, status: 400, message: parsed.message };
+    }
+    if (parsed.rows.length > QUESTION_IMPORT_MAX_ROWS) {
+      return { success: false, status: 400, message: `Import at most ${QUESTION_IMPORT_MAX_ROWS} questions at a time` };
+    }
+
+    const subjects = await storage.getAllSubjects();
+    const errors: QuestionImportRowError[] = [];
+    const valid: NewQuestion[] = [];
+    const seen = new Set<string>();
+    let duplicates = 0;
+
+    parsed.rows.forEach((row, index) => {
+      const validated = this.validate(row, subjects);
+      if ('errors' in validated) {
+        errors.push({ row: index + 1, errors: validated.errors });
+      } else if (seen.has(validated.question.contentHash!)) {
+        duplicates++;
+      } else {
+        seen.add(validated.question.contentHash!);
+        valid.push({ ...validated.question, source: 'import' });
+      }
+    });
+
+    const inserted: Question[] = [];
+    if (options.dryRun) {
+      duplicates += (await storage.getQuestionsByContentHashes(Array.from(seen))).length;
+    } else {
+      for (let start = 0; start < valid.length; start += IMPORT_BATCH_SIZE) {
+        inserted.push(...await storage.insertQuestionsIfNew(valid.slice(start, start + IMPORT_BATCH_SIZE)));
+      }
+      duplicates += valid.length - inserted.length;
+      await this.audit(adminId, 'import', inserted, question => this.snapshot(question, 'to'));
+      console.log(`📥 Admin import: ${inserted.length} new questions, ${duplicates} duplicates, ${errors.length} invalid rows`);
+    }
+
+    return {
+      success: true,
+      data: {
+        total: parsed.rows.length,
+        inserted: inserted.length,
+        duplicates,
+        invalid: errors.length,
+        dryRun: !!options.dryRun,
+        errors,
+      },
+    };
+  }
+
+  /**
+   * Questions matching the filters in the import format, so an export can be edited and imported elsewhere.
+   * More than QUESTION_EXPORT_MAX_ROWS questions are split into numbered parts; total and parts say how many.
+   */
+  async exportFile(filters: QuestionSearchFilters, format: QuestionFileFormat, part = 1): Promise<{ content: string; count: number; total: number; part: number; parts: number }> {
+    const [{ questions, total }, subjects] = await Promise.all([
+      storage.searchQuestions(filters, { limit: QUESTION_EXPORT_MAX_ROWS, offset: (part - 1) * QUESTION_EXPORT_MAX_ROWS }),
+      storage.getAllSubjects(),
+    ]);
+    const subjectNames = new Map(subjects.map(subject => [subject.id, subject.name]));
+    const rows = questions.map(question => this.toFileRow(question, subjectNames.get(question.subjectId) || question.subjectId));
+
+    const content = format === 'csv'
+      ? toCsv([[...QUESTION_CSV_COLUMNS], ...rows.map(row => QUESTION_CSV_COLUMNS.map(column => row[column]))])
+      : JSON.stringify(rows, null, 2);
+    return { content, count: questions.length, total, part, parts: Math.max(1, Math.ceil(total / QUESTION_EXPORT_MAX_ROWS)) };
+  }
+
+  /**
+   * Check and normalize one question from a form, CSV row or JSON object. The subject may be
+   * given by id or name, options as an array or as optionA-optionD, and the answer as a letter
+   * or as the text of the correct option.
+   */
+  validate(input: Record<string, unknown>, subjects: Subject[]): { question: NewQuestion } | { errors: string[] } {
+    const errors: string[] = [];
+    const text = (value: unknown) => (value === undefined || value === null ? '' : String(value).replace(/\s+/g, ' ').trim());
+
+    const subjectKey = text(input.subjectId) || text(input.subject);
+    const subject = subjects.find(s => s.id === subjectKey)
+      || subjects.find(s => s.name.toLowerCase() === subjectKey.toLowerCase());
+    if (!subjectKey) errors.push("subject is required");
+    else if (!subject) errors.push(`unknown subject "${subjectKey}"`);
+
+    const question = text(input.question);
+    if (!question) errors.push("question is required");
+
+    const options = this.readOptions(input).map((option, index) => ({ id: QUESTION_OPTION_IDS[index], text: text(option) }));
+    if (options.length !== QUESTION_OPTION_IDS.length || options.some(option => !option.text)) {
+      errors.push(`options ${QUESTION_OPTION_IDS.join(', ')} are all required`);
+    } else if (new Set(options.map(option => option.text.toLowerCase())).size !== options.length) {
+      errors.push("options must all be different");
+    }
+
+    const answer = text(input.correctAnswer);
+    const correctAnswer = QUESTION_OPTION_IDS.find(id => id === answer.toUpperCase())
+      || options.find(option => option.text && option.text.toLowerCase() === answer.toLowerCase())?.id;
+    if (!answer) errors.push("correctAnswer is required");
+    else if (!correctAnswer) errors.push(`correctAnswer must be one of ${QUESTION_OPTION_IDS.join(', ')} or the text of an option`);
+
+    const imageUrl = text(input.imageUrl);
+    if (imageUrl && !/^https?:\/\/\S+$/i.test(imageUrl)) errors.push("imageUrl must be an http(s) URL");
+
+    const difficulty = text(input.difficulty).toLowerCase() || 'medium';
+    if (!QUESTION_DIFFICULTIES.includes(difficulty as QuestionDifficulty)) {
+      errors.push(`difficulty must be one of ${QUESTION_DIFFICULTIES.join(', ')}`);
+    }
+
+    const rawYear = text(input.year);
+    const year = questionBankService.normalizeYear(rawYear);
+    if (rawYear && !year) errors.push(`year "${rawYear}" is not a valid year`);
+
+    const rawExamType = text(input.examType);
+    const examType = questionBankService.normalizeExamType(rawExamType);
+    if (rawExamType && !examType) errors.push(`examType "${rawExamType}" must be utme, wassce, neco or post-utme`);
+
+    if (errors.length > 0) return { errors };
+
+    return {
+      question: {
+        subjectId: subject!.id,
+        question,
+        options,
+        correctAnswer: correctAnswer!,
+        explanation: text(input.explanation) || null,
+        imageUrl: imageUrl || null,
+        difficulty,
+        topic: text(input.topic) || null,
+        year,
+        // Left blank, a question is served for every exam type
+        examType,
+        contentHash: questionBankService.computeContentHash(subject!.id, question, options),
+      },
+    };
+  }
+
+  private readOptions(input: Record<string, unknown>): unknown[] {
+    if (Array.isArray(input.options)) {
+      // { id, text } from the API, { label, text } from older admin forms, or plain strings
+      return input.options.map(option => (option && typeof option === 'object' ? (option as { text?: unknown }).text : option));
+    }
+    if (input.options && typeof input.options === 'object') {
+      const byId = input.options as Record<string, unknown>;
+      return QUESTION_OPTION_IDS.map(id => byId[id] ?? byId[id.toLowerCase()]);
+    }
+    return QUESTION_OPTION_IDS.map(id => input[`option${id}`]);
+  }
+
+  private readCsv(content: string): { rows: Array<Record<string, string>> } | { message: string } {
+    const [header, ...lines] = parseCsv(content);
+    if (!header) return { message: "The file is empty" };
+
+    // Headers are matched without regard to case or spacing; unknown columns are ignored
+    const columns = header.map((name): QuestionCsvColumn | 'subjectId' | undefined => {
+      const key = name.replace(/[\s_]/g, '').toLowerCase();
+      return key === 'subjectid' ? 'subjectId' : QUESTION_CSV_COLUMNS.find(column => column.toLowerCase() === key);
+    });
+    const required: QuestionCsvColumn[] = ['question', 'correctAnswer'];
+    const missing = required.filter(column => !columns.includes(column));
+    if (missing.length > 0) {
+      return { message: `CSV header is missing ${missing.join(', ')}. Expected columns: ${QUESTION_CSV_COLUMNS.join(', ')}` };
+    }
+
+    return {
+      rows: lines.map(line => {
+        const row: Record<string, string> = {};
+        columns.forEach((column, index) => {
+          if (column) row[column] = line[index] ?? '';
+        });
+        return row;
+      }),
+    };
+  }
+
+  private readJson(content: string): { rows: Array<Record<string, unknown>> } | { message: string } {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      return { message: "The file is not valid JSON" };
+    }
+
+    const rows = Array.isArray(parsed) ? parsed : (parsed as { questions?: unknown })?.questions;
+    if (!Array.isArray(rows)) {
+      return { message: "JSON must be an array of questions or an object with a questions array" };
+    }
+    return { rows: rows.map(row => (row && typeof row === 'object' ? row as Record<string, unknown> : {})) };
+  }
+
+  private toFileRow(question: Question, subjectName: string): Record<QuestionCsvColumn, string> {
+    const optionText = (id: string) => question.options.find(option => option.id === id)?.text || '';
+    return {
+      id: question.id,
+      subject: subjectName,
+      question: question.question,
+      optionA: optionText('A'),
+      optionB: optionText('B'),
+      optionC: optionText('C'),
+      optionD: optionText('D'),
+      correctAnswer: question.correctAnswer,
+      explanation: question.explanation || '',
+      imageUrl: question.imageUrl || '',
+      difficulty: question.difficulty || '',
+      topic: question.topic || '',
+      year: question.year || '',
+      examType: question.examType || '',
+    };
+  }
+
+  private pickEditable(question: Question): Record<string, unknown> {
+    return Object.fromEntries(EDITABLE_FIELDS.map(field => [field, question[field]]));
+  }
+
+  private pickProvided(input: Record<string, unknown>): Record<string, unknown> {
+    // A new subject name replaces the current subject id
+    const { subject, ...rest } = input;
+    const provided: Record<string, unknown> = subject !== undefined ? { ...rest, subjectId: subject } : rest;
+    return Object.fromEntries(Object.entries(provided).filter(([, value]) => value !== undefined));
+  }
+
+  private snapshot(question: Question, side: 'from' | 'to'): QuestionAuditChanges {
+    return Object.fromEntries(EDITABLE_FIELDS.map(field => [field, { [side]: question[field] ?? null }]));
+  }
+
+  private diff(before: Question, after: EditableQuestion): QuestionAuditChanges {
+    const changes: QuestionAuditChanges = {};
+    for (const field of EDITABLE_FIELDS) {
+      const from = before[field] ?? null;
+      const to = after[field] ?? null;
+      if (JSON.stringify(from) !== JSON.stringify(to)) changes[field] = { from, to };
+    }
+    return changes;
+  }
+
+  private async audit(adminId: string, action: QuestionAuditAction, questions: Question[], changes: (question: Question) => QuestionAuditChanges): Promise<void> {
+    const audits: InsertQuestionAudit[] = questions.map(question => ({
+      questionId: question.id,
+      adminId,
+      action,
+      changes: changes(question),
+    }));
+    for (let start = 0; start < audits.length; start += IMPORT_BATCH_SIZE) {
+      await storage.createQuestionAudits(audits.slice(start, start + IMPORT_BATCH_SIZE));
+    }
+  }
+}
+
+export const questionAdminService = new QuestionAdminService();
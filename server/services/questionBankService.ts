@@ -0,0 +1,369 @@
+// Local question bank: imports ALOC questions into the questions table and serves quizzes/CBT from it first
+import { storage } from "../storage";
+import { alocQuestionService, type AlocQuestion } from "./alocQuestionService";
+import { alocApiService } from "./alocApiService";
+import { generateContentHash } from "../utils/crypto";
+import type { GeneratedQuizQuestion } from "./aiService";
+import type { NewQuestion, Question, Subject } from "@shared/schema";
+
+export type ExamType = 'utme' | 'wassce' | 'neco' | 'post-utme';
+
+export interface BankQuestion {
+  id: string;
+  question: string;
+  options: Array<{ id: string; text: string }>;
+  correctAnswer: string;
+  subject: string;
+  explanation?: string;
+  imageUrl: string | null;
+  examType?: string;
+  examYear?: string;
+  difficulty: string;
+  topic?: string;
+  source: string;
+  aiGenerated?: boolean;
+  timeLimit: number;
+}
+
+export interface ImportResult {
+  subject: string;
+  fetched: number;
+  inserted: number;
+  duplicates: number;
+  invalid: number;
+}
+
+const OPTION_IDS = ['A', 'B', 'C', 'D'] as const;
+
+// Share of a user's quiz deliberately spent on questions they previously got wrong
+const MISSED_QUESTION_SHARE = 0.25;
+
+const EXAM_TYPE_ALIASES: Record<string, ExamType> = {
+  utme: 'utme',
+  jamb: 'utme',
+  wassce: 'wassce',
+  waec: 'wassce',
+  neco: 'neco',
+  'post-utme': 'post-utme',
+  postutme: 'post-utme',
+  post_utme: 'post-utme',
+};
+
+class QuestionBankService {
+  // ALOC is skipped for live top-ups until this time after a failure or rate limit
+  private liveFetchBackoffUntil = 0;
+  private readonly liveFetchBackoffMs = 5 * 60 * 1000;
+
+  normalizeExamType(value?: string | null): ExamType | null {
+    if (!value) return null;
+    return EXAM_TYPE_ALIASES[value.trim().toLowerCase().replace(/\s+/g, '')] || null;
+  }
+
+  /**
+   * Every lowercase spelling that normalizes to this exam type, for matching values stored before normalization
+   */
+  getExamTypeAliases(examType: ExamType): string[] {
+    return Object.keys(EXAM_TYPE_ALIASES).filter(alias => EXAM_TYPE_ALIASES[alias] === examType);
+  }
+
+  normalizeYear(value?: string | number | null): string | null {
+    if (value === undefined || value === null) return null;
+    const match = String(value).match(/\b(19|20)\d{2}\b/);
+    return match ? match[0] : null;
+  }
+
+  private normalizeText(value: string): string {
+    return value.replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * Hash of subject, stem and option texts, insensitive to case, spacing and option order
+   */
+  computeContentHash(subjectId: string, question: string, options: Array<{ text: string }>): string {
+    const stem = this.normalizeText(question).toLowerCase();
+    const optionTexts = options.map(o => this.normalizeText(o.text).toLowerCase()).sort();
+    return generateContentHash(subjectId, stem, ...optionTexts);
+  }
+
+  /**
+   * Convert a raw ALOC question into a questions row, or null if it is unusable
+   */
+  normalizeAlocQuestion(raw: AlocQuestion, subject: Subject): NewQuestion | null {
+    if (!raw?.question || !raw.option || !raw.answer) return null;
+
+    const question = this.normalizeText(raw.question);
+    const options = OPTION_IDS.map(id => ({
+      id,
+      text: this.normalizeText(String(raw.option[id.toLowerCase() as keyof AlocQuestion['option']] ?? '')),
+    }));
+    const correctAnswer = raw.answer.trim().toUpperCase();
+
+    if (!question || options.some(o => !o.text) || !OPTION_IDS.includes(correctAnswer as typeof OPTION_IDS[number])) {
+      return null;
+    }
+    if (new Set(options.map(o => o.text.toLowerCase())).size !== options.length) {
+      return null;
+    }
+
+    const image = raw.image?.trim();
+
+    return {
+      subjectId: subject.id,
+      question,
+      options,
+      correctAnswer,
+      explanation: raw.solution?.trim() || null,
+      imageUrl: image && /^https?:\/\//i.test(image) ? image : null,
+      difficulty: 'medium',
+      year: this.normalizeYear(raw.examyear),
+      examType: this.normalizeExamType(raw.examtype) || 'utme',
+      source: 'aloc',
+      sourceId: raw.id ? String(raw.id) : null,
+      contentHash: this.computeContentHash(subject.id, question, options),
+    };
+  }
+
+  /**
+   * Look a subject up by id, falling back to a case-insensitive name match
+   */
+  async resolveSubject(subjectIdOrName: string): Promise<Subject | undefined> {
+    return (await storage.getSubject(subjectIdOrName)) || (await storage.getSubjectByName(subjectIdOrName));
+  }
+
+  /**
+   * Normalize and store ALOC questions, skipping anything already in the bank
+   */
+  async importQuestions(subject: Subject, rawQuestions: AlocQuestion[]): Promise<{ result: ImportResult; questions: Question[] }> {
+    const seen = new Set<string>();
+    const rows: NewQuestion[] = [];
+    let invalid = 0;
+
+    for (const raw of rawQuestions) {
+      const row = this.normalizeAlocQuestion(raw, subject);
+      if (!row) {
+        invalid++;
+        continue;
+      }
+      if (seen.has(row.contentHash!)) continue;
+      seen.add(row.contentHash!);
+      rows.push(row);
+    }
+
+    const inserted = await storage.insertQuestionsIfNew(rows);
+
+    return {
+      result: {
+        subject: subject.name,
+        fetched: rawQuestions.length,
+        inserted: inserted.length,
+        duplicates: rawQuestions.length - invalid - inserted.length,
+        invalid,
+      },
+      questions: inserted,
+    };
+  }
+
+  /**
+   * Store AI-generated questions in the bank, returning the stored rows in the same order.
+   * A question that is already in the bank is returned as the existing row instead of a duplicate.
+   */
+  async saveGeneratedQuestions(subject: Subject, generated: GeneratedQuizQuestion[], options: { topic: string; difficulty?: string }): Promise<Question[]> {
+    const rows: NewQuestion[] = generated.map(q => ({
+      subjectId: subject.id,
+      question: q.question,
+      options: q.options,
+      correctAnswer: q.correctAnswer,
+      explanation: q.explanation,
+      difficulty: options.difficulty || 'medium',
+      topic: options.topic,
+      source: 'ai',
+      aiGenerated: true,
+      contentHash: this.computeContentHash(subject.id, q.question, q.options),
+    }));
+
+    const inserted = await storage.insertQuestionsIfNew(rows);
+    const missing = rows.map(r => r.contentHash!).filter(hash => !inserted.some(q => q.contentHash === hash));
+    const existing = await storage.getQuestionsByContentHashes(missing);
+    const byHash = new Map([...inserted, ...existing].map(q => [q.contentHash, q]));
+
+    console.log(`🤖 Saved ${inserted.length} AI-generated ${subject.name} questions on "${options.topic}" (${existing.length} already in bank)`);
+    return rows.map(r => byHash.get(r.contentHash!)).filter((q): q is Question => !!q);
+  }
+
+  /**
+   * Pull a batch of questions for one subject from ALOC into the bank
+   */
+  async importFromAloc(subject: Subject, options: { examType?: ExamType; year?: string; count?: number } = {}): Promise<ImportResult> {
+    const { examType = 'utme', year, count = 40 } = options;
+    const key = subject.name.toLowerCase();
+
+    const fetched = await alocQuestionService.fetchQuestionsForCBT([key], {
+      questionsPerSubject: count,
+      examType,
+      year,
+    });
+
+    const { result } = await this.importQuestions(subject, fetched[key] || []);
+    console.log(`📥 ALOC import for ${subject.name}: ${result.inserted} new, ${result.duplicates} duplicates, ${result.invalid} invalid`);
+    return result;
+  }
+
+  /**
+   * Serve questions from the local bank first, topping up from ALOC (and storing what it returns)
+   * only when the bank is short, and falling back to practice templates as a last resort.
+   * With a userId, previously missed questions are resurfaced on purpose and the rest of the
+   * selection prefers questions the user has never been served.
+   */
+  async getQuestions(subjectIdOrName: string, options: {
+    limit?: number;
+    examType?: ExamType;
+    year?: string;
+    excludeIds?: string[];
+    userId?: string;
+  } = {}): Promise<BankQuestion[]> {
+    const { limit = 20, examType = 'utme', year, excludeIds = [], userId } = options;
+    const subject = await this.resolveSubject(subjectIdOrName);
+    const subjectName = subject?.name || subjectIdOrName;
+
+    const served: BankQuestion[] = [];
+    const takenIds = () => [...excludeIds, ...served.map(q => q.id)];
+
+    if (subject) {
+      if (userId) {
+        const missed = await this.getMissedQuestions(userId, subject, {
+          limit: Math.ceil(limit * MISSED_QUESTION_SHARE),
+          examType,
+          year,
+          excludeIds,
+        });
+        served.push(...missed.map(q => this.toClientQuestion(q, subject.name)));
+      }
+
+      const local = await storage.getBankQuestions({
+        subjectId: subject.id,
+        examType,
+        year,
+        limit: limit - served.length,
+        excludeIds: takenIds(),
+        unseenBy: userId,
+      });
+      served.push(...local.map(q => this.toClientQuestion(q, subject.name)));
+
+      if (served.length < limit && this.canFetchLive()) {
+        try {
+          const key = subject.name.toLowerCase();
+          const fetched = await alocQuestionService.fetchQuestionsForCBT([key], {
+            questionsPerSubject: limit - served.length,
+            examType,
+            year,
+          });
+          const rawQuestions = fetched[key] || [];
+          if (rawQuestions.length === 0) {
+            this.backOffLiveFetch();
+          }
+
+          const { questions: imported } = await this.importQuestions(subject, rawQuestions);
+          const servedIds = new Set(takenIds());
+          for (const question of imported) {
+            if (served.length >= limit) break;
+            if (!servedIds.has(question.id)) served.push(this.toClientQuestion(question, subject.name));
+          }
+        } catch (error) {
+          console.error(`❌ ALOC top-up failed for ${subject.name}:`, error);
+          this.backOffLiveFetch();
+        }
+      }
+
+      // The user has seen everything unseen we could find; repeat questions before resorting to templates
+      if (userId && served.length < limit) {
+        const repeats = await storage.getBankQuestions({
+          subjectId: subject.id,
+          examType,
+          year,
+          limit: limit - served.length,
+          excludeIds: takenIds(),
+        });
+        served.push(...repeats.map(q => this.toClientQuestion(q, subject.name)));
+      }
+    }
+
+    if (served.length < limit) {
+      const needed = limit - served.length;
+      console.log(`⚠️ Question bank short for ${subjectName}, adding ${needed} practice templates`);
+      const templates = alocApiService.generateRealisticQuestions(subjectName.toLowerCase(), needed, examType);
+      served.push(...templates.map(t => ({
+        id: t.id,
+        question: t.question,
+        options: OPTION_IDS.map(id => ({ id, text: t.option[id.toLowerCase() as keyof AlocQuestion['option']] })),
+        correctAnswer: t.answer.toUpperCase(),
+        subject: subjectName,
+        explanation: t.solution,
+        imageUrl: t.image || null,
+        examType: t.examtype,
+        examYear: t.examyear,
+        difficulty: 'medium',
+        source: 'template',
+        timeLimit: 120,
+      })));
+    }
+
+    // Mix resurfaced questions in with the rest instead of always leading with them
+    const selection = served.slice(0, limit);
+    for (let i = selection.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [selection[i], selection[j]] = [selection[j], selection[i]];
+    }
+    return selection;
+  }
+
+  /**
+   * Bank questions the user most recently answered wrongly, oldest miss first
+   */
+  private async getMissedQuestions(userId: string, subject: Subject, filters: {
+    limit: number;
+    examType: ExamType;
+    year?: string;
+    excludeIds: string[];
+  }): Promise<Question[]> {
+    const missedIds = await storage.getMissedQuestionIds(userId, subject.id, filters.limit * 2);
+    const missed = await storage.getQuestionsByIds(missedIds.filter(id => !filters.excludeIds.includes(id)));
+    const byId = new Map(missed.map(q => [q.id, q]));
+
+    return missedIds
+      .map(id => byId.get(id))
+      .filter((q): q is Question => !!q
+        && !q.hiddenAt
+        && (!q.examType || q.examType === filters.examType)
+        && (!filters.year || q.year === filters.year))
+      .slice(0, filters.limit);
+  }
+
+  toClientQuestion(question: Question, subjectName: string): BankQuestion {
+    return {
+      id: question.id,
+      question: question.question,
+      options: question.options,
+      correctAnswer: question.correctAnswer,
+      subject: subjectName,
+      explanation: question.explanation || undefined,
+      imageUrl: question.imageUrl,
+      examType: question.examType || undefined,
+      examYear: question.year || undefined,
+      difficulty: question.difficulty || 'medium',
+      topic: question.topic || undefined,
+      source: question.source || 'manual',
+      aiGenerated: question.aiGenerated || undefined,
+      timeLimit: 120,
+    };
+  }
+
+  private canFetchLive(): boolean {
+    return alocQuestionService.isConfigured() && Date.now() >= this.liveFetchBackoffUntil;
+  }
+
+  private backOffLiveFetch(): void {
+    this.liveFetchBackoffUntil = Date.now() + this.liveFetchBackoffMs;
+  }
+}
+
+export const questionBankService = new QuestionBankService();
@@ -0,0 +1,62 @@
+// Per-user question exposure log: which bank questions a user has been served and how they answered them
+import { storage } from "../storage";
+
+export type ExposureContext = 'quiz' | 'cbt';
+
+export interface GradedAnswer {
+  questionId: string;
+  subjectId: string;
+  selectedAnswer: string | null;
+  isCorrect: boolean;
+}
+
+class QuestionExposureService {
+  /**
+   * Log that questions were served to a user. Only questions stored in the bank are logged;
+   * practice templates have no stable id to track.
+   */
+  async recordServed(userId: string, context: ExposureContext, questionIds: string[], sessionId?: string): Promise<void> {
+    const bankQuestions = await storage.getQuestionsByIds(Array.from(new Set(questionIds)));
+    if (bankQuestions.length === 0) return;
+
+    await storage.recordQuestionExposures(bankQuestions.map(question => ({
+      userId,
+      questionId: question.id,
+      subjectId: question.subjectId,
+      context,
+      sessionId: sessionId ?? null,
+    })));
+  }
+
+  /**
+   * Tie questions served outside a session to the session they are being answered in. A served question
+   * can be claimed once; returns the ids that were served and not yet claimed.
+   */
+  async claimServed(userId: string, context: ExposureContext, questionIds: string[], sessionId: string): Promise<string[]> {
+    return storage.claimServedQuestions(userId, context, Array.from(new Set(questionIds)), sessionId);
+  }
+
+  /**
+   * Record how a user answered served questions, graded against the bank copy rather than
+   * whatever the client sent. Unanswered questions count as missed. Returns the graded answers.
+   */
+  async recordAnswers(userId: string, answers: Record<string, string | undefined>, questionIds: string[], sessionId?: string): Promise<GradedAnswer[]> {
+    const bankQuestions = await storage.getQuestionsByIds(Array.from(new Set(questionIds)));
+    if (bankQuestions.length === 0) return [];
+
+    const graded = bankQuestions.map(question => {
+      const selectedAnswer = answers[question.id] || null;
+      return {
+        questionId: question.id,
+        subjectId: question.subjectId,
+        selectedAnswer,
+        isCorrect: !!selectedAnswer && selectedAnswer.toUpperCase() === question.correctAnswer.toUpperCase(),
+      };
+    });
+
+    await storage.recordExposureAnswers(userId, graded.map(({ subjectId: _, ...answer }) => answer), sessionId);
+    return graded;
+  }
+}
+
+export const questionExposureService = new QuestionExposureService();
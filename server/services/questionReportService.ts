@@ -0,0 +1,219 @@
+// Student reports of faulty questions: intake, automatic hiding of heavily reported bank questions,
+// the admin moderation queue and telling reporters how their report was settled.
+import { storage } from "../storage";
+import { questionAdminService } from "./questionAdminService";
+import { notificationService } from "./notificationService";
+import {
+  OPEN_QUESTION_REPORT_STATUSES,
+  QUESTION_REPORT_DESCRIPTION_MAX_LENGTH,
+  QUESTION_REPORT_HIDE_THRESHOLD,
+  QUESTION_REPORT_TYPES,
+  type QuestionReportCorrection,
+  type QuestionReportStatus,
+} from "@shared/questionReports";
+import type { Question, QuestionReport, User } from "@shared/schema";
+
+export type QuestionReportResult<T> =
+  | { success: true; data: T }
+  | { success: false; status: number; message: string; errors?: string[] };
+
+export interface ReportSubmission {
+  questionId: string;
+  reportType: string;
+  description?: string;
+  userAnswer?: string;
+  // Used only when the question isn't in the bank, e.g. a practice template
+  questionText?: string;
+  questionOptions?: Array<{ id?: string; label?: string; text: string }>;
+  correctAnswer?: string;
+  subject?: string;
+  examType?: string;
+  examYear?: string;
+}
+
+export interface ReportReview {
+  status: Exclude<QuestionReportStatus, 'pending'>;
+  adminNotes?: string;
+  correction?: QuestionReportCorrection;
+}
+
+export type QueuedQuestionReport = QuestionReport & {
+  openReporters: number;
+  question: Question | null; // the bank question as it is now
+};
+
+class QuestionReportService {
+  /**
+   * Record a student's report. A student can have one open report per question.
+   */
+  async submit(user: User, input: ReportSubmission): Promise<QuestionReportResult<QuestionReport>> {
+    if (!input.questionId) {
+      return { success: false, status: 400, message: "questionId is required" };
+    }
+    if (!QUESTION_REPORT_TYPES.some(type => type.id === input.reportType)) {
+      return { success: false, status: 400, message: `reportType must be one of ${QUESTION_REPORT_TYPES.map(type => type.id).join(', ')}` };
+    }
+    const description = input.description?.trim() || null;
+    if (description && description.length > QUESTION_REPORT_DESCRIPTION_MAX_LENGTH) {
+      return { success: false, status: 400, message: `Keep the description under ${QUESTION_REPORT_DESCRIPTION_MAX_LENGTH} characters` };
+    }
+
+    if (await storage.getOpenQuestionReport(input.questionId, user.id)) {
+      return { success: false, status: 409, message: "You've already reported this question" };
+    }
+
+    const question = await storage.getQuestion(input.questionId);
+    const subject = question ? await storage.getSubject(question.subjectId) : undefined;
+    const snapshot = question
+      ? {
+          questionText: question.question,
+          questionOptions: question.options,
+          correctAnswer: question.correctAnswer,
+          subject: subject?.name || question.subjectId,
+          examType: question.examType,
+          examYear: question.year,
+        }
+      : {
+          questionText: input.questionText?.trim() || '',
+          questionOptions: (input.questionOptions || []).map((option, index) => ({
+            id: option.id || option.label || String.fromCharCode(65 + index),
+            text: option.text,
+          })),
+          correctAnswer: input.correctAnswer || '',
+          subject: input.subject?.trim() || '',
+          examType: input.examType || null,
+          examYear: input.examYear || null,
+        };
+    if (!snapshot.questionText || !snapshot.subject || snapshot.questionOptions.length === 0) {
+      return { success: false, status: 400, message: "questionText, questionOptions and subject are required for questions outside the bank" };
+    }
+
+    const report = await storage.createQuestionReport({
+      questionId: input.questionId,
+      userId: user.id,
+      reportType: input.reportType,
+      description,
+      userAnswer: input.userAnswer || null,
+      status: 'pending',
+      ...snapshot,
+    });
+    console.log(`🚩 ${user.nickname} reported question ${input.questionId} (${input.reportType})`);
+
+    if (question) await this.syncVisibility(question);
+    return { success: true, data: report };
+  }
+
+  /**
+   * Reports waiting for moderation (or any status), oldest first, with how many students have an
+   * open report on the same question and the question's current state
+   */
+  async getQueue(options: { status?: string; page: number; pageSize: number }): Promise<{ reports: QueuedQuestionReport[]; total: number }> {
+    const statuses = !options.status || options.status === 'open' ? OPEN_QUESTION_REPORT_STATUSES : [options.status];
+    const { reports, total } = await storage.getQuestionReports({
+      statuses,
+      limit: options.pageSize,
+      offset: (options.page - 1) * options.pageSize,
+    });
+
+    const questionIds = Array.from(new Set(reports.map(report => report.questionId)));
+    const [counts, questions] = await Promise.all([
+      storage.countOpenReporters(questionIds),
+      storage.getQuestionsByIds(questionIds),
+    ]);
+    const reporters = new Map(counts.map(count => [count.questionId, count.reporters]));
+    const byId = new Map(questions.map(question => [question.id, question]));
+
+    return {
+      reports: reports.map(report => ({
+        ...report,
+        openReporters: reporters.get(report.questionId) || 0,
+        question: byId.get(report.questionId) || null,
+      })),
+      total,
+    };
+  }
+
+  /**
+   * Triage or close a report. Resolving applies any correction to the bank question and closes every
+   * open report on it; dismissing closes just this one. Closed reports' reporters are notified.
+   */
+  async review(admin: User, reportId: string, review: ReportReview): Promise<QuestionReportResult<QuestionReport[]>> {
+    const report = await storage.getQuestionReport(reportId);
+    if (!report) {
+      return { success: false, status: 404, message: "Report not found" };
+    }
+    if (!['reviewed', 'resolved', 'dismissed'].includes(review.status)) {
+      return { success: false, status: 400, message: "status must be reviewed, resolved or dismissed" };
+    }
+    if (!OPEN_QUESTION_REPORT_STATUSES.includes(report.status as QuestionReportStatus)) {
+      return { success: false, status: 409, message: `This report was already ${report.status}` };
+    }
+
+    const now = new Date();
+    const updates = {
+      status: review.status,
+      adminNotes: review.adminNotes?.trim() || report.adminNotes,
+      reviewedAt: now,
+      reviewedBy: admin.id,
+    };
+
+    if (review.status === 'reviewed') {
+      return { success: true, data: [await storage.updateQuestionReport(report.id, updates)] };
+    }
+
+    let closed: QuestionReport[];
+    if (review.status === 'resolved') {
+      if (review.correction && Object.keys(review.correction).length > 0) {
+        const corrected = await questionAdminService.update(admin.id, report.questionId, { ...review.correction });
+        if (!corrected.success) return corrected;
+      }
+      closed = await storage.closeOpenQuestionReports(report.questionId, { ...updates, isResolved: true });
+    } else {
+      closed = [await storage.updateQuestionReport(report.id, updates)];
+    }
+
+    const question = await storage.getQuestion(report.questionId);
+    if (question) await this.syncVisibility(question);
+
+    await this.notifyReporters(closed);
+    return { success: true, data: closed };
+  }
+
+  async getUserReports(userId: string): Promise<QuestionReport[]> {
+    return await storage.getUserQuestionReports(userId);
+  }
+
+  /**
+   * Hide a bank question from new quizzes while enough students have open reports on it, and bring
+   * it back once moderation brings the count below the threshold
+   */
+  private async syncVisibility(question: Question): Promise<void> {
+    const [count] = await storage.countOpenReporters([question.id]);
+    const shouldHide = (count?.reporters || 0) >= QUESTION_REPORT_HIDE_THRESHOLD;
+
+    if (shouldHide && !question.hiddenAt) {
+      await storage.updateQuestion(question.id, { hiddenAt: new Date() });
+      console.log(`🙈 Question ${question.id} hidden after ${count.reporters} open reports`);
+    } else if (!shouldHide && question.hiddenAt) {
+      await storage.updateQuestion(question.id, { hiddenAt: null });
+      console.log(`👀 Question ${question.id} is being served again`);
+    }
+  }
+
+  private async notifyReporters(reports: QuestionReport[]): Promise<void> {
+    for (const report of reports) {
+      try {
+        const queued = await notificationService.notify(report.userId, 'question_report_outcome', {
+          questionText: report.questionText,
+          status: report.status as 'resolved' | 'dismissed',
+          adminNotes: report.adminNotes,
+        });
+        if (queued.length > 0) await storage.updateQuestionReport(report.id, { notifiedAt: new Date() });
+      } catch (error) {
+        console.error(`Error notifying reporter of question report ${report.id}:`, error);
+      }
+    }
+  }
+}
+
+export const questionReportService = new QuestionReportService();
@@ -0,0 +1,64 @@
+// Grades quiz sessions on the server against the question bank; answer keys sent by the client are never trusted
+import { storage } from "../storage";
+import type { QuizSession } from "@shared/schema";
+
+type QuizQuestion = NonNullable<QuizSession['questionsData']>[number];
+
+export interface QuizGrade {
+  score: number; // percent
+  correctAnswers: number;
+  totalQuestions: number;
+  // The session's questions with the bank's answer keys, for review
+  questions: QuizQuestion[];
+  answerKeys: Record<string, string>; // bank answer per graded question id
+}
+
+class QuizGradingService {
+  /**
+   * Answered bank questions that were not served for the session. Practice templates are not in the bank;
+   * their answers are simply left ungraded.
+   */
+  async unservedAnswers(session: QuizSession, answers: Record<string, string>): Promise<string[]> {
+    const served = new Set(this.storedQuestions(session).map(q => q.id));
+    const others = Object.keys(answers).filter(id => !served.has(id));
+    if (others.length === 0) return [];
+    return (await storage.getQuestionsByIds(others)).map(q => q.id);
+  }
+
+  /**
+   * Grade answers (keyed by question id) for the questions stored on the session. Only questions in the bank
+   * can be checked, so practice templates are left out of the score, and answers to anything else are ignored.
+   */
+  async grade(session: QuizSession, answers: Record<string, string>): Promise<QuizGrade> {
+    const stored = this.storedQuestions(session);
+    const bankQuestions = new Map((await storage.getQuestionsByIds(Array.from(new Set(stored.map(q => q.id))))).map(q => [q.id, q]));
+
+    let correctAnswers = 0;
+    for (const question of Array.from(bankQuestions.values())) {
+      const answer = answers[question.id];
+      if (answer && answer.toUpperCase() === question.correctAnswer.toUpperCase()) correctAnswers++;
+    }
+
+    const totalQuestions = bankQuestions.size;
+    const questions = stored.map(question => {
+      const bankQuestion = bankQuestions.get(question.id);
+      return bankQuestion
+        ? { ...question, correctAnswer: bankQuestion.correctAnswer, explanation: bankQuestion.explanation || question.explanation }
+        : question;
+    });
+
+    return {
+      score: totalQuestions > 0 ? Math.round((correctAnswers / totalQuestions) * 100) : 0,
+      correctAnswers,
+      totalQuestions,
+      questions,
+      answerKeys: Object.fromEntries(Array.from(bankQuestions.values(), q => [q.id, q.correctAnswer])),
+    };
+  }
+
+  private storedQuestions(session: QuizSession): QuizQuestion[] {
+    return session.questionsData?.length ? session.questionsData : session.questions || [];
+  }
+}
+
+export const quizGradingService = new QuizGradingService();
@@ -0,0 +1,64 @@
+// Quiz sessions hold only bank questions the server served to the user, so nothing else can be graded in them
+import { randomUUID } from "crypto";
+import { storage } from "../storage";
+import { questionBankService } from "./questionBankService";
+import { questionExposureService } from "./questionExposureService";
+import type { QuizSession } from "@shared/schema";
+
+export interface QuizSessionInput {
+  subjectId: string;
+  questionIds: string[]; // in the order they were served
+  selectedYear?: string | null;
+  examType?: string;
+  mode?: string;
+}
+
+class QuizSessionService {
+  /**
+   * Create a session for questions served to the user for a quiz and not yet used by another session.
+   * Other ids (templates, unknown or reused questions) are left out. Undefined when none are left.
+   */
+  async create(userId: string, input: QuizSessionInput): Promise<QuizSession | undefined> {
+    const sessionId = randomUUID();
+    const claimed = new Set(await questionExposureService.claimServed(userId, 'quiz', input.questionIds, sessionId));
+    if (claimed.size === 0) return undefined;
+
+    const subject = await questionBankService.resolveSubject(input.subjectId);
+    const bankQuestions = new Map((await storage.getQuestionsByIds(Array.from(claimed))).map(q => [q.id, q]));
+    const questionsData = Array.from(new Set(input.questionIds))
+      .filter(id => bankQuestions.has(id))
+      .map(id => {
+        const question = bankQuestions.get(id)!;
+        return {
+          id: question.id,
+          question: question.question,
+          options: question.options,
+          correctAnswer: question.correctAnswer,
+          explanation: question.explanation || undefined,
+          imageUrl: question.imageUrl || undefined,
+          year: question.year || undefined,
+          examType: question.examType || undefined,
+        };
+      });
+
+    // Results start empty: a session only counts as completed once it is graded on submission
+    return storage.createQuizSession({
+      id: sessionId,
+      userId,
+      subjectId: input.subjectId,
+      subjectName: subject?.name || 'Unknown Subject',
+      questionsData,
+      userAnswers: {},
+      score: 0,
+      correctAnswers: 0,
+      totalQuestions: questionsData.length,
+      timeSpent: 0,
+      isCompleted: false,
+      selectedYear: input.selectedYear || null,
+      examType: input.examType || 'utme',
+      mode: input.mode || 'practice',
+    });
+  }
+}
+
+export const quizSessionService = new QuizSessionService();
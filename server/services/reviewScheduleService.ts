@@ -0,0 +1,146 @@
+// SM-2 spaced repetition for missed questions: each graded answer moves the question's next review date
+import { storage } from "../storage";
+import { questionBankService, type BankQuestion } from "./questionBankService";
+import type { GradedAnswer } from "./questionExposureService";
+import type { ReviewSchedule } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+// Reviews offered per day across all subjects
+const DAILY_REVIEW_LIMIT = 30;
+
+// SM-2 grades for quiz answers, which only tell us right, wrong or skipped
+const QUALITY_CORRECT = 4;
+const QUALITY_INCORRECT = 1;
+const QUALITY_UNANSWERED = 0;
+
+export interface Sm2State {
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  lapses: number;
+}
+
+export interface ReviewQueue {
+  total: number;
+  subjects: Array<{ subjectId: string; subjectName: string; due: number }>;
+  questions: Array<BankQuestion & { review: { dueAt: Date; intervalDays: number; repetitions: number; lapses: number } }>;
+}
+
+/**
+ * Apply one SM-2 review with quality 0-5: grades below 3 restart the repetitions at a one-day interval,
+ * otherwise the interval grows 1 day, 6 days, then by the ease factor. Ease drifts with every grade.
+ */
+export function applySm2(state: Sm2State, quality: number): Sm2State {
+  const q = Math.max(0, Math.min(5, Math.round(quality)));
+  const easeFactor = Math.max(MIN_EASE, state.easeFactor + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)));
+
+  if (q < 3) {
+    return { easeFactor, intervalDays: 1, repetitions: 0, lapses: state.lapses + 1 };
+  }
+
+  const intervalDays = state.repetitions === 0 ? 1
+    : state.repetitions === 1 ? 6
+    : Math.round(state.intervalDays * state.easeFactor);
+
+  return { easeFactor, intervalDays, repetitions: state.repetitions + 1, lapses: state.lapses };
+}
+
+function endOfDay(date: Date): Date {
+  const end = new Date(date);
+  end.setHours(23, 59, 59, 999);
+  return end;
+}
+
+class ReviewScheduleService {
+  /**
+   * Feed graded answers into the schedule. A missed question starts being scheduled; questions already
+   * scheduled are re-graded. Getting a question right before it is due doesn't stretch its interval.
+   */
+  async recordResults(userId: string, results: GradedAnswer[], now: Date = new Date()): Promise<void> {
+    if (results.length === 0) return;
+
+    const existing = new Map(
+      (await storage.getReviewSchedules(userId, results.map(r => r.questionId))).map(s => [s.questionId, s])
+    );
+
+    for (const result of results) {
+      const schedule = existing.get(result.questionId);
+      if (!schedule && result.isCorrect) continue;
+      if (schedule && result.isCorrect && schedule.dueAt > now) continue;
+
+      const quality = result.isCorrect ? QUALITY_CORRECT : result.selectedAnswer ? QUALITY_INCORRECT : QUALITY_UNANSWERED;
+      const next = applySm2(schedule || { easeFactor: INITIAL_EASE, intervalDays: 0, repetitions: 0, lapses: 0 }, quality);
+
+      await storage.upsertReviewSchedule({
+        userId,
+        questionId: result.questionId,
+        subjectId: result.subjectId,
+        ...next,
+        lastQuality: quality,
+        lastReviewedAt: now,
+        dueAt: new Date(now.getTime() + next.intervalDays * DAY_MS),
+      });
+    }
+  }
+
+  /**
+   * Today's reviews: everything due by the end of the day, oldest first, taking turns between
+   * subjects so one subject can't fill the whole queue
+   */
+  async getDailyQueue(userId: string, options: { subjectId?: string; limit?: number } = {}, now: Date = new Date()): Promise<ReviewQueue> {
+    const dueBy = endOfDay(now);
+    const limit = Math.min(options.limit ?? DAILY_REVIEW_LIMIT, 100);
+
+    const [counts, due, subjects] = await Promise.all([
+      storage.getDueReviewCounts(userId, dueBy),
+      storage.getDueReviewSchedules(userId, dueBy, { subjectId: options.subjectId, limit: 500 }),
+      storage.getAllSubjects(),
+    ]);
+
+    const picked = this.interleaveBySubject(due, limit);
+    // Questions hidden pending report review are left out until an admin clears them
+    const questions = new Map((await storage.getQuestionsByIds(picked.map(s => s.questionId)))
+      .filter(q => !q.hiddenAt)
+      .map(q => [q.id, q]));
+    const subjectNames = new Map(subjects.map(s => [s.id, s.name]));
+
+    const relevantCounts = options.subjectId ? counts.filter(c => c.subjectId === options.subjectId) : counts;
+    return {
+      total: relevantCounts.reduce((sum, c) => sum + c.due, 0),
+      subjects: relevantCounts.map(c => ({ ...c, subjectName: subjectNames.get(c.subjectId) || 'Unknown' })),
+      questions: picked
+        .filter(schedule => questions.has(schedule.questionId))
+        .map(schedule => ({
+          ...questionBankService.toClientQuestion(questions.get(schedule.questionId)!, subjectNames.get(schedule.subjectId) || 'Unknown'),
+          review: {
+            dueAt: schedule.dueAt,
+            intervalDays: schedule.intervalDays,
+            repetitions: schedule.repetitions,
+            lapses: schedule.lapses,
+          },
+        })),
+    };
+  }
+
+  private interleaveBySubject(schedules: ReviewSchedule[], limit: number): ReviewSchedule[] {
+    const bySubject = new Map<string, ReviewSchedule[]>();
+    for (const schedule of schedules) {
+      bySubject.set(schedule.subjectId, [...(bySubject.get(schedule.subjectId) || []), schedule]);
+    }
+
+    const queues = Array.from(bySubject.values());
+    const picked: ReviewSchedule[] = [];
+    while (picked.length < limit && queues.some(queue => queue.length > 0)) {
+      for (const queue of queues) {
+        const next = queue.shift();
+        if (next && picked.length < limit) picked.push(next);
+      }
+    }
+    return picked;
+  }
+}
+
+export const reviewScheduleService = new ReviewScheduleService();
@@ -0,0 +1,63 @@
+// Study scheduler housekeeping, run as a background job: reminders through the user's notification
+// channels ahead of each task, skipping tasks that were never done and moving recurring ones on.
+import { storage } from "../storage";
+import { notificationService } from "./notificationService";
+import { studySchedulerService } from "./studySchedulerService";
+import type { BackgroundJob } from "./jobRunner";
+import { SCHEDULER_OVERDUE_HOURS, SCHEDULER_REMINDER_LEAD_MINUTES, SCHEDULER_TASK_TYPES } from "@shared/scheduler";
+
+const BATCH_SIZE = 100;
+
+class SchedulerReminderService {
+  readonly job: BackgroundJob = {
+    name: 'scheduler-reminders',
+    intervalMs: 60 * 1000,
+    run: (now) => this.run(now),
+  };
+
+  async run(now: Date = new Date()): Promise<{ reminded: number; skipped: number; rolledForward: number }> {
+    const reminded = await this.sendDueReminders(now);
+    const { skipped, rolledForward } = await this.skipOverdueTasks(now);
+    if (reminded + skipped > 0) {
+      console.log(`⏰ Scheduler: ${reminded} reminders sent, ${skipped} overdue tasks skipped, ${rolledForward} rolled forward`);
+    }
+    return { reminded, skipped, rolledForward };
+  }
+
+  /**
+   * Remind users of pending tasks starting within the lead time. Each task is claimed before its reminder
+   * goes out, so it is reminded once even with several instances running.
+   */
+  async sendDueReminders(now: Date): Promise<number> {
+    const until = new Date(now.getTime() + SCHEDULER_REMINDER_LEAD_MINUTES * 60 * 1000);
+    const tasks = await storage.claimDueTaskReminders(now, until, BATCH_SIZE);
+
+    for (const task of tasks) {
+      const taskType = SCHEDULER_TASK_TYPES.find(type => type.id === task.taskType)?.name || task.taskType;
+      await notificationService.notify(task.userId, 'scheduler_reminder', {
+        title: `${task.subjectName} ${taskType.toLowerCase()}`,
+        startsAt: task.scheduledDate.toISOString(),
+        duration: task.duration ? Math.round(task.duration / 60) : null,
+      }, now);
+    }
+    return tasks.length;
+  }
+
+  /**
+   * Skip tasks long past their start that were never finished. A recurring task gets its next
+   * occurrence in the future, with its streak broken.
+   */
+  async skipOverdueTasks(now: Date): Promise<{ skipped: number; rolledForward: number }> {
+    const skipped = await storage.skipOverdueTasks(new Date(now.getTime() - SCHEDULER_OVERDUE_HOURS * 60 * 60 * 1000), BATCH_SIZE);
+
+    let rolledForward = 0;
+    for (const task of skipped) {
+      if (!task.repeatInterval || task.repeatInterval <= 0) continue;
+      await studySchedulerService.rollForward(task, studySchedulerService.nextOccurrence(task, now), { streak: 0 });
+      rolledForward++;
+    }
+    return { skipped: skipped.length, rolledForward };
+  }
+}
+
+export const schedulerReminderService = new SchedulerReminderService();
@@ -0,0 +1,156 @@
+// Short revision notes: written by students or generated by AI from a topic or from questions they had
+// explained, found through full-text search and brought back for review on a widening schedule.
+import { z } from "zod";
+import { storage } from "../storage";
+import { aiService } from "./aiService";
+import { questionBankService } from "./questionBankService";
+import {
+  SHORT_NOTE_DIFFICULTIES,
+  SHORT_NOTE_MAX_SOURCE_QUESTIONS,
+  SHORT_NOTE_REVIEW_MIN_GAP_MINUTES,
+  type ShortNoteFilters,
+  type ShortNoteGenerationRequest,
+} from "@shared/shortNotes";
+import type { ShortNote, User } from "@shared/schema";
+
+export type ShortNoteResult<T> =
+  | { success: true; data: T }
+  | { success: false; status: number; message: string };
+
+const DUE_NOTES_LIMIT = 20;
+
+const noteFieldsSchema = z.object({
+  topic: z.string().trim().min(1, "topic is required").max(200),
+  title: z.string().trim().min(1, "title is required").max(200),
+  content: z.string().trim().min(1, "content is required"),
+  keyPoints: z.array(z.string().trim().min(1)).max(20).default([]),
+  formulas: z.array(z.object({
+    formula: z.string().trim().min(1),
+    description: z.string().trim(),
+  })).max(20).default([]),
+  examples: z.array(z.string().trim().min(1)).max(10).default([]),
+  difficulty: z.enum(SHORT_NOTE_DIFFICULTIES).default('medium'),
+  examRelevance: z.coerce.number().int().min(1).max(10).default(5),
+  tags: z.array(z.string().trim().toLowerCase().min(1)).max(10).default([]),
+});
+
+const noteUpdateSchema = noteFieldsSchema.partial().extend({
+  isBookmarked: z.boolean().optional(),
+});
+
+function describeIssues(error: z.ZodError): string {
+  return error.issues.map(issue => `${issue.path.join('.') || 'note'}: ${issue.message}`).join(', ');
+}
+
+class ShortNoteService {
+  async list(userId: string, filters: ShortNoteFilters): Promise<ShortNote[]> {
+    return await storage.getShortNotes(userId, filters);
+  }
+
+  /**
+   * Notes whose next review has come, longest overdue first
+   */
+  async getDue(userId: string, now: Date = new Date()): Promise<ShortNote[]> {
+    return await storage.getShortNotesDueForReview(userId, now, DUE_NOTES_LIMIT);
+  }
+
+  /**
+   * Opening a note counts as reviewing it, unless it was already reviewed within the last hour
+   */
+  async open(note: ShortNote, now: Date = new Date()): Promise<ShortNote> {
+    const notReviewedSince = new Date(now.getTime() - SHORT_NOTE_REVIEW_MIN_GAP_MINUTES * 60 * 1000);
+    return (await storage.recordShortNoteReview(note.id, now, notReviewedSince)) || note;
+  }
+
+  async create(userId: string, input: Record<string, unknown>): Promise<ShortNoteResult<ShortNote>> {
+    const parsed = noteFieldsSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, status: 400, message: describeIssues(parsed.error) };
+    }
+
+    const subject = typeof input.subjectId === 'string' ? await questionBankService.resolveSubject(input.subjectId) : undefined;
+    if (!subject) {
+      return { success: false, status: 404, message: "Subject not found" };
+    }
+
+    const note = await storage.createShortNote({
+      ...parsed.data,
+      userId,
+      subjectId: subject.id,
+      subjectName: subject.name,
+      aiGenerated: false,
+    });
+    return { success: true, data: note };
+  }
+
+  async update(note: ShortNote, input: Record<string, unknown>): Promise<ShortNoteResult<ShortNote>> {
+    const parsed = noteUpdateSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, status: 400, message: describeIssues(parsed.error) };
+    }
+
+    // Only fields that were sent; the schema's defaults must not overwrite what the note has
+    const updates = Object.fromEntries(
+      Object.keys(parsed.data).filter(key => key in input).map(key => [key, parsed.data[key as keyof typeof parsed.data]])
+    );
+    return { success: true, data: await storage.updateShortNote(note.id, updates) };
+  }
+
+  /**
+   * Have the AI write a note, either on a topic or around questions the student had explained, and save it
+   */
+  async generate(user: User, request: ShortNoteGenerationRequest, aiModel?: string): Promise<ShortNoteResult<ShortNote>> {
+    const subject = request.subjectId ? await questionBankService.resolveSubject(request.subjectId) : undefined;
+    if (!subject) {
+      return { success: false, status: 404, message: "Subject not found" };
+    }
+    if (request.difficulty && !SHORT_NOTE_DIFFICULTIES.includes(request.difficulty)) {
+      return { success: false, status: 400, message: `difficulty must be one of ${SHORT_NOTE_DIFFICULTIES.join(', ')}` };
+    }
+
+    const ids = Array.from(new Set(request.explainedQuestionIds || []));
+    if (ids.length > SHORT_NOTE_MAX_SOURCE_QUESTIONS) {
+      return { success: false, status: 400, message: `Pick at most ${SHORT_NOTE_MAX_SOURCE_QUESTIONS} questions for one note` };
+    }
+
+    const sources = await storage.getExplainedQuestionsByIds(user.id, ids);
+    if (sources.length < ids.length) {
+      return { success: false, status: 404, message: "Some of the explained questions were not found" };
+    }
+
+    const topic = request.topic?.trim() || sources.find(source => source.topic)?.topic || '';
+    if (!topic) {
+      return { success: false, status: 400, message: "Give a topic or pick explained questions to build the note from" };
+    }
+
+    const generated = await aiService.generateShortNote({
+      subject: subject.name,
+      topic,
+      difficulty: request.difficulty,
+      sourceQuestions: sources.map(source => ({
+        question: source.question,
+        correctAnswer: source.options.find(option => option.id === source.correctAnswer)?.text || source.correctAnswer,
+        explanation: source.explanation,
+      })),
+    }, aiModel, user.id);
+
+    const note = await storage.createShortNote({
+      userId: user.id,
+      subjectId: subject.id,
+      subjectName: subject.name,
+      topic,
+      title: generated.title,
+      content: generated.content,
+      keyPoints: generated.keyPoints,
+      formulas: generated.formulas,
+      examples: generated.examples,
+      difficulty: request.difficulty || 'medium',
+      examRelevance: generated.examRelevance,
+      tags: generated.tags,
+      aiGenerated: true,
+    });
+    return { success: true, data: note };
+  }
+}
+
+export const shortNoteService = new ShortNoteService();
@@ -0,0 +1,343 @@
+// Weekly study insights: once a week has ended, each student's quiz and CBT results, focus sessions and
+// scheduler history for it are worked out into productive hours, subject trends and recommendations. Students
+// who turned on autoAdjust get the recommended time, difficulty and priority changes made to their scheduler.
+import { storage } from "../storage";
+import { studySchedulerService } from "./studySchedulerService";
+import type { BackgroundJob } from "./jobRunner";
+import {
+  INSIGHT_LOW_FOCUS_SCORE,
+  INSIGHT_SKIP_RATE,
+  INSIGHT_STRONG_SUBJECT_SCORE,
+  INSIGHT_TREND_THRESHOLD,
+  INSIGHT_WEAK_SUBJECT_SCORE,
+  getLocalHour,
+  getStudyWeek,
+  getTimeOfDay,
+  type InsightAdjustments,
+  type InsightDistractionPattern,
+  type InsightProductiveHour,
+  type InsightRecommendation,
+  type InsightSubjectPerformance,
+  type StudyTimeOfDay,
+} from "@shared/insights";
+import { SCHEDULER_NAMED_TIMES, resolveStudyStartMinutes, type StudyAvailability } from "@shared/scheduler";
+import type { StudyInsights, StudySession, StudyScheduler } from "@shared/schema";
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+const JOB_BATCH_SIZE = 50;
+const DEFAULT_PRODUCTIVITY = 5;
+
+type StudyWeek = ReturnType<typeof getStudyWeek>;
+
+// A piece of finished study work: a quiz or CBT result, or a completed scheduler task
+interface StudyCompletion {
+  subject: string;
+  at: Date;
+  score?: number;
+  timeSpent: number;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function average(values: number[]): number | undefined {
+  return values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : undefined;
+}
+
+// Quiz tasks also leave a study session with the result, so only the other task types are counted from the scheduler
+function toCompletions(sessions: StudySession[], tasks: StudyScheduler[]): StudyCompletion[] {
+  return [
+    ...sessions.map(session => ({
+      subject: session.subjectName,
+      at: session.completedAt || session.createdAt!,
+      score: session.score,
+      timeSpent: session.timeSpent,
+    })),
+    ...tasks
+      .filter(task => task.status === 'completed' && task.taskType !== 'quiz' && task.completedAt)
+      .map(task => ({
+        subject: task.subjectName,
+        at: task.completedAt!,
+        score: task.performance?.score,
+        timeSpent: task.actualDuration || 0,
+      })),
+  ];
+}
+
+function subjectAverages(completions: StudyCompletion[]): Map<string, number> {
+  const scores = new Map<string, number[]>();
+  for (const completion of completions) {
+    if (completion.score === undefined) continue;
+    scores.set(completion.subject, [...(scores.get(completion.subject) || []), completion.score]);
+  }
+  return new Map(Array.from(scores, ([subject, values]) => [subject, Math.round(average(values)!)]));
+}
+
+class StudyInsightsService {
+  readonly job: BackgroundJob = {
+    name: 'weekly-insights',
+    intervalMs: 60 * 60 * 1000,
+    run: (now) => this.runJob(now),
+  };
+
+  async getLatest(userId: string): Promise<StudyInsights | null> {
+    const [latest] = await storage.getWeeklyInsights(userId, 1);
+    return latest || null;
+  }
+
+  /**
+   * Work out the week so far for a student who wants their insights before the week ends
+   */
+  async refresh(userId: string, now: Date = new Date()): Promise<StudyInsights> {
+    return await this.generate(userId, getStudyWeek(now), now);
+  }
+
+  async runJob(now: Date = new Date()): Promise<Record<string, number>> {
+    const week = getStudyWeek(new Date(now.getTime() - WEEK_MS));
+    const userIds = await storage.getUsersDueWeeklyInsights(week.weekKey, week.start, week.end, JOB_BATCH_SIZE);
+    let adjusted = 0;
+    for (const userId of userIds) {
+      try {
+        if ((await this.generate(userId, week, now)).adjustmentsAppliedAt) adjusted++;
+      } catch (error) {
+        console.error(`Error generating weekly insights for user ${userId}:`, error);
+      }
+    }
+    return { generated: userIds.length, adjusted };
+  }
+
+  /**
+   * Work out a week's insights from the student's activity, compared with the week before, and save them.
+   * Once the week has ended the adjustments are made to the scheduler if the student turned on autoAdjust.
+   */
+  async generate(userId: string, week: StudyWeek, now: Date = new Date()): Promise<StudyInsights> {
+    const previousStart = new Date(week.start.getTime() - WEEK_MS);
+    const activity = await storage.getInsightActivity(userId, previousStart, week.end);
+    const inWeek = (at: Date | null) => !!at && at >= week.start;
+
+    const completions = toCompletions(activity.sessions, activity.tasks);
+    const thisWeek = completions.filter(completion => inWeek(completion.at));
+    const lastWeek = completions.filter(completion => !inWeek(completion.at));
+    const focusSessions = activity.focusSessions.filter(session => inWeek(session.completedAt));
+    const tasks = activity.tasks.filter(task => inWeek(task.scheduledDate));
+
+    const productiveHours = this.productiveHours(thisWeek);
+    const preferredStudyTime = this.preferredTimeOfDay(productiveHours);
+    const subjectPerformance = this.subjectPerformance(thisWeek, lastWeek);
+    const averageFocusScore = Math.round(average(focusSessions.map(session => session.focusScore ?? 100)) ?? 0);
+
+    const distractions = new Map<string, InsightDistractionPattern>();
+    for (const event of focusSessions.flatMap(session => session.distractionEvents || [])) {
+      const timeOfDay = getTimeOfDay(getLocalHour(new Date(event.at)));
+      const key = `${event.type}:${timeOfDay}`;
+      const pattern = distractions.get(key) || { type: event.type, frequency: 0, timeOfDay };
+      pattern.frequency++;
+      distractions.set(key, pattern);
+    }
+
+    // Only tasks that were due by now count towards the skip rate
+    const dueTasks = tasks.filter(task => task.scheduledDate <= now);
+    const skipped = dueTasks.filter(task => task.status === 'skipped' || task.isSkipped).length;
+    const skipRate = dueTasks.length ? skipped / dueTasks.length : 0;
+
+    const availability = await studySchedulerService.getAvailability(userId);
+    const adjustments = this.adjustments(subjectPerformance, preferredStudyTime, availability.preferredTime);
+    const recommendations = this.recommendations(subjectPerformance, preferredStudyTime, averageFocusScore, focusSessions.length, skipRate);
+
+    let adjustmentsAppliedAt: Date | null = null;
+    if (availability.autoAdjust && now >= week.end) {
+      await this.applyAdjustments(userId, adjustments, availability, now);
+      adjustmentsAppliedAt = now;
+    }
+
+    const insights = await storage.saveWeeklyInsights({
+      userId,
+      date: week.weekKey,
+      weekOfYear: week.weekOfYear,
+      productiveHours,
+      preferredStudyTime,
+      averageFocusScore,
+      totalStudyTime: thisWeek.reduce((sum, completion) => sum + completion.timeSpent, 0),
+      totalFocusTime: focusSessions.reduce((sum, session) => sum + (session.startedAt && session.completedAt
+        ? Math.max(0, Math.round((session.completedAt.getTime() - session.startedAt.getTime()) / 1000))
+        : 0), 0),
+      distractionPatterns: Array.from(distractions.values()).sort((a, b) => b.frequency - a.frequency),
+      subjectPerformance,
+      recommendations,
+      adaptiveAdjustments: adjustments,
+      adjustmentsAppliedAt,
+    });
+    console.log(`📈 Weekly insights for user ${userId}, week of ${week.weekKey}: ${thisWeek.length} completions, ${recommendations.length} recommendations`);
+    return insights;
+  }
+
+  /**
+   * Local hours work was finished in, rated by the average score reached in them (out of 10)
+   */
+  private productiveHours(completions: StudyCompletion[]): InsightProductiveHour[] {
+    const hours = new Map<number, StudyCompletion[]>();
+    for (const completion of completions) {
+      const hour = getLocalHour(completion.at);
+      hours.set(hour, [...(hours.get(hour) || []), completion]);
+    }
+    return Array.from(hours, ([hour, done]) => {
+      const score = average(done.flatMap(completion => completion.score === undefined ? [] : [completion.score]));
+      return {
+        hour,
+        productivity: score === undefined ? DEFAULT_PRODUCTIVITY : clamp(Math.round(score / 10), 1, 10),
+        tasksCompleted: done.length,
+      };
+    }).sort((a, b) => a.hour - b.hour);
+  }
+
+  // The part of the day with the most productive work, weighing each hour's productivity by what was done in it
+  private preferredTimeOfDay(productiveHours: InsightProductiveHour[]): StudyTimeOfDay | null {
+    const weights = new Map<StudyTimeOfDay, number>();
+    for (const entry of productiveHours) {
+      const timeOfDay = getTimeOfDay(entry.hour);
+      weights.set(timeOfDay, (weights.get(timeOfDay) || 0) + entry.productivity * entry.tasksCompleted);
+    }
+    let best: StudyTimeOfDay | null = null;
+    for (const [timeOfDay, weight] of Array.from(weights)) {
+      if (best === null || weight > weights.get(best)!) best = timeOfDay;
+    }
+    return best;
+  }
+
+  private subjectPerformance(thisWeek: StudyCompletion[], lastWeek: StudyCompletion[]): InsightSubjectPerformance[] {
+    const averages = subjectAverages(thisWeek);
+    const previous = subjectAverages(lastWeek);
+    const subjects = Array.from(new Set(thisWeek.map(completion => completion.subject)));
+    return subjects.map(subject => {
+      const averageScore = averages.get(subject);
+      const before = previous.get(subject);
+      return {
+        subject,
+        averageScore: averageScore ?? 0,
+        timeSpent: thisWeek.filter(completion => completion.subject === subject).reduce((sum, completion) => sum + completion.timeSpent, 0),
+        improvement: averageScore !== undefined && before !== undefined ? averageScore - before : 0,
+      };
+    }).sort((a, b) => a.averageScore - b.averageScore);
+  }
+
+  private recommendations(
+    subjects: InsightSubjectPerformance[],
+    preferredStudyTime: StudyTimeOfDay | null,
+    averageFocusScore: number,
+    focusSessionCount: number,
+    skipRate: number
+  ): InsightRecommendation[] {
+    const recommendations: InsightRecommendation[] = [];
+
+    for (const entry of subjects) {
+      if (entry.improvement <= -INSIGHT_TREND_THRESHOLD) {
+        recommendations.push({
+          type: 'subject',
+          message: `Your ${entry.subject} average fell ${Math.abs(entry.improvement)} points to ${entry.averageScore}%. Go back over its recent topics this week.`,
+          priority: 'high',
+          actionRequired: true,
+        });
+      } else if (entry.averageScore < INSIGHT_WEAK_SUBJECT_SCORE) {
+        recommendations.push({
+          type: 'subject',
+          message: `${entry.subject} averaged ${entry.averageScore}%. Give it more sessions on easier questions until it picks up.`,
+          priority: 'high',
+          actionRequired: true,
+        });
+      } else if (entry.improvement >= INSIGHT_TREND_THRESHOLD) {
+        recommendations.push({
+          type: 'subject',
+          message: `${entry.subject} is up ${entry.improvement} points to ${entry.averageScore}%. Keep it going.`,
+          priority: 'low',
+          actionRequired: false,
+        });
+      }
+    }
+
+    if (focusSessionCount > 0 && averageFocusScore < INSIGHT_LOW_FOCUS_SCORE) {
+      recommendations.push({
+        type: 'focus',
+        message: `Your focus sessions averaged ${averageFocusScore}/100. Try shorter sessions and keep other tabs closed.`,
+        priority: 'medium',
+        actionRequired: true,
+      });
+    }
+
+    if (skipRate >= INSIGHT_SKIP_RATE) {
+      recommendations.push({
+        type: 'schedule',
+        message: `You skipped ${Math.round(skipRate * 100)}% of your scheduled sessions. A lighter schedule may be easier to keep to.`,
+        priority: 'medium',
+        actionRequired: true,
+      });
+    }
+
+    if (preferredStudyTime) {
+      recommendations.push({
+        type: 'timing',
+        message: `You did your best work in the ${preferredStudyTime}. Plan your hardest subjects then.`,
+        priority: 'low',
+        actionRequired: false,
+      });
+    }
+
+    return recommendations;
+  }
+
+  private adjustments(
+    subjects: InsightSubjectPerformance[],
+    preferredStudyTime: StudyTimeOfDay | null,
+    currentTime: string | undefined
+  ): InsightAdjustments {
+    const adjustments: InsightAdjustments = { scheduleChanges: [], difficultyAdjustments: [], priorityUpdates: [] };
+    const newTime = preferredStudyTime ? SCHEDULER_NAMED_TIMES[preferredStudyTime] : undefined;
+
+    for (const entry of subjects) {
+      if (newTime && resolveStudyStartMinutes(newTime) !== resolveStudyStartMinutes(currentTime)) {
+        adjustments.scheduleChanges.push({ subject: entry.subject, newTime, reason: `You work best in the ${preferredStudyTime}` });
+      }
+
+      const declining = entry.improvement <= -INSIGHT_TREND_THRESHOLD;
+      if (declining || entry.averageScore < INSIGHT_WEAK_SUBJECT_SCORE) {
+        const reason = declining
+          ? `Average fell ${Math.abs(entry.improvement)} points to ${entry.averageScore}%`
+          : `Average of ${entry.averageScore}%`;
+        adjustments.difficultyAdjustments.push({ subject: entry.subject, newDifficulty: 'easy', reason });
+        adjustments.priorityUpdates.push({ subject: entry.subject, newPriority: 'high', reason });
+      } else if (entry.averageScore >= INSIGHT_STRONG_SUBJECT_SCORE) {
+        adjustments.difficultyAdjustments.push({ subject: entry.subject, newDifficulty: 'hard', reason: `Average of ${entry.averageScore}%` });
+      }
+    }
+
+    return adjustments;
+  }
+
+  /**
+   * Move the preferred study time and change the difficulty and priority of each subject's pending tasks
+   */
+  private async applyAdjustments(
+    userId: string,
+    adjustments: InsightAdjustments,
+    availability: StudyAvailability,
+    now: Date
+  ): Promise<void> {
+    const [scheduleChange] = adjustments.scheduleChanges;
+    if (scheduleChange) {
+      await storage.setStudyAvailability(userId, { ...availability, preferredTime: scheduleChange.newTime });
+    }
+
+    const updates = new Map<string, Partial<StudyScheduler>>();
+    for (const change of adjustments.difficultyAdjustments) {
+      updates.set(change.subject, { ...updates.get(change.subject), difficulty: change.newDifficulty });
+    }
+    for (const change of adjustments.priorityUpdates) {
+      updates.set(change.subject, { ...updates.get(change.subject), priority: change.newPriority });
+    }
+    for (const [subject, update] of Array.from(updates)) {
+      await storage.adjustUpcomingTasks(userId, subject, now, update);
+    }
+  }
+}
+
+export const studyInsightsService = new StudyInsightsService();
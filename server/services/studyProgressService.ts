@@ -0,0 +1,328 @@
+// Study progress built from completed quizzes and CBT exams: per-subject totals, streaks and topic strengths,
+// one study_sessions row per subject studied, and today's daily goals.
+import { storage } from "../storage";
+import { notificationService } from "./notificationService";
+import type { BackgroundJob } from "./jobRunner";
+import {
+  DEFAULT_DAILY_GOALS,
+  STREAK_REMINDER_HOUR,
+  STREAK_REMINDER_MIN_DAYS,
+  STRONG_TOPIC_MIN_ACCURACY,
+  STUDY_TOPIC_MIN_ANSWERS,
+  STUDY_TOPICS_LISTED,
+  WEAK_TOPIC_MAX_ACCURACY,
+  type DailyGoalProgress,
+  type StudySessionType,
+} from "@shared/studyProgress";
+import { getLocalHour } from "@shared/insights";
+import type { CbtSession, QuizSession, StudyProgress, StudySession } from "@shared/schema";
+
+// What one completed quiz or CBT exam contributed to a single subject
+export interface SubjectStudyResult {
+  subjectId: string;
+  subjectName: string;
+  sessionType: StudySessionType;
+  totalQuestions: number;
+  answered: number;
+  correct: number;
+  score: number; // percentage of totalQuestions answered correctly
+  timeSpent: number; // seconds
+  examType?: string | null;
+  examYear?: string | null;
+  topics: Record<string, { correct: number; total: number }>;
+}
+
+type TopicStats = Record<string, { correct: number; total: number }>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const JOB_BATCH_SIZE = 100;
+
+class StudyProgressService {
+  readonly job: BackgroundJob = {
+    name: 'streak-reminders',
+    intervalMs: 15 * 60 * 1000,
+    run: (now) => this.remindStreaksAtRisk(now),
+  };
+
+  /**
+   * Record a submitted quiz. Only call this once per session, when it first completes. Totals come from
+   * the graded session; topics are tallied over the bank questions, the same ones the grade counted.
+   */
+  async recordQuiz(session: QuizSession, now: Date = new Date()): Promise<void> {
+    const questions = session.questionsData || session.questions || [];
+    const totalQuestions = session.totalQuestions;
+    if (questions.length === 0 || totalQuestions === 0) return;
+
+    const userAnswers = session.userAnswers || {};
+    const bankQuestions = await storage.getQuestionsByIds(questions.map(q => q.id));
+
+    const topics: TopicStats = {};
+    let answered = 0;
+    for (const question of bankQuestions) {
+      const answer = userAnswers[question.id];
+      const isCorrect = !!answer && answer.toUpperCase() === question.correctAnswer.toUpperCase();
+      if (answer) answered++;
+
+      if (question.topic) {
+        topics[question.topic] = topics[question.topic] || { correct: 0, total: 0 };
+        topics[question.topic].total++;
+        if (isCorrect) topics[question.topic].correct++;
+      }
+    }
+
+    await this.record(session.userId, [{
+      subjectId: session.subjectId,
+      subjectName: session.subjectName,
+      sessionType: 'quiz',
+      totalQuestions,
+      answered,
+      correct: session.correctAnswers || 0,
+      score: session.score || 0,
+      timeSpent: session.timeSpent || 0,
+      examType: session.examType,
+      examYear: session.selectedYear || session.year,
+      topics,
+    }], now);
+  }
+
+  /**
+   * Record a graded CBT exam as one result per subject paper
+   */
+  async recordCbt(session: CbtSession, now: Date = new Date()): Promise<void> {
+    const report = session.report;
+    if (!report) return;
+
+    const results: SubjectStudyResult[] = report.subjects.map(subject => {
+      const questions = report.questions.filter(question => question.subject === subject.subject);
+      const topics: TopicStats = {};
+      for (const question of questions) {
+        if (!question.topic) continue;
+        topics[question.topic] = topics[question.topic] || { correct: 0, total: 0 };
+        topics[question.topic].total++;
+        if (question.isCorrect) topics[question.topic].correct++;
+      }
+
+      return {
+        subjectId: subject.subjectId,
+        subjectName: subject.subject,
+        sessionType: 'cbt' as const,
+        totalQuestions: subject.total,
+        answered: questions.filter(question => question.selectedAnswer).length,
+        correct: subject.correct,
+        score: subject.total > 0 ? Math.round((subject.correct / subject.total) * 100) : 0,
+        timeSpent: questions.reduce((sum, question) => sum + question.timeSpent, 0),
+        examType: 'utme',
+        topics,
+      };
+    });
+
+    await this.record(session.userId, results.filter(result => result.totalQuestions > 0), now);
+  }
+
+  /**
+   * Fold subject results into studyProgress, write a study session per subject and advance today's goals
+   */
+  async record(userId: string, results: SubjectStudyResult[], now: Date = new Date()): Promise<void> {
+    if (results.length === 0) return;
+
+    for (const result of results) {
+      const existing = await storage.getStudyProgress(userId, result.subjectId);
+      const previousAverage = existing?.averageScore || 0;
+      const updates = this.applyResult(existing, result, now);
+
+      if (existing) {
+        await storage.updateStudyProgress(userId, result.subjectId, updates);
+      } else {
+        await storage.createStudyProgress({ userId, subjectId: result.subjectId, subjectName: result.subjectName, ...updates });
+      }
+
+      const minutes = result.timeSpent / 60;
+      await storage.createStudySession({
+        userId,
+        subjectId: result.subjectId,
+        subjectName: result.subjectName,
+        sessionType: result.sessionType,
+        questionsAttempted: result.answered,
+        correctAnswers: result.correct,
+        score: result.score,
+        timeSpent: result.timeSpent,
+        completedAt: now,
+        examType: result.examType || null,
+        examYear: result.examYear || null,
+        topics: Object.keys(result.topics),
+        performance: {
+          accuracy: result.answered > 0 ? Math.round((result.correct / result.answered) * 100) : 0,
+          speed: minutes > 0 ? Math.round((result.answered / minutes) * 10) / 10 : 0,
+          improvement: existing ? result.score - previousAverage : 0,
+        },
+      });
+    }
+
+    await this.advanceDailyGoal(userId, results, now);
+    console.log(`📈 Recorded study progress for ${userId} in ${results.map(r => r.subjectName).join(', ')}`);
+  }
+
+  /**
+   * Per-subject progress, with streaks and weekly/monthly counts that lapsed since the last session reset
+   */
+  async getProgress(userId: string, now: Date = new Date()): Promise<StudyProgress[]> {
+    const progress = await storage.getAllUserProgress(userId);
+    const weekStart = this.periodStart('week', now);
+    const monthStart = this.periodStart('month', now);
+    const yesterday = this.toDateKey(new Date(now.getTime() - DAY_MS));
+
+    return progress.map(subject => {
+      const last = subject.lastStudyDate;
+      return {
+        ...subject,
+        currentStreak: last && this.toDateKey(last) >= yesterday ? subject.currentStreak : 0,
+        weeklyProgress: last && last >= weekStart ? subject.weeklyProgress : 0,
+        monthlyProgress: last && last >= monthStart ? subject.monthlyProgress : 0,
+      };
+    });
+  }
+
+  /**
+   * Background job: in the evening, remind students who studied a subject yesterday but not yet today that
+   * the streak resets at midnight. Subjects are claimed before the reminder goes out, so each student gets
+   * one reminder a day, for their longest streak at risk, even with several instances running.
+   */
+  async remindStreaksAtRisk(now: Date = new Date()): Promise<Record<string, number>> {
+    if (getLocalHour(now) < STREAK_REMINDER_HOUR) return { reminded: 0 };
+
+    const today = new Date(`${this.toDateKey(now)}T00:00:00.000Z`);
+    const yesterday = new Date(today.getTime() - DAY_MS);
+    let reminded = 0;
+
+    for (;;) {
+      const claimed = await storage.claimStreaksAtRisk(yesterday, today, STREAK_REMINDER_MIN_DAYS, now, JOB_BATCH_SIZE);
+      const longest = new Map<string, number>();
+      for (const subject of claimed) {
+        longest.set(subject.userId, Math.max(longest.get(subject.userId) || 0, subject.currentStreak || 0));
+      }
+      for (const [userId, streak] of Array.from(longest)) {
+        await notificationService.notify(userId, 'streak_at_risk', { streak }, now);
+        reminded++;
+      }
+      if (claimed.length < JOB_BATCH_SIZE) break;
+    }
+
+    if (reminded > 0) {
+      console.log(`🔥 Streak reminders sent to ${reminded} students`);
+    }
+    return { reminded };
+  }
+
+  async getDailyGoal(userId: string, now: Date = new Date()): Promise<DailyGoalProgress> {
+    const date = this.toDateKey(now);
+    const goal = await storage.getDailyGoal(userId, date);
+    return {
+      date,
+      questionsGoal: goal?.questionsGoal ?? DEFAULT_DAILY_GOALS.questionsGoal,
+      questionsCompleted: goal?.questionsCompleted ?? 0,
+      timeGoal: goal?.timeGoal ?? DEFAULT_DAILY_GOALS.timeGoal,
+      timeSpent: goal?.timeSpent ?? 0,
+      subjectsGoal: goal?.subjectsGoal ?? DEFAULT_DAILY_GOALS.subjectsGoal,
+      subjectsStudied: goal?.subjectsStudied ?? 0,
+      isCompleted: goal?.isCompleted ?? false,
+    };
+  }
+
+  async getRecentSessions(userId: string, limit: number): Promise<StudySession[]> {
+    return await storage.getStudySessions(userId, { limit });
+  }
+
+  private applyResult(existing: StudyProgress | undefined, result: SubjectStudyResult, now: Date) {
+    const sessionsCompleted = (existing?.sessionsCompleted || 0) + 1;
+    const averageScore = Math.round(((existing?.averageScore || 0) * (sessionsCompleted - 1) + result.score) / sessionsCompleted);
+
+    // A streak counts days in a row with at least one session in the subject
+    const today = this.toDateKey(now);
+    const lastDay = existing?.lastStudyDate ? this.toDateKey(existing.lastStudyDate) : null;
+    const currentStreak = lastDay === today
+      ? Math.max(existing?.currentStreak || 0, 1)
+      : lastDay === this.toDateKey(new Date(now.getTime() - DAY_MS))
+        ? (existing?.currentStreak || 0) + 1
+        : 1;
+
+    const lastStudied = existing?.lastStudyDate;
+    const topicStats: TopicStats = { ...(existing?.topicStats || {}) };
+    for (const [topic, stats] of Object.entries(result.topics)) {
+      const previous = topicStats[topic] || { correct: 0, total: 0 };
+      topicStats[topic] = { correct: previous.correct + stats.correct, total: previous.total + stats.total };
+    }
+
+    return {
+      totalQuestions: (existing?.totalQuestions || 0) + result.totalQuestions,
+      correctAnswers: (existing?.correctAnswers || 0) + result.correct,
+      incorrectAnswers: (existing?.incorrectAnswers || 0) + (result.answered - result.correct),
+      averageScore,
+      bestScore: Math.max(existing?.bestScore || 0, result.score),
+      totalTimeSpent: (existing?.totalTimeSpent || 0) + result.timeSpent,
+      sessionsCompleted,
+      currentStreak,
+      longestStreak: Math.max(existing?.longestStreak || 0, currentStreak),
+      lastStudyDate: now,
+      weeklyProgress: lastStudied && lastStudied >= this.periodStart('week', now) ? (existing?.weeklyProgress || 0) + 1 : 1,
+      monthlyProgress: lastStudied && lastStudied >= this.periodStart('month', now) ? (existing?.monthlyProgress || 0) + 1 : 1,
+      difficultyLevel: averageScore >= 75 ? 'advanced' : averageScore >= 50 ? 'intermediate' : 'beginner',
+      topicStats,
+      weakTopics: this.rankTopics(topicStats, accuracy => accuracy <= WEAK_TOPIC_MAX_ACCURACY, 1),
+      strongTopics: this.rankTopics(topicStats, accuracy => accuracy >= STRONG_TOPIC_MIN_ACCURACY, -1),
+      updatedAt: now,
+    };
+  }
+
+  /**
+   * Topics with enough answers that pass the filter, weakest first (direction 1) or strongest first (-1)
+   */
+  private rankTopics(stats: TopicStats, filter: (accuracy: number) => boolean, direction: 1 | -1): string[] {
+    return Object.entries(stats)
+      .filter(([, topic]) => topic.total >= STUDY_TOPIC_MIN_ANSWERS)
+      .map(([name, topic]) => ({ name, accuracy: Math.round((topic.correct / topic.total) * 100) }))
+      .filter(topic => filter(topic.accuracy))
+      .sort((a, b) => (a.accuracy - b.accuracy) * direction)
+      .slice(0, STUDY_TOPICS_LISTED)
+      .map(topic => topic.name);
+  }
+
+  private async advanceDailyGoal(userId: string, results: SubjectStudyResult[], now: Date): Promise<void> {
+    const goal = await storage.getOrCreateDailyGoal(userId, this.toDateKey(now));
+    const todaysSessions = await storage.getStudySessions(userId, { since: this.periodStart('day', now), limit: 500 });
+
+    const questionsCompleted = (goal.questionsCompleted || 0) + results.reduce((sum, result) => sum + result.answered, 0);
+    const timeSpent = (goal.timeSpent || 0) + results.reduce((sum, result) => sum + result.timeSpent, 0);
+    const subjectsStudied = new Set(todaysSessions.map(session => session.subjectId)).size;
+    const isCompleted = questionsCompleted >= (goal.questionsGoal ?? DEFAULT_DAILY_GOALS.questionsGoal)
+      && timeSpent >= (goal.timeGoal ?? DEFAULT_DAILY_GOALS.timeGoal)
+      && subjectsStudied >= (goal.subjectsGoal ?? DEFAULT_DAILY_GOALS.subjectsGoal);
+
+    await storage.updateDailyGoal(goal.id, {
+      questionsCompleted,
+      timeSpent,
+      subjectsStudied,
+      isCompleted,
+      completedAt: isCompleted ? goal.completedAt || now : null,
+    });
+    if (isCompleted && !goal.isCompleted) {
+      console.log(`🎯 ${userId} completed today's study goals`);
+    }
+  }
+
+  // Days, weeks (from Monday) and months are counted in UTC, like daily_goals.date
+  private periodStart(period: 'day' | 'week' | 'month', now: Date): Date {
+    const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    if (period === 'week') {
+      start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+    } else if (period === 'month') {
+      start.setUTCDate(1);
+    }
+    return start;
+  }
+
+  private toDateKey(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+}
+
+export const studyProgressService = new StudyProgressService();
@@ -0,0 +1,416 @@
+// Adaptive study scheduler: task lifecycle, adapting a subject's score, difficulty and revisit date to how
+// each task went, and a week-ahead plan that gives the most time to the weakest subjects.
+import { z } from "zod";
+import { storage } from "../storage";
+import { questionBankService } from "./questionBankService";
+import {
+  SCHEDULER_DIFFICULTIES,
+  SCHEDULER_NAMED_TIMES,
+  SCHEDULER_PLAN_BREAK_MINUTES,
+  SCHEDULER_PLAN_DAYS,
+  SCHEDULER_PLAN_DEFAULT_DAILY_MINUTES,
+  SCHEDULER_PLAN_MAX_DAILY_MINUTES,
+  SCHEDULER_PLAN_SESSION_MINUTES,
+  SCHEDULER_PRIORITIES,
+  SCHEDULER_REVISIT_DAYS,
+  SCHEDULER_TASK_TYPES,
+  SCHEDULER_WEEKDAYS,
+  formatMinutesAsTime,
+  fromLocalTime,
+  resolveStudyStartMinutes,
+  toLocalDayKey,
+  type SchedulerPerformance,
+  type StudyAvailability,
+  type WeekPlanRequest,
+} from "@shared/scheduler";
+import type { InsertStudyScheduler, StudyProgress, StudyScheduler } from "@shared/schema";
+
+export type SchedulerResult<T> =
+  | { success: true; data: T }
+  | { success: false; status: number; message: string };
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const UPCOMING_LIMIT = 10;
+
+// A finished task's result moves the adaptive score this far towards it
+const ADAPTIVE_SCORE_WEIGHT = 0.4;
+const STEP_UP_SCORE = 80;
+const STEP_DOWN_SCORE = 50;
+
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "time must be HH:MM");
+
+const taskFieldsSchema = z.object({
+  scheduledDate: z.coerce.date(),
+  scheduledTime: timeSchema,
+  duration: z.coerce.number().int().min(300, "Minimum 5 minutes").max(7200, "Maximum 2 hours").default(1800),
+  taskType: z.enum(SCHEDULER_TASK_TYPES.map(type => type.id) as [string, ...string[]]),
+  priority: z.enum(SCHEDULER_PRIORITIES).default('medium'),
+  difficulty: z.enum(SCHEDULER_DIFFICULTIES).default('medium'),
+  repeatInterval: z.coerce.number().int().min(1).max(30).nullable().default(null),
+});
+
+const performanceSchema = z.object({
+  score: z.coerce.number().min(0).max(100).optional(),
+  accuracy: z.coerce.number().min(0).max(100).optional(),
+  timeEfficiency: z.coerce.number().min(0).max(100).optional(),
+  improvement: z.coerce.number().min(-100).max(100).optional(),
+});
+
+const availabilitySchema = z.object({
+  ...Object.fromEntries(SCHEDULER_WEEKDAYS.map(day => [day, z.boolean().optional()])),
+  preferredTime: z.union([timeSchema, z.enum(Object.keys(SCHEDULER_NAMED_TIMES) as [string, ...string[]])]).optional(),
+  autoAdjust: z.boolean().optional(),
+});
+
+function describeIssues(error: z.ZodError): string {
+  return error.issues.map(issue => `${issue.path.join('.') || 'task'}: ${issue.message}`).join(', ');
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+class StudySchedulerService {
+  /**
+   * A user's tasks on a local day (YYYY-MM-DD), today when no day is given
+   */
+  async getDayTasks(userId: string, day?: string, now: Date = new Date()): Promise<StudyScheduler[]> {
+    const dayKey = day && /^\d{4}-\d{2}-\d{2}$/.test(day) ? day : toLocalDayKey(now);
+    const start = fromLocalTime(dayKey, '00:00');
+    return await storage.getScheduledTasks(userId, start, new Date(start.getTime() + DAY_MS));
+  }
+
+  async getTodayTasks(userId: string, now: Date = new Date()): Promise<StudyScheduler[]> {
+    return await this.getDayTasks(userId, undefined, now);
+  }
+
+  async getUpcomingTasks(userId: string, now: Date = new Date()): Promise<StudyScheduler[]> {
+    return await storage.getUpcomingTasks(userId, now, UPCOMING_LIMIT);
+  }
+
+  async create(userId: string, input: Record<string, unknown>): Promise<SchedulerResult<StudyScheduler>> {
+    const parsed = taskFieldsSchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, status: 400, message: describeIssues(parsed.error) };
+    }
+
+    const subject = typeof input.subjectId === 'string' ? await questionBankService.resolveSubject(input.subjectId) : undefined;
+    if (!subject) {
+      return { success: false, status: 404, message: "Subject not found" };
+    }
+
+    const progress = await storage.getStudyProgress(userId, subject.id);
+    const task = await storage.createStudySchedule({
+      ...parsed.data,
+      userId,
+      subjectId: subject.id,
+      subjectName: subject.name,
+      adaptiveScore: progress ? this.scoreFromAverage(progress.averageScore) : 5,
+      status: 'pending',
+      source: 'manual',
+    });
+    return { success: true, data: task };
+  }
+
+  /**
+   * Change a task that hasn't started. Moving it re-arms its reminder.
+   */
+  async update(task: StudyScheduler, input: Record<string, unknown>): Promise<SchedulerResult<StudyScheduler>> {
+    if (task.status !== 'pending') {
+      return { success: false, status: 409, message: `A ${task.status} task can't be changed` };
+    }
+
+    const parsed = taskFieldsSchema.partial().safeParse(input);
+    if (!parsed.success) {
+      return { success: false, status: 400, message: describeIssues(parsed.error) };
+    }
+
+    // Only fields that were sent; the schema's defaults must not overwrite what the task has
+    const updates: Partial<StudyScheduler> = Object.fromEntries(
+      Object.keys(parsed.data).filter(key => key in input).map(key => [key, parsed.data[key as keyof typeof parsed.data]])
+    );
+    if (updates.scheduledDate && updates.scheduledDate.getTime() !== task.scheduledDate.getTime()) {
+      updates.reminderSent = false;
+    }
+    return { success: true, data: await storage.updateStudySchedule(task.id, updates) };
+  }
+
+  async start(task: StudyScheduler, now: Date = new Date()): Promise<SchedulerResult<StudyScheduler>> {
+    const started = await storage.startTask(task.id, now);
+    if (!started) {
+      return { success: false, status: 409, message: `This task is already ${task.status}` };
+    }
+    return { success: true, data: started };
+  }
+
+  /**
+   * Finish a task. With a score or accuracy the subject's adaptive score moves towards it, difficulty steps
+   * up or down, and nextScheduled is set further out the better it went. A recurring task's next
+   * occurrence is created at that date.
+   */
+  async complete(task: StudyScheduler, input: unknown, now: Date = new Date()): Promise<SchedulerResult<StudyScheduler>> {
+    const parsed = performanceSchema.safeParse(input ?? {});
+    if (!parsed.success) {
+      return { success: false, status: 400, message: describeIssues(parsed.error) };
+    }
+
+    const actualDuration = task.startedAt ? Math.round((now.getTime() - task.startedAt.getTime()) / 1000) : null;
+    const performance: SchedulerPerformance = { ...parsed.data };
+    if (performance.timeEfficiency === undefined && actualDuration !== null && task.duration) {
+      performance.timeEfficiency = Math.round(clamp(actualDuration / task.duration, 0, 1) * 100);
+    }
+
+    const adapted = this.adapt(task, performance, now);
+    const completed = await storage.completeTask(task.id, {
+      performance,
+      actualDuration,
+      completedAt: now,
+      ...adapted,
+    });
+    if (!completed) {
+      return { success: false, status: 409, message: `This task is already ${task.status}` };
+    }
+
+    if (completed.repeatInterval) {
+      await this.rollForward(completed, completed.nextScheduled!, { streak: (completed.streak || 0) + 1 });
+    }
+    return { success: true, data: completed };
+  }
+
+  async skip(task: StudyScheduler, now: Date = new Date()): Promise<SchedulerResult<StudyScheduler>> {
+    const skipped = await storage.skipTask(task.id);
+    if (!skipped) {
+      return { success: false, status: 409, message: `This task is already ${task.status}` };
+    }
+    if (skipped.repeatInterval) {
+      await this.rollForward(skipped, this.nextOccurrence(skipped, now), { streak: 0 });
+    }
+    return { success: true, data: skipped };
+  }
+
+  /**
+   * Create the next occurrence of a recurring task
+   */
+  async rollForward(task: StudyScheduler, scheduledDate: Date, overrides: Partial<InsertStudyScheduler> = {}): Promise<StudyScheduler> {
+    return await storage.createStudySchedule({
+      userId: task.userId,
+      subjectId: task.subjectId,
+      subjectName: task.subjectName,
+      scheduledDate,
+      scheduledTime: task.scheduledTime,
+      duration: task.duration,
+      priority: task.priority,
+      taskType: task.taskType,
+      adaptiveScore: task.adaptiveScore,
+      difficulty: task.difficulty,
+      repeatInterval: task.repeatInterval,
+      streak: task.streak,
+      source: task.source,
+      status: 'pending',
+      ...overrides,
+    });
+  }
+
+  // The first repeat after now, at the same time of day as the missed occurrence
+  nextOccurrence(task: StudyScheduler, now: Date): Date {
+    const intervalMs = task.repeatInterval! * DAY_MS;
+    const missed = Math.floor((now.getTime() - task.scheduledDate.getTime()) / intervalMs) + 1;
+    return new Date(task.scheduledDate.getTime() + Math.max(missed, 1) * intervalMs);
+  }
+
+  /**
+   * The user's availability, merged across their subjects
+   */
+  async getAvailability(userId: string): Promise<StudyAvailability> {
+    return this.mergeAvailability(await storage.getAllUserProgress(userId));
+  }
+
+  async updateAvailability(userId: string, input: unknown): Promise<SchedulerResult<StudyAvailability>> {
+    const parsed = availabilitySchema.safeParse(input);
+    if (!parsed.success) {
+      return { success: false, status: 400, message: describeIssues(parsed.error) };
+    }
+    await storage.setStudyAvailability(userId, parsed.data as StudyAvailability);
+    return { success: true, data: parsed.data as StudyAvailability };
+  }
+
+  /**
+   * Plan the next seven days. Each available day gets the daily minutes in sessions from the preferred time,
+   * less what is already scheduled that day; subjects get sessions in proportion to how far their average
+   * score is from 100. Planner tasks from an earlier plan that haven't started are replaced.
+   */
+  async planWeek(userId: string, request: WeekPlanRequest = {}, now: Date = new Date()): Promise<SchedulerResult<StudyScheduler[]>> {
+    const dailyMinutes = clamp(Math.round(Number(request.dailyMinutes) || SCHEDULER_PLAN_DEFAULT_DAILY_MINUTES), SCHEDULER_PLAN_SESSION_MINUTES, SCHEDULER_PLAN_MAX_DAILY_MINUTES);
+    const progress = await storage.getAllUserProgress(userId);
+    if (progress.length === 0) {
+      return { success: false, status: 400, message: "Take a quiz in your subjects first so the plan knows where to focus" };
+    }
+
+    const availability = this.mergeAvailability(progress);
+    const startTime = resolveStudyStartMinutes(availability.preferredTime);
+    const anyDayTicked = SCHEDULER_WEEKDAYS.some(day => availability[day]);
+
+    const today = toLocalDayKey(now);
+    const windowStart = fromLocalTime(today, '00:00');
+    const windowEnd = new Date(windowStart.getTime() + SCHEDULER_PLAN_DAYS * DAY_MS);
+    await storage.deletePlannedTasks(userId, windowStart, windowEnd);
+    const existing = await storage.getScheduledTasks(userId, windowStart, windowEnd);
+
+    // Free session slots, day by day
+    const slots: Array<{ day: string; time: string; at: Date }> = [];
+    for (let offset = 0; offset < SCHEDULER_PLAN_DAYS; offset++) {
+      const day = toLocalDayKey(new Date(windowStart.getTime() + offset * DAY_MS));
+      const weekday = SCHEDULER_WEEKDAYS[new Date(`${day}T00:00:00Z`).getUTCDay()];
+      if (anyDayTicked && !availability[weekday]) continue;
+
+      const booked = existing.filter(task => toLocalDayKey(task.scheduledDate) === day && task.status !== 'skipped');
+      const bookedMinutes = booked.reduce((sum, task) => sum + Math.round((task.duration || 0) / 60), 0);
+      let sessions = Math.floor(Math.max(dailyMinutes - bookedMinutes, 0) / SCHEDULER_PLAN_SESSION_MINUTES);
+
+      // Sessions follow each other from the start time, stepping over anything already booked
+      const step = SCHEDULER_PLAN_SESSION_MINUTES + SCHEDULER_PLAN_BREAK_MINUTES;
+      for (let minutes = startTime; sessions > 0 && minutes + SCHEDULER_PLAN_SESSION_MINUTES <= 24 * 60; minutes += step) {
+        const time = formatMinutesAsTime(minutes);
+        const at = fromLocalTime(day, time);
+        const end = at.getTime() + SCHEDULER_PLAN_SESSION_MINUTES * MINUTE_MS;
+        const clashes = booked.some(task => task.scheduledDate.getTime() < end && task.scheduledDate.getTime() + (task.duration || 0) * 1000 > at.getTime());
+        if (clashes || at <= now) continue;
+        slots.push({ day, time, at });
+        sessions--;
+      }
+    }
+
+    const tasks: InsertStudyScheduler[] = [];
+    const sequence = this.allocateSessions(progress, slots.length);
+    const planned = new Map<string, number>();
+    let previous: { day: string; subjectId: string } | null = null;
+
+    for (const slot of slots) {
+      // Avoid the same subject twice in a row on one day when another subject is still owed sessions
+      let pick = sequence.findIndex(entry => !(previous?.day === slot.day && previous.subjectId === entry.subjectId));
+      if (pick === -1) pick = 0;
+      const [subject] = sequence.splice(pick, 1);
+      if (!subject) break;
+
+      const count = (planned.get(subject.subjectId) || 0) + 1;
+      planned.set(subject.subjectId, count);
+      tasks.push({
+        userId,
+        subjectId: subject.subjectId,
+        subjectName: subject.subjectName,
+        scheduledDate: slot.at,
+        scheduledTime: slot.time,
+        duration: SCHEDULER_PLAN_SESSION_MINUTES * 60,
+        priority: this.priorityFor(subject.averageScore || 0),
+        taskType: this.taskTypeFor(subject.averageScore || 0, count),
+        adaptiveScore: this.scoreFromAverage(subject.averageScore),
+        difficulty: this.difficultyFor(subject.difficultyLevel),
+        status: 'pending',
+        source: 'plan',
+      });
+      previous = { day: slot.day, subjectId: subject.subjectId };
+    }
+
+    const created: StudyScheduler[] = [];
+    for (const task of tasks) {
+      created.push(await storage.createStudySchedule(task));
+    }
+    console.log(`🗓️ Planned ${created.length} study sessions for user ${userId}`);
+    return { success: true, data: created };
+  }
+
+  /**
+   * New adaptive score, difficulty and revisit date for a finished task. Without a score or accuracy the
+   * task keeps its score and difficulty and is revisited on its usual schedule.
+   */
+  private adapt(task: StudyScheduler, performance: SchedulerPerformance, now: Date): Partial<StudyScheduler> {
+    const result = performance.score ?? performance.accuracy;
+    let adaptiveScore = task.adaptiveScore || 5;
+    let difficulty = task.difficulty || 'medium';
+
+    if (result !== undefined) {
+      adaptiveScore = clamp(Math.round(adaptiveScore + (result / 10 - adaptiveScore) * ADAPTIVE_SCORE_WEIGHT), 1, 10);
+      const level = SCHEDULER_DIFFICULTIES.indexOf(difficulty as typeof SCHEDULER_DIFFICULTIES[number]);
+      if (result >= STEP_UP_SCORE) difficulty = SCHEDULER_DIFFICULTIES[Math.min(Math.max(level, 0) + 1, SCHEDULER_DIFFICULTIES.length - 1)];
+      if (result < STEP_DOWN_SCORE) difficulty = SCHEDULER_DIFFICULTIES[Math.max(level - 1, 0)];
+    }
+
+    const revisitDays = SCHEDULER_REVISIT_DAYS[adaptiveScore - 1];
+    const nextDay = toLocalDayKey(new Date(now.getTime() + revisitDays * DAY_MS));
+    return {
+      adaptiveScore,
+      difficulty,
+      nextScheduled: fromLocalTime(nextDay, task.scheduledTime),
+      ...(task.repeatInterval ? { repeatInterval: revisitDays } : {}),
+    };
+  }
+
+  // Session order for the plan, each subject's share weighted by how far its average is from 100
+  private allocateSessions(progress: StudyProgress[], total: number): StudyProgress[] {
+    if (total === 0) return [];
+    const weights = progress.map(subject => 110 - clamp(subject.averageScore || 0, 0, 100));
+    const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+
+    // Largest remainder, so the shares add up to the number of slots
+    const exact = weights.map(weight => (weight / weightSum) * total);
+    const counts = exact.map(Math.floor);
+    const byRemainder = exact.map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+      .sort((a, b) => b.remainder - a.remainder);
+    for (let index = 0; counts.reduce((sum, count) => sum + count, 0) < total; index++) {
+      counts[byRemainder[index % byRemainder.length].index]++;
+    }
+
+    // Interleave, weakest subjects first in each round
+    const order = progress.map((subject, index) => ({ subject, remaining: counts[index] }))
+      .sort((a, b) => (a.subject.averageScore || 0) - (b.subject.averageScore || 0));
+    const sequence: StudyProgress[] = [];
+    while (sequence.length < total) {
+      for (const entry of order) {
+        if (entry.remaining > 0) {
+          sequence.push(entry.subject);
+          entry.remaining--;
+        }
+      }
+    }
+    return sequence;
+  }
+
+  private mergeAvailability(progress: StudyProgress[]): StudyAvailability {
+    const merged: StudyAvailability = {};
+    for (const { studySchedule } of progress) {
+      if (!studySchedule) continue;
+      for (const day of SCHEDULER_WEEKDAYS) {
+        if (studySchedule[day]) merged[day] = true;
+      }
+      merged.preferredTime = merged.preferredTime || studySchedule.preferredTime;
+      merged.autoAdjust = merged.autoAdjust || studySchedule.autoAdjust;
+    }
+    return merged;
+  }
+
+  private scoreFromAverage(averageScore: number | null): number {
+    return clamp(Math.round((averageScore || 0) / 10), 1, 10);
+  }
+
+  private priorityFor(averageScore: number): string {
+    if (averageScore < 50) return 'high';
+    if (averageScore < 70) return 'medium';
+    return 'low';
+  }
+
+  private difficultyFor(level: string | null): string {
+    if (level === 'advanced') return 'hard';
+    if (level === 'intermediate') return 'medium';
+    return 'easy';
+  }
+
+  // Weak subjects alternate review and practice; stronger ones lean on quizzes
+  private taskTypeFor(averageScore: number, occurrence: number): string {
+    if (averageScore < 50) return occurrence % 2 === 1 ? 'review' : 'practice';
+    if (averageScore < 75) return occurrence % 2 === 1 ? 'practice' : 'quiz';
+    return 'quiz';
+  }
+}
+
+export const studySchedulerService = new StudySchedulerService();
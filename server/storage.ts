@@ -1,47 +1,152 @@
 import { db } from "./db";
-import { eq, desc, and, count, sql } from "drizzle-orm";
+import { eq, desc, asc, and, or, count, sql, isNull, isNotNull, inArray, notInArray, notExists, lte, lt, gt, gte, ilike, getTableColumns } from "drizzle-orm";
 import {
   users,
   subjects,
   questions,
   quizSessions,
   studyProgress,
+  studySessions,
+  dailyGoals,
   payments,
   cbtSessions,
   shortNotes,
   studyScheduler,
+  examPlans,
   chatMessages,
   chatConversations,
   chatUsage,
   userBadges,
   explainedQuestions,
+  focusSessions,
+  studyInsights,
+  questionExposures,
+  reviewSchedules,
+  unlockCodes,
+  unlockCodeRedemptions,
+  entitlements,
+  competitions,
+  competitionParticipants,
+  questionAudits,
+  questionReports,
+  notifications,
+  jobLocks,
   type User,
   type InsertUser,
   type Subject, 
   type InsertSubject,
   type Question,
   type InsertQuestion,
+  type NewQuestion,
   type QuizSession,
   type InsertQuizSession,
   type StudyProgress,
   type InsertStudyProgress,
+  type StudySession,
+  type InsertStudySession,
+  type DailyGoal,
   type Payment,
   type InsertPayment,
+  type PaymentWebhookEvent,
   type CbtSession,
   type InsertCbtSession,
   type ShortNote,
   type InsertShortNote,
   type StudyScheduler,
   type InsertStudyScheduler,
+  type ExamPlan,
+  type InsertExamPlan,
   type ChatMessage,
   type InsertChatMessage,
   type ChatConversation,
   type InsertChatConversation,
   type ChatUsage,
   type InsertChatUsage,
+  type AIUsageEvent,
   type UserBadge,
-  type InsertUserBadge
+  type InsertUserBadge,
+  type FocusSession,
+  type InsertFocusSession,
+  type StudyInsights,
+  type InsertStudyInsights,
+  type InsertQuestionExposure,
+  type ReviewSchedule,
+  type InsertReviewSchedule,
+  type UnlockCode,
+  type InsertUnlockCode,
+  type UnlockCodeRedemption,
+  type Entitlement,
+  type InsertEntitlement,
+  type Competition,
+  type InsertCompetition,
+  type CompetitionParticipant,
+  type NewCompetitionParticipant,
+  type QuestionAudit,
+  type InsertQuestionAudit,
+  type QuestionReport,
+  type InsertQuestionReport,
+  type Notification,
+  type InsertNotification,
+  type JobLock,
+  type ExplainedQuestion
 } from "@shared/schema";
+import type { QuestionSearchFilters } from "@shared/questionBank";
+import { OPEN_QUESTION_REPORT_STATUSES } from "@shared/questionReports";
+import type { NotificationAttempt } from "@shared/notifications";
+import { SHORT_NOTE_REVIEW_INTERVAL_DAYS, type ShortNoteFilters } from "@shared/shortNotes";
+import type { StudyAvailability } from "@shared/scheduler";
+import type { FocusDistractionEvent } from "@shared/focus";
+import type { CbtAnswerEvent } from "@shared/utme";
+
+export interface QuestionBankFilters {
+  subjectId: string;
+  examType?: string;
+  year?: string;
+  limit?: number;
+  excludeIds?: string[];
+  unseenBy?: string; // only questions this user has never been served
+}
+
+export interface AnalyticsSummary {
+  totalUsers: number;
+  premiumUsers: number;
+  totalQuestions: number;
+  totalSubjects: number;
+  totalQuizSessions: number;
+  averageScore: number; // mean percentage over completed quiz sessions
+  activeUsersToday: number;
+  completionRate: number; // percentage of quiz sessions completed
+}
+
+// Raw numbers the badge engine measures badge criteria against
+export interface BadgeStats {
+  quizzesCompleted: number;
+  cbtExamsCompleted: number;
+  bestScore: number;
+  chatMessages: number; // sent by the user, not the AI
+  subjectsCompleted: number;
+  focusSessionsCompleted: number; // ran all their cycles, not ended early
+  studyDates: string[]; // YYYY-MM-DD with a study session, newest first
+}
+
+export interface LeaderboardTotalsFilters {
+  since?: Date;
+  subjectId?: string;
+  examTypes?: string[]; // stored spellings of one exam type
+  school?: string;
+}
+
+// One student's totals over the completed sessions matching the filters
+export interface LeaderboardTotals {
+  userId: string;
+  nickname: string;
+  avatarUrl: string | null;
+  school: string | null;
+  isPremium: boolean | null;
+  sessions: number;
+  correct: number;
+  attempted: number;
+}
 
 export interface IStorage {
   // User operations (including support for admin and usage limiting)
@@ -50,22 +155,61 @@ export interface IStorage {
   getUserByNickname(nickname: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: string, updates: Partial<User>): Promise<User>;
-  activateUser(id: string, activationCode: string): Promise<User>;
   incrementUsageCount(userId: string): Promise<User>;
+  useTrialAttempt(userId: string, limit: number): Promise<User | undefined>;
+  recordQuizCompletion(userId: string, correctAnswers: number): Promise<void>;
+  decrementUsageCount(userId: string): Promise<User>;
+  getAllUsers(options?: { search?: string; limit?: number }): Promise<User[]>;
+  getAnalyticsSummary(): Promise<AnalyticsSummary>;
   
   // Subject operations
   getAllSubjects(): Promise<Subject[]>;
   getSubject(id: string): Promise<Subject | undefined>;
+  getSubjectByName(name: string): Promise<Subject | undefined>;
   createSubject(subject: InsertSubject): Promise<Subject>;
 
   // Question operations
   getQuestionsBySubject(subjectId: string, limit?: number): Promise<Question[]>;
   createQuestion(question: InsertQuestion): Promise<Question>;
+  getBankQuestions(filters: QuestionBankFilters): Promise<Question[]>;
+  insertQuestionsIfNew(questions: NewQuestion[]): Promise<Question[]>;
+  getQuestionBankStats(): Promise<Array<{ subjectId: string; examType: string | null; source: string | null; total: number }>>;
+  getQuestionsByIds(ids: string[]): Promise<Question[]>;
+  getQuestionsByContentHashes(hashes: string[]): Promise<Question[]>;
+  getQuestion(id: string): Promise<Question | undefined>;
+  searchQuestions(filters: QuestionSearchFilters, options: { limit: number; offset?: number }): Promise<{ questions: Question[]; total: number }>;
+  updateQuestion(id: string, updates: Partial<NewQuestion>): Promise<Question>;
+  deleteQuestion(id: string): Promise<void>;
+  createQuestionAudits(audits: InsertQuestionAudit[]): Promise<void>;
+  getQuestionAudits(options?: { questionId?: string; limit?: number }): Promise<QuestionAudit[]>;
+
+  // Question reports
+  createQuestionReport(report: InsertQuestionReport): Promise<QuestionReport>;
+  getQuestionReport(id: string): Promise<QuestionReport | undefined>;
+  getOpenQuestionReport(questionId: string, userId: string): Promise<QuestionReport | undefined>;
+  getQuestionReports(options: { statuses?: string[]; questionId?: string; limit: number; offset?: number }): Promise<{ reports: QuestionReport[]; total: number }>;
+  getUserQuestionReports(userId: string, limit?: number): Promise<QuestionReport[]>;
+  updateQuestionReport(id: string, updates: Partial<QuestionReport>): Promise<QuestionReport>;
+  closeOpenQuestionReports(questionId: string, updates: Partial<QuestionReport>): Promise<QuestionReport[]>;
+  countOpenReporters(questionIds: string[]): Promise<Array<{ questionId: string; reporters: number }>>;
+
+  // Question exposure log
+  recordQuestionExposures(exposures: InsertQuestionExposure[]): Promise<void>;
+  recordExposureAnswers(userId: string, answers: Array<{ questionId: string; selectedAnswer: string | null; isCorrect: boolean }>, sessionId?: string): Promise<void>;
+  claimServedQuestions(userId: string, context: string, questionIds: string[], sessionId: string): Promise<string[]>;
+  getMissedQuestionIds(userId: string, subjectId: string, limit: number): Promise<string[]>;
+
+  // Spaced-repetition review schedules
+  getReviewSchedules(userId: string, questionIds: string[]): Promise<ReviewSchedule[]>;
+  upsertReviewSchedule(schedule: InsertReviewSchedule): Promise<ReviewSchedule>;
+  getDueReviewSchedules(userId: string, dueBy: Date, options?: { subjectId?: string; limit?: number }): Promise<ReviewSchedule[]>;
+  getDueReviewCounts(userId: string, dueBy: Date): Promise<Array<{ subjectId: string; due: number }>>;
 
   // Quiz sessions
-  createQuizSession(session: InsertQuizSession): Promise<QuizSession>;
+  createQuizSession(session: InsertQuizSession & { id?: string }): Promise<QuizSession>;
   getQuizSession(id: string): Promise<QuizSession | undefined>;
   updateQuizSession(id: string, updates: Partial<QuizSession>): Promise<QuizSession>;
+  completeQuizSession(id: string, updates: Partial<QuizSession>): Promise<QuizSession | undefined>;
   getUserQuizSessions(userId: string, limit?: number): Promise<QuizSession[]>;
 
   // Study progress
@@ -73,46 +217,185 @@ export interface IStorage {
   createStudyProgress(progress: InsertStudyProgress): Promise<StudyProgress>;
   updateStudyProgress(userId: string, subjectId: string, updates: Partial<StudyProgress>): Promise<StudyProgress>;
   getAllUserProgress(userId: string): Promise<StudyProgress[]>;
+  claimStreaksAtRisk(studiedFrom: Date, studiedBefore: Date, minStreak: number, now: Date, limit: number): Promise<StudyProgress[]>;
+  createStudySession(session: InsertStudySession): Promise<StudySession>;
+  getStudySessions(userId: string, options?: { since?: Date; limit?: number }): Promise<StudySession[]>;
+  getDailyGoal(userId: string, date: string): Promise<DailyGoal | undefined>;
+  getOrCreateDailyGoal(userId: string, date: string): Promise<DailyGoal>;
+  updateDailyGoal(id: string, updates: Partial<DailyGoal>): Promise<DailyGoal>;
 
   // Payment operations
   createPayment(payment: InsertPayment): Promise<Payment>;
   getPaymentByReference(reference: string): Promise<Payment | undefined>;
   updatePayment(id: string, updates: Partial<Payment>): Promise<Payment>;
   getUserPayments?(userId: string): Promise<Payment[]>;
+  claimPaymentFulfillment(reference: string, now: Date): Promise<Payment | undefined>;
+  appendPaymentWebhookEvent(id: string, event: PaymentWebhookEvent): Promise<Payment>;
+
+  // Unlock codes and entitlements
+  createUnlockCodes(codes: InsertUnlockCode[]): Promise<UnlockCode[]>;
+  getUnlockCodeByCode(code: string): Promise<UnlockCode | undefined>;
+  getUnlockCodes(options?: { batchId?: string; limit?: number }): Promise<UnlockCode[]>;
+  updateUnlockCode(id: string, updates: Partial<UnlockCode>): Promise<UnlockCode>;
+  claimUnlockCode(id: string, now: Date): Promise<UnlockCode | undefined>;
+  releaseUnlockCode(id: string): Promise<void>;
+  createUnlockCodeRedemption(codeId: string, userId: string): Promise<UnlockCodeRedemption | undefined>;
+  updateUnlockCodeRedemption(id: string, updates: Partial<UnlockCodeRedemption>): Promise<UnlockCodeRedemption>;
+  deleteUnlockCodeRedemption(id: string): Promise<void>;
+  createEntitlement(entitlement: InsertEntitlement): Promise<Entitlement>;
+  getUserEntitlements(userId: string): Promise<Entitlement[]>;
+  getEntitlementBySource(source: string, sourceId: string): Promise<Entitlement | undefined>;
+  useCbtAttempt(entitlementId: string): Promise<Entitlement | undefined>;
+  releaseCbtAttempt(entitlementId: string): Promise<Entitlement | undefined>;
+  updateEntitlement(id: string, updates: Partial<Entitlement>): Promise<Entitlement>;
 
   // CBT sessions
   createCbtSession(session: InsertCbtSession): Promise<CbtSession>;
   getCbtSession(id: string): Promise<CbtSession | undefined>;
   updateCbtSession(id: string, updates: Partial<CbtSession>): Promise<CbtSession>;
+  saveCbtAnswer(id: string, event: Omit<CbtAnswerEvent, 'timeSpent'>, updates: Partial<CbtSession>): Promise<CbtSession | undefined>;
+  completeCbtSession(id: string, updates: Partial<CbtSession>): Promise<CbtSession | undefined>;
+  startCbtSession(id: string, updates: Partial<CbtSession>): Promise<CbtSession | undefined>;
   getUserActiveCbtSession(userId: string): Promise<CbtSession | undefined>;
+  getRunningCbtSessions(): Promise<CbtSession[]>;
+
+  // Leaderboards
+  getQuizLeaderboardTotals(filters: LeaderboardTotalsFilters): Promise<LeaderboardTotals[]>;
+  getCbtLeaderboardTotals(filters: LeaderboardTotalsFilters): Promise<LeaderboardTotals[]>;
+
+  // Competitions
+  createCompetition(competition: InsertCompetition): Promise<Competition>;
+  getCompetition(id: string): Promise<Competition | undefined>;
+  getActiveCompetitions(limit?: number): Promise<Competition[]>;
+  getCompetitionsByStatus(status: string): Promise<Competition[]>;
+  updateCompetition(id: string, updates: Partial<Competition>): Promise<Competition>;
+  transitionCompetition(id: string, fromStatus: string, updates: Partial<Competition>): Promise<Competition | undefined>;
+  heartbeatCompetitions(ids: string[], hostInstance: string, now: Date): Promise<void>;
+  getAbandonedCompetitions(heartbeatBefore: Date): Promise<Competition[]>;
+  finishAbandonedCompetition(id: string, heartbeatBefore: Date, endTime: Date): Promise<Competition | undefined>;
+  joinCompetition(participant: NewCompetitionParticipant): Promise<CompetitionParticipant>;
+  getCompetitionParticipants(competitionId: string): Promise<CompetitionParticipant[]>;
+  getCompetitionParticipant(competitionId: string, userId: string): Promise<CompetitionParticipant | undefined>;
+  updateCompetitionParticipant(id: string, updates: Partial<CompetitionParticipant>): Promise<CompetitionParticipant>;
 
   // Short notes
   createShortNote(note: InsertShortNote): Promise<ShortNote>;
+  getShortNote(id: string): Promise<ShortNote | undefined>;
   getShortNotesBySubject(subjectId: string): Promise<ShortNote[]>;
-  getUserShortNotes(userId: string): Promise<ShortNote[]>;
+  getShortNotes(userId: string, filters?: ShortNoteFilters): Promise<ShortNote[]>;
+  getShortNotesDueForReview(userId: string, now: Date, limit: number): Promise<ShortNote[]>;
+  updateShortNote(id: string, updates: Partial<ShortNote>): Promise<ShortNote>;
+  bookmarkShortNote(id: string, isBookmarked: boolean): Promise<ShortNote>;
+  recordShortNoteReview(id: string, now: Date, notReviewedSince: Date): Promise<ShortNote | undefined>;
+  deleteShortNote(id: string): Promise<void>;
 
   // Study scheduler
   createStudySchedule(schedule: InsertStudyScheduler): Promise<StudyScheduler>;
+  createStudySchedules(schedules: InsertStudyScheduler[]): Promise<StudyScheduler[]>;
+  getStudySchedule(id: string): Promise<StudyScheduler | undefined>;
   updateStudySchedule(id: string, updates: Partial<StudyScheduler>): Promise<StudyScheduler>;
   getUserStudySchedules(userId: string): Promise<StudyScheduler[]>;
+  getScheduledTasks(userId: string, from: Date, to: Date): Promise<StudyScheduler[]>;
+  getUpcomingTasks(userId: string, after: Date, limit: number): Promise<StudyScheduler[]>;
+  startTask(id: string, now: Date): Promise<StudyScheduler | undefined>;
+  completeTask(id: string, updates: Partial<StudyScheduler>): Promise<StudyScheduler | undefined>;
+  skipTask(id: string): Promise<StudyScheduler | undefined>;
+  deletePlannedTasks(userId: string, from: Date, to: Date): Promise<number>;
+  setStudyAvailability(userId: string, availability: StudyAvailability): Promise<void>;
+  claimDueTaskReminders(after: Date, until: Date, limit: number): Promise<StudyScheduler[]>;
+
+  // Exam countdown plans
+  createExamPlan(plan: InsertExamPlan): Promise<ExamPlan>;
+  getExamPlan(id: string): Promise<ExamPlan | undefined>;
+  getActiveExamPlan(userId: string): Promise<ExamPlan | undefined>;
+  getActiveExamPlans(limit: number, offset: number): Promise<ExamPlan[]>;
+  updateExamPlan(id: string, updates: Partial<ExamPlan>): Promise<ExamPlan>;
+  getExamPlanTasks(examPlanId: string): Promise<StudyScheduler[]>;
+  deleteExamPlanTasks(examPlanId: string, from: Date): Promise<number>;
+  getSubjectTopics(subjectId: string, limit: number): Promise<string[]>;
+  skipOverdueTasks(before: Date, limit: number): Promise<StudyScheduler[]>;
+
+  // Background job leases
+  acquireJobLock(name: string, owner: string, now: Date, until: Date, notStartedSince: Date): Promise<JobLock | undefined>;
+  releaseJobLock(name: string, owner: string, updates: Partial<JobLock>): Promise<void>;
+  getJobLocks(): Promise<JobLock[]>;
+
+  // Focus sessions and insights
+  createFocusSession(session: InsertFocusSession): Promise<FocusSession>;
+  getFocusSession(id: string): Promise<FocusSession | undefined>;
+  getActiveFocusSession(userId: string): Promise<FocusSession | undefined>;
+  getFocusHistory(userId: string, limit: number): Promise<FocusSession[]>;
+  getRunningFocusSessions(phaseEndedBy: Date, limit: number): Promise<FocusSession[]>;
+  updateFocusSession(id: string, updates: Partial<FocusSession>): Promise<FocusSession | undefined>;
+  recordFocusDistraction(id: string, event: FocusDistractionEvent, penalty: number): Promise<FocusSession | undefined>;
+  completeFocusSession(id: string, updates: Partial<FocusSession>): Promise<FocusSession | undefined>;
+  getFocusActivity(userId: string, from: Date, to: Date): Promise<{
+    quizzes: Pick<QuizSession, 'id' | 'subjectName' | 'score' | 'timeSpent'>[];
+    cbtSessions: Pick<CbtSession, 'id' | 'selectedSubjects' | 'aggregateScore' | 'startedAt' | 'completedAt'>[];
+    notes: Pick<ShortNote, 'id' | 'subjectName'>[];
+  }>;
+  getStudyInsight(id: string): Promise<StudyInsights | undefined>;
+  getWeeklyInsights(userId: string, limit: number): Promise<StudyInsights[]>;
+  saveWeeklyInsights(insights: InsertStudyInsights): Promise<StudyInsights>;
+  getUsersDueWeeklyInsights(weekKey: string, start: Date, end: Date, limit: number): Promise<string[]>;
+  getInsightActivity(userId: string, from: Date, to: Date): Promise<{ sessions: StudySession[]; focusSessions: FocusSession[]; tasks: StudyScheduler[] }>;
+  adjustUpcomingTasks(userId: string, subjectName: string, from: Date, updates: Partial<StudyScheduler>): Promise<number>;
+
+  // Notifications
+  createNotifications(rows: InsertNotification[]): Promise<Notification[]>;
+  claimNotification(id: string, now: Date, leaseUntil: Date): Promise<Notification | undefined>;
+  claimDueNotifications(now: Date, leaseUntil: Date, limit: number): Promise<Notification[]>;
+  recordNotificationAttempt(id: string, attempt: NotificationAttempt, updates: Partial<Notification>): Promise<Notification>;
+  getUserNotifications(userId: string, options: { channel: string; limit: number }): Promise<Notification[]>;
+  countUnreadNotifications(userId: string): Promise<number>;
+  markNotificationsRead(userId: string, ids: string[] | undefined, now: Date): Promise<number>;
+  getNotifications(options: { status?: string; channel?: string; userId?: string; limit: number; offset?: number }): Promise<{ notifications: Notification[]; total: number }>;
 
   // Chat methods
-  saveChatMessage(userId: string, content: string, sender: 'user' | 'ai', model?: string): Promise<ChatMessage>;
-  updateChatUsage(userId: string, model: string, responseTime: number): Promise<ChatUsage>;
+  saveChatMessage(message: InsertChatMessage): Promise<ChatMessage>;
+  recordAIUsage(userId: string, usage: AIUsageEvent): Promise<ChatUsage>;
   getChatHistory(userId: string): Promise<ChatMessage[]>;
   createUserBadge(badge: InsertUserBadge): Promise<UserBadge>;
   getUserBadges(userId: string): Promise<UserBadge[]>;
+  saveBadgeProgress(badge: InsertUserBadge): Promise<UserBadge | undefined>;
+  getBadgeStats(userId: string, completion: { minSessions: number; minAverage: number }): Promise<BadgeStats>;
   createChatConversation(conversation: InsertChatConversation): Promise<ChatConversation>;
   getChatConversations(userId: string): Promise<ChatConversation[]>;
+  getChatConversation(id: string): Promise<ChatConversation | undefined>;
+  getLatestChatConversation(userId: string): Promise<ChatConversation | undefined>;
+  updateChatConversation(id: string, updates: Partial<ChatConversation>): Promise<ChatConversation>;
+  deleteChatConversation(id: string): Promise<void>;
+  getConversationMessages(conversationId: string, limit?: number): Promise<ChatMessage[]>;
 
   // Explained questions methods
   getExplainedQuestion(userId: string, questionId: string): Promise<any | undefined>;
+  getExplainedQuestionById(id: string): Promise<any | undefined>;
   createExplainedQuestion(explanation: any): Promise<any>;
   getExplainedQuestionsByUser(userId: string): Promise<any[]>;
   getExplainedQuestionsBySubject(userId: string, subjectId: string): Promise<any[]>;
+  getExplainedQuestionsByIds(userId: string, ids: string[]): Promise<ExplainedQuestion[]>;
   deleteExplainedQuestion(id: string): Promise<void>;
 }
 
+// Every short note column except the search vector, which stays in the database
+const { searchVector: shortNoteSearchVector, ...shortNoteColumns } = getTableColumns(shortNotes);
+
+// Match user input literally inside an ILIKE pattern
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, char => `\\${char}`);
+}
+
+// Focus sessions whose cycles all ran out; one the student ended early stops short of totalCycles
+const focusSessionRanFull = sql`COALESCE(${focusSessions.cyclesCompleted}, 0) >= COALESCE(${focusSessions.totalCycles}, 1)`;
+
+const leaderboardUserColumns = {
+  userId: users.id,
+  nickname: users.nickname,
+  avatarUrl: users.avatarUrl,
+  school: users.school,
+  isPremium: users.isPremium,
+};
+
 export class DatabaseStorage implements IStorage {
   async getUser(id: string): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
@@ -146,27 +429,88 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async activateUser(id: string, activationCode: string): Promise<User> {
+  async incrementUsageCount(userId: string): Promise<User> {
     const [user] = await db
       .update(users)
-      .set({ isActivated: true, isPremium: true })
-      .where(and(eq(users.id, id), eq(users.activationCode, activationCode)))
+      .set({ usageCount: sql`${users.usageCount} + 1` })
+      .where(eq(users.id, userId))
       .returning();
-    if (!user) {
-      throw new Error('Invalid activation code');
-    }
     return user;
   }
 
-  async incrementUsageCount(userId: string): Promise<User> {
+  // Counts one trial use only while the user is under the limit, so concurrent starts can't go past it
+  async useTrialAttempt(userId: string, limit: number): Promise<User | undefined> {
     const [user] = await db
       .update(users)
-      .set({ usageCount: sql`${users.usageCount} + 1` })
+      .set({ usageCount: sql`COALESCE(${users.usageCount}, 0) + 1` })
+      .where(and(eq(users.id, userId), sql`COALESCE(${users.usageCount}, 0) < ${limit}`))
+      .returning();
+    return user || undefined;
+  }
+
+  async recordQuizCompletion(userId: string, correctAnswers: number): Promise<void> {
+    await db
+      .update(users)
+      .set({
+        totalScore: sql`COALESCE(${users.totalScore}, 0) + ${correctAnswers}`,
+        testsCompleted: sql`COALESCE(${users.testsCompleted}, 0) + 1`,
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, userId));
+  }
+
+  async decrementUsageCount(userId: string): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set({ usageCount: sql`GREATEST(${users.usageCount} - 1, 0)` })
       .where(eq(users.id, userId))
       .returning();
     return user;
   }
 
+  async getAllUsers(options: { search?: string; limit?: number } = {}): Promise<User[]> {
+    const pattern = options.search ? `%${escapeLike(options.search)}%` : undefined;
+    return await db
+      .select()
+      .from(users)
+      .where(pattern ? or(ilike(users.nickname, pattern), ilike(users.email, pattern)) : undefined)
+      .orderBy(desc(users.createdAt))
+      .limit(options.limit ?? 200);
+  }
+
+  async getAnalyticsSummary(): Promise<AnalyticsSummary> {
+    const startOfDay = new Date();
+    startOfDay.setHours(0, 0, 0, 0);
+
+    const [[userCounts], [questionCount], [subjectCount], [sessionCounts], [activeToday]] = await Promise.all([
+      db.select({
+        total: count(),
+        premium: sql<number>`count(*) filter (where ${users.isPremium})`.mapWith(Number),
+      }).from(users),
+      db.select({ total: count() }).from(questions),
+      db.select({ total: count() }).from(subjects),
+      db.select({
+        total: count(),
+        completed: sql<number>`count(*) filter (where ${quizSessions.isCompleted})`.mapWith(Number),
+        averageScore: sql<number>`coalesce(avg(${quizSessions.score}) filter (where ${quizSessions.isCompleted}), 0)`.mapWith(Number),
+      }).from(quizSessions),
+      db.select({ total: sql<number>`count(distinct ${quizSessions.userId})`.mapWith(Number) })
+        .from(quizSessions)
+        .where(gte(quizSessions.startedAt, startOfDay)),
+    ]);
+
+    return {
+      totalUsers: userCounts.total,
+      premiumUsers: userCounts.premium,
+      totalQuestions: questionCount.total,
+      totalSubjects: subjectCount.total,
+      totalQuizSessions: sessionCounts.total,
+      averageScore: Math.round(sessionCounts.averageScore * 10) / 10,
+      activeUsersToday: activeToday.total,
+      completionRate: sessionCounts.total > 0 ? Math.round((sessionCounts.completed / sessionCounts.total) * 100) : 0,
+    };
+  }
+
   async getAllSubjects(): Promise<Subject[]> {
     return await db.select().from(subjects);
   }
@@ -176,6 +520,14 @@ export class DatabaseStorage implements IStorage {
     return subject || undefined;
   }
 
+  async getSubjectByName(name: string): Promise<Subject | undefined> {
+    const [subject] = await db
+      .select()
+      .from(subjects)
+      .where(sql`lower(${subjects.name}) = ${name.toLowerCase()}`);
+    return subject || undefined;
+  }
+
   async createSubject(subject: InsertSubject): Promise<Subject> {
     const [newSubject] = await db
       .insert(subjects)
@@ -200,7 +552,324 @@ export class DatabaseStorage implements IStorage {
     return newQuestion;
   }
 
-  async createQuizSession(session: InsertQuizSession): Promise<QuizSession> {
+  async getBankQuestions(filters: QuestionBankFilters): Promise<Question[]> {
+    const conditions = [eq(questions.subjectId, filters.subjectId), isNull(questions.hiddenAt)];
+    if (filters.examType) {
+      // Manually authored questions without an exam type are valid for every exam
+      conditions.push(or(eq(questions.examType, filters.examType), isNull(questions.examType))!);
+    }
+    if (filters.year) {
+      conditions.push(eq(questions.year, filters.year));
+    }
+    if (filters.excludeIds && filters.excludeIds.length > 0) {
+      conditions.push(notInArray(questions.id, filters.excludeIds));
+    }
+    if (filters.unseenBy) {
+      conditions.push(notExists(
+        db.select({ id: questionExposures.id })
+          .from(questionExposures)
+          .where(and(
+            eq(questionExposures.userId, filters.unseenBy),
+            eq(questionExposures.questionId, questions.id),
+          ))
+      ));
+    }
+
+    return await db
+      .select()
+      .from(questions)
+      .where(and(...conditions))
+      .orderBy(sql`random()`)
+      .limit(filters.limit ?? 20);
+  }
+
+  async insertQuestionsIfNew(newQuestions: NewQuestion[]): Promise<Question[]> {
+    if (newQuestions.length === 0) return [];
+    return await db
+      .insert(questions)
+      .values(newQuestions)
+      .onConflictDoNothing({ target: questions.contentHash })
+      .returning();
+  }
+
+  async getQuestionBankStats(): Promise<Array<{ subjectId: string; examType: string | null; source: string | null; total: number }>> {
+    return await db
+      .select({
+        subjectId: questions.subjectId,
+        examType: questions.examType,
+        source: questions.source,
+        total: count(),
+      })
+      .from(questions)
+      .groupBy(questions.subjectId, questions.examType, questions.source);
+  }
+
+  async getQuestionsByIds(ids: string[]): Promise<Question[]> {
+    if (ids.length === 0) return [];
+    return await db.select().from(questions).where(inArray(questions.id, ids));
+  }
+
+  async getQuestionsByContentHashes(hashes: string[]): Promise<Question[]> {
+    if (hashes.length === 0) return [];
+    return await db.select().from(questions).where(inArray(questions.contentHash, hashes));
+  }
+
+  async getQuestion(id: string): Promise<Question | undefined> {
+    const [question] = await db.select().from(questions).where(eq(questions.id, id));
+    return question || undefined;
+  }
+
+  async searchQuestions(filters: QuestionSearchFilters, options: { limit: number; offset?: number }): Promise<{ questions: Question[]; total: number }> {
+    const conditions = [];
+    if (filters.search) conditions.push(ilike(questions.question, `%${escapeLike(filters.search)}%`));
+    if (filters.subjectId) conditions.push(eq(questions.subjectId, filters.subjectId));
+    if (filters.year) conditions.push(eq(questions.year, filters.year));
+    if (filters.examType) conditions.push(eq(questions.examType, filters.examType));
+    if (filters.topic) conditions.push(ilike(questions.topic, `%${escapeLike(filters.topic)}%`));
+    if (filters.difficulty) conditions.push(eq(questions.difficulty, filters.difficulty));
+    if (filters.source) conditions.push(eq(questions.source, filters.source));
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [rows, [{ total }]] = await Promise.all([
+      db
+        .select()
+        .from(questions)
+        .where(where)
+        .orderBy(desc(questions.createdAt), asc(questions.id))
+        .limit(options.limit)
+        .offset(options.offset ?? 0),
+      db.select({ total: count() }).from(questions).where(where),
+    ]);
+    return { questions: rows, total };
+  }
+
+  async updateQuestion(id: string, updates: Partial<NewQuestion>): Promise<Question> {
+    const [question] = await db
+      .update(questions)
+      .set(updates)
+      .where(eq(questions.id, id))
+      .returning();
+    return question;
+  }
+
+  async deleteQuestion(id: string): Promise<void> {
+    await db.delete(questions).where(eq(questions.id, id));
+  }
+
+  async createQuestionAudits(audits: InsertQuestionAudit[]): Promise<void> {
+    if (audits.length === 0) return;
+    await db.insert(questionAudits).values(audits);
+  }
+
+  async getQuestionAudits(options: { questionId?: string; limit?: number } = {}): Promise<QuestionAudit[]> {
+    return await db
+      .select()
+      .from(questionAudits)
+      .where(options.questionId ? eq(questionAudits.questionId, options.questionId) : undefined)
+      .orderBy(desc(questionAudits.createdAt))
+      .limit(options.limit ?? 50);
+  }
+
+  async createQuestionReport(report: InsertQuestionReport): Promise<QuestionReport> {
+    const [newReport] = await db.insert(questionReports).values(report).returning();
+    return newReport;
+  }
+
+  async getQuestionReport(id: string): Promise<QuestionReport | undefined> {
+    const [report] = await db.select().from(questionReports).where(eq(questionReports.id, id));
+    return report || undefined;
+  }
+
+  async getOpenQuestionReport(questionId: string, userId: string): Promise<QuestionReport | undefined> {
+    const [report] = await db
+      .select()
+      .from(questionReports)
+      .where(and(
+        eq(questionReports.questionId, questionId),
+        eq(questionReports.userId, userId),
+        inArray(questionReports.status, OPEN_QUESTION_REPORT_STATUSES),
+      ));
+    return report || undefined;
+  }
+
+  async getQuestionReports(options: { statuses?: string[]; questionId?: string; limit: number; offset?: number }): Promise<{ reports: QuestionReport[]; total: number }> {
+    const conditions = [];
+    if (options.statuses) conditions.push(inArray(questionReports.status, options.statuses));
+    if (options.questionId) conditions.push(eq(questionReports.questionId, options.questionId));
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [reports, [{ total }]] = await Promise.all([
+      db
+        .select()
+        .from(questionReports)
+        .where(where)
+        .orderBy(asc(questionReports.createdAt))
+        .limit(options.limit)
+        .offset(options.offset ?? 0),
+      db.select({ total: count() }).from(questionReports).where(where),
+    ]);
+    return { reports, total };
+  }
+
+  async getUserQuestionReports(userId: string, limit = 50): Promise<QuestionReport[]> {
+    return await db
+      .select()
+      .from(questionReports)
+      .where(eq(questionReports.userId, userId))
+      .orderBy(desc(questionReports.createdAt))
+      .limit(limit);
+  }
+
+  async updateQuestionReport(id: string, updates: Partial<QuestionReport>): Promise<QuestionReport> {
+    const [report] = await db
+      .update(questionReports)
+      .set(updates)
+      .where(eq(questionReports.id, id))
+      .returning();
+    return report;
+  }
+
+  async closeOpenQuestionReports(questionId: string, updates: Partial<QuestionReport>): Promise<QuestionReport[]> {
+    return await db
+      .update(questionReports)
+      .set(updates)
+      .where(and(
+        eq(questionReports.questionId, questionId),
+        inArray(questionReports.status, OPEN_QUESTION_REPORT_STATUSES),
+      ))
+      .returning();
+  }
+
+  // Distinct students with an open report on each question
+  async countOpenReporters(questionIds: string[]): Promise<Array<{ questionId: string; reporters: number }>> {
+    if (questionIds.length === 0) return [];
+    return await db
+      .select({
+        questionId: questionReports.questionId,
+        reporters: sql<number>`count(distinct ${questionReports.userId})`.mapWith(Number),
+      })
+      .from(questionReports)
+      .where(and(
+        inArray(questionReports.questionId, questionIds),
+        inArray(questionReports.status, OPEN_QUESTION_REPORT_STATUSES),
+      ))
+      .groupBy(questionReports.questionId);
+  }
+
+  async recordQuestionExposures(exposures: InsertQuestionExposure[]): Promise<void> {
+    if (exposures.length === 0) return;
+    await db.insert(questionExposures).values(exposures);
+  }
+
+  async recordExposureAnswers(
+    userId: string,
+    answers: Array<{ questionId: string; selectedAnswer: string | null; isCorrect: boolean }>,
+    sessionId?: string
+  ): Promise<void> {
+    if (answers.length === 0) return;
+    // One statement for the whole paper, joining the exposures to the answers as a VALUES list
+    const rows = sql.join(
+      answers.map(answer => sql`(${answer.questionId}, ${answer.selectedAnswer}::varchar, ${answer.isCorrect}::boolean)`),
+      sql`, `
+    );
+    await db
+      .update(questionExposures)
+      .set({
+        selectedAnswer: sql`answers.selected_answer`,
+        isCorrect: sql`answers.is_correct`,
+        answeredAt: new Date(),
+      })
+      .from(sql`(values ${rows}) as answers(question_id, selected_answer, is_correct)`)
+      .where(and(
+        eq(questionExposures.userId, userId),
+        sql`${questionExposures.questionId} = answers.question_id`,
+        // Without a session, resolve whichever exposures of the question are still awaiting an answer
+        sessionId ? eq(questionExposures.sessionId, sessionId) : isNull(questionExposures.answeredAt),
+      ));
+  }
+
+  // Attach served, unanswered exposures that no session has used yet; returns the question ids claimed
+  async claimServedQuestions(userId: string, context: string, questionIds: string[], sessionId: string): Promise<string[]> {
+    if (questionIds.length === 0) return [];
+    const claimed = await db
+      .update(questionExposures)
+      .set({ sessionId })
+      .where(and(
+        eq(questionExposures.userId, userId),
+        eq(questionExposures.context, context),
+        inArray(questionExposures.questionId, questionIds),
+        isNull(questionExposures.sessionId),
+        isNull(questionExposures.answeredAt),
+      ))
+      .returning({ questionId: questionExposures.questionId });
+    return Array.from(new Set(claimed.map(row => row.questionId)));
+  }
+
+  async getMissedQuestionIds(userId: string, subjectId: string, limit: number): Promise<string[]> {
+    // Latest answered exposure per question; a question counts as missed while its most recent attempt was wrong
+    const latest = await db
+      .selectDistinctOn([questionExposures.questionId], {
+        questionId: questionExposures.questionId,
+        isCorrect: questionExposures.isCorrect,
+        answeredAt: questionExposures.answeredAt,
+      })
+      .from(questionExposures)
+      .where(and(
+        eq(questionExposures.userId, userId),
+        eq(questionExposures.subjectId, subjectId),
+        isNotNull(questionExposures.answeredAt),
+      ))
+      .orderBy(questionExposures.questionId, desc(questionExposures.answeredAt));
+
+    return latest
+      .filter(row => row.isCorrect === false)
+      .sort((a, b) => (a.answeredAt?.getTime() ?? 0) - (b.answeredAt?.getTime() ?? 0))
+      .slice(0, limit)
+      .map(row => row.questionId);
+  }
+
+  async getReviewSchedules(userId: string, questionIds: string[]): Promise<ReviewSchedule[]> {
+    if (questionIds.length === 0) return [];
+    return await db
+      .select()
+      .from(reviewSchedules)
+      .where(and(eq(reviewSchedules.userId, userId), inArray(reviewSchedules.questionId, questionIds)));
+  }
+
+  async upsertReviewSchedule(schedule: InsertReviewSchedule): Promise<ReviewSchedule> {
+    const { userId, questionId, ...updates } = schedule;
+    const [saved] = await db
+      .insert(reviewSchedules)
+      .values(schedule)
+      .onConflictDoUpdate({
+        target: [reviewSchedules.userId, reviewSchedules.questionId],
+        set: { ...updates, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async getDueReviewSchedules(userId: string, dueBy: Date, options: { subjectId?: string; limit?: number } = {}): Promise<ReviewSchedule[]> {
+    const conditions = [eq(reviewSchedules.userId, userId), lte(reviewSchedules.dueAt, dueBy)];
+    if (options.subjectId) conditions.push(eq(reviewSchedules.subjectId, options.subjectId));
+
+    return await db
+      .select()
+      .from(reviewSchedules)
+      .where(and(...conditions))
+      .orderBy(asc(reviewSchedules.dueAt))
+      .limit(options.limit ?? 100);
+  }
+
+  async getDueReviewCounts(userId: string, dueBy: Date): Promise<Array<{ subjectId: string; due: number }>> {
+    return await db
+      .select({ subjectId: reviewSchedules.subjectId, due: count() })
+      .from(reviewSchedules)
+      .where(and(eq(reviewSchedules.userId, userId), lte(reviewSchedules.dueAt, dueBy)))
+      .groupBy(reviewSchedules.subjectId);
+  }
+
+  async createQuizSession(session: InsertQuizSession & { id?: string }): Promise<QuizSession> {
     const [newSession] = await db
       .insert(quizSessions)
       .values([session])
@@ -222,6 +891,16 @@ export class DatabaseStorage implements IStorage {
     return session;
   }
 
+  // Undefined when the quiz was already completed, so only one submission counts
+  async completeQuizSession(id: string, updates: Partial<QuizSession>): Promise<QuizSession | undefined> {
+    const [session] = await db
+      .update(quizSessions)
+      .set({ ...updates, isCompleted: true })
+      .where(and(eq(quizSessions.id, id), eq(quizSessions.isCompleted, false)))
+      .returning();
+    return session || undefined;
+  }
+
   async getUserQuizSessions(userId: string, limit = 10): Promise<QuizSession[]> {
     return await db
       .select()
@@ -263,6 +942,72 @@ export class DatabaseStorage implements IStorage {
       .where(eq(studyProgress.userId, userId));
   }
 
+  // Marks subjects last studied in [studiedFrom, studiedBefore) as reminded, once per day; rows another instance has locked are skipped
+  async claimStreaksAtRisk(studiedFrom: Date, studiedBefore: Date, minStreak: number, now: Date, limit: number): Promise<StudyProgress[]> {
+    const atRisk = db
+      .select({ id: studyProgress.id })
+      .from(studyProgress)
+      .where(and(
+        gte(studyProgress.lastStudyDate, studiedFrom),
+        lt(studyProgress.lastStudyDate, studiedBefore),
+        gte(studyProgress.currentStreak, minStreak),
+        or(isNull(studyProgress.streakReminderSentAt), lt(studyProgress.streakReminderSentAt, studiedBefore))
+      ))
+      .limit(limit)
+      .for('update', { skipLocked: true });
+
+    return await db
+      .update(studyProgress)
+      .set({ streakReminderSentAt: now })
+      .where(inArray(studyProgress.id, atRisk))
+      .returning();
+  }
+
+  async createStudySession(session: InsertStudySession): Promise<StudySession> {
+    const [newSession] = await db
+      .insert(studySessions)
+      .values(session)
+      .returning();
+    return newSession;
+  }
+
+  async getStudySessions(userId: string, options: { since?: Date; limit?: number } = {}): Promise<StudySession[]> {
+    const conditions = [eq(studySessions.userId, userId)];
+    if (options.since) conditions.push(gte(studySessions.completedAt, options.since));
+
+    return await db
+      .select()
+      .from(studySessions)
+      .where(and(...conditions))
+      .orderBy(desc(studySessions.completedAt))
+      .limit(options.limit ?? 100);
+  }
+
+  async getDailyGoal(userId: string, date: string): Promise<DailyGoal | undefined> {
+    const [goal] = await db
+      .select()
+      .from(dailyGoals)
+      .where(and(eq(dailyGoals.userId, userId), eq(dailyGoals.date, date)));
+    return goal || undefined;
+  }
+
+  async getOrCreateDailyGoal(userId: string, date: string): Promise<DailyGoal> {
+    await db
+      .insert(dailyGoals)
+      .values({ userId, date })
+      .onConflictDoNothing({ target: [dailyGoals.userId, dailyGoals.date] });
+    return (await this.getDailyGoal(userId, date))!;
+  }
+
+  async updateDailyGoal(id: string, updates: Partial<DailyGoal>): Promise<DailyGoal> {
+    const [goal] = await db
+      .update(dailyGoals)
+      .set(updates)
+      .where(eq(dailyGoals.id, id))
+      .returning();
+    return goal;
+  }
+
   async createPayment(payment: InsertPayment): Promise<Payment> {
     const [newPayment] = await db
       .insert(payments)
@@ -288,6 +1033,29 @@ export class DatabaseStorage implements IStorage {
     return payment;
   }
 
+  // Marks the payment fulfilled only if nothing has fulfilled it yet; the caller that gets the row grants the plan
+  async claimPaymentFulfillment(reference: string, now: Date): Promise<Payment | undefined> {
+    const [payment] = await db
+      .update(payments)
+      .set({ status: 'success', fulfilledAt: now, completedAt: sql`coalesce(${payments.completedAt}, ${now})` })
+      .where(and(
+        eq(payments.paymentReference, reference),
+        isNull(payments.fulfilledAt),
+        isNull(payments.refundedAt)
+      ))
+      .returning();
+    return payment || undefined;
+  }
+
+  async appendPaymentWebhookEvent(id: string, event: PaymentWebhookEvent): Promise<Payment> {
+    const [payment] = await db
+      .update(payments)
+      .set({ webhookEvents: sql`coalesce(${payments.webhookEvents}, '[]'::jsonb) || ${JSON.stringify([event])}::jsonb` })
+      .where(eq(payments.id, id))
+      .returning();
+    return payment;
+  }
+
   async getUserPayments(userId: string): Promise<Payment[]> {
     return await db
       .select()
@@ -296,82 +1064,1054 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(payments.createdAt));
   }
 
-  async createCbtSession(session: InsertCbtSession): Promise<CbtSession> {
-    const [newSession] = await db
-      .insert(cbtSessions)
-      .values(session)
+  async createUnlockCodes(codes: InsertUnlockCode[]): Promise<UnlockCode[]> {
+    if (codes.length === 0) return [];
+    return await db.insert(unlockCodes).values(codes).returning();
+  }
+
+  async getUnlockCodeByCode(code: string): Promise<UnlockCode | undefined> {
+    const [unlockCode] = await db
+      .select()
+      .from(unlockCodes)
+      .where(eq(unlockCodes.code, code));
+    return unlockCode || undefined;
+  }
+
+  async getUnlockCodes(options: { batchId?: string; limit?: number } = {}): Promise<UnlockCode[]> {
+    return await db
+      .select()
+      .from(unlockCodes)
+      .where(options.batchId ? eq(unlockCodes.batchId, options.batchId) : undefined)
+      .orderBy(desc(unlockCodes.createdAt))
+      .limit(options.limit ?? 500);
+  }
+
+  async updateUnlockCode(id: string, updates: Partial<UnlockCode>): Promise<UnlockCode> {
+    const [unlockCode] = await db
+      .update(unlockCodes)
+      .set(updates)
+      .where(eq(unlockCodes.id, id))
       .returning();
-    return newSession;
+    return unlockCode;
   }
 
-  async getCbtSession(id: string): Promise<CbtSession | undefined> {
-    const [session] = await db.select().from(cbtSessions).where(eq(cbtSessions.id, id));
-    return session || undefined;
+  // Takes one redemption in a single conditional update, so concurrent redemptions can't exceed the limit
+  async claimUnlockCode(id: string, now: Date): Promise<UnlockCode | undefined> {
+    const [unlockCode] = await db
+      .update(unlockCodes)
+      .set({ redemptionCount: sql`${unlockCodes.redemptionCount} + 1` })
+      .where(and(
+        eq(unlockCodes.id, id),
+        lt(unlockCodes.redemptionCount, unlockCodes.maxRedemptions),
+        isNull(unlockCodes.revokedAt),
+        or(isNull(unlockCodes.expiresAt), gt(unlockCodes.expiresAt, now))
+      ))
+      .returning();
+    return unlockCode || undefined;
   }
 
-  async updateCbtSession(id: string, updates: Partial<CbtSession>): Promise<CbtSession> {
-    const [session] = await db
-      .update(cbtSessions)
+  async releaseUnlockCode(id: string): Promise<void> {
+    await db
+      .update(unlockCodes)
+      .set({ redemptionCount: sql`GREATEST(${unlockCodes.redemptionCount} - 1, 0)` })
+      .where(eq(unlockCodes.id, id));
+  }
+
+  // Undefined when the user already redeemed the code; the unique (code, user) index makes this the gate
+  async createUnlockCodeRedemption(codeId: string, userId: string): Promise<UnlockCodeRedemption | undefined> {
+    const [redemption] = await db
+      .insert(unlockCodeRedemptions)
+      .values({ codeId, userId })
+      .onConflictDoNothing({ target: [unlockCodeRedemptions.codeId, unlockCodeRedemptions.userId] })
+      .returning();
+    return redemption || undefined;
+  }
+
+  async updateUnlockCodeRedemption(id: string, updates: Partial<UnlockCodeRedemption>): Promise<UnlockCodeRedemption> {
+    const [redemption] = await db
+      .update(unlockCodeRedemptions)
       .set(updates)
-      .where(eq(cbtSessions.id, id))
+      .where(eq(unlockCodeRedemptions.id, id))
       .returning();
-    return session;
+    return redemption;
   }
 
-  async getUserActiveCbtSession(userId: string): Promise<CbtSession | undefined> {
-    const [session] = await db
-      .select()
-      .from(cbtSessions)
-      .where(and(eq(cbtSessions.userId, userId), eq(cbtSessions.isActive, true)));
-    return session || undefined;
+  async deleteUnlockCodeRedemption(id: string): Promise<void> {
+    await db.delete(unlockCodeRedemptions).where(eq(unlockCodeRedemptions.id, id));
   }
 
-  async createShortNote(note: InsertShortNote): Promise<ShortNote> {
-    const [newNote] = await db
-      .insert(shortNotes)
-      .values(note)
+  async createEntitlement(entitlement: InsertEntitlement): Promise<Entitlement> {
+    const [newEntitlement] = await db
+      .insert(entitlements)
+      .values(entitlement)
       .returning();
-    return newNote;
+    return newEntitlement;
   }
 
-  async getShortNotesBySubject(subjectId: string): Promise<ShortNote[]> {
+  async getUserEntitlements(userId: string): Promise<Entitlement[]> {
     return await db
       .select()
-      .from(shortNotes)
-      .where(eq(shortNotes.subjectId, subjectId));
+      .from(entitlements)
+      .where(eq(entitlements.userId, userId))
+      .orderBy(desc(entitlements.createdAt));
   }
 
-  async getUserShortNotes(userId: string): Promise<ShortNote[]> {
-    return await db
+  async getEntitlementBySource(source: string, sourceId: string): Promise<Entitlement | undefined> {
+    const [entitlement] = await db
       .select()
-      .from(shortNotes)
-      .where(eq(shortNotes.userId, userId));
+      .from(entitlements)
+      .where(and(eq(entitlements.source, source), eq(entitlements.sourceId, sourceId)));
+    return entitlement || undefined;
   }
 
-  async createStudySchedule(schedule: InsertStudyScheduler): Promise<StudyScheduler> {
-    const [newSchedule] = await db
-      .insert(studyScheduler)
-      .values(schedule)
+  // Uses one CBT attempt only if the entitlement still has one left
+  async useCbtAttempt(entitlementId: string): Promise<Entitlement | undefined> {
+    const [entitlement] = await db
+      .update(entitlements)
+      .set({ cbtAttemptsUsed: sql`${entitlements.cbtAttemptsUsed} + 1` })
+      .where(and(
+        eq(entitlements.id, entitlementId),
+        lt(entitlements.cbtAttemptsUsed, entitlements.cbtAttemptsGranted)
+      ))
       .returning();
-    return newSchedule;
+    return entitlement || undefined;
   }
 
-  async updateStudySchedule(id: string, updates: Partial<StudyScheduler>): Promise<StudyScheduler> {
-    const [schedule] = await db
-      .update(studyScheduler)
-      .set(updates)
-      .where(eq(studyScheduler.id, id))
+  async releaseCbtAttempt(entitlementId: string): Promise<Entitlement | undefined> {
+    const [entitlement] = await db
+      .update(entitlements)
+      .set({ cbtAttemptsUsed: sql`GREATEST(${entitlements.cbtAttemptsUsed} - 1, 0)` })
+      .where(eq(entitlements.id, entitlementId))
       .returning();
-    return schedule;
+    return entitlement || undefined;
   }
 
-  async getUserStudySchedules(userId: string): Promise<StudyScheduler[]> {
+  async updateEntitlement(id: string, updates: Partial<Entitlement>): Promise<Entitlement> {
+    const [entitlement] = await db
+      .update(entitlements)
+      .set(updates)
+      .where(eq(entitlements.id, id))
+      .returning();
+    return entitlement;
+  }
+
+  async createCompetition(competition: InsertCompetition): Promise<Competition> {
+    const [newCompetition] = await db
+      .insert(competitions)
+      .values(competition)
+      .returning();
+    return newCompetition;
+  }
+
+  async getCompetition(id: string): Promise<Competition | undefined> {
+    const [competition] = await db.select().from(competitions).where(eq(competitions.id, id));
+    return competition || undefined;
+  }
+
+  // Competitions people can still join or watch, newest first
+  async getActiveCompetitions(limit: number = 10): Promise<Competition[]> {
+    return await db
+      .select()
+      .from(competitions)
+      .where(inArray(competitions.status, ['waiting', 'running']))
+      .orderBy(desc(competitions.createdAt))
+      .limit(limit);
+  }
+
+  async getCompetitionsByStatus(status: string): Promise<Competition[]> {
+    return await db.select().from(competitions).where(eq(competitions.status, status));
+  }
+
+  async updateCompetition(id: string, updates: Partial<Competition>): Promise<Competition> {
+    const [competition] = await db
+      .update(competitions)
+      .set(updates)
+      .where(eq(competitions.id, id))
+      .returning();
+    return competition;
+  }
+
+  // Moves a competition on only if it is still in fromStatus, so two callers can't both start or finish it
+  async transitionCompetition(id: string, fromStatus: string, updates: Partial<Competition>): Promise<Competition | undefined> {
+    const [competition] = await db
+      .update(competitions)
+      .set(updates)
+      .where(and(eq(competitions.id, id), eq(competitions.status, fromStatus)))
+      .returning();
+    return competition || undefined;
+  }
+
+  async heartbeatCompetitions(ids: string[], hostInstance: string, now: Date): Promise<void> {
+    if (ids.length === 0) return;
+    await db
+      .update(competitions)
+      .set({ heartbeatAt: now })
+      .where(and(inArray(competitions.id, ids), eq(competitions.hostInstance, hostInstance), eq(competitions.status, 'running')));
+  }
+
+  // Running matches whose host instance stopped renewing its heartbeat
+  async getAbandonedCompetitions(heartbeatBefore: Date): Promise<Competition[]> {
+    return await db
+      .select()
+      .from(competitions)
+      .where(and(
+        eq(competitions.status, 'running'),
+        or(isNull(competitions.heartbeatAt), lt(competitions.heartbeatAt, heartbeatBefore))
+      ));
+  }
+
+  // Finishes the match only if its host still hasn't renewed the heartbeat, so a live match is never taken over
+  async finishAbandonedCompetition(id: string, heartbeatBefore: Date, endTime: Date): Promise<Competition | undefined> {
+    const [competition] = await db
+      .update(competitions)
+      .set({ status: 'finished', endTime })
+      .where(and(
+        eq(competitions.id, id),
+        eq(competitions.status, 'running'),
+        or(isNull(competitions.heartbeatAt), lt(competitions.heartbeatAt, heartbeatBefore))
+      ))
+      .returning();
+    return competition || undefined;
+  }
+
+  async joinCompetition(participant: NewCompetitionParticipant): Promise<CompetitionParticipant> {
+    const [newParticipant] = await db
+      .insert(competitionParticipants)
+      .values(participant)
+      .returning();
+    return newParticipant;
+  }
+
+  async getCompetitionParticipants(competitionId: string): Promise<CompetitionParticipant[]> {
+    return await db
+      .select()
+      .from(competitionParticipants)
+      .where(eq(competitionParticipants.competitionId, competitionId))
+      .orderBy(asc(competitionParticipants.joinedAt));
+  }
+
+  async getCompetitionParticipant(competitionId: string, userId: string): Promise<CompetitionParticipant | undefined> {
+    const [participant] = await db
+      .select()
+      .from(competitionParticipants)
+      .where(and(eq(competitionParticipants.competitionId, competitionId), eq(competitionParticipants.userId, userId)));
+    return participant || undefined;
+  }
+
+  async updateCompetitionParticipant(id: string, updates: Partial<CompetitionParticipant>): Promise<CompetitionParticipant> {
+    const [participant] = await db
+      .update(competitionParticipants)
+      .set(updates)
+      .where(eq(competitionParticipants.id, id))
+      .returning();
+    return participant;
+  }
+
+  async createCbtSession(session: InsertCbtSession): Promise<CbtSession> {
+    const [newSession] = await db
+      .insert(cbtSessions)
+      .values(session)
+      .returning();
+    return newSession;
+  }
+
+  async getCbtSession(id: string): Promise<CbtSession | undefined> {
+    const [session] = await db.select().from(cbtSessions).where(eq(cbtSessions.id, id));
+    return session || undefined;
+  }
+
+  async updateCbtSession(id: string, updates: Partial<CbtSession>): Promise<CbtSession> {
+    const [session] = await db
+      .update(cbtSessions)
+      .set(updates)
+      .where(eq(cbtSessions.id, id))
+      .returning();
+    return session;
+  }
+
+  // Set or clear one answer and append to the log in place, so answers saved at the same time don't overwrite
+  // each other. The event's timeSpent runs from the last logged answer. Undefined once the exam has ended.
+  async saveCbtAnswer(id: string, event: Omit<CbtAnswerEvent, 'timeSpent'>, updates: Partial<CbtSession>): Promise<CbtSession | undefined> {
+    const key = String(event.questionIndex);
+    const log = sql`COALESCE(${cbtSessions.answerLog}, '[]'::jsonb)`;
+    const timeSpent = sql`GREATEST(${event.elapsedSeconds}::int - COALESCE((${log} -> -1 ->> 'elapsedSeconds')::int, 0), 0)`;
+    const [session] = await db
+      .update(cbtSessions)
+      .set({
+        ...updates,
+        userAnswers: event.answer
+          ? sql`jsonb_set(COALESCE(${cbtSessions.userAnswers}, '{}'::jsonb), ARRAY[${key}::text], to_jsonb(${event.answer}::text))`
+          : sql`COALESCE(${cbtSessions.userAnswers}, '{}'::jsonb) - ${key}::text`,
+        answerLog: sql`${log} || jsonb_build_array(${JSON.stringify(event)}::jsonb || jsonb_build_object('timeSpent', ${timeSpent}))`,
+      })
+      .where(and(eq(cbtSessions.id, id), eq(cbtSessions.isCompleted, false)))
+      .returning();
+    return session || undefined;
+  }
+
+  // Undefined when the session was already completed, so only one submission grades it
+  async completeCbtSession(id: string, updates: Partial<CbtSession>): Promise<CbtSession | undefined> {
+    const [session] = await db
+      .update(cbtSessions)
+      .set({ ...updates, isCompleted: true, isActive: false, isPaused: false })
+      .where(and(eq(cbtSessions.id, id), eq(cbtSessions.isCompleted, false)))
+      .returning();
+    return session || undefined;
+  }
+
+  // Undefined when another request started the exam first
+  async startCbtSession(id: string, updates: Partial<CbtSession>): Promise<CbtSession | undefined> {
+    const [session] = await db
+      .update(cbtSessions)
+      .set(updates)
+      .where(and(eq(cbtSessions.id, id), isNull(cbtSessions.startedAt)))
+      .returning();
+    return session || undefined;
+  }
+
+  async getUserActiveCbtSession(userId: string): Promise<CbtSession | undefined> {
+    const [session] = await db
+      .select()
+      .from(cbtSessions)
+      .where(and(
+        eq(cbtSessions.userId, userId),
+        eq(cbtSessions.isActive, true),
+        eq(cbtSessions.isCompleted, false),
+      ))
+      .orderBy(desc(cbtSessions.createdAt))
+      .limit(1);
+    return session || undefined;
+  }
+
+  async getRunningCbtSessions(): Promise<CbtSession[]> {
+    return await db
+      .select()
+      .from(cbtSessions)
+      .where(and(
+        eq(cbtSessions.isActive, true),
+        eq(cbtSessions.isCompleted, false),
+        isNotNull(cbtSessions.startedAt),
+      ));
+  }
+
+  async getQuizLeaderboardTotals(filters: LeaderboardTotalsFilters): Promise<LeaderboardTotals[]> {
+    const conditions = [eq(quizSessions.isCompleted, true)];
+    if (filters.since) conditions.push(gte(quizSessions.completedAt, filters.since));
+    if (filters.subjectId) conditions.push(eq(quizSessions.subjectId, filters.subjectId));
+    if (filters.examTypes) conditions.push(inArray(sql`lower(${quizSessions.examType})`, filters.examTypes));
+    if (filters.school) conditions.push(sql`lower(${users.school}) = lower(${filters.school})`);
+
+    return await db
+      .select({
+        ...leaderboardUserColumns,
+        sessions: count(),
+        correct: sql<number>`coalesce(sum(${quizSessions.correctAnswers}), 0)`.mapWith(Number),
+        attempted: sql<number>`coalesce(sum(${quizSessions.totalQuestions}), 0)`.mapWith(Number),
+      })
+      .from(quizSessions)
+      .innerJoin(users, eq(users.id, quizSessions.userId))
+      .where(and(...conditions))
+      .groupBy(users.id);
+  }
+
+  // CBT papers are all UTME; with a subject filter only that subject's section of each paper counts
+  async getCbtLeaderboardTotals(filters: LeaderboardTotalsFilters): Promise<LeaderboardTotals[]> {
+    const conditions = [eq(cbtSessions.isCompleted, true), isNotNull(cbtSessions.subjectScores)];
+    if (filters.since) conditions.push(gte(cbtSessions.completedAt, filters.since));
+    if (filters.subjectId) {
+      conditions.push(sql`${cbtSessions.subjectScores} @> ${JSON.stringify([{ subjectId: filters.subjectId }])}::jsonb`);
+    }
+    if (filters.school) conditions.push(sql`lower(${users.school}) = lower(${filters.school})`);
+
+    const sectionFilter = filters.subjectId ? sql`where section->>'subjectId' = ${filters.subjectId}` : sql``;
+    const sectionTotal = (field: 'correct' | 'total') =>
+      sql<number>`coalesce(sum((select sum((section->>${sql.raw(`'${field}'`)})::int) from jsonb_array_elements(${cbtSessions.subjectScores}) section ${sectionFilter})), 0)`.mapWith(Number);
+
+    return await db
+      .select({
+        ...leaderboardUserColumns,
+        sessions: count(),
+        correct: sectionTotal('correct'),
+        attempted: sectionTotal('total'),
+      })
+      .from(cbtSessions)
+      .innerJoin(users, eq(users.id, cbtSessions.userId))
+      .where(and(...conditions))
+      .groupBy(users.id);
+  }
+
+  async createShortNote(note: InsertShortNote): Promise<ShortNote> {
+    const [newNote] = await db
+      .insert(shortNotes)
+      .values(note)
+      .returning(shortNoteColumns);
+    return newNote;
+  }
+
+  async getShortNote(id: string): Promise<ShortNote | undefined> {
+    const [note] = await db.select(shortNoteColumns).from(shortNotes).where(eq(shortNotes.id, id));
+    return note || undefined;
+  }
+
+  async getShortNotesBySubject(subjectId: string): Promise<ShortNote[]> {
+    return await db
+      .select(shortNoteColumns)
+      .from(shortNotes)
+      .where(eq(shortNotes.subjectId, subjectId));
+  }
+
+  // With a search, best matches come first; otherwise the most recently changed notes
+  async getShortNotes(userId: string, filters: ShortNoteFilters = {}): Promise<ShortNote[]> {
+    const query = filters.search?.trim() ? sql`websearch_to_tsquery('english', ${filters.search.trim()})` : undefined;
+    const conditions = [eq(shortNotes.userId, userId)];
+    if (filters.subjectId) conditions.push(eq(shortNotes.subjectId, filters.subjectId));
+    if (filters.difficulty) conditions.push(eq(shortNotes.difficulty, filters.difficulty));
+    if (filters.bookmarked) conditions.push(eq(shortNotes.isBookmarked, true));
+    if (query) conditions.push(sql`${shortNoteSearchVector} @@ ${query}`);
+
+    return await db
+      .select(shortNoteColumns)
+      .from(shortNotes)
+      .where(and(...conditions))
+      .orderBy(...(query ? [desc(sql`ts_rank(${shortNoteSearchVector}, ${query})`)] : []), desc(shortNotes.updatedAt))
+      .limit(filters.limit ?? 100);
+  }
+
+  // Notes whose next review (see getShortNoteNextReview) has come, longest overdue first
+  async getShortNotesDueForReview(userId: string, now: Date, limit: number): Promise<ShortNote[]> {
+    const intervals = `{${SHORT_NOTE_REVIEW_INTERVAL_DAYS.join(',')}}`;
+    const nextReview = sql`coalesce(${shortNotes.lastReviewed}, ${shortNotes.createdAt}) + make_interval(days => (${intervals}::int[])[least(greatest(coalesce(${shortNotes.reviewCount}, 0), 1), ${SHORT_NOTE_REVIEW_INTERVAL_DAYS.length})])`;
+
+    return await db
+      .select(shortNoteColumns)
+      .from(shortNotes)
+      .where(and(eq(shortNotes.userId, userId), sql`${nextReview} <= ${now}`))
+      .orderBy(asc(nextReview))
+      .limit(limit);
+  }
+
+  async updateShortNote(id: string, updates: Partial<ShortNote>): Promise<ShortNote> {
+    const [note] = await db
+      .update(shortNotes)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(shortNotes.id, id))
+      .returning(shortNoteColumns);
+    return note;
+  }
+
+  async bookmarkShortNote(id: string, isBookmarked: boolean): Promise<ShortNote> {
+    const [note] = await db
+      .update(shortNotes)
+      .set({ isBookmarked })
+      .where(eq(shortNotes.id, id))
+      .returning(shortNoteColumns);
+    return note;
+  }
+
+  // Counts a review unless the note was already reviewed after notReviewedSince
+  async recordShortNoteReview(id: string, now: Date, notReviewedSince: Date): Promise<ShortNote | undefined> {
+    const [note] = await db
+      .update(shortNotes)
+      .set({ reviewCount: sql`coalesce(${shortNotes.reviewCount}, 0) + 1`, lastReviewed: now })
+      .where(and(
+        eq(shortNotes.id, id),
+        or(isNull(shortNotes.lastReviewed), lt(shortNotes.lastReviewed, notReviewedSince))
+      ))
+      .returning(shortNoteColumns);
+    return note || undefined;
+  }
+
+  async deleteShortNote(id: string): Promise<void> {
+    await db.delete(shortNotes).where(eq(shortNotes.id, id));
+  }
+
+  async createStudySchedule(schedule: InsertStudyScheduler): Promise<StudyScheduler> {
+    const [newSchedule] = await db
+      .insert(studyScheduler)
+      .values(schedule)
+      .returning();
+    return newSchedule;
+  }
+
+  async createStudySchedules(schedules: InsertStudyScheduler[]): Promise<StudyScheduler[]> {
+    if (schedules.length === 0) return [];
+    return await db
+      .insert(studyScheduler)
+      .values(schedules)
+      .returning();
+  }
+
+  async getStudySchedule(id: string): Promise<StudyScheduler | undefined> {
+    const [schedule] = await db.select().from(studyScheduler).where(eq(studyScheduler.id, id));
+    return schedule || undefined;
+  }
+
+  async updateStudySchedule(id: string, updates: Partial<StudyScheduler>): Promise<StudyScheduler> {
+    const [schedule] = await db
+      .update(studyScheduler)
+      .set(updates)
+      .where(eq(studyScheduler.id, id))
+      .returning();
+    return schedule;
+  }
+
+  async getUserStudySchedules(userId: string): Promise<StudyScheduler[]> {
     return await db
       .select()
       .from(studyScheduler)
       .where(eq(studyScheduler.userId, userId));
   }
 
+  async getScheduledTasks(userId: string, from: Date, to: Date): Promise<StudyScheduler[]> {
+    return await db
+      .select()
+      .from(studyScheduler)
+      .where(and(
+        eq(studyScheduler.userId, userId),
+        gte(studyScheduler.scheduledDate, from),
+        lt(studyScheduler.scheduledDate, to)
+      ))
+      .orderBy(asc(studyScheduler.scheduledDate));
+  }
+
+  async getUpcomingTasks(userId: string, after: Date, limit: number): Promise<StudyScheduler[]> {
+    return await db
+      .select()
+      .from(studyScheduler)
+      .where(and(
+        eq(studyScheduler.userId, userId),
+        eq(studyScheduler.status, 'pending'),
+        gt(studyScheduler.scheduledDate, after)
+      ))
+      .orderBy(asc(studyScheduler.scheduledDate))
+      .limit(limit);
+  }
+
+  // The status changes below only apply from the statuses allowed; otherwise nothing is returned
+
+  async startTask(id: string, now: Date): Promise<StudyScheduler | undefined> {
+    const [task] = await db
+      .update(studyScheduler)
+      .set({ status: 'active', startedAt: now })
+      .where(and(eq(studyScheduler.id, id), eq(studyScheduler.status, 'pending')))
+      .returning();
+    return task || undefined;
+  }
+
+  async completeTask(id: string, updates: Partial<StudyScheduler>): Promise<StudyScheduler | undefined> {
+    const [task] = await db
+      .update(studyScheduler)
+      .set({ ...updates, status: 'completed', isCompleted: true })
+      .where(and(eq(studyScheduler.id, id), inArray(studyScheduler.status, ['pending', 'active'])))
+      .returning();
+    return task || undefined;
+  }
+
+  async skipTask(id: string): Promise<StudyScheduler | undefined> {
+    const [task] = await db
+      .update(studyScheduler)
+      .set({ status: 'skipped', isSkipped: true })
+      .where(and(eq(studyScheduler.id, id), inArray(studyScheduler.status, ['pending', 'active'])))
+      .returning();
+    return task || undefined;
+  }
+
+  // Removes week-planner tasks in [from, to) that haven't been started, so a new plan can replace them
+  async deletePlannedTasks(userId: string, from: Date, to: Date): Promise<number> {
+    const deleted = await db
+      .delete(studyScheduler)
+      .where(and(
+        eq(studyScheduler.userId, userId),
+        eq(studyScheduler.source, 'plan'),
+        eq(studyScheduler.status, 'pending'),
+        gte(studyScheduler.scheduledDate, from),
+        lt(studyScheduler.scheduledDate, to)
+      ))
+      .returning({ id: studyScheduler.id });
+    return deleted.length;
+  }
+
+  // Availability is kept on every study progress row of the user
+  async setStudyAvailability(userId: string, availability: StudyAvailability): Promise<void> {
+    await db
+      .update(studyProgress)
+      .set({ studySchedule: availability, updatedAt: new Date() })
+      .where(eq(studyProgress.userId, userId));
+  }
+
+  // Marks reminders sent for pending tasks starting in (after, until] and returns them; each task is
+  // returned to exactly one caller, however many instances run this at once
+  async claimDueTaskReminders(after: Date, until: Date, limit: number): Promise<StudyScheduler[]> {
+    const due = db
+      .select({ id: studyScheduler.id })
+      .from(studyScheduler)
+      .where(and(
+        eq(studyScheduler.status, 'pending'),
+        eq(studyScheduler.reminderSent, false),
+        gt(studyScheduler.scheduledDate, after),
+        lte(studyScheduler.scheduledDate, until)
+      ))
+      .orderBy(asc(studyScheduler.scheduledDate))
+      .limit(limit)
+      .for('update', { skipLocked: true });
+
+    return await db
+      .update(studyScheduler)
+      .set({ reminderSent: true })
+      .where(inArray(studyScheduler.id, due))
+      .returning();
+  }
+
+  // Marks tasks that should have started before the cutoff but were never finished as skipped
+  async skipOverdueTasks(before: Date, limit: number): Promise<StudyScheduler[]> {
+    const overdue = db
+      .select({ id: studyScheduler.id })
+      .from(studyScheduler)
+      .where(and(
+        inArray(studyScheduler.status, ['pending', 'active']),
+        lt(studyScheduler.scheduledDate, before)
+      ))
+      .orderBy(asc(studyScheduler.scheduledDate))
+      .limit(limit)
+      .for('update', { skipLocked: true });
+
+    return await db
+      .update(studyScheduler)
+      .set({ status: 'skipped', isSkipped: true })
+      .where(inArray(studyScheduler.id, overdue))
+      .returning();
+  }
+
+  async createExamPlan(plan: InsertExamPlan): Promise<ExamPlan> {
+    const [created] = await db
+      .insert(examPlans)
+      .values(plan)
+      .returning();
+    return created;
+  }
+
+  async getExamPlan(id: string): Promise<ExamPlan | undefined> {
+    const [plan] = await db.select().from(examPlans).where(eq(examPlans.id, id));
+    return plan || undefined;
+  }
+
+  async getActiveExamPlan(userId: string): Promise<ExamPlan | undefined> {
+    const [plan] = await db
+      .select()
+      .from(examPlans)
+      .where(and(eq(examPlans.userId, userId), eq(examPlans.status, 'active')))
+      .orderBy(desc(examPlans.createdAt))
+      .limit(1);
+    return plan || undefined;
+  }
+
+  async getActiveExamPlans(limit: number, offset: number): Promise<ExamPlan[]> {
+    return await db
+      .select()
+      .from(examPlans)
+      .where(eq(examPlans.status, 'active'))
+      .orderBy(asc(examPlans.createdAt), asc(examPlans.id))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  async updateExamPlan(id: string, updates: Partial<ExamPlan>): Promise<ExamPlan> {
+    const [plan] = await db
+      .update(examPlans)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(examPlans.id, id))
+      .returning();
+    return plan;
+  }
+
+  async getExamPlanTasks(examPlanId: string): Promise<StudyScheduler[]> {
+    return await db
+      .select()
+      .from(studyScheduler)
+      .where(eq(studyScheduler.examPlanId, examPlanId))
+      .orderBy(asc(studyScheduler.scheduledDate));
+  }
+
+  // Removes a plan's sessions from the given time on that haven't been started
+  async deleteExamPlanTasks(examPlanId: string, from: Date): Promise<number> {
+    const deleted = await db
+      .delete(studyScheduler)
+      .where(and(
+        eq(studyScheduler.examPlanId, examPlanId),
+        eq(studyScheduler.status, 'pending'),
+        gte(studyScheduler.scheduledDate, from)
+      ))
+      .returning({ id: studyScheduler.id });
+    return deleted.length;
+  }
+
+  // Topics of a subject's visible bank questions, most common first
+  async getSubjectTopics(subjectId: string, limit: number): Promise<string[]> {
+    const rows = await db
+      .select({ topic: questions.topic })
+      .from(questions)
+      .where(and(eq(questions.subjectId, subjectId), isNotNull(questions.topic), isNull(questions.hiddenAt)))
+      .groupBy(questions.topic)
+      .orderBy(desc(count()))
+      .limit(limit);
+    return rows.map(row => row.topic!).filter(Boolean);
+  }
+
+  // Takes the job's lease if nobody holds it (or the holder's lease ran out) and no run started after notStartedSince
+  async acquireJobLock(name: string, owner: string, now: Date, until: Date, notStartedSince: Date): Promise<JobLock | undefined> {
+    const [lock] = await db
+      .insert(jobLocks)
+      .values({ name, lockedBy: owner, lockedUntil: until, lastStartedAt: now })
+      .onConflictDoUpdate({
+        target: jobLocks.name,
+        set: { lockedBy: owner, lockedUntil: until, lastStartedAt: now },
+        setWhere: and(
+          lte(jobLocks.lockedUntil, now),
+          or(isNull(jobLocks.lastStartedAt), lte(jobLocks.lastStartedAt, notStartedSince))
+        ),
+      })
+      .returning();
+    return lock || undefined;
+  }
+
+  async releaseJobLock(name: string, owner: string, updates: Partial<JobLock>): Promise<void> {
+    await db
+      .update(jobLocks)
+      .set(updates)
+      .where(and(eq(jobLocks.name, name), eq(jobLocks.lockedBy, owner)));
+  }
+
+  async getJobLocks(): Promise<JobLock[]> {
+    return await db.select().from(jobLocks).orderBy(asc(jobLocks.name));
+  }
+
+  async createFocusSession(session: InsertFocusSession): Promise<FocusSession> {
+    const [created] = await db
+      .insert(focusSessions)
+      .values(session)
+      .returning();
+    return created;
+  }
+
+  async getFocusSession(id: string): Promise<FocusSession | undefined> {
+    const [session] = await db.select().from(focusSessions).where(eq(focusSessions.id, id));
+    return session || undefined;
+  }
+
+  async getActiveFocusSession(userId: string): Promise<FocusSession | undefined> {
+    const [session] = await db
+      .select()
+      .from(focusSessions)
+      .where(and(eq(focusSessions.userId, userId), eq(focusSessions.isActive, true), eq(focusSessions.isCompleted, false)))
+      .orderBy(desc(focusSessions.createdAt))
+      .limit(1);
+    return session || undefined;
+  }
+
+  async getFocusHistory(userId: string, limit: number): Promise<FocusSession[]> {
+    return await db
+      .select()
+      .from(focusSessions)
+      .where(and(eq(focusSessions.userId, userId), eq(focusSessions.isCompleted, true)))
+      .orderBy(desc(focusSessions.completedAt))
+      .limit(limit);
+  }
+
+  // Running sessions whose current phase has run out, for the background job to move on
+  async getRunningFocusSessions(phaseEndedBy: Date, limit: number): Promise<FocusSession[]> {
+    return await db
+      .select()
+      .from(focusSessions)
+      .where(and(
+        eq(focusSessions.isActive, true),
+        eq(focusSessions.isCompleted, false),
+        eq(focusSessions.isPaused, false),
+        lte(focusSessions.phaseEndsAt, phaseEndedBy)
+      ))
+      .orderBy(asc(focusSessions.phaseEndsAt))
+      .limit(limit);
+  }
+
+  async updateFocusSession(id: string, updates: Partial<FocusSession>): Promise<FocusSession | undefined> {
+    const [session] = await db
+      .update(focusSessions)
+      .set(updates)
+      .where(and(eq(focusSessions.id, id), eq(focusSessions.isCompleted, false)))
+      .returning();
+    return session || undefined;
+  }
+
+  // Appends the event and takes the penalty off the focus score in one statement, so signals sent together all count
+  async recordFocusDistraction(id: string, event: FocusDistractionEvent, penalty: number): Promise<FocusSession | undefined> {
+    const [session] = await db
+      .update(focusSessions)
+      .set({
+        distractionEvents: sql`COALESCE(${focusSessions.distractionEvents}, '[]'::jsonb) || ${JSON.stringify([event])}::jsonb`,
+        distractionCount: sql`COALESCE(${focusSessions.distractionCount}, 0) + 1`,
+        focusScore: sql`GREATEST(COALESCE(${focusSessions.focusScore}, 100) - ${penalty}, 0)`,
+      })
+      .where(and(eq(focusSessions.id, id), eq(focusSessions.isCompleted, false)))
+      .returning();
+    return session || undefined;
+  }
+
+  async completeFocusSession(id: string, updates: Partial<FocusSession>): Promise<FocusSession | undefined> {
+    const [session] = await db
+      .update(focusSessions)
+      .set({ ...updates, isCompleted: true, isActive: false, isPaused: false, phaseEndsAt: null })
+      .where(and(eq(focusSessions.id, id), eq(focusSessions.isCompleted, false)))
+      .returning();
+    return session || undefined;
+  }
+
+  // Quizzes and CBT exams finished, and notes written or reviewed, between from and to
+  async getFocusActivity(userId: string, from: Date, to: Date) {
+    const [quizzes, cbt, notes] = await Promise.all([
+      db
+        .select({ id: quizSessions.id, subjectName: quizSessions.subjectName, score: quizSessions.score, timeSpent: quizSessions.timeSpent })
+        .from(quizSessions)
+        .where(and(
+          eq(quizSessions.userId, userId),
+          eq(quizSessions.isCompleted, true),
+          gte(quizSessions.completedAt, from),
+          lte(quizSessions.completedAt, to)
+        ))
+        .orderBy(asc(quizSessions.completedAt)),
+      db
+        .select({
+          id: cbtSessions.id,
+          selectedSubjects: cbtSessions.selectedSubjects,
+          aggregateScore: cbtSessions.aggregateScore,
+          startedAt: cbtSessions.startedAt,
+          completedAt: cbtSessions.completedAt,
+        })
+        .from(cbtSessions)
+        .where(and(
+          eq(cbtSessions.userId, userId),
+          eq(cbtSessions.isCompleted, true),
+          gte(cbtSessions.completedAt, from),
+          lte(cbtSessions.completedAt, to)
+        ))
+        .orderBy(asc(cbtSessions.completedAt)),
+      db
+        .select({ id: shortNotes.id, subjectName: shortNotes.subjectName })
+        .from(shortNotes)
+        .where(and(
+          eq(shortNotes.userId, userId),
+          or(
+            and(gte(shortNotes.createdAt, from), lte(shortNotes.createdAt, to)),
+            and(gte(shortNotes.lastReviewed, from), lte(shortNotes.lastReviewed, to))
+          )
+        ))
+        .orderBy(asc(shortNotes.createdAt)),
+    ]);
+    return { quizzes, cbtSessions: cbt, notes };
+  }
+
+  async getStudyInsight(id: string): Promise<StudyInsights | undefined> {
+    const [insight] = await db.select().from(studyInsights).where(eq(studyInsights.id, id));
+    return insight || undefined;
+  }
+
+  // Latest weeks first
+  async getWeeklyInsights(userId: string, limit: number): Promise<StudyInsights[]> {
+    return await db
+      .select()
+      .from(studyInsights)
+      .where(eq(studyInsights.userId, userId))
+      .orderBy(desc(studyInsights.date))
+      .limit(limit);
+  }
+
+  // One row per user and week; working a week out again replaces it
+  async saveWeeklyInsights(insights: InsertStudyInsights): Promise<StudyInsights> {
+    const [saved] = await db
+      .insert(studyInsights)
+      .values(insights)
+      .onConflictDoUpdate({
+        target: [studyInsights.userId, studyInsights.date],
+        set: { ...insights, createdAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  // Users with study activity in the week whose insights for it haven't been worked out since it ended
+  async getUsersDueWeeklyInsights(weekKey: string, start: Date, end: Date, limit: number): Promise<string[]> {
+    const [sessionUsers, focusUsers, taskUsers, done] = await Promise.all([
+      db
+        .selectDistinct({ userId: studySessions.userId })
+        .from(studySessions)
+        .where(and(gte(studySessions.completedAt, start), lt(studySessions.completedAt, end))),
+      db
+        .selectDistinct({ userId: focusSessions.userId })
+        .from(focusSessions)
+        .where(and(eq(focusSessions.isCompleted, true), focusSessionRanFull, gte(focusSessions.completedAt, start), lt(focusSessions.completedAt, end))),
+      db
+        .selectDistinct({ userId: studyScheduler.userId })
+        .from(studyScheduler)
+        .where(and(gte(studyScheduler.scheduledDate, start), lt(studyScheduler.scheduledDate, end))),
+      db
+        .select({ userId: studyInsights.userId })
+        .from(studyInsights)
+        .where(and(eq(studyInsights.date, weekKey), gte(studyInsights.createdAt, end))),
+    ]);
+    const finished = new Set(done.map(row => row.userId));
+    const active = new Set([...sessionUsers, ...focusUsers, ...taskUsers].map(row => row.userId));
+    return Array.from(active).filter(userId => !finished.has(userId)).slice(0, limit);
+  }
+
+  // Quiz and CBT results, focus sessions that ran their full cycles, and scheduler tasks due in [from, to)
+  async getInsightActivity(userId: string, from: Date, to: Date) {
+    const [sessions, focus, tasks] = await Promise.all([
+      db
+        .select()
+        .from(studySessions)
+        .where(and(eq(studySessions.userId, userId), gte(studySessions.completedAt, from), lt(studySessions.completedAt, to)))
+        .orderBy(asc(studySessions.completedAt)),
+      db
+        .select()
+        .from(focusSessions)
+        .where(and(
+          eq(focusSessions.userId, userId),
+          eq(focusSessions.isCompleted, true),
+          focusSessionRanFull,
+          gte(focusSessions.completedAt, from),
+          lt(focusSessions.completedAt, to)
+        ))
+        .orderBy(asc(focusSessions.completedAt)),
+      db
+        .select()
+        .from(studyScheduler)
+        .where(and(eq(studyScheduler.userId, userId), gte(studyScheduler.scheduledDate, from), lt(studyScheduler.scheduledDate, to)))
+        .orderBy(asc(studyScheduler.scheduledDate)),
+    ]);
+    return { sessions, focusSessions: focus, tasks };
+  }
+
+  // Pending tasks of one subject from a date on
+  async adjustUpcomingTasks(userId: string, subjectName: string, from: Date, updates: Partial<StudyScheduler>): Promise<number> {
+    const adjusted = await db
+      .update(studyScheduler)
+      .set(updates)
+      .where(and(
+        eq(studyScheduler.userId, userId),
+        eq(studyScheduler.subjectName, subjectName),
+        eq(studyScheduler.status, 'pending'),
+        gte(studyScheduler.scheduledDate, from)
+      ))
+      .returning({ id: studyScheduler.id });
+    return adjusted.length;
+  }
+
+  async createNotifications(rows: InsertNotification[]): Promise<Notification[]> {
+    if (rows.length === 0) return [];
+    return await db.insert(notifications).values(rows).returning();
+  }
+
+  // Takes one pending notification for delivery, or a sending one whose lease ran out because its worker died
+  async claimNotification(id: string, now: Date, leaseUntil: Date): Promise<Notification | undefined> {
+    const [notification] = await db
+      .update(notifications)
+      .set({ status: 'sending', nextAttemptAt: leaseUntil })
+      .where(and(
+        eq(notifications.id, id),
+        inArray(notifications.status, ['pending', 'sending']),
+        lte(notifications.nextAttemptAt, now)
+      ))
+      .returning();
+    return notification || undefined;
+  }
+
+  // Same as claimNotification for a batch; rows another instance has locked are skipped rather than waited on
+  async claimDueNotifications(now: Date, leaseUntil: Date, limit: number): Promise<Notification[]> {
+    const due = db
+      .select({ id: notifications.id })
+      .from(notifications)
+      .where(and(
+        inArray(notifications.status, ['pending', 'sending']),
+        lte(notifications.nextAttemptAt, now)
+      ))
+      .orderBy(asc(notifications.nextAttemptAt))
+      .limit(limit)
+      .for('update', { skipLocked: true });
+
+    return await db
+      .update(notifications)
+      .set({ status: 'sending', nextAttemptAt: leaseUntil })
+      .where(inArray(notifications.id, due))
+      .returning();
+  }
+
+  async recordNotificationAttempt(id: string, attempt: NotificationAttempt, updates: Partial<Notification>): Promise<Notification> {
+    const [notification] = await db
+      .update(notifications)
+      .set({
+        ...updates,
+        attempts: sql`${notifications.attempts} + 1`,
+        attemptLog: sql`coalesce(${notifications.attemptLog}, '[]'::jsonb) || ${JSON.stringify([attempt])}::jsonb`,
+      })
+      .where(eq(notifications.id, id))
+      .returning();
+    return notification;
+  }
+
+  async getUserNotifications(userId: string, options: { channel: string; limit: number }): Promise<Notification[]> {
+    return await db
+      .select()
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), eq(notifications.channel, options.channel)))
+      .orderBy(desc(notifications.createdAt))
+      .limit(options.limit);
+  }
+
+  async countUnreadNotifications(userId: string): Promise<number> {
+    const [{ unread }] = await db
+      .select({ unread: count() })
+      .from(notifications)
+      .where(and(
+        eq(notifications.userId, userId),
+        eq(notifications.channel, 'in_app'),
+        isNull(notifications.readAt)
+      ));
+    return unread;
+  }
+
+  // Marks the given in-app notifications read, or all of them when no ids are given
+  async markNotificationsRead(userId: string, ids: string[] | undefined, now: Date): Promise<number> {
+    const updated = await db
+      .update(notifications)
+      .set({ readAt: now })
+      .where(and(
+        eq(notifications.userId, userId),
+        eq(notifications.channel, 'in_app'),
+        isNull(notifications.readAt),
+        ids ? inArray(notifications.id, ids) : undefined
+      ))
+      .returning({ id: notifications.id });
+    return updated.length;
+  }
+
+  async getNotifications(options: { status?: string; channel?: string; userId?: string; limit: number; offset?: number }): Promise<{ notifications: Notification[]; total: number }> {
+    const conditions = [];
+    if (options.status) conditions.push(eq(notifications.status, options.status));
+    if (options.channel) conditions.push(eq(notifications.channel, options.channel));
+    if (options.userId) conditions.push(eq(notifications.userId, options.userId));
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [rows, [{ total }]] = await Promise.all([
+      db
+        .select()
+        .from(notifications)
+        .where(where)
+        .orderBy(desc(notifications.createdAt))
+        .limit(options.limit)
+        .offset(options.offset ?? 0),
+      db.select({ total: count() }).from(notifications).where(where),
+    ]);
+    return { notifications: rows, total };
+  }
+
   // Chat methods implementation
   async saveChatMessage(message: InsertChatMessage): Promise<ChatMessage> {
     const [newMessage] = await db
@@ -381,43 +2121,63 @@ export class DatabaseStorage implements IStorage {
     return newMessage;
   }
 
-  async updateChatUsage(userId: string, model: string, responseTime: number): Promise<ChatUsage> {
+  async recordAIUsage(userId: string, usage: AIUsageEvent): Promise<ChatUsage> {
     const today = new Date().toISOString().split('T')[0];
-    
-    // Try to find existing usage record for today
+    const tokens = usage.inputTokens + usage.outputTokens;
+
     const [existingUsage] = await db
       .select()
       .from(chatUsage)
       .where(and(eq(chatUsage.userId, userId), eq(chatUsage.date, today)));
-    
+
+    const previous = existingUsage?.providerStats?.[usage.provider] || { calls: 0, failures: 0, totalLatencyMs: 0, inputTokens: 0, outputTokens: 0 };
+    const providerStats = {
+      ...(existingUsage?.providerStats || {}),
+      [usage.provider]: {
+        calls: previous.calls + 1,
+        failures: previous.failures + (usage.success ? 0 : 1),
+        totalLatencyMs: previous.totalLatencyMs + usage.latencyMs,
+        inputTokens: previous.inputTokens + usage.inputTokens,
+        outputTokens: previous.outputTokens + usage.outputTokens,
+      },
+    };
+
     if (existingUsage) {
-      // Update existing record
+      const responses = existingUsage.aiResponses || 0;
       const [updatedUsage] = await db
         .update(chatUsage)
         .set({
-          aiResponses: sql`${chatUsage.aiResponses} + 1`,
-          averageResponseTime: Math.round(((existingUsage.averageResponseTime || 0) + responseTime) / 2),
-          modelsUsed: {
-            ...(existingUsage.modelsUsed || {}),
-            [model]: ((existingUsage.modelsUsed || {})[model] || 0) + 1
-          },
+          providerStats,
+          totalTokens: sql`${chatUsage.totalTokens} + ${tokens}`,
+          ...(usage.success ? {
+            aiResponses: sql`${chatUsage.aiResponses} + 1`,
+            // Running mean over successful responses
+            averageResponseTime: Math.round(((existingUsage.averageResponseTime || 0) * responses + usage.latencyMs) / (responses + 1)),
+            modelsUsed: {
+              ...(existingUsage.modelsUsed || {}),
+              [usage.provider]: ((existingUsage.modelsUsed || {})[usage.provider] || 0) + 1
+            },
+          } : {
+            failedResponses: sql`${chatUsage.failedResponses} + 1`,
+          }),
           updatedAt: new Date()
         })
         .where(eq(chatUsage.id, existingUsage.id))
         .returning();
       return updatedUsage;
     } else {
-      // Create new record
       const [newUsage] = await db
         .insert(chatUsage)
         .values({
           userId,
           date: today,
           messagesSent: 0,
-          aiResponses: 1,
-          totalTokens: 0,
-          modelsUsed: { [model]: 1 },
-          averageResponseTime: responseTime
+          aiResponses: usage.success ? 1 : 0,
+          failedResponses: usage.success ? 0 : 1,
+          totalTokens: tokens,
+          modelsUsed: usage.success ? { [usage.provider]: 1 } : {},
+          averageResponseTime: usage.success ? usage.latencyMs : 0,
+          providerStats,
         })
         .returning();
       return newUsage;
@@ -460,7 +2220,57 @@ export class DatabaseStorage implements IStorage {
       .select()
       .from(userBadges)
       .where(eq(userBadges.userId, userId))
-      .orderBy(desc(userBadges.unlockedAt));
+      .orderBy(sql`${userBadges.unlockedAt} desc nulls last`);
+  }
+
+  // Unlocked badges are never touched again; returns nothing when the badge was already unlocked
+  async saveBadgeProgress(badge: InsertUserBadge): Promise<UserBadge | undefined> {
+    const [saved] = await db
+      .insert(userBadges)
+      .values(badge)
+      .onConflictDoUpdate({
+        target: [userBadges.userId, userBadges.badgeType],
+        set: { progress: badge.progress, maxProgress: badge.maxProgress, unlockedAt: badge.unlockedAt ?? null },
+        setWhere: isNull(userBadges.unlockedAt),
+      })
+      .returning();
+    return saved;
+  }
+
+  async getBadgeStats(userId: string, completion: { minSessions: number; minAverage: number }): Promise<BadgeStats> {
+    const [[quizzes], [cbt], [progress], [chat], [focus], studyDates] = await Promise.all([
+      db.select({ total: count() })
+        .from(quizSessions)
+        .where(and(eq(quizSessions.userId, userId), eq(quizSessions.isCompleted, true))),
+      db.select({ total: count() })
+        .from(cbtSessions)
+        .where(and(eq(cbtSessions.userId, userId), eq(cbtSessions.isCompleted, true))),
+      db.select({
+        bestScore: sql<number>`coalesce(max(${studyProgress.bestScore}), 0)`.mapWith(Number),
+        subjectsCompleted: sql<number>`count(*) filter (where ${studyProgress.sessionsCompleted} >= ${completion.minSessions} and ${studyProgress.averageScore} >= ${completion.minAverage})`.mapWith(Number),
+      }).from(studyProgress).where(eq(studyProgress.userId, userId)),
+      db.select({ total: count() })
+        .from(chatMessages)
+        .where(and(eq(chatMessages.userId, userId), eq(chatMessages.sender, 'user'))),
+      db.select({ total: count() })
+        .from(focusSessions)
+        .where(and(eq(focusSessions.userId, userId), eq(focusSessions.isCompleted, true), focusSessionRanFull)),
+      db.selectDistinct({ date: sql<string>`to_char(${studySessions.completedAt}, 'YYYY-MM-DD')` })
+        .from(studySessions)
+        .where(eq(studySessions.userId, userId))
+        .orderBy(sql`1 desc`)
+        .limit(400),
+    ]);
+
+    return {
+      quizzesCompleted: quizzes.total,
+      cbtExamsCompleted: cbt.total,
+      bestScore: progress.bestScore,
+      chatMessages: chat.total,
+      subjectsCompleted: progress.subjectsCompleted,
+      focusSessionsCompleted: focus.total,
+      studyDates: studyDates.map(row => row.date),
+    };
   }
 
   async createChatConversation(conversation: InsertChatConversation): Promise<ChatConversation> {
@@ -479,6 +2289,46 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(chatConversations.updatedAt));
   }
 
+  async getChatConversation(id: string): Promise<ChatConversation | undefined> {
+    const [conversation] = await db.select().from(chatConversations).where(eq(chatConversations.id, id));
+    return conversation || undefined;
+  }
+
+  async getLatestChatConversation(userId: string): Promise<ChatConversation | undefined> {
+    const [conversation] = await db
+      .select()
+      .from(chatConversations)
+      .where(and(eq(chatConversations.userId, userId), eq(chatConversations.isActive, true)))
+      .orderBy(desc(chatConversations.updatedAt))
+      .limit(1);
+    return conversation || undefined;
+  }
+
+  async updateChatConversation(id: string, updates: Partial<ChatConversation>): Promise<ChatConversation> {
+    const [conversation] = await db
+      .update(chatConversations)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(chatConversations.id, id))
+      .returning();
+    return conversation;
+  }
+
+  async deleteChatConversation(id: string): Promise<void> {
+    await db.delete(chatMessages).where(eq(chatMessages.conversationId, id));
+    await db.delete(chatConversations).where(eq(chatConversations.id, id));
+  }
+
+  // Most recent messages of a conversation, returned oldest first
+  async getConversationMessages(conversationId: string, limit = 100): Promise<ChatMessage[]> {
+    const messages = await db
+      .select()
+      .from(chatMessages)
+      .where(eq(chatMessages.conversationId, conversationId))
+      .orderBy(desc(chatMessages.createdAt))
+      .limit(limit);
+    return messages.reverse();
+  }
+
   // Explained questions implementation
   async getExplainedQuestion(userId: string, questionId: string): Promise<any | undefined> {
     const [explanation] = await db
@@ -488,6 +2338,14 @@ export class DatabaseStorage implements IStorage {
     return explanation || undefined;
   }
 
+  async getExplainedQuestionById(id: string): Promise<any | undefined> {
+    const [explanation] = await db
+      .select()
+      .from(explainedQuestions)
+      .where(eq(explainedQuestions.id, id));
+    return explanation || undefined;
+  }
+
   async createExplainedQuestion(explanation: any): Promise<any> {
     const [newExplanation] = await db
       .insert(explainedQuestions)
@@ -512,6 +2370,14 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(explainedQuestions.explainedAt));
   }
 
+  async getExplainedQuestionsByIds(userId: string, ids: string[]): Promise<ExplainedQuestion[]> {
+    if (ids.length === 0) return [];
+    return await db
+      .select()
+      .from(explainedQuestions)
+      .where(and(eq(explainedQuestions.userId, userId), inArray(explainedQuestions.id, ids)));
+  }
+
   async deleteExplainedQuestion(id: string): Promise<void> {
     await db
       .delete(explainedQuestions)
@@ -21,4 +21,11 @@ export function generateTokenExpiration(): Date {
  */
 export function isTokenExpired(expirationDate: Date): boolean {
   return new Date() > expirationDate;
-}
\ No newline at end of file
+}
+
+/**
+ * Generate a stable sha256 hash of the given content parts
+ */
+export function generateContentHash(...parts: string[]): string {
+  return crypto.createHash('sha256').update(parts.join('\u0000')).digest('hex');
+}
@@ -0,0 +1,69 @@
+// Spreadsheets run cells starting with these as formulas, so exported values are prefixed with a quote.
+// Values that already start with quotes before one are prefixed too, so parsing gives them back unchanged.
+const FORMULA_CELL = /^'*[=+\-@]/;
+
+/**
+ * Parse RFC 4180 CSV: quoted fields may contain commas, newlines and doubled quotes.
+ * Blank lines are skipped, and the formula guard added by toCsv is removed.
+ */
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const text = content.replace(/^\uFEFF/, '');
+
+  const endField = () => {
+    row.push(field.startsWith("'") && FORMULA_CELL.test(field) ? field.slice(1) : field);
+    field = '';
+  };
+
+  const endRow = () => {
+    endField();
+    if (row.length > 1 || row[0].trim() !== '') rows.push(row);
+    row = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      endField();
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) endRow();
+  return rows;
+}
+
+/**
+ * Serialize rows to CSV, quoting only the fields that need it. Cells that a spreadsheet would
+ * read as a formula get a leading quote.
+ */
+export function toCsv(rows: Array<Array<string | number | null | undefined>>): string {
+  return rows
+    .map(row => row
+      .map(value => {
+        const raw = value === null || value === undefined ? '' : String(value);
+        const text = FORMULA_CELL.test(raw) ? `'${raw}` : raw;
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+      })
+      .join(','))
+    .join('\r\n');
+}
@@ -0,0 +1,78 @@
+// Declarative badge catalog. Each badge tracks one metric; the badge engine awards it once the metric reaches
+// the target and keeps user_badges.progress up to date for progressive badges.
+
+export type BadgeRarity = 'common' | 'rare' | 'epic' | 'legendary';
+
+export type BadgeMetric =
+  | 'sessionsCompleted' // quizzes and CBT exams
+  | 'cbtExamsCompleted'
+  | 'bestScore' // best subject score, as a percentage
+  | 'studyStreak' // consecutive days with a quiz or CBT exam
+  | 'chatMessages'
+  | 'subjectsCompleted'
+  | 'focusSessionsCompleted';
+
+export type BadgeEvent = 'quiz_submitted' | 'cbt_completed' | 'focus_session_completed' | 'chat_message_sent';
+
+export interface BadgeCriteria {
+  metric: BadgeMetric;
+  target: number;
+}
+
+export interface BadgeDefinition {
+  id: string; // stored as user_badges.badge_type
+  title: string;
+  description: string;
+  icon: string; // trophy, star, zap, brain, target or award
+  color: string;
+  rarity: BadgeRarity;
+  criteria: BadgeCriteria;
+  progressive: boolean; // show progress towards the target before it unlocks
+}
+
+// A subject counts as completed once it has this many sessions at this average score
+export const SUBJECT_COMPLETION_MIN_SESSIONS = 5;
+export const SUBJECT_COMPLETION_MIN_AVERAGE = 60;
+
+// The events that can move each metric
+export const BADGE_METRIC_EVENTS: Record<BadgeMetric, BadgeEvent[]> = {
+  sessionsCompleted: ['quiz_submitted', 'cbt_completed'],
+  cbtExamsCompleted: ['cbt_completed'],
+  bestScore: ['quiz_submitted', 'cbt_completed'],
+  studyStreak: ['quiz_submitted', 'cbt_completed'],
+  chatMessages: ['chat_message_sent'],
+  subjectsCompleted: ['quiz_submitted', 'cbt_completed'],
+  focusSessionsCompleted: ['focus_session_completed'],
+};
+
+export const BADGE_CATALOG: BadgeDefinition[] = [
+  { id: 'first-quiz', title: 'First Steps', description: 'Complete your first quiz or CBT exam', icon: 'target', color: '#6B7280', rarity: 'common', criteria: { metric: 'sessionsCompleted', target: 1 }, progressive: false },
+  { id: 'quiz-regular', title: 'Quiz Regular', description: 'Complete 25 quizzes or exams', icon: 'brain', color: '#3B82F6', rarity: 'rare', criteria: { metric: 'sessionsCompleted', target: 25 }, progressive: true },
+  { id: 'quiz-veteran', title: 'Quiz Veteran', description: 'Complete 100 quizzes or exams', icon: 'trophy', color: '#8B5CF6', rarity: 'epic', criteria: { metric: 'sessionsCompleted', target: 100 }, progressive: true },
+  { id: 'high-achiever', title: 'High Achiever', description: 'Score 80% or more in a subject', icon: 'award', color: '#6B7280', rarity: 'common', criteria: { metric: 'bestScore', target: 80 }, progressive: false },
+  { id: 'perfect-score', title: 'Perfect Score', description: 'Score 100% in a subject', icon: 'star', color: '#3B82F6', rarity: 'rare', criteria: { metric: 'bestScore', target: 100 }, progressive: false },
+  { id: 'streak-3', title: 'Warming Up', description: 'Study 3 days in a row', icon: 'zap', color: '#6B7280', rarity: 'common', criteria: { metric: 'studyStreak', target: 3 }, progressive: true },
+  { id: 'streak-7', title: 'Study Streak', description: 'Study 7 days in a row', icon: 'zap', color: '#3B82F6', rarity: 'rare', criteria: { metric: 'studyStreak', target: 7 }, progressive: true },
+  { id: 'streak-30', title: 'Unstoppable', description: 'Study 30 days in a row', icon: 'zap', color: '#F59E0B', rarity: 'legendary', criteria: { metric: 'studyStreak', target: 30 }, progressive: true },
+  { id: 'test-taker', title: 'Test Taker', description: 'Complete your first CBT exam', icon: 'award', color: '#6B7280', rarity: 'common', criteria: { metric: 'cbtExamsCompleted', target: 1 }, progressive: false },
+  { id: 'exam-ready', title: 'Exam Ready', description: 'Complete 10 CBT exams', icon: 'trophy', color: '#8B5CF6', rarity: 'epic', criteria: { metric: 'cbtExamsCompleted', target: 10 }, progressive: true },
+  { id: 'chat-curious', title: 'Curious Mind', description: 'Ask the AI tutor 10 questions', icon: 'brain', color: '#6B7280', rarity: 'common', criteria: { metric: 'chatMessages', target: 10 }, progressive: true },
+  { id: 'chat-enthusiast', title: 'Chat Enthusiast', description: 'Ask the AI tutor 100 questions', icon: 'brain', color: '#3B82F6', rarity: 'rare', criteria: { metric: 'chatMessages', target: 100 }, progressive: true },
+  { id: 'subject-master', title: 'Subject Master', description: `Complete ${SUBJECT_COMPLETION_MIN_SESSIONS} sessions in a subject averaging ${SUBJECT_COMPLETION_MIN_AVERAGE}%+`, icon: 'star', color: '#3B82F6', rarity: 'rare', criteria: { metric: 'subjectsCompleted', target: 1 }, progressive: false },
+  { id: 'all-rounder', title: 'All-Rounder', description: 'Complete four subjects', icon: 'trophy', color: '#F59E0B', rarity: 'legendary', criteria: { metric: 'subjectsCompleted', target: 4 }, progressive: true },
+  { id: 'focused', title: 'In the Zone', description: 'Finish your first focus session', icon: 'target', color: '#6B7280', rarity: 'common', criteria: { metric: 'focusSessionsCompleted', target: 1 }, progressive: false },
+  { id: 'deep-worker', title: 'Deep Worker', description: 'Finish 20 focus sessions', icon: 'target', color: '#8B5CF6', rarity: 'epic', criteria: { metric: 'focusSessionsCompleted', target: 20 }, progressive: true },
+];
+
+// A badge as shown to its owner: catalog entries merged with the user's progress
+export interface BadgeStatus {
+  id: string;
+  title: string;
+  description: string;
+  icon: string;
+  color: string;
+  rarity: BadgeRarity;
+  progress: number;
+  maxProgress: number;
+  unlockedAt: string | Date | null;
+}
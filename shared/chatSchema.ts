@@ -6,10 +6,12 @@ import {
   timestamp,
   jsonb,
   integer,
-  boolean
+  boolean,
+  uniqueIndex
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { BadgeCriteria } from "./badges";
 
 // Chat messages table for storing conversation history
 export const chatMessages = pgTable("chat_messages", {
@@ -50,15 +52,36 @@ export const chatUsage = pgTable("chat_usage", {
   totalTokens: integer("total_tokens").default(0),
   modelsUsed: jsonb("models_used").$type<Record<string, number>>().default({}),
   averageResponseTime: integer("average_response_time").default(0), // in milliseconds
+  failedResponses: integer("failed_responses").default(0),
+  providerStats: jsonb("provider_stats").$type<Record<string, AIProviderUsageStats>>().default({}),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Per-provider totals for one user and day; latency covers failed attempts too
+export interface AIProviderUsageStats {
+  calls: number;
+  failures: number;
+  totalLatencyMs: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// One attempt against an AI provider, as recorded by the provider registry
+export interface AIUsageEvent {
+  provider: string;
+  task: string;
+  latencyMs: number;
+  inputTokens: number;
+  outputTokens: number;
+  success: boolean;
+}
+
 // User badges for achievements and engagement
 export const userBadges = pgTable("user_badges", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull(),
-  badgeType: varchar("badge_type").notNull(), // 'study_streak', 'quiz_master', 'chat_enthusiast', 'early_adopter', etc.
+  badgeType: varchar("badge_type").notNull(), // id of a BADGE_CATALOG entry
   title: varchar("title").notNull(),
   description: text("description").notNull(),
   icon: varchar("icon").notNull(),
@@ -67,15 +90,11 @@ export const userBadges = pgTable("user_badges", {
   isVisible: boolean("is_visible").default(true),
   progress: integer("progress").default(0), // for progressive badges
   maxProgress: integer("max_progress").default(1),
-  unlockedAt: timestamp("unlocked_at").defaultNow(),
-  criteria: jsonb("criteria").$type<{
-    studyDays?: number;
-    quizScore?: number;
-    chatMessages?: number;
-    examsPassed?: number;
-    subjectsCompleted?: number;
-  }>(),
-});
+  unlockedAt: timestamp("unlocked_at"), // null while a progressive badge is still in progress
+  criteria: jsonb("criteria").$type<BadgeCriteria>(),
+}, (table) => [
+  uniqueIndex("idx_user_badges_user_type").on(table.userId, table.badgeType),
+]);
 
 // Types
 export type ChatMessage = typeof chatMessages.$inferSelect;
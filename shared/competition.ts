@@ -0,0 +1,60 @@
+// Live competition protocol shared by the WebSocket server and clients.
+// Clients connect to COMPETITION_SOCKET_PATH?competitionId=<id> with their session cookie.
+
+export const COMPETITION_SOCKET_PATH = "/ws/competitions";
+
+export type CompetitionStatus = 'waiting' | 'running' | 'finished';
+
+// Points for a correct answer, plus a bonus that shrinks linearly to zero over the question's time
+export const COMPETITION_CORRECT_POINTS = 100;
+export const COMPETITION_MAX_SPEED_BONUS = 50;
+
+// Limits applied when a competition is created
+export const COMPETITION_MIN_QUESTIONS = 5;
+export const COMPETITION_MAX_QUESTIONS = 50;
+export const COMPETITION_MIN_SECONDS_PER_QUESTION = 10;
+
+export interface CompetitionLeaderboardEntry {
+  userId: string;
+  nickname: string;
+  score: number;
+  correct: number;
+  answered: number;
+  rank: number;
+}
+
+// A question as sent to players: no correct answer or explanation
+export interface CompetitionQuestion {
+  id: string;
+  question: string;
+  options: Array<{ id: string; text: string }>;
+  imageUrl: string | null;
+}
+
+export type CompetitionClientMessage =
+  | { type: 'start' } // host only, while waiting
+  | { type: 'answer'; questionId: string; answer: string };
+
+export type CompetitionServerMessage =
+  | {
+      type: 'state';
+      status: CompetitionStatus;
+      hostId: string;
+      questionsCount: number;
+      leaderboard: CompetitionLeaderboardEntry[];
+      current?: { index: number; question: CompetitionQuestion; endsAt: string; answered: boolean };
+    }
+  | { type: 'leaderboard'; leaderboard: CompetitionLeaderboardEntry[] }
+  | { type: 'question'; index: number; total: number; question: CompetitionQuestion; endsAt: string }
+  | { type: 'answer_received'; questionId: string }
+  | {
+      type: 'question_result';
+      index: number;
+      questionId: string;
+      correctAnswer: string;
+      // Only set in the message sent to each player
+      yourResult?: { answer: string | null; isCorrect: boolean; points: number };
+      leaderboard: CompetitionLeaderboardEntry[];
+    }
+  | { type: 'finished'; leaderboard: CompetitionLeaderboardEntry[] }
+  | { type: 'error'; message: string };
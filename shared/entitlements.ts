@@ -0,0 +1,38 @@
+// Plans that unlock codes and payments grant, and the access summary derived from a user's entitlements
+
+export type EntitlementKind = 'premium' | 'cbt_attempts';
+export type EntitlementSource = 'unlock_code' | 'payment' | 'admin' | 'legacy';
+
+export interface EntitlementPlan {
+  id: string;
+  name: string;
+  kind: EntitlementKind;
+  durationDays: number | null; // null never expires
+  cbtAttempts?: number; // for cbt_attempts plans
+  priceKobo?: number; // plans without a price are only given out through codes or by admins
+}
+
+export const ENTITLEMENT_PLANS: Record<string, EntitlementPlan> = {
+  'cbt-single': { id: 'cbt-single', name: 'Single CBT attempt', kind: 'cbt_attempts', durationDays: 30, cbtAttempts: 1 },
+  'premium-30d': { id: 'premium-30d', name: '30 days premium', kind: 'premium', durationDays: 30, priceKobo: 300000 },
+  'premium-lifetime': { id: 'premium-lifetime', name: 'Lifetime premium', kind: 'premium', durationDays: null },
+};
+
+// Plan bought through /api/payment(s)/initialize when the client doesn't name one
+export const DEFAULT_PAYMENT_PLAN = 'premium-30d';
+
+// Practice sessions a free user gets before premium is required
+export const FREE_TRIAL_LIMIT = 3;
+
+export function getEntitlementPlan(planId: string): EntitlementPlan | undefined {
+  return Object.prototype.hasOwnProperty.call(ENTITLEMENT_PLANS, planId) ? ENTITLEMENT_PLANS[planId] : undefined;
+}
+
+export interface AccessSummary {
+  isPremium: boolean;
+  premiumUntil: string | null; // ISO date; null when premium doesn't expire or the user isn't premium
+  cbtAttemptsRemaining: number;
+  trialUsed: number;
+  trialRemaining: number;
+  canStartCbt: boolean;
+}
@@ -0,0 +1,142 @@
+// Exam countdown plans: a day-by-day syllabus up to the exam date with mock-exam checkpoints and revision
+// days at the end, written into the study scheduler and rebalanced as the student goes.
+import type { ExamPlan, StudyScheduler } from "./schema";
+
+export type ExamType = 'UTME' | 'WASSCE' | 'NECO' | 'POST_UTME';
+
+export const EXAM_PLAN_EXAMS: Array<{
+  id: ExamType;
+  name: string;
+  maxSubjects: number;
+  requiredSubject?: string; // must be one of the plan's subjects
+  mockMinutes: number; // length of a mock-exam checkpoint
+}> = [
+  { id: 'UTME', name: 'JAMB UTME', maxSubjects: 4, requiredSubject: 'English', mockMinutes: 120 },
+  { id: 'WASSCE', name: 'WAEC WASSCE', maxSubjects: 9, mockMinutes: 120 },
+  { id: 'NECO', name: 'NECO SSCE', maxSubjects: 9, mockMinutes: 120 },
+  { id: 'POST_UTME', name: 'Post-UTME', maxSubjects: 4, mockMinutes: 60 },
+];
+
+// Syllabus topics per subject; subjects not listed use the topics of their bank questions
+export const STUDY_PLAN_TOPICS = {
+  English: [
+    "Grammar Fundamentals",
+    "Reading Comprehension",
+    "Essay Writing",
+    "Vocabulary Building",
+    "Literary Devices",
+    "Oral English"
+  ],
+  Mathematics: [
+    "Algebra",
+    "Geometry",
+    "Trigonometry",
+    "Calculus",
+    "Statistics",
+    "Number Theory",
+    "Coordinate Geometry",
+    "Sequences and Series"
+  ],
+  Biology: [
+    "Cell Biology",
+    "Genetics",
+    "Ecology",
+    "Evolution",
+    "Human Anatomy",
+    "Plant Biology",
+    "Microbiology"
+  ],
+  Physics: [
+    "Mechanics",
+    "Thermodynamics",
+    "Electromagnetism",
+    "Optics",
+    "Atomic Physics",
+    "Waves and Sound"
+  ],
+  Chemistry: [
+    "Atomic Structure",
+    "Chemical Bonding",
+    "Organic Chemistry",
+    "Inorganic Chemistry",
+    "Physical Chemistry",
+    "Electrochemistry"
+  ],
+  Economics: [
+    "Microeconomics",
+    "Macroeconomics",
+    "International Trade",
+    "Money and Banking",
+    "Development Economics"
+  ],
+  Government: [
+    "Constitutional Law",
+    "Political Systems",
+    "Public Administration",
+    "International Relations",
+    "Political Theory"
+  ],
+  Literature: [
+    "Poetry Analysis",
+    "Prose Fiction",
+    "Drama Studies",
+    "Literary Criticism",
+    "African Literature",
+    "World Literature"
+  ]
+};
+
+export const EXAM_PLAN_MIN_DAYS = 3;
+export const EXAM_PLAN_MAX_DAYS = 365;
+export const EXAM_PLAN_MIN_DAILY_HOURS = 0.5;
+export const EXAM_PLAN_MAX_DAILY_HOURS = 8;
+export const EXAM_PLAN_SESSION_MINUTES = 45;
+
+// A mock exam every this many syllabus days, and one to open the revision days
+export const EXAM_PLAN_MOCK_EVERY_DAYS = 7;
+
+// The last part of the plan is kept for revision only: this share of the days, between 1 and 14 of them
+export const EXAM_PLAN_REVISION_SHARE = 0.15;
+export const EXAM_PLAN_MAX_REVISION_DAYS = 14;
+
+// Exam reminders go out this many days before the exam
+export const EXAM_PLAN_REMINDER_DAYS = [30, 14, 7, 3, 1, 0];
+
+export type ExamPlanStatus = 'active' | 'completed' | 'cancelled';
+
+export interface ExamPlanSubject {
+  subjectId: string;
+  subjectName: string;
+}
+
+export interface ExamPlanTopic extends ExamPlanSubject {
+  topic: string;
+  covered: boolean; // a study session on it was completed
+  weak: boolean; // the student's results show it as weak; it gets extra sessions
+}
+
+export interface ExamPlanRequest {
+  examType: ExamType;
+  examDate: string; // YYYY-MM-DD
+  subjectIds: string[];
+  dailyHours: number;
+}
+
+// The active plan with how it is going
+export interface ExamPlanOverview {
+  plan: ExamPlan;
+  examName: string;
+  daysLeft: number;
+  topicsCovered: number;
+  topicsTotal: number;
+  missedSessions: number; // skipped since the plan was last laid out
+  nextSession: StudyScheduler | null;
+  nextMock: StudyScheduler | null;
+}
+
+/**
+ * Whole days from one local day (YYYY-MM-DD) to another
+ */
+export function daysBetween(fromDayKey: string, toDayKey: string): number {
+  return Math.round((Date.parse(`${toDayKey}T00:00:00Z`) - Date.parse(`${fromDayKey}T00:00:00Z`)) / (24 * 60 * 60 * 1000));
+}
@@ -0,0 +1,63 @@
+// Focus sessions: focus/break cycles kept on the server, distraction signals reported by the browser and
+// scored server-side, and the quizzes and notes done while a session ran.
+
+export const FOCUS_SESSION_TYPES = ['deep_focus', 'pomodoro', 'timed_review', 'exam_prep'] as const;
+export type FocusSessionType = typeof FOCUS_SESSION_TYPES[number];
+
+export type FocusPhase = 'focus' | 'break';
+
+export type FocusAction = 'quiz' | 'notes' | 'calculator' | 'wiki';
+export type FocusAllowedActions = Record<FocusAction, boolean>;
+
+export const FOCUS_DEFAULT_ALLOWED_ACTIONS: FocusAllowedActions = { quiz: true, notes: true, calculator: false, wiki: false };
+
+// App sections and the action each one needs; opening one whose action the session doesn't allow is a distraction
+export const FOCUS_SECTION_ACTIONS: Record<string, FocusAction> = {
+  quiz: 'quiz',
+  practice: 'quiz',
+  cbt: 'quiz',
+  review: 'quiz',
+  'short-notes': 'notes',
+  'explained-questions': 'notes',
+  'study-plan': 'notes',
+  calculator: 'calculator',
+  wiki: 'wiki',
+};
+
+export const FOCUS_DISTRACTION_TYPES = ['tab_hidden', 'window_blur', 'blocked_section'] as const;
+export type FocusDistractionType = typeof FOCUS_DISTRACTION_TYPES[number];
+
+// Focus score points each distraction costs; the score starts at 100
+export const FOCUS_DISTRACTION_PENALTIES: Record<FocusDistractionType, number> = {
+  tab_hidden: 5,
+  window_blur: 3,
+  blocked_section: 10,
+};
+
+// Switching tabs fires both blur and visibility events; signals this close together count once
+export const FOCUS_DISTRACTION_DEBOUNCE_MS = 2000;
+
+export interface FocusDistractionEvent {
+  type: FocusDistractionType;
+  at: string; // ISO timestamp, set by the server
+  section?: string; // for blocked_section
+}
+
+export interface FocusCompletedTask {
+  type: 'quiz' | 'cbt' | 'note';
+  id: string; // the quiz session, CBT session or short note
+  subject: string;
+  score?: number;
+  timeSpent: number; // seconds
+}
+
+/**
+ * Seconds left in the session's current phase: counted down from phaseEndsAt while running, frozen while paused
+ */
+export function getFocusTimeRemaining(
+  session: { isPaused: boolean | null; phaseEndsAt: Date | string | null; timeRemaining: number | null },
+  now: Date = new Date()
+): number {
+  if (session.isPaused || !session.phaseEndsAt) return session.timeRemaining || 0;
+  return Math.max(0, Math.ceil((new Date(session.phaseEndsAt).getTime() - now.getTime()) / 1000));
+}
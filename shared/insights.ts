@@ -0,0 +1,83 @@
+// Weekly study insights: derived each week from quiz and CBT results, focus sessions and scheduler history,
+// with recommendations that can adjust the student's scheduler when they opt in.
+import { SCHEDULER_UTC_OFFSET_MINUTES, fromLocalTime, toLocalDayKey } from "./scheduler";
+
+// The parts of the day are named like the scheduler's preferred times (SCHEDULER_NAMED_TIMES)
+export type StudyTimeOfDay = 'morning' | 'afternoon' | 'evening' | 'night';
+
+// Points of average score a subject has to move week on week to count as improving or declining
+export const INSIGHT_TREND_THRESHOLD = 5;
+// Subjects averaging below this get extra priority
+export const INSIGHT_WEAK_SUBJECT_SCORE = 50;
+// Subjects averaging at least this, and not declining, can take harder tasks
+export const INSIGHT_STRONG_SUBJECT_SCORE = 80;
+export const INSIGHT_LOW_FOCUS_SCORE = 70;
+// Share of the week's scheduled tasks skipped before the schedule counts as too heavy
+export const INSIGHT_SKIP_RATE = 0.3;
+
+export interface InsightProductiveHour {
+  hour: number; // local hour, 0-23
+  productivity: number; // 1-10 scale
+  tasksCompleted: number;
+}
+
+export interface InsightDistractionPattern {
+  type: string;
+  frequency: number;
+  timeOfDay: string;
+}
+
+export interface InsightSubjectPerformance {
+  subject: string;
+  averageScore: number;
+  timeSpent: number; // seconds
+  improvement: number; // change in average score from the week before
+}
+
+export interface InsightRecommendation {
+  type: string; // subject, timing, focus or schedule
+  message: string;
+  priority: string; // low, medium, high
+  actionRequired: boolean;
+}
+
+export interface InsightAdjustments {
+  scheduleChanges: Array<{ subject: string; newTime: string; reason: string }>;
+  difficultyAdjustments: Array<{ subject: string; newDifficulty: string; reason: string }>;
+  priorityUpdates: Array<{ subject: string; newPriority: string; reason: string }>;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export function getLocalHour(at: Date): number {
+  return new Date(at.getTime() + SCHEDULER_UTC_OFFSET_MINUTES * MINUTE_MS).getUTCHours();
+}
+
+// Morning from 05:00, afternoon from 12:00, evening from 17:00 and night from 21:00, local time
+export function getTimeOfDay(hour: number): StudyTimeOfDay {
+  if (hour >= 21 || hour < 5) return 'night';
+  if (hour >= 17) return 'evening';
+  if (hour >= 12) return 'afternoon';
+  return 'morning';
+}
+
+/**
+ * The local week (Monday to Sunday) an instant falls in: its Monday as YYYY-MM-DD, the instants it starts
+ * and ends at, and its ISO week number
+ */
+export function getStudyWeek(at: Date): { weekKey: string; start: Date; end: Date; weekOfYear: number } {
+  const day = toLocalDayKey(at);
+  const weekday = (new Date(`${day}T00:00:00Z`).getUTCDay() + 6) % 7; // Monday = 0
+  const monday = new Date(Date.parse(`${day}T00:00:00Z`) - weekday * DAY_MS);
+  const weekKey = monday.toISOString().slice(0, 10);
+  const start = fromLocalTime(weekKey, '00:00');
+
+  // ISO week: the week with the year's first Thursday is week 1
+  const thursday = new Date(monday.getTime() + 3 * DAY_MS);
+  const firstThursday = new Date(Date.UTC(thursday.getUTCFullYear(), 0, 4));
+  const firstMonday = new Date(firstThursday.getTime() - ((firstThursday.getUTCDay() + 6) % 7) * DAY_MS);
+  const weekOfYear = Math.round((monday.getTime() - firstMonday.getTime()) / (7 * DAY_MS)) + 1;
+
+  return { weekKey, start, end: new Date(start.getTime() + 7 * DAY_MS), weekOfYear };
+}
@@ -0,0 +1,54 @@
+// Leaderboards are computed from completed quiz and CBT sessions and ranked by accuracy,
+// so a few careful sessions can outrank a pile of rushed ones.
+
+export type LeaderboardWindow = 'today' | 'week' | 'month' | 'all';
+export type LeaderboardExamType = 'utme' | 'wassce' | 'neco' | 'post-utme';
+
+export const LEADERBOARD_WINDOWS: Array<{ id: LeaderboardWindow; name: string }> = [
+  { id: 'today', name: 'Today' },
+  { id: 'week', name: 'This Week' },
+  { id: 'month', name: 'This Month' },
+  { id: 'all', name: 'All Time' },
+];
+
+export const LEADERBOARD_EXAM_TYPES: Array<{ id: LeaderboardExamType; name: string }> = [
+  { id: 'utme', name: 'UTME' },
+  { id: 'wassce', name: 'WASSCE' },
+  { id: 'neco', name: 'NECO' },
+  { id: 'post-utme', name: 'Post-UTME' },
+];
+
+// Questions a student must have answered in the window before they're ranked
+export const LEADERBOARD_MIN_ATTEMPTS = 20;
+export const LEADERBOARD_DEFAULT_LIMIT = 50;
+export const LEADERBOARD_MAX_LIMIT = 100;
+
+export interface LeaderboardFilters {
+  window: LeaderboardWindow;
+  subjectId?: string;
+  examType?: LeaderboardExamType;
+  school?: string;
+  minAttempts: number;
+  limit: number;
+}
+
+export interface LeaderboardStanding {
+  rank: number | null; // null until the student reaches minAttempts
+  userId: string;
+  nickname: string;
+  avatarUrl: string | null;
+  school: string | null;
+  isPremium: boolean;
+  sessions: number;
+  correct: number;
+  attempted: number;
+  accuracy: number; // percentage, one decimal place
+}
+
+export interface LeaderboardResponse {
+  filters: LeaderboardFilters;
+  entries: LeaderboardStanding[];
+  totalRanked: number;
+  // The requesting student's own standing, even when outside the top entries
+  me: LeaderboardStanding | null;
+}
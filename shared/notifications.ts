@@ -0,0 +1,75 @@
+// Templated notifications delivered by email, SMS or the in-app inbox, honouring each user's channel choices.
+
+export type NotificationChannel = 'email' | 'sms' | 'in_app';
+
+export const NOTIFICATION_CHANNELS: Array<{ id: NotificationChannel; name: string }> = [
+  { id: 'email', name: 'Email' },
+  { id: 'sms', name: 'SMS' },
+  { id: 'in_app', name: 'In-app' },
+];
+
+export type NotificationTemplate =
+  | 'verification'
+  | 'welcome'
+  | 'payment_receipt'
+  | 'access_activated'
+  | 'exam_reminder'
+  | 'streak_at_risk'
+  | 'scheduler_reminder'
+  | 'question_report_outcome';
+
+export interface NotificationTemplateInfo {
+  id: NotificationTemplate;
+  name: string;
+  defaultChannels: NotificationChannel[];
+  // Transactional templates always go out on their default channels, whatever the user prefers
+  configurable: boolean;
+}
+
+export const NOTIFICATION_TEMPLATES: NotificationTemplateInfo[] = [
+  { id: 'verification', name: 'Email verification', defaultChannels: ['email'], configurable: false },
+  { id: 'welcome', name: 'Welcome', defaultChannels: ['email', 'in_app'], configurable: false },
+  { id: 'payment_receipt', name: 'Payment receipts', defaultChannels: ['email', 'in_app'], configurable: true },
+  { id: 'access_activated', name: 'Premium activation', defaultChannels: ['email', 'sms', 'in_app'], configurable: true },
+  { id: 'exam_reminder', name: 'Exam reminders', defaultChannels: ['sms', 'in_app'], configurable: true },
+  { id: 'streak_at_risk', name: 'Streak at risk', defaultChannels: ['in_app'], configurable: true },
+  { id: 'scheduler_reminder', name: 'Study schedule reminders', defaultChannels: ['email', 'in_app'], configurable: true },
+  { id: 'question_report_outcome', name: 'Question report updates', defaultChannels: ['email', 'in_app'], configurable: true },
+];
+
+// Stored in users.notification_preferences; templates missing here use their default channels
+export type NotificationPreferences = Partial<Record<NotificationTemplate, NotificationChannel[]>>;
+
+// pending: waiting for its first or next attempt; sending: claimed by a worker; sent and failed are final
+export type NotificationStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+export interface NotificationAttempt {
+  at: string; // ISO timestamp
+  transport: string;
+  success: boolean;
+  error?: string;
+}
+
+export const NOTIFICATION_MAX_ATTEMPTS = 5;
+// Retries back off exponentially from this delay
+export const NOTIFICATION_RETRY_BASE_MS = 60 * 1000;
+
+export interface NotificationPreferencesResponse {
+  phoneNumber: string | null;
+  preferences: NotificationPreferences;
+  templates: NotificationTemplateInfo[];
+}
+
+/**
+ * Phone number in E.164 form, reading local Nigerian numbers (080..., 234...) as +234.
+ * Returns null when the input can't be a phone number.
+ */
+export function normalizePhoneNumber(raw: string): string | null {
+  const compact = raw.trim().replace(/[\s\-().]/g, '');
+  const international = /^0\d{10}$/.test(compact)
+    ? `+234${compact.slice(1)}`
+    : /^234\d{10}$/.test(compact)
+      ? `+${compact}`
+      : compact;
+  return /^\+[1-9]\d{7,14}$/.test(international) ? international : null;
+}
@@ -0,0 +1,68 @@
+// Admin question-bank management: search filters, the bulk import/export format and audit entries.
+
+export const QUESTION_DIFFICULTIES = ['easy', 'medium', 'hard'] as const;
+export type QuestionDifficulty = typeof QUESTION_DIFFICULTIES[number];
+
+export const QUESTION_OPTION_IDS = ['A', 'B', 'C', 'D'] as const;
+
+// Columns of the CSV import and export format, in order. JSON rows use the same keys,
+// or an `options` array of { id, text } in place of optionA-optionD.
+export const QUESTION_CSV_COLUMNS = [
+  'id',
+  'subject',
+  'question',
+  'optionA',
+  'optionB',
+  'optionC',
+  'optionD',
+  'correctAnswer',
+  'explanation',
+  'imageUrl',
+  'difficulty',
+  'topic',
+  'year',
+  'examType',
+] as const;
+export type QuestionCsvColumn = typeof QUESTION_CSV_COLUMNS[number];
+
+export const QUESTION_SEARCH_MAX_PAGE_SIZE = 100;
+export const QUESTION_IMPORT_MAX_ROWS = 2000;
+export const QUESTION_EXPORT_MAX_ROWS = 5000; // per export file; larger exports are split into parts
+
+export type QuestionFileFormat = 'csv' | 'json';
+
+export interface QuestionSearchFilters {
+  search?: string; // matched against the question text
+  subjectId?: string;
+  year?: string;
+  examType?: string;
+  topic?: string;
+  difficulty?: QuestionDifficulty;
+  source?: string;
+}
+
+export interface QuestionSearchPage<T> {
+  questions: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export interface QuestionImportRowError {
+  row: number; // 1-based data row, not counting the CSV header
+  errors: string[];
+}
+
+export interface QuestionImportResult {
+  total: number;
+  inserted: number;
+  duplicates: number;
+  invalid: number;
+  dryRun: boolean;
+  errors: QuestionImportRowError[];
+}
+
+export type QuestionAuditAction = 'create' | 'update' | 'delete' | 'import';
+
+// Field-level changes; creates and imports record every field under `to`, deletes under `from`
+export type QuestionAuditChanges = Record<string, { from?: unknown; to?: unknown }>;
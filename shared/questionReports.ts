@@ -0,0 +1,29 @@
+// Student reports of faulty questions and the admin moderation workflow around them.
+
+export type QuestionReportType = 'incorrect_answer' | 'unclear_question' | 'typo' | 'other';
+
+export const QUESTION_REPORT_TYPES: Array<{ id: QuestionReportType; name: string }> = [
+  { id: 'incorrect_answer', name: 'Wrong answer' },
+  { id: 'unclear_question', name: 'Unclear wording' },
+  { id: 'typo', name: 'Typo' },
+  { id: 'other', name: 'Other' },
+];
+
+// pending: new; reviewed: triaged by an admin but not closed; resolved and dismissed close a report
+export type QuestionReportStatus = 'pending' | 'reviewed' | 'resolved' | 'dismissed';
+
+export const OPEN_QUESTION_REPORT_STATUSES: QuestionReportStatus[] = ['pending', 'reviewed'];
+
+// A bank question is hidden from new quizzes once this many students have open reports on it
+export const QUESTION_REPORT_HIDE_THRESHOLD = 3;
+
+export const QUESTION_REPORT_DESCRIPTION_MAX_LENGTH = 1000;
+
+// Fields of the question an admin can correct while resolving a report
+export interface QuestionReportCorrection {
+  question?: string;
+  options?: Array<{ id: string; text: string }>;
+  correctAnswer?: string;
+  explanation?: string;
+  imageUrl?: string;
+}
@@ -0,0 +1,96 @@
+// Study scheduler tasks: reminders ahead of each task, housekeeping of tasks that were never done,
+// adapting tasks to how they went and planning the week ahead.
+
+// Reminders go out this long before a task's scheduled start
+export const SCHEDULER_REMINDER_LEAD_MINUTES = 30;
+
+// A task still not started or finished this long after its start is marked skipped
+export const SCHEDULER_OVERDUE_HOURS = 24;
+
+export type SchedulerTaskStatus = 'pending' | 'active' | 'completed' | 'skipped';
+
+export const SCHEDULER_TASK_TYPES: Array<{ id: string; name: string }> = [
+  { id: 'quiz', name: 'Quiz' },
+  { id: 'review', name: 'Review' },
+  { id: 'notes', name: 'Notes' },
+  { id: 'practice', name: 'Practice' },
+  { id: 'mock', name: 'Mock exam' },
+];
+
+export type SchedulerTaskSource = 'manual' | 'plan' | 'exam_plan';
+
+export const SCHEDULER_PRIORITIES = ['low', 'medium', 'high', 'urgent'] as const;
+export const SCHEDULER_DIFFICULTIES = ['easy', 'medium', 'hard'] as const;
+
+// Results reported when a task is finished, each a percentage
+export interface SchedulerPerformance {
+  score?: number;
+  accuracy?: number;
+  timeEfficiency?: number; // share of the planned time actually studied
+  improvement?: number;
+}
+
+// Scheduled times (HH:MM) are Nigerian local time, which is UTC+1 all year
+export const SCHEDULER_UTC_OFFSET_MINUTES = 60;
+
+export const SCHEDULER_WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+export type SchedulerWeekday = typeof SCHEDULER_WEEKDAYS[number];
+
+// When the student can study, kept on their study progress rows. No days ticked means every day.
+// With autoAdjust, weekly insights may move the preferred time and reprioritise upcoming tasks.
+export type StudyAvailability = Partial<Record<SchedulerWeekday, boolean>> & { preferredTime?: string; autoAdjust?: boolean };
+
+export const SCHEDULER_DEFAULT_STUDY_TIME = '16:00';
+
+// Named preferred times map to a start time
+export const SCHEDULER_NAMED_TIMES: Record<string, string> = {
+  morning: '07:00',
+  afternoon: '14:00',
+  evening: '17:00',
+  night: '20:00',
+};
+
+// Week planner: sessions of this length with a break between them
+export const SCHEDULER_PLAN_SESSION_MINUTES = 30;
+export const SCHEDULER_PLAN_BREAK_MINUTES = 10;
+export const SCHEDULER_PLAN_DAYS = 7;
+export const SCHEDULER_PLAN_DEFAULT_DAILY_MINUTES = 60;
+export const SCHEDULER_PLAN_MAX_DAILY_MINUTES = 240;
+
+// Days until a subject is worth revisiting, by its adaptive score (1 = struggling, 10 = mastered)
+export const SCHEDULER_REVISIT_DAYS = [1, 1, 2, 2, 3, 4, 5, 7, 10, 14];
+
+export interface WeekPlanRequest {
+  dailyMinutes?: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * The local calendar day (YYYY-MM-DD) of an instant
+ */
+export function toLocalDayKey(at: Date): string {
+  return new Date(at.getTime() + SCHEDULER_UTC_OFFSET_MINUTES * MINUTE_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * The instant of a local HH:MM on a local day
+ */
+export function fromLocalTime(dayKey: string, time: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  const midnightUtc = Date.parse(`${dayKey}T00:00:00Z`);
+  return new Date(midnightUtc + (hours * 60 + minutes - SCHEDULER_UTC_OFFSET_MINUTES) * MINUTE_MS);
+}
+
+export function formatMinutesAsTime(totalMinutes: number): string {
+  return `${String(Math.floor(totalMinutes / 60)).padStart(2, '0')}:${String(totalMinutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Minutes after local midnight to start studying: the preferred time (HH:MM or a named time) or the default
+ */
+export function resolveStudyStartMinutes(preferredTime?: string): number {
+  const time = (preferredTime && SCHEDULER_NAMED_TIMES[preferredTime.toLowerCase()]) || preferredTime;
+  const [hours, minutes] = (time && /^\d{2}:\d{2}$/.test(time) ? time : SCHEDULER_DEFAULT_STUDY_TIME).split(':').map(Number);
+  return hours * 60 + minutes;
+}
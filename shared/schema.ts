@@ -8,11 +8,20 @@ import {
   timestamp,
   jsonb,
   index,
-  serial
+  uniqueIndex,
+  real,
+  serial,
+  customType
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { CbtAnswerEvent, CbtGradingReport, CbtSection, CbtSubjectScore } from "./utme";
+import type { QuestionAuditChanges } from "./questionBank";
+import type { NotificationAttempt, NotificationPreferences } from "./notifications";
+import type { ExamPlanSubject, ExamPlanTopic } from "./examPlan";
+import type { InsightAdjustments, InsightDistractionPattern, InsightProductiveHour, InsightRecommendation, InsightSubjectPerformance } from "./insights";
+import { FOCUS_DEFAULT_ALLOWED_ACTIONS, type FocusAllowedActions, type FocusCompletedTask, type FocusDistractionEvent, type FocusPhase } from "./focus";
 
 // Import chat-related schemas
 export * from './chatSchema';
@@ -37,6 +46,9 @@ export const users = pgTable("users", {
   firstName: varchar("first_name"),
   lastName: varchar("last_name"),
   avatarUrl: varchar("avatar_url"),
+  school: varchar("school"), // optional school or study group, used to scope leaderboards
+  phoneNumber: varchar("phone_number"), // E.164, for SMS notifications
+  notificationPreferences: jsonb("notification_preferences").$type<NotificationPreferences>().default({}),
   isPremium: boolean("is_premium").default(false),
   isAdmin: boolean("is_admin").default(false),
   activationCode: varchar("activation_code"),
@@ -77,9 +89,16 @@ export const questions = pgTable("questions", {
   difficulty: varchar("difficulty").default("medium"),
   topic: varchar("topic"),
   year: varchar("year"), // For ALOC API questions
-  examType: varchar("exam_type"), // utme, postutme, wassce, neco
+  examType: varchar("exam_type"), // utme, post-utme, wassce, neco
+  source: varchar("source").default("manual"), // manual, import, aloc, ai
+  sourceId: varchar("source_id"), // id of the question at its source (e.g. ALOC question id)
+  contentHash: varchar("content_hash").unique(), // sha256 of normalized subject, stem and options for deduplication
+  aiGenerated: boolean("ai_generated").default(false),
+  hiddenAt: timestamp("hidden_at"), // set while enough students have open reports on it; hidden questions aren't served to new quizzes
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  index("idx_questions_subject_exam_year").on(table.subjectId, table.examType, table.year),
+]);
 
 // Quiz sessions table
 export const quizSessions = pgTable("quiz_sessions", {
@@ -144,6 +163,7 @@ export const studyProgress = pgTable("study_progress", {
   currentStreak: integer("current_streak").default(0), // days studied consecutively
   longestStreak: integer("longest_streak").default(0),
   lastStudyDate: timestamp("last_study_date").defaultNow(),
+  streakReminderSentAt: timestamp("streak_reminder_sent_at"), // last streak_at_risk reminder for the subject
   weeklyGoal: integer("weekly_goal").default(5), // sessions per week
   weeklyProgress: integer("weekly_progress").default(0),
   monthlyGoal: integer("monthly_goal").default(20), // sessions per month
@@ -151,6 +171,7 @@ export const studyProgress = pgTable("study_progress", {
   difficultyLevel: varchar("difficulty_level").default("beginner"), // beginner, intermediate, advanced
   weakTopics: jsonb("weak_topics").$type<string[]>().default([]),
   strongTopics: jsonb("strong_topics").$type<string[]>().default([]),
+  topicStats: jsonb("topic_stats").$type<Record<string, { correct: number; total: number }>>().default({}), // running totals behind weak/strong topics
   studySchedule: jsonb("study_schedule").$type<{
     monday?: boolean;
     tuesday?: boolean;
@@ -160,10 +181,13 @@ export const studyProgress = pgTable("study_progress", {
     saturday?: boolean;
     sunday?: boolean;
     preferredTime?: string;
+    autoAdjust?: boolean; // let weekly insights adjust the scheduler
   }>().default({}),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow()
-});
+}, (table) => [
+  uniqueIndex("idx_study_progress_user_subject").on(table.userId, table.subjectId),
+]);
 
 // Payment transactions table for Paystack integration
 export const payments = pgTable("payments", {
@@ -173,9 +197,20 @@ export const payments = pgTable("payments", {
   paystackReference: varchar("paystack_reference"),
   amount: integer("amount").notNull(), // amount in kobo
   email: varchar("email").notNull(),
-  status: varchar("status").default("pending"), // pending, success, failed
+  status: varchar("status").default("pending"), // pending, success, failed, refunded
   unlockCode: varchar("unlock_code"), // generated unlock code for manual entry
+  planId: varchar("plan_id").default("premium-30d"), // plan granted once the payment succeeds
   paymentMethod: varchar("payment_method").default("paystack"), // paystack, manual
+  fulfilledAt: timestamp("fulfilled_at"), // when the plan was granted; set once per payment
+  refundedAt: timestamp("refunded_at"),
+  webhookEvents: jsonb("webhook_events").$type<Array<{
+    key: string; // event name and Paystack id, used to spot redeliveries
+    event: string;
+    receivedAt: string;
+    outcome: 'fulfilled' | 'already_fulfilled' | 'refunded' | 'recorded' | 'rejected';
+    amount?: number;
+    note?: string;
+  }>>().default([]),
   createdAt: timestamp("created_at").defaultNow(),
   completedAt: timestamp("completed_at")
 });
@@ -201,17 +236,24 @@ export const cbtSessions = pgTable("cbt_sessions", {
     imageUrl?: string;
     year?: string;
     examType?: string;
+    topic?: string;
   }>>().default([]),
-  userAnswers: jsonb("user_answers").$type<Record<string, string>>().default({}),
+  userAnswers: jsonb("user_answers").$type<Record<string, string>>().default({}), // keyed by question index
+  answerLog: jsonb("answer_log").$type<CbtAnswerEvent[]>().default([]),
   currentQuestionIndex: integer("current_question_index").default(0),
   timeAllowed: integer("time_allowed").default(7200), // 2 hours in seconds
-  timeRemaining: integer("time_remaining").default(7200),
+  timeRemaining: integer("time_remaining").default(7200), // snapshot only; the live value is derived from startedAt, timeAllowed and pauses
   isActive: boolean("is_active").default(true),
   isPaused: boolean("is_paused").default(false),
+  pauses: jsonb("pauses").$type<Array<{ pausedAt: string; resumedAt?: string }>>().default([]), // ISO timestamps; time spent paused does not count against timeAllowed
   isCompleted: boolean("is_completed").default(false),
   currentSubjectIndex: integer("current_subject_index").default(0),
-  totalQuestions: integer("total_questions").default(160), // 40 questions per subject * 4 subjects
-  questionsPerSubject: integer("questions_per_subject").default(40),
+  totalQuestions: integer("total_questions").default(180), // 60 English + 40 for each of the other 3 subjects
+  questionsPerSubject: integer("questions_per_subject").default(40), // non-English subjects; English always has 60
+  sections: jsonb("sections").$type<CbtSection[]>().default([]), // one per subject, English first
+  subjectScores: jsonb("subject_scores").$type<CbtSubjectScore[]>(),
+  aggregateScore: integer("aggregate_score"), // out of 400
+  report: jsonb("report").$type<CbtGradingReport>(), // server-side grading, set on submission
   paymentId: varchar("payment_id"), // reference to payment
   startedAt: timestamp("started_at"),
   completedAt: timestamp("completed_at"),
@@ -224,7 +266,7 @@ export const studySessions = pgTable("study_sessions", {
   userId: varchar("user_id").notNull(),
   subjectId: varchar("subject_id").notNull(),
   subjectName: varchar("subject_name").notNull(),
-  sessionType: varchar("session_type").notNull(), // quiz, practice, review
+  sessionType: varchar("session_type").notNull(), // quiz, cbt, practice, review
   questionsAttempted: integer("questions_attempted").notNull(),
   correctAnswers: integer("correct_answers").notNull(),
   score: integer("score").notNull(),
@@ -239,7 +281,9 @@ export const studySessions = pgTable("study_sessions", {
     improvement: number; // compared to previous sessions
   }>(),
   createdAt: timestamp("created_at").defaultNow()
-});
+}, (table) => [
+  index("idx_study_sessions_user_completed").on(table.userId, table.completedAt),
+]);
 
 // Daily study goals and achievements
 export const dailyGoals = pgTable("daily_goals", {
@@ -255,7 +299,9 @@ export const dailyGoals = pgTable("daily_goals", {
   isCompleted: boolean("is_completed").default(false),
   completedAt: timestamp("completed_at"),
   createdAt: timestamp("created_at").defaultNow()
-});
+}, (table) => [
+  uniqueIndex("idx_daily_goals_user_date").on(table.userId, table.date),
+]);
 
 // Study achievements and badges
 export const achievements = pgTable("achievements", {
@@ -296,8 +342,11 @@ export const competitions = pgTable("competitions", {
   creatorId: varchar("creator_id").notNull(),
   maxParticipants: integer("max_participants").default(10),
   questionsCount: integer("questions_count").default(20),
-  timeLimit: integer("time_limit").default(3600),
-  status: varchar("status").default("waiting"),
+  timeLimit: integer("time_limit").default(3600), // seconds for the whole match, shared equally by its questions
+  status: varchar("status").default("waiting"), // waiting, running, finished
+  questionIds: jsonb("question_ids").$type<string[]>(), // the question set every participant gets, fixed at start
+  hostInstance: varchar("host_instance"), // server instance running the match in memory
+  heartbeatAt: timestamp("heartbeat_at"), // renewed by the host instance while the match runs
   startTime: timestamp("start_time"),
   endTime: timestamp("end_time"),
   createdAt: timestamp("created_at").defaultNow(),
@@ -310,10 +359,12 @@ export const competitionParticipants = pgTable("competition_participants", {
   userId: varchar("user_id").notNull(),
   score: integer("score").default(0),
   timeSpent: integer("time_spent").default(0),
-  answers: jsonb("answers").$type<Array<{ questionId: string; selectedAnswer: string; isCorrect: boolean }>>().notNull(),
+  answers: jsonb("answers").$type<Array<{ questionId: string; selectedAnswer: string; isCorrect: boolean; points?: number; responseMs?: number }>>().notNull(),
   rank: integer("rank"),
   joinedAt: timestamp("joined_at").defaultNow(),
-});
+}, (table) => [
+  uniqueIndex("idx_competition_participants_competition_user").on(table.competitionId, table.userId),
+]);
 
 // Analytics table
 export const analytics = pgTable("analytics", {
@@ -335,6 +386,12 @@ export const offlineCache = pgTable("offline_cache", {
   lastSynced: timestamp("last_synced").defaultNow(),
 });
 
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
 // Short notes for important JAMB topics
 export const shortNotes = pgTable("short_notes", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -355,8 +412,17 @@ export const shortNotes = pgTable("short_notes", {
   lastReviewed: timestamp("last_reviewed"),
   aiGenerated: boolean("ai_generated").default(false),
   createdAt: timestamp("created_at").defaultNow(),
-  updatedAt: timestamp("updated_at").defaultNow()
-});
+  updatedAt: timestamp("updated_at").defaultNow(),
+  // Full-text search document, weighted so title and topic matches rank above tags, key points and content
+  searchVector: tsvector("search_vector").generatedAlwaysAs(sql`
+    setweight(to_tsvector('english', coalesce(title, '') || ' ' || coalesce(topic, '')), 'A') ||
+    setweight(jsonb_to_tsvector('english', coalesce(tags, '[]'::jsonb) || coalesce(key_points, '[]'::jsonb), '["string"]'), 'B') ||
+    setweight(to_tsvector('english', coalesce(content, '')), 'C')
+  `),
+}, (table) => [
+  index("idx_short_notes_user_subject").on(table.userId, table.subjectId),
+  index("idx_short_notes_search").using("gin", table.searchVector),
+]);
 
 // Adaptive study scheduler
 export const studyScheduler = pgTable("study_scheduler", {
@@ -380,14 +446,43 @@ export const studyScheduler = pgTable("study_scheduler", {
     timeEfficiency?: number;
     improvement?: number;
   }>(),
-  nextScheduled: timestamp("next_scheduled"), // AI-calculated next review
-  repeatInterval: integer("repeat_interval").default(1), // days
-  streak: integer("streak").default(0),
+  nextScheduled: timestamp("next_scheduled"), // when the subject is next worth revisiting, from performance
+  repeatInterval: integer("repeat_interval"), // days between occurrences; null for one-off tasks
+  streak: integer("streak").default(0), // occurrences of a recurring task done in a row
   status: varchar("status").default("pending"), // pending, active, completed, skipped
+  source: varchar("source").default("manual"), // manual, plan (week planner), exam_plan (exam countdown plan)
+  examPlanId: varchar("exam_plan_id"),
+  topic: varchar("topic"), // syllabus topic of an exam plan session
   reminderSent: boolean("reminder_sent").default(false),
   createdAt: timestamp("created_at").defaultNow(),
+  startedAt: timestamp("started_at"),
   completedAt: timestamp("completed_at")
-});
+}, (table) => [
+  index("idx_study_scheduler_status_date").on(table.status, table.scheduledDate),
+  index("idx_study_scheduler_user_date").on(table.userId, table.scheduledDate),
+  index("idx_study_scheduler_exam_plan").on(table.examPlanId),
+]);
+
+// Exam countdown plans; their sessions are study_scheduler rows with exam_plan_id set
+export const examPlans = pgTable("exam_plans", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  examType: varchar("exam_type").notNull(), // UTME, WASSCE, NECO, POST_UTME
+  examDate: timestamp("exam_date").notNull(),
+  subjects: jsonb("subjects").$type<ExamPlanSubject[]>().notNull(),
+  dailyMinutes: integer("daily_minutes").notNull(),
+  topics: jsonb("topics").$type<ExamPlanTopic[]>().notNull(),
+  weakTopics: jsonb("weak_topics").$type<Record<string, string[]>>().default({}), // per subject, as of the last layout
+  unscheduledTopics: integer("unscheduled_topics").default(0), // topics that didn't fit before the exam
+  status: varchar("status").default("active"), // active, completed, cancelled
+  rebalanceCount: integer("rebalance_count").default(0),
+  lastRebalancedAt: timestamp("last_rebalanced_at").defaultNow(),
+  remindersSent: jsonb("reminders_sent").$type<number[]>().default([]), // days-left marks already reminded
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_exam_plans_user_status").on(table.userId, table.status),
+]);
 
 // Distraction-free study sessions
 export const focusSessions = pgTable("focus_sessions", {
@@ -396,73 +491,49 @@ export const focusSessions = pgTable("focus_sessions", {
   sessionName: varchar("session_name").notNull(),
   sessionType: varchar("session_type").notNull(), // deep_focus, pomodoro, timed_review, exam_prep
   duration: integer("duration").notNull(), // in seconds
-  timeRemaining: integer("time_remaining"),
+  timeRemaining: integer("time_remaining"), // seconds left in the current phase while paused; see getFocusTimeRemaining
   breakDuration: integer("break_duration").default(300), // 5 minutes default
   cyclesCompleted: integer("cycles_completed").default(0),
   totalCycles: integer("total_cycles").default(1),
   isActive: boolean("is_active").default(false),
   isPaused: boolean("is_paused").default(false),
   isCompleted: boolean("is_completed").default(false),
-  allowedActions: jsonb("allowed_actions").$type<{
-    quiz: boolean;
-    notes: boolean;
-    calculator: boolean;
-    wiki: boolean;
-  }>().default({ quiz: true, notes: true, calculator: false, wiki: false }),
+  phase: varchar("phase").$type<FocusPhase>().default("focus"),
+  phaseEndsAt: timestamp("phase_ends_at"), // while running; cleared on pause
+  allowedActions: jsonb("allowed_actions").$type<FocusAllowedActions>().default(FOCUS_DEFAULT_ALLOWED_ACTIONS),
   blockedSites: jsonb("blocked_sites").$type<string[]>().default([]),
   distractionCount: integer("distraction_count").default(0),
+  distractionEvents: jsonb("distraction_events").$type<FocusDistractionEvent[]>().default([]),
   focusScore: integer("focus_score").default(100), // decreases with distractions
   subjectsStudied: jsonb("subjects_studied").$type<string[]>().default([]),
-  tasksCompleted: jsonb("tasks_completed").$type<Array<{
-    type: string;
-    subject: string;
-    score?: number;
-    timeSpent: number;
-  }>>().default([]),
+  tasksCompleted: jsonb("tasks_completed").$type<FocusCompletedTask[]>().default([]), // set on completion
   startedAt: timestamp("started_at"),
   completedAt: timestamp("completed_at"),
   createdAt: timestamp("created_at").defaultNow()
-});
+}, (table) => [
+  index("idx_focus_sessions_user_active").on(table.userId, table.isActive),
+]);
 
 // Study session insights and adaptive recommendations
 export const studyInsights = pgTable("study_insights", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull(),
-  date: varchar("date").notNull(), // YYYY-MM-DD
+  date: varchar("date").notNull(), // YYYY-MM-DD, the Monday of the week
   weekOfYear: integer("week_of_year").notNull(),
-  productiveHours: jsonb("productive_hours").$type<Array<{
-    hour: number;
-    productivity: number; // 1-10 scale
-    tasksCompleted: number;
-  }>>().default([]),
+  productiveHours: jsonb("productive_hours").$type<InsightProductiveHour[]>().default([]),
   preferredStudyTime: varchar("preferred_study_time"), // morning, afternoon, evening, night
   averageFocusScore: integer("average_focus_score").default(0),
   totalStudyTime: integer("total_study_time").default(0),
   totalFocusTime: integer("total_focus_time").default(0),
-  distractionPatterns: jsonb("distraction_patterns").$type<Array<{
-    type: string;
-    frequency: number;
-    timeOfDay: string;
-  }>>().default([]),
-  subjectPerformance: jsonb("subject_performance").$type<Array<{
-    subject: string;
-    averageScore: number;
-    timeSpent: number;
-    improvement: number;
-  }>>().default([]),
-  recommendations: jsonb("recommendations").$type<Array<{
-    type: string;
-    message: string;
-    priority: string;
-    actionRequired: boolean;
-  }>>().default([]),
-  adaptiveAdjustments: jsonb("adaptive_adjustments").$type<{
-    scheduleChanges: Array<{ subject: string; newTime: string; reason: string }>;
-    difficultyAdjustments: Array<{ subject: string; newDifficulty: string; reason: string }>;
-    priorityUpdates: Array<{ subject: string; newPriority: string; reason: string }>;
-  }>(),
-  createdAt: timestamp("created_at").defaultNow()
-});
+  distractionPatterns: jsonb("distraction_patterns").$type<InsightDistractionPattern[]>().default([]),
+  subjectPerformance: jsonb("subject_performance").$type<InsightSubjectPerformance[]>().default([]),
+  recommendations: jsonb("recommendations").$type<InsightRecommendation[]>().default([]),
+  adaptiveAdjustments: jsonb("adaptive_adjustments").$type<InsightAdjustments>(),
+  adjustmentsAppliedAt: timestamp("adjustments_applied_at"), // when the adjustments were made to the user's scheduler
+  createdAt: timestamp("created_at").defaultNow() // when the week was last worked out; weeks still running are redone
+}, (table) => [
+  uniqueIndex("idx_study_insights_user_date").on(table.userId, table.date),
+]);
 
 // Explained questions table
 export const explainedQuestions = pgTable("explained_questions", {
@@ -493,7 +564,7 @@ export const questionReports = pgTable("question_reports", {
   reportType: varchar("report_type").notNull(), // 'incorrect_answer', 'unclear_question', 'typo', 'other'
   description: text("description"),
   questionText: text("question_text").notNull(),
-  questionOptions: jsonb("question_options").notNull(),
+  questionOptions: jsonb("question_options").$type<Array<{ id: string; text: string }>>().notNull(),
   correctAnswer: varchar("correct_answer").notNull(),
   userAnswer: varchar("user_answer"),
   subject: varchar("subject").notNull(),
@@ -504,13 +575,146 @@ export const questionReports = pgTable("question_reports", {
   isResolved: boolean("is_resolved").default(false),
   createdAt: timestamp("created_at").defaultNow(),
   reviewedAt: timestamp("reviewed_at"),
-  reviewedBy: varchar("reviewed_by")
+  reviewedBy: varchar("reviewed_by"),
+  notifiedAt: timestamp("notified_at"), // when the reporter was told the outcome
 }, (table) => [
   index("idx_question_reports_user").on(table.userId),
   index("idx_question_reports_question").on(table.questionId),
   index("idx_question_reports_status").on(table.status),
 ]);
 
+// Per-user question exposure log: every question served to a user and how they answered it
+export const questionExposures = pgTable("question_exposures", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  questionId: varchar("question_id").notNull(),
+  subjectId: varchar("subject_id").notNull(),
+  context: varchar("context").notNull(), // 'quiz', 'cbt'
+  sessionId: varchar("session_id"), // quiz or CBT session the question was served in
+  selectedAnswer: varchar("selected_answer"),
+  isCorrect: boolean("is_correct"), // null until the session is submitted
+  seenAt: timestamp("seen_at").defaultNow(),
+  answeredAt: timestamp("answered_at"),
+}, (table) => [
+  index("idx_question_exposures_user_subject").on(table.userId, table.subjectId),
+  index("idx_question_exposures_user_question").on(table.userId, table.questionId),
+  index("idx_question_exposures_session").on(table.sessionId),
+]);
+
+// SM-2 review schedule for questions a user has missed, one row per user and question
+export const reviewSchedules = pgTable("review_schedules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  questionId: varchar("question_id").notNull(),
+  subjectId: varchar("subject_id").notNull(),
+  easeFactor: real("ease_factor").notNull().default(2.5),
+  intervalDays: integer("interval_days").notNull().default(0),
+  repetitions: integer("repetitions").notNull().default(0), // correct reviews in a row
+  lapses: integer("lapses").notNull().default(0), // times the question was missed
+  lastQuality: integer("last_quality"), // 0-5 SM-2 grade of the latest answer
+  dueAt: timestamp("due_at").notNull(),
+  lastReviewedAt: timestamp("last_reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_review_schedules_user_question").on(table.userId, table.questionId),
+  index("idx_review_schedules_user_due").on(table.userId, table.dueAt),
+]);
+
+// Unlock codes generated in batches by admins; each grants its plan to up to maxRedemptions users
+export const unlockCodes = pgTable("unlock_codes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  code: varchar("code").notNull().unique(),
+  batchId: varchar("batch_id").notNull(),
+  planId: varchar("plan_id").notNull(), // key of ENTITLEMENT_PLANS
+  maxRedemptions: integer("max_redemptions").notNull().default(1),
+  redemptionCount: integer("redemption_count").notNull().default(0),
+  expiresAt: timestamp("expires_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdBy: varchar("created_by"),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_unlock_codes_batch").on(table.batchId),
+]);
+
+export const unlockCodeRedemptions = pgTable("unlock_code_redemptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  codeId: varchar("code_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  entitlementId: varchar("entitlement_id"),
+  redeemedAt: timestamp("redeemed_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_unlock_code_redemptions_code_user").on(table.codeId, table.userId),
+]);
+
+// One row per background job. The lease stops several server instances from running the same job at once.
+export const jobLocks = pgTable("job_locks", {
+  name: varchar("name").primaryKey(),
+  lockedBy: varchar("locked_by"), // instance holding the lease
+  lockedUntil: timestamp("locked_until").notNull(),
+  lastStartedAt: timestamp("last_started_at"),
+  lastFinishedAt: timestamp("last_finished_at"),
+  lastError: text("last_error"),
+  lastResult: jsonb("last_result").$type<Record<string, number>>(),
+});
+
+// Every notification sent to a user, one row per channel. Rows double as the delivery queue and log,
+// and in_app rows are the user's inbox.
+export const notifications = pgTable("notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  template: varchar("template").notNull(), // NotificationTemplate
+  channel: varchar("channel").notNull(), // email, sms, in_app
+  recipient: varchar("recipient").notNull(), // email address, phone number or user id
+  subject: varchar("subject"),
+  body: text("body").notNull(),
+  html: text("html"),
+  data: jsonb("data").$type<Record<string, unknown>>().default({}),
+  status: varchar("status").notNull().default("pending"), // NotificationStatus
+  attempts: integer("attempts").notNull().default(0),
+  attemptLog: jsonb("attempt_log").$type<NotificationAttempt[]>().default([]),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow(),
+  sentAt: timestamp("sent_at"),
+  readAt: timestamp("read_at"), // in_app only
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_notifications_status_next_attempt").on(table.status, table.nextAttemptAt),
+  index("idx_notifications_user_channel").on(table.userId, table.channel, table.createdAt),
+]);
+
+// What a user has access to and for how long; the source of users.isPremium
+export const entitlements = pgTable("entitlements", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  planId: varchar("plan_id").notNull(),
+  kind: varchar("kind").notNull(), // 'premium', 'cbt_attempts'
+  source: varchar("source").notNull(), // 'unlock_code', 'payment', 'admin', 'legacy'
+  sourceId: varchar("source_id"), // unlock code or payment id
+  startsAt: timestamp("starts_at").notNull().defaultNow(),
+  endsAt: timestamp("ends_at"), // null never expires
+  cbtAttemptsGranted: integer("cbt_attempts_granted"),
+  cbtAttemptsUsed: integer("cbt_attempts_used").notNull().default(0),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_entitlements_user").on(table.userId),
+  index("idx_entitlements_source").on(table.source, table.sourceId),
+]);
+
+// Who changed which bank question, and how. Rows outlive the questions they describe.
+export const questionAudits = pgTable("question_audits", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  questionId: varchar("question_id").notNull(),
+  adminId: varchar("admin_id").notNull(),
+  action: varchar("action").notNull(), // 'create', 'update', 'delete', 'import'
+  changes: jsonb("changes").$type<QuestionAuditChanges>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_question_audits_question").on(table.questionId, table.createdAt),
+]);
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   quizSessions: many(quizSessions),
@@ -578,6 +782,7 @@ export const questionReportsRelations = relations(questionReports, ({ one }) =>
 // Zod validation schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
+  notificationPreferences: true, // set through the notification preferences endpoint
   createdAt: true,
   updatedAt: true,
 });
@@ -611,6 +816,7 @@ export const insertStudyPlanContentSchema = createInsertSchema(studyPlanContent)
 export const insertCompetitionSchema = createInsertSchema(competitions).omit({
   id: true,
   createdAt: true,
+  questionIds: true,
 });
 
 export const insertCompetitionParticipantSchema = createInsertSchema(competitionParticipants).omit({
@@ -663,9 +869,17 @@ export const insertExplainedQuestionSchema = createInsertSchema(explainedQuestio
   explainedAt: true,
 });
 
+export const insertQuestionExposureSchema = createInsertSchema(questionExposures).omit({
+  id: true,
+  seenAt: true,
+});
+
 export const insertPaymentSchema = createInsertSchema(payments).omit({
   id: true,
   createdAt: true,
+  fulfilledAt: true,
+  refundedAt: true,
+  webhookEvents: true,
 });
 
 export const insertCbtSessionSchema = createInsertSchema(cbtSessions).omit({
@@ -689,15 +903,20 @@ export type Subject = typeof subjects.$inferSelect;
 export type InsertSubject = z.infer<typeof insertSubjectSchema>;
 export type Question = typeof questions.$inferSelect;
 export type InsertQuestion = z.infer<typeof insertQuestionSchema>;
+export type NewQuestion = typeof questions.$inferInsert; // insert shape with typed jsonb options
 export type QuizSession = typeof quizSessions.$inferSelect;
 export type InsertQuizSession = z.infer<typeof insertQuizSessionSchema>;
 export type StudyProgress = typeof studyProgress.$inferSelect;
 export type InsertStudyProgress = z.infer<typeof insertStudyProgressSchema>;
+export type StudySession = typeof studySessions.$inferSelect;
+export type InsertStudySession = typeof studySessions.$inferInsert;
+export type DailyGoal = typeof dailyGoals.$inferSelect;
 export type StudyPlanContent = typeof studyPlanContent.$inferSelect;
 export type InsertStudyPlanContent = z.infer<typeof insertStudyPlanContentSchema>;
 export type Competition = typeof competitions.$inferSelect;
 export type InsertCompetition = z.infer<typeof insertCompetitionSchema>;
 export type CompetitionParticipant = typeof competitionParticipants.$inferSelect;
+export type NewCompetitionParticipant = typeof competitionParticipants.$inferInsert;
 export type InsertCompetitionParticipant = z.infer<typeof insertCompetitionParticipantSchema>;
 export type Analytics = typeof analytics.$inferSelect;
 export type InsertAnalytics = z.infer<typeof insertAnalyticsSchema>;
@@ -705,17 +924,37 @@ export type OfflineCache = typeof offlineCache.$inferSelect;
 export type InsertOfflineCache = z.infer<typeof insertOfflineCacheSchema>;
 export type ExplainedQuestion = typeof explainedQuestions.$inferSelect;
 export type InsertExplainedQuestion = z.infer<typeof insertExplainedQuestionSchema>;
+export type ReviewSchedule = typeof reviewSchedules.$inferSelect;
+export type InsertReviewSchedule = typeof reviewSchedules.$inferInsert;
+export type QuestionExposure = typeof questionExposures.$inferSelect;
+export type InsertQuestionExposure = z.infer<typeof insertQuestionExposureSchema>;
+export type UnlockCode = typeof unlockCodes.$inferSelect;
+export type InsertUnlockCode = typeof unlockCodes.$inferInsert;
+export type UnlockCodeRedemption = typeof unlockCodeRedemptions.$inferSelect;
+export type Entitlement = typeof entitlements.$inferSelect;
+export type InsertEntitlement = typeof entitlements.$inferInsert;
+export type QuestionReport = typeof questionReports.$inferSelect;
+export type InsertQuestionReport = typeof questionReports.$inferInsert;
+export type QuestionAudit = typeof questionAudits.$inferSelect;
+export type InsertQuestionAudit = typeof questionAudits.$inferInsert;
 export type Payment = typeof payments.$inferSelect;
 export type InsertPayment = z.infer<typeof insertPaymentSchema>;
+export type PaymentWebhookEvent = NonNullable<Payment['webhookEvents']>[number];
+export type Notification = typeof notifications.$inferSelect;
+export type JobLock = typeof jobLocks.$inferSelect;
+export type InsertNotification = typeof notifications.$inferInsert;
 export type CbtSession = typeof cbtSessions.$inferSelect;
 export type InsertCbtSession = z.infer<typeof insertCbtSessionSchema>;
 
 // New feature types
-export type ShortNote = typeof shortNotes.$inferSelect;
+// The search vector never leaves the database
+export type ShortNote = Omit<typeof shortNotes.$inferSelect, 'searchVector'>;
 export type InsertShortNote = z.infer<typeof insertShortNotesSchema>;
 export type StudyScheduler = typeof studyScheduler.$inferSelect;
-export type InsertStudyScheduler = z.infer<typeof insertStudySchedulerSchema>;
+export type InsertStudyScheduler = typeof studyScheduler.$inferInsert;
+export type ExamPlan = typeof examPlans.$inferSelect;
+export type InsertExamPlan = typeof examPlans.$inferInsert;
 export type FocusSession = typeof focusSessions.$inferSelect;
-export type InsertFocusSession = z.infer<typeof insertFocusSessionSchema>;
+export type InsertFocusSession = typeof focusSessions.$inferInsert;
 export type StudyInsights = typeof studyInsights.$inferSelect;
-export type InsertStudyInsights = z.infer<typeof insertStudyInsightsSchema>;
\ No newline at end of file
+export type InsertStudyInsights = typeof studyInsights.$inferInsert;
\ No newline at end of file
@@ -0,0 +1,40 @@
+// Short revision notes: search filters, AI generation requests and spaced review of notes.
+
+export const SHORT_NOTE_DIFFICULTIES = ['easy', 'medium', 'hard'] as const;
+export type ShortNoteDifficulty = typeof SHORT_NOTE_DIFFICULTIES[number];
+
+// Days from one review of a note to the next; the nth review waits the nth interval, the last one repeats
+export const SHORT_NOTE_REVIEW_INTERVAL_DAYS = [1, 3, 7, 14, 30];
+
+// Opening a note again within this window doesn't count as another review
+export const SHORT_NOTE_REVIEW_MIN_GAP_MINUTES = 60;
+
+export const SHORT_NOTE_MAX_SOURCE_QUESTIONS = 10;
+
+export interface ShortNoteFilters {
+  subjectId?: string;
+  difficulty?: string;
+  search?: string; // full-text over title, topic, content, key points and tags
+  bookmarked?: boolean;
+  limit?: number;
+}
+
+// Generate a note on a topic, or summarise a set of the user's explained questions
+export interface ShortNoteGenerationRequest {
+  subjectId: string;
+  topic?: string;
+  explainedQuestionIds?: string[];
+  difficulty?: ShortNoteDifficulty;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * When a note is next due for review: a day after it was written, then further apart with each review
+ */
+export function getShortNoteNextReview(note: { reviewCount: number | null; lastReviewed: Date | string | null; createdAt: Date | string | null }): Date {
+  const reviews = note.reviewCount || 0;
+  const interval = SHORT_NOTE_REVIEW_INTERVAL_DAYS[Math.min(Math.max(reviews, 1), SHORT_NOTE_REVIEW_INTERVAL_DAYS.length) - 1];
+  const from = new Date(note.lastReviewed || note.createdAt || Date.now());
+  return new Date(from.getTime() + interval * DAY_MS);
+}
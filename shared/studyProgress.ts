@@ -0,0 +1,32 @@
+// Per-subject study progress, daily goals and study sessions built from completed quizzes and CBT exams.
+
+// Defaults for a day with no daily_goals row yet; the time goal is in seconds
+export const DEFAULT_DAILY_GOALS = {
+  questionsGoal: 10,
+  timeGoal: 1800,
+  subjectsGoal: 2,
+};
+
+// A topic needs this many answers before it can be called weak or strong
+export const STUDY_TOPIC_MIN_ANSWERS = 3;
+export const WEAK_TOPIC_MAX_ACCURACY = 50;
+export const STRONG_TOPIC_MIN_ACCURACY = 80;
+export const STUDY_TOPICS_LISTED = 5;
+
+// From this local hour, students who studied a subject yesterday but not yet today are reminded
+// (streak_at_risk) before the streak resets at midnight. Shorter streaks aren't worth a reminder.
+export const STREAK_REMINDER_HOUR = 18;
+export const STREAK_REMINDER_MIN_DAYS = 2;
+
+export type StudySessionType = 'quiz' | 'cbt';
+
+export interface DailyGoalProgress {
+  date: string; // YYYY-MM-DD (UTC)
+  questionsGoal: number;
+  questionsCompleted: number;
+  timeGoal: number; // seconds
+  timeSpent: number; // seconds
+  subjectsGoal: number;
+  subjectsStudied: number;
+  isCompleted: boolean;
+}
@@ -0,0 +1,133 @@
+// JAMB UTME exam layout shared by the CBT server routes and the exam UI
+
+export const UTME_SUBJECT_COUNT = 4;
+export const UTME_ENGLISH_QUESTIONS = 60;
+export const UTME_SUBJECT_QUESTIONS = 40;
+export const UTME_TOTAL_QUESTIONS = UTME_ENGLISH_QUESTIONS + UTME_SUBJECT_QUESTIONS * (UTME_SUBJECT_COUNT - 1); // 180
+export const UTME_DURATION_SECONDS = 2 * 60 * 60; // 2 hours for the whole paper
+export const UTME_MAX_SUBJECT_SCORE = 100;
+export const UTME_MAX_AGGREGATE = UTME_MAX_SUBJECT_SCORE * UTME_SUBJECT_COUNT; // 400
+
+// One subject's block of questions inside a CBT session's question list
+export interface CbtSection {
+  subjectId: string;
+  subjectName: string;
+  startIndex: number;
+  questionCount: number;
+}
+
+export interface CbtSubjectScore {
+  subjectId: string;
+  subject: string;
+  correct: number;
+  total: number;
+  score: number; // scaled to UTME_MAX_SUBJECT_SCORE
+}
+
+export function isEnglishSubject(subject: { name: string }): boolean {
+  return /^(use of )?english( language)?$/i.test(subject.name.trim());
+}
+
+/**
+ * Put Use of English first, as on the real paper, keeping the candidate's order for the rest
+ */
+export function orderUtmeSubjects<T extends { name: string }>(subjects: T[]): T[] {
+  return [...subjects.filter(isEnglishSubject), ...subjects.filter(s => !isEnglishSubject(s))];
+}
+
+export function utmeQuestionCount(subject: { name: string }): number {
+  return isEnglishSubject(subject) ? UTME_ENGLISH_QUESTIONS : UTME_SUBJECT_QUESTIONS;
+}
+
+/**
+ * Check a candidate's subject combination: four distinct subjects including English
+ */
+export function validateUtmeSubjects(subjects: Array<{ id: string; name: string }> | undefined): string | null {
+  if (!Array.isArray(subjects) || subjects.length !== UTME_SUBJECT_COUNT) {
+    return `Exactly ${UTME_SUBJECT_COUNT} subjects are required`;
+  }
+  if (new Set(subjects.map(s => s.id)).size !== subjects.length) {
+    return "Subjects must be distinct";
+  }
+  if (subjects.filter(isEnglishSubject).length !== 1) {
+    return "Use of English is compulsory in UTME";
+  }
+  return null;
+}
+
+/**
+ * Score each section out of 100 and sum them into the UTME aggregate out of 400.
+ * Answers are keyed by the question's position in the session's question list.
+ */
+export function scoreUtmeSections(
+  sections: CbtSection[],
+  questions: Array<{ correctAnswer: string }>,
+  answers: Record<number | string, string | undefined>,
+): { subjectScores: CbtSubjectScore[]; aggregateScore: number } {
+  const subjectScores = sections.map(section => {
+    let correct = 0;
+    for (let i = section.startIndex; i < section.startIndex + section.questionCount; i++) {
+      const answer = answers[i];
+      if (answer && questions[i] && answer.toUpperCase() === questions[i].correctAnswer.toUpperCase()) {
+        correct++;
+      }
+    }
+    return {
+      subjectId: section.subjectId,
+      subject: section.subjectName,
+      correct,
+      total: section.questionCount,
+      score: section.questionCount > 0 ? Math.round((correct / section.questionCount) * UTME_MAX_SUBJECT_SCORE) : 0,
+    };
+  });
+
+  return {
+    subjectScores,
+    aggregateScore: subjectScores.reduce((sum, s) => sum + s.score, 0),
+  };
+}
+
+// One answer choice as recorded by the server while the exam is running
+export interface CbtAnswerEvent {
+  questionIndex: number;
+  questionId: string;
+  answer: string | null; // null when the candidate cleared their choice
+  answeredAt: string; // ISO timestamp
+  elapsedSeconds: number; // exam time used when the answer was chosen, excluding pauses
+  timeSpent: number; // seconds since the previous answer event
+}
+
+export interface CbtAccuracyBreakdown {
+  label: string;
+  correct: number;
+  answered: number;
+  total: number;
+  accuracy: number; // percentage of all questions in the group answered correctly
+}
+
+export interface CbtQuestionResult {
+  index: number;
+  questionId: string;
+  subject: string;
+  topic?: string;
+  year?: string;
+  selectedAnswer: string | null;
+  correctAnswer: string;
+  isCorrect: boolean;
+  timeSpent: number;
+}
+
+export interface CbtGradingReport {
+  totalQuestions: number;
+  answered: number;
+  unanswered: number;
+  correct: number;
+  aggregateScore: number;
+  maxAggregate: number;
+  subjects: CbtSubjectScore[];
+  topics: CbtAccuracyBreakdown[];
+  years: CbtAccuracyBreakdown[];
+  totalTimeSpent: number; // seconds
+  averageTimePerQuestion: number; // seconds, over answered questions
+  questions: CbtQuestionResult[];
+}